@@ -4,6 +4,16 @@ import path from 'path';
 // Load environment variables from .env file
 dotenv.config();
 
+const parseTrustProxy = (value?: string): boolean | number | string => {
+  if (!value || value === 'false') {
+    return false;
+  }
+  if (value === 'true') {
+    return true;
+  }
+  return /^\d+$/.test(value) ? parseInt(value, 10) : value;
+};
+
 const config = {
   env: process.env.NODE_ENV || 'development',
 
@@ -11,6 +21,9 @@ const config = {
   server: {
     port: parseInt(process.env.PORT || '3000', 10),
     apiPrefix: process.env.API_PREFIX || '/api/v1',
+    // Express 'trust proxy' setting, so client IPs are read from X-Forwarded-For behind a proxy:
+    // a hop count, true, or a list of trusted addresses
+    trustProxy: parseTrustProxy(process.env.TRUST_PROXY),
   },
 
   // Database configuration
@@ -24,10 +37,10 @@ const config = {
     idleTimeout: parseInt(process.env.POSTGRES_IDLE_TIMEOUT || '30000', 10),
   },
 
-  // JWT configuration
+  // JWT configuration: short-lived access tokens, renewed with rotating refresh tokens
   jwt: {
     secret: Buffer.from(process.env.JWT_SECRET || 'default_jwt_secret_key', 'utf-8'),
-    expiresIn: process.env.JWT_EXPIRES_IN || '7d',
+    expiresIn: process.env.JWT_EXPIRES_IN || '15m',
     refreshSecret: Buffer.from(
       process.env.JWT_REFRESH_SECRET || 'default_refresh_secret_key',
       'utf-8',
@@ -35,6 +48,178 @@ const config = {
     refreshExpiresIn: process.env.JWT_REFRESH_EXPIRES_IN || '30d',
   },
 
+  // Request authentication: accounts behind access tokens are re-read after this long
+  auth: {
+    accountCacheTtlSeconds: parseInt(process.env.AUTH_ACCOUNT_CACHE_TTL_SECONDS || '30', 10),
+    accountCacheMaxEntries: parseInt(process.env.AUTH_ACCOUNT_CACHE_MAX_ENTRIES || '10000', 10),
+  },
+
+  // Email verification and password reset. Without verification required, accounts can sign
+  // in straight after registering and the verification email is only informative.
+  accountEmails: {
+    requireVerification: process.env.AUTH_REQUIRE_EMAIL_VERIFICATION !== 'false',
+    verificationTtlHours: parseInt(process.env.AUTH_EMAIL_VERIFICATION_TTL_HOURS || '48', 10),
+    passwordResetTtlMinutes: parseInt(process.env.AUTH_PASSWORD_RESET_TTL_MINUTES || '60', 10),
+  },
+
+  // Outgoing email. Links in emails point at the frontend (appUrl). The console transport logs
+  // messages and the file transport writes them to outboxDir, so neither needs a mail server.
+  mail: {
+    transport: process.env.MAIL_TRANSPORT || 'console',
+    from: process.env.MAIL_FROM || 'Instant Ambulance <no-reply@instant-ambulance.local>',
+    outboxDir: process.env.MAIL_OUTBOX_DIR || path.join(process.cwd(), 'mail-outbox'),
+    appUrl: process.env.APP_URL || 'http://localhost:5173',
+  },
+
+  // Request throttling. Requests are counted per client IP (and per account where noted) in
+  // fixed windows; the postgres store shares the counters between API instances.
+  rateLimit: {
+    enabled: process.env.RATE_LIMIT_ENABLED !== 'false',
+    store: process.env.RATE_LIMIT_STORE || 'memory',
+    api: {
+      windowSeconds: parseInt(process.env.RATE_LIMIT_API_WINDOW_SECONDS || '60', 10),
+      maxPerIp: parseInt(process.env.RATE_LIMIT_API_MAX || '300', 10),
+    },
+    login: {
+      windowSeconds: parseInt(process.env.RATE_LIMIT_LOGIN_WINDOW_SECONDS || '900', 10),
+      maxPerIp: parseInt(process.env.RATE_LIMIT_LOGIN_MAX || '30', 10),
+    },
+    // Registration, verification resends and password resets, which all send email
+    accountEmails: {
+      windowSeconds: parseInt(process.env.RATE_LIMIT_ACCOUNT_EMAIL_WINDOW_SECONDS || '3600', 10),
+      maxPerIp: parseInt(process.env.RATE_LIMIT_ACCOUNT_EMAIL_MAX || '10', 10),
+    },
+    emergencyCreate: {
+      windowSeconds: parseInt(process.env.RATE_LIMIT_EMERGENCY_WINDOW_SECONDS || '3600', 10),
+      maxPerIp: parseInt(process.env.RATE_LIMIT_EMERGENCY_MAX_PER_IP || '20', 10),
+      maxPerUser: parseInt(process.env.RATE_LIMIT_EMERGENCY_MAX_PER_USER || '5', 10),
+    },
+  },
+
+  // Login lockout: after maxFailures failed logins for an email address within windowMinutes,
+  // the address is locked for baseLockoutSeconds, doubling with every further failure
+  loginLockout: {
+    maxFailures: parseInt(process.env.LOGIN_LOCKOUT_MAX_FAILURES || '5', 10),
+    windowMinutes: parseInt(process.env.LOGIN_LOCKOUT_WINDOW_MINUTES || '15', 10),
+    baseLockoutSeconds: parseInt(process.env.LOGIN_LOCKOUT_BASE_SECONDS || '60', 10),
+    maxLockoutMinutes: parseInt(process.env.LOGIN_LOCKOUT_MAX_MINUTES || '60', 10),
+  },
+
+  // Emergency requests a user can have open (not yet completed or cancelled) at the same time
+  emergency: {
+    maxOpenPerUser: parseInt(process.env.EMERGENCY_MAX_OPEN_PER_USER || '2', 10),
+  },
+
+  // Emergency contact notifications. notifiers lists the channels used, any of log, sms, email
+  // and webhook. Status links stay valid while the request is open and for statusLinkTtlHours
+  // after it is completed or cancelled.
+  contactNotifications: {
+    notifiers: (process.env.CONTACT_NOTIFIERS || 'log')
+      .split(',')
+      .map((name) => name.trim())
+      .filter(Boolean),
+    statusLinkTtlHours: parseInt(process.env.CONTACT_STATUS_LINK_TTL_HOURS || '24', 10),
+    sms: {
+      gatewayUrl: process.env.SMS_GATEWAY_URL || '',
+      apiKey: process.env.SMS_GATEWAY_API_KEY || '',
+      sender: process.env.SMS_SENDER || 'InstantAmb',
+    },
+    // Webhook bodies are signed with an HMAC-SHA256 of the body in X-Signature when secret is set
+    webhook: {
+      url: process.env.CONTACT_WEBHOOK_URL || '',
+      secret: process.env.CONTACT_WEBHOOK_SECRET || '',
+    },
+  },
+
+  // Hospital dispatch configuration
+  dispatch: {
+    offerTimeoutSeconds: parseInt(process.env.DISPATCH_OFFER_TIMEOUT_SECONDS || '60', 10),
+    searchRadiusKm: parseFloat(process.env.DISPATCH_SEARCH_RADIUS_KM || '50'),
+    maxHospitals: parseInt(process.env.DISPATCH_MAX_HOSPITALS || '10', 10),
+    // A hospital whose specialty suits the emergency is offered it before general hospitals
+    // up to this many kilometres closer
+    specialtyPreferenceKm: parseFloat(process.env.DISPATCH_SPECIALTY_PREFERENCE_KM || '10'),
+  },
+
+  // Live bed availability: figures a hospital has not updated for this long are flagged as stale
+  // and no longer steer dispatch
+  capacity: {
+    staleAfterMinutes: parseInt(process.env.CAPACITY_STALE_AFTER_MINUTES || '60', 10),
+  },
+
+  // Hospital diversion: how long a single diversion may last and how far away other hospitals
+  // are still told about it
+  diversion: {
+    maxDurationHours: parseInt(process.env.DIVERSION_MAX_DURATION_HOURS || '24', 10),
+    neighbourRadiusKm: parseFloat(process.env.DIVERSION_NEIGHBOUR_RADIUS_KM || '25'),
+  },
+
+  // Hospital service areas: the radius served by hospitals that have not set an area, the
+  // largest radius allowed, and how many kilometres closer each severity level ranks a request
+  // in the urgency-ordered pending queue
+  serviceArea: {
+    defaultRadiusKm: parseFloat(process.env.SERVICE_AREA_DEFAULT_RADIUS_KM || '50'),
+    maxRadiusKm: parseFloat(process.env.SERVICE_AREA_MAX_RADIUS_KM || '200'),
+    severityWeightKm: parseFloat(process.env.SERVICE_AREA_SEVERITY_WEIGHT_KM || '10'),
+  },
+
+  // Hospital driver fleets
+  fleet: {
+    invitationTtlHours: parseInt(process.env.FLEET_INVITATION_TTL_HOURS || '72', 10),
+  },
+
+  // Location milestones recorded in the emergency audit trail
+  tracking: {
+    approachingPickupRadiusMeters: parseInt(
+      process.env.TRACKING_APPROACHING_PICKUP_RADIUS_METERS || '500',
+      10,
+    ),
+  },
+
+  // Admin console: live requests without progress for this long are flagged as stuck
+  admin: {
+    stuckAfterMinutes: parseInt(process.env.ADMIN_STUCK_AFTER_MINUTES || '10', 10),
+  },
+
+  // Driver ranking for suggested and automatic assignment (penalties are in km)
+  driverRanking: {
+    maxDistanceKm: parseFloat(process.env.DRIVER_RANKING_MAX_DISTANCE_KM || '30'),
+    workloadWindowHours: parseInt(process.env.DRIVER_RANKING_WORKLOAD_WINDOW_HOURS || '24', 10),
+    workloadPenaltyKm: parseFloat(process.env.DRIVER_RANKING_WORKLOAD_PENALTY_KM || '2'),
+    staleLocationMinutes: parseInt(process.env.DRIVER_RANKING_STALE_LOCATION_MINUTES || '15', 10),
+    staleLocationPenaltyKm: parseFloat(process.env.DRIVER_RANKING_STALE_LOCATION_PENALTY_KM || '3'),
+    defaultVehiclePenaltyKm: 2,
+    vehiclePenaltyKm: {
+      'advanced life support': 0,
+      'basic life support': 0.5,
+      ambulance: 0.5,
+      'patient transport': 4,
+    } as Record<string, number>,
+  },
+
+  // ETA estimation: straight-line distance is stretched by roadFactor and driven at the
+  // vehicle's base speed, scaled by the multiplier for the current time of day
+  eta: {
+    roadFactor: parseFloat(process.env.ETA_ROAD_FACTOR || '1.3'),
+    speedProfile: process.env.ETA_SPEED_PROFILE
+      ? JSON.parse(process.env.ETA_SPEED_PROFILE)
+      : {
+          defaultSpeedKmh: 40,
+          vehicleSpeedsKmh: {
+            ambulance: 45,
+            'basic life support': 45,
+            'advanced life support': 42,
+            'patient transport': 38,
+            motorcycle: 55,
+          },
+          timeOfDay: [
+            { startHour: 7, endHour: 10, multiplier: 0.6 },
+            { startHour: 16, endHour: 20, multiplier: 0.6 },
+            { startHour: 22, endHour: 6, multiplier: 1.2 },
+          ],
+        },
+  },
+
   // Logging configuration
   logging: {
     level: process.env.LOG_LEVEL || 'info',
@@ -0,0 +1,318 @@
+import { Request, Response, NextFunction } from 'express';
+import { AdminService } from '../services/admin.service';
+import { HospitalReviewStatus } from '../services/hospital.service';
+import { logger } from '../utils/logger';
+import { JwtPayload, UserRole } from '../middleware/auth';
+
+class AdminController {
+  private adminService: AdminService;
+
+  constructor() {
+    this.adminService = new AdminService();
+    this.getUsers = this.getUsers.bind(this);
+    this.getHospitals = this.getHospitals.bind(this);
+    this.getHospitalRegistrations = this.getHospitalRegistrations.bind(this);
+    this.approveHospital = this.approveHospital.bind(this);
+    this.rejectHospital = this.rejectHospital.bind(this);
+    this.getDrivers = this.getDrivers.bind(this);
+    this.suspendUser = this.suspendUser.bind(this);
+    this.reactivateUser = this.reactivateUser.bind(this);
+    this.suspendHospital = this.suspendHospital.bind(this);
+    this.reactivateHospital = this.reactivateHospital.bind(this);
+    this.suspendDriver = this.suspendDriver.bind(this);
+    this.reactivateDriver = this.reactivateDriver.bind(this);
+    this.getLiveEmergencies = this.getLiveEmergencies.bind(this);
+    this.reassignEmergency = this.reassignEmergency.bind(this);
+  }
+
+  /**
+   * List user accounts
+   * @param req Request
+   * @param res Response
+   * @param next NextFunction
+   */
+  async getUsers(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const role = req.query.role as UserRole | undefined;
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 20;
+
+      const result = await this.adminService.getUsers(role, page, limit);
+
+      res.status(200).json(result);
+    } catch (error) {
+      logger.error('Error getting users', { error });
+      next(error);
+    }
+  }
+
+  /**
+   * List hospitals
+   * @param req Request
+   * @param res Response
+   * @param next NextFunction
+   */
+  async getHospitals(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 20;
+
+      const result = await this.adminService.getHospitals(page, limit);
+
+      res.status(200).json(result);
+    } catch (error) {
+      logger.error('Error getting hospitals', { error });
+      next(error);
+    }
+  }
+
+  /**
+   * List hospital registrations by review status, pending by default
+   * @param req Request
+   * @param res Response
+   * @param next NextFunction
+   */
+  async getHospitalRegistrations(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const status = (req.query.status as HospitalReviewStatus) || HospitalReviewStatus.PENDING;
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 20;
+
+      const result = await this.adminService.getHospitalRegistrations(status, page, limit);
+
+      res.status(200).json(result);
+    } catch (error) {
+      logger.error('Error getting hospital registrations', { error });
+      next(error);
+    }
+  }
+
+  /**
+   * Approve a hospital registration
+   * @param req Request
+   * @param res Response
+   * @param next NextFunction
+   */
+  async approveHospital(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const adminId = (req.user as JwtPayload).id;
+
+      const result = await this.adminService.reviewHospital(req.params.hospitalId, true, adminId);
+
+      res.status(200).json(result);
+    } catch (error) {
+      logger.error('Error approving hospital', { error });
+      next(error);
+    }
+  }
+
+  /**
+   * Reject a hospital registration
+   * @param req Request
+   * @param res Response
+   * @param next NextFunction
+   */
+  async rejectHospital(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const adminId = (req.user as JwtPayload).id;
+
+      const result = await this.adminService.reviewHospital(
+        req.params.hospitalId,
+        false,
+        adminId,
+        req.body.reason,
+      );
+
+      res.status(200).json(result);
+    } catch (error) {
+      logger.error('Error rejecting hospital', { error });
+      next(error);
+    }
+  }
+
+  /**
+   * List drivers
+   * @param req Request
+   * @param res Response
+   * @param next NextFunction
+   */
+  async getDrivers(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 20;
+
+      const result = await this.adminService.getDrivers(page, limit);
+
+      res.status(200).json(result);
+    } catch (error) {
+      logger.error('Error getting drivers', { error });
+      next(error);
+    }
+  }
+
+  /**
+   * Suspend a user account
+   * @param req Request
+   * @param res Response
+   * @param next NextFunction
+   */
+  async suspendUser(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const adminId = (req.user as JwtPayload).id;
+
+      const result = await this.adminService.setAccountActive(req.params.userId, false, adminId);
+
+      res.status(200).json(result);
+    } catch (error) {
+      logger.error('Error suspending user', { error });
+      next(error);
+    }
+  }
+
+  /**
+   * Reactivate a user account
+   * @param req Request
+   * @param res Response
+   * @param next NextFunction
+   */
+  async reactivateUser(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const adminId = (req.user as JwtPayload).id;
+
+      const result = await this.adminService.setAccountActive(req.params.userId, true, adminId);
+
+      res.status(200).json(result);
+    } catch (error) {
+      logger.error('Error reactivating user', { error });
+      next(error);
+    }
+  }
+
+  /**
+   * Suspend a hospital
+   * @param req Request
+   * @param res Response
+   * @param next NextFunction
+   */
+  async suspendHospital(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const adminId = (req.user as JwtPayload).id;
+
+      const result = await this.adminService.setHospitalActive(
+        req.params.hospitalId,
+        false,
+        adminId,
+      );
+
+      res.status(200).json(result);
+    } catch (error) {
+      logger.error('Error suspending hospital', { error });
+      next(error);
+    }
+  }
+
+  /**
+   * Reactivate a hospital
+   * @param req Request
+   * @param res Response
+   * @param next NextFunction
+   */
+  async reactivateHospital(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const adminId = (req.user as JwtPayload).id;
+
+      const result = await this.adminService.setHospitalActive(
+        req.params.hospitalId,
+        true,
+        adminId,
+      );
+
+      res.status(200).json(result);
+    } catch (error) {
+      logger.error('Error reactivating hospital', { error });
+      next(error);
+    }
+  }
+
+  /**
+   * Suspend a driver
+   * @param req Request
+   * @param res Response
+   * @param next NextFunction
+   */
+  async suspendDriver(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const adminId = (req.user as JwtPayload).id;
+
+      const result = await this.adminService.setDriverActive(req.params.driverId, false, adminId);
+
+      res.status(200).json(result);
+    } catch (error) {
+      logger.error('Error suspending driver', { error });
+      next(error);
+    }
+  }
+
+  /**
+   * Reactivate a driver
+   * @param req Request
+   * @param res Response
+   * @param next NextFunction
+   */
+  async reactivateDriver(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const adminId = (req.user as JwtPayload).id;
+
+      const result = await this.adminService.setDriverActive(req.params.driverId, true, adminId);
+
+      res.status(200).json(result);
+    } catch (error) {
+      logger.error('Error reactivating driver', { error });
+      next(error);
+    }
+  }
+
+  /**
+   * Get all open emergency requests
+   * @param req Request
+   * @param res Response
+   * @param next NextFunction
+   */
+  async getLiveEmergencies(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const result = await this.adminService.getLiveEmergencies();
+
+      res.status(200).json(result);
+    } catch (error) {
+      logger.error('Error getting live emergencies', { error });
+      next(error);
+    }
+  }
+
+  /**
+   * Reassign an emergency request to another hospital
+   * @param req Request
+   * @param res Response
+   * @param next NextFunction
+   */
+  async reassignEmergency(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const adminId = (req.user as JwtPayload).id;
+      const { hospitalId, reason } = req.body;
+
+      const result = await this.adminService.reassignEmergency(
+        req.params.requestId,
+        hospitalId,
+        adminId,
+        reason,
+      );
+
+      res.status(200).json(result);
+    } catch (error) {
+      logger.error('Error reassigning emergency request', { error });
+      next(error);
+    }
+  }
+}
+
+export default new AdminController();
@@ -6,6 +6,7 @@ import authService, {
   LoginData,
 } from '../services/auth.service';
 import { ApiError } from '../middleware/errorHandler';
+import { JwtPayload } from '../middleware/auth';
 import { logger } from '../utils/logger';
 
 class AuthController {
@@ -53,6 +54,8 @@ class AuthController {
         latitude: req.body.latitude,
         longitude: req.body.longitude,
         maxCapacity: req.body.maxCapacity,
+        licenseNumber: req.body.licenseNumber,
+        hospitalType: req.body.hospitalType,
       };
 
       const result = await authService.registerHospital(hospitalData);
@@ -78,6 +81,8 @@ class AuthController {
         phoneNumber: req.body.phoneNumber,
         password: req.body.password,
         licenseNumber: req.body.licenseNumber,
+        hospitalId: req.body.hospitalId,
+        inviteCode: req.body.inviteCode,
       };
 
       const result = await authService.registerDriver(driverData);
@@ -109,6 +114,119 @@ class AuthController {
       next(error);
     }
   }
+
+  /**
+   * Exchange a refresh token for new tokens
+   * @param req Request
+   * @param res Response
+   * @param next NextFunction
+   */
+  async refreshToken(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const result = await authService.refreshToken(req.body.refreshToken);
+
+      res.status(200).json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Sign out of the current session
+   * @param req Request
+   * @param res Response
+   * @param next NextFunction
+   */
+  async logout(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const result = await authService.logout(req.body.refreshToken);
+
+      res.status(200).json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Sign out of every session of the authenticated account
+   * @param req Request
+   * @param res Response
+   * @param next NextFunction
+   */
+  async logoutAll(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.user as JwtPayload;
+      const result = await authService.logoutAll(id);
+
+      res.status(200).json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Verify an email address
+   * @param req Request
+   * @param res Response
+   * @param next NextFunction
+   */
+  async verifyEmail(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const result = await authService.verifyEmail(req.body.token);
+
+      res.status(200).json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Send a new email verification link
+   * @param req Request
+   * @param res Response
+   * @param next NextFunction
+   */
+  async resendVerificationEmail(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const result = await authService.resendVerificationEmail(req.body.email);
+
+      res.status(200).json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Send a password reset link
+   * @param req Request
+   * @param res Response
+   * @param next NextFunction
+   */
+  async forgotPassword(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const result = await authService.requestPasswordReset(req.body.email);
+
+      res.status(200).json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Set a new password with a reset token
+   * @param req Request
+   * @param res Response
+   * @param next NextFunction
+   */
+  async resetPassword(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const result = await authService.resetPassword(req.body.token, req.body.password);
+
+      res.status(200).json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
 }
 
 export default new AuthController();
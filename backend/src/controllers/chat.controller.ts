@@ -0,0 +1,83 @@
+import { Request, Response, NextFunction } from 'express';
+import { ChatService } from '../services/chat.service';
+import { logger } from '../utils/logger';
+import { JwtPayload } from '../middleware/auth';
+
+class ChatController {
+  private chatService: ChatService;
+
+  constructor() {
+    this.chatService = new ChatService();
+    this.getMessages = this.getMessages.bind(this);
+    this.sendMessage = this.sendMessage.bind(this);
+    this.markMessagesRead = this.markMessagesRead.bind(this);
+  }
+
+  /**
+   * Get an emergency's chat history
+   * @param req Request
+   * @param res Response
+   * @param next NextFunction
+   */
+  async getMessages(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 50;
+
+      const result = await this.chatService.getMessages(
+        req.params.requestId,
+        req.user as JwtPayload,
+        page,
+        limit,
+      );
+
+      res.status(200).json(result);
+    } catch (error) {
+      logger.error('Error getting chat messages', { error });
+      next(error);
+    }
+  }
+
+  /**
+   * Post a message to an emergency's chat
+   * @param req Request
+   * @param res Response
+   * @param next NextFunction
+   */
+  async sendMessage(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const result = await this.chatService.sendMessage(
+        req.params.requestId,
+        req.user as JwtPayload,
+        req.body.message,
+      );
+
+      res.status(201).json(result);
+    } catch (error) {
+      logger.error('Error sending chat message', { error });
+      next(error);
+    }
+  }
+
+  /**
+   * Mark an emergency's chat messages as read
+   * @param req Request
+   * @param res Response
+   * @param next NextFunction
+   */
+  async markMessagesRead(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const result = await this.chatService.markMessagesRead(
+        req.params.requestId,
+        req.user as JwtPayload,
+      );
+
+      res.status(200).json(result);
+    } catch (error) {
+      logger.error('Error marking chat messages as read', { error });
+      next(error);
+    }
+  }
+}
+
+export default new ChatController();
@@ -1,18 +1,46 @@
 import { Request, Response, NextFunction } from 'express';
 import { DriverService } from '../services/driver.service';
+import { TrackingService } from '../services/tracking.service';
+import { FleetService } from '../services/fleet.service';
 import { logger } from '../utils/logger';
 import { JwtPayload } from '../middleware/auth';
 
 class DriverController {
   private driverService: DriverService;
+  private trackingService: TrackingService;
+  private fleetService: FleetService;
 
   constructor() {
     this.driverService = new DriverService();
+    this.trackingService = new TrackingService();
+    this.fleetService = new FleetService();
     // Bind methods to ensure 'this' context
+    this.getDriverStatus = this.getDriverStatus.bind(this);
     this.updateAvailabilityStatus = this.updateAvailabilityStatus.bind(this);
     this.getCurrentAssignment = this.getCurrentAssignment.bind(this);
     this.updateAssignmentStatus = this.updateAssignmentStatus.bind(this);
     this.getAssignmentHistory = this.getAssignmentHistory.bind(this);
+    this.updateLocation = this.updateLocation.bind(this);
+    this.acceptInvitation = this.acceptInvitation.bind(this);
+  }
+
+  /**
+   * Get driver availability status
+   * @param req Request
+   * @param res Response
+   * @param next NextFunction
+   */
+  async getDriverStatus(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const driverId = (req.user as JwtPayload).driverId as string;
+
+      const result = await this.driverService.getDriverStatus(driverId);
+
+      res.status(200).json(result);
+    } catch (error) {
+      logger.error('Error getting driver status', { error });
+      next(error);
+    }
   }
 
   /**
@@ -23,7 +51,7 @@ class DriverController {
    */
   async updateAvailabilityStatus(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
-      const driverId = (req.user as JwtPayload).id;
+      const driverId = (req.user as JwtPayload).driverId as string;
       const { isAvailable } = req.body;
 
       const result = await this.driverService.updateAvailabilityStatus(driverId, isAvailable);
@@ -43,7 +71,7 @@ class DriverController {
    */
   async getCurrentAssignment(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
-      const driverId = (req.user as JwtPayload).id;
+      const driverId = (req.user as JwtPayload).driverId as string;
 
       const result = await this.driverService.getCurrentAssignment(driverId);
 
@@ -62,13 +90,14 @@ class DriverController {
    */
   async updateAssignmentStatus(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
-      const driverId = (req.user as JwtPayload).id;
+      const { id: userId, driverId } = req.user as JwtPayload;
       const assignmentId = req.params.id;
       const { status } = req.body;
 
       const result = await this.driverService.updateAssignmentStatus(
         assignmentId,
-        driverId,
+        driverId as string,
+        userId,
         status,
       );
 
@@ -87,7 +116,7 @@ class DriverController {
    */
   async getAssignmentHistory(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
-      const driverId = (req.user as JwtPayload).id;
+      const driverId = (req.user as JwtPayload).driverId as string;
       const page = parseInt(req.query.page as string) || 1;
       const limit = parseInt(req.query.limit as string) || 10;
 
@@ -99,6 +128,51 @@ class DriverController {
       next(error);
     }
   }
+
+  /**
+   * Update driver's current location
+   * @param req Request
+   * @param res Response
+   * @param next NextFunction
+   */
+  async updateLocation(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id: userId, driverId } = req.user as JwtPayload;
+      const { latitude, longitude, heading, speed, accuracy } = req.body;
+
+      const result = await this.trackingService.updateDriverLocation(driverId as string, userId, {
+        latitude,
+        longitude,
+        heading,
+        speed,
+        accuracy,
+      });
+
+      res.status(200).json(result);
+    } catch (error) {
+      logger.error('Error updating driver location', { error });
+      next(error);
+    }
+  }
+
+  /**
+   * Join a hospital fleet with an invitation code
+   * @param req Request
+   * @param res Response
+   * @param next NextFunction
+   */
+  async acceptInvitation(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const driverId = (req.user as JwtPayload).driverId as string;
+
+      const result = await this.fleetService.acceptInvitation(driverId, req.body.inviteCode);
+
+      res.status(200).json(result);
+    } catch (error) {
+      logger.error('Error accepting driver invitation', { error });
+      next(error);
+    }
+  }
 }
 
 export default new DriverController();
@@ -1,17 +1,34 @@
 import { Request, Response, NextFunction } from 'express';
 import { EmergencyService } from '../services/emergency.service';
+import { TrackingService } from '../services/tracking.service';
+import { AuditService } from '../services/audit.service';
+import { StatusLinkService } from '../services/statusLink.service';
 import { logger } from '../utils/logger';
+import { departmentFor, HOSPITAL_DEPARTMENTS } from '../utils/hospitalCapacity';
 import { JwtPayload } from '../middleware/auth';
 
 class EmergencyController {
   private emergencyService: EmergencyService;
+  private trackingService: TrackingService;
+  private auditService: AuditService;
+  private statusLinkService: StatusLinkService;
 
   constructor() {
     this.emergencyService = new EmergencyService();
+    this.trackingService = new TrackingService();
+    this.auditService = new AuditService();
+    this.statusLinkService = new StatusLinkService();
     this.createEmergency = this.createEmergency.bind(this);
     this.getEmergencyStatus = this.getEmergencyStatus.bind(this);
     this.getEmergencyHistory = this.getEmergencyHistory.bind(this);
     this.getNearbyHospitals = this.getNearbyHospitals.bind(this);
+    this.getEmergencyTracking = this.getEmergencyTracking.bind(this);
+    this.cancelEmergency = this.cancelEmergency.bind(this);
+    this.getEmergencyTimeline = this.getEmergencyTimeline.bind(this);
+    this.getEmergencyCatalogue = this.getEmergencyCatalogue.bind(this);
+    this.updateTriage = this.updateTriage.bind(this);
+    this.createStatusLink = this.createStatusLink.bind(this);
+    this.getPublicStatus = this.getPublicStatus.bind(this);
   }
 
   /**
@@ -23,7 +40,14 @@ class EmergencyController {
   async createEmergency(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
       const userId = (req.user as JwtPayload).id;
-      const { pickupLatitude, pickupLongitude, pickupAddress, medicalNotes } = req.body;
+      const {
+        pickupLatitude,
+        pickupLongitude,
+        pickupAddress,
+        medicalNotes,
+        emergencyType,
+        triageAnswers,
+      } = req.body;
 
       const result = await this.emergencyService.createEmergencyRequest({
         userId,
@@ -31,6 +55,8 @@ class EmergencyController {
         pickupLongitude,
         pickupAddress,
         medicalNotes,
+        emergencyType,
+        triageAnswers,
       });
 
       res.status(201).json(result);
@@ -81,6 +107,50 @@ class EmergencyController {
     }
   }
 
+  /**
+   * Get ambulance location and trail for an emergency request
+   * @param req Request
+   * @param res Response
+   * @param next NextFunction
+   */
+  async getEmergencyTracking(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = (req.user as JwtPayload).id;
+      const requestId = req.params.requestId;
+
+      const result = await this.trackingService.getTrackingForUser(requestId, userId);
+
+      res.status(200).json(result);
+    } catch (error) {
+      logger.error('Error getting emergency tracking', { error });
+      next(error);
+    }
+  }
+
+  /**
+   * Cancel an emergency request
+   * @param req Request
+   * @param res Response
+   * @param next NextFunction
+   */
+  async cancelEmergency(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = (req.user as JwtPayload).id;
+      const requestId = req.params.requestId;
+
+      const result = await this.emergencyService.cancelEmergencyRequest(
+        requestId,
+        userId,
+        req.body.reason,
+      );
+
+      res.status(200).json(result);
+    } catch (error) {
+      logger.error('Error cancelling emergency request', { error });
+      next(error);
+    }
+  }
+
   /**
    * Get nearby hospitals for an emergency request
    * @param req Request
@@ -121,6 +191,8 @@ class EmergencyController {
         emergencyRequest.pickupLongitude,
         maxDistance,
         limit,
+        departmentFor(emergencyRequest.emergencyType, emergencyRequest.severity),
+        emergencyRequest.emergencyType,
       );
 
       res.status(200).json({
@@ -132,8 +204,16 @@ class EmergencyController {
             name: hospital.name,
             address: hospital.address,
             distance: `${hospital.distance.toFixed(2)} km`,
-            currentLoad: `${hospital.currentRequests}/${hospital.maxCapacity}`,
-            availability: hospital.currentRequests < hospital.maxCapacity ? 'Available' : 'Busy',
+            currentLoad: `${hospital.beds.totalBeds - hospital.beds.availableBeds}/${hospital.beds.totalBeds}`,
+            availability: hospital.beds.availableBeds > 0 ? 'Available' : 'Busy',
+            beds: {
+              department: hospital.beds.department,
+              departmentLabel: HOSPITAL_DEPARTMENTS[hospital.beds.department].label,
+              availableBeds: hospital.beds.availableBeds,
+              totalBeds: hospital.beds.totalBeds,
+              updatedAt: hospital.beds.updatedAt,
+              source: hospital.beds.source,
+            },
           })),
         },
       });
@@ -142,6 +222,101 @@ class EmergencyController {
       next(error);
     }
   }
+
+  /**
+   * Get the audit trail of an emergency request
+   * @param req Request
+   * @param res Response
+   * @param next NextFunction
+   */
+  async getEmergencyTimeline(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const result = await this.auditService.getTimeline(
+        req.params.requestId,
+        req.user as JwtPayload,
+      );
+
+      res.status(200).json(result);
+    } catch (error) {
+      logger.error('Error getting emergency timeline', { error });
+      next(error);
+    }
+  }
+
+  /**
+   * List emergency categories and triage questions
+   * @param req Request
+   * @param res Response
+   * @param next NextFunction
+   */
+  async getEmergencyCatalogue(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      res.status(200).json(this.emergencyService.getEmergencyCatalogue());
+    } catch (error) {
+      logger.error('Error getting emergency catalogue', { error });
+      next(error);
+    }
+  }
+
+  /**
+   * Update the category and triage answers of an open emergency request
+   * @param req Request
+   * @param res Response
+   * @param next NextFunction
+   */
+  async updateTriage(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = (req.user as JwtPayload).id;
+
+      const result = await this.emergencyService.updateTriage(
+        req.params.requestId,
+        userId,
+        req.body.emergencyType,
+        req.body.triageAnswers,
+      );
+
+      res.status(200).json(result);
+    } catch (error) {
+      logger.error('Error updating emergency triage', { error });
+      next(error);
+    }
+  }
+
+  /**
+   * Create a status link the user can share
+   * @param req Request
+   * @param res Response
+   * @param next NextFunction
+   */
+  async createStatusLink(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = (req.user as JwtPayload).id;
+
+      const result = await this.statusLinkService.createForUser(req.params.requestId, userId);
+
+      res.status(201).json(result);
+    } catch (error) {
+      logger.error('Error creating emergency status link', { error });
+      next(error);
+    }
+  }
+
+  /**
+   * Get an emergency's progress through a status link, without an account
+   * @param req Request
+   * @param res Response
+   * @param next NextFunction
+   */
+  async getPublicStatus(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const result = await this.statusLinkService.getStatus(req.params.token);
+
+      res.status(200).json(result);
+    } catch (error) {
+      logger.error('Error getting emergency status from link', { error });
+      next(error);
+    }
+  }
 }
 
 export default new EmergencyController();
@@ -1,20 +1,58 @@
 import { Request, Response, NextFunction } from 'express';
-import { HospitalService } from '../services/hospital.service';
+import { HospitalService, PendingEmergencySort } from '../services/hospital.service';
+import { TrackingService } from '../services/tracking.service';
+import { FleetService } from '../services/fleet.service';
+import { CapacityService } from '../services/capacity.service';
+import { DiversionService } from '../services/diversion.service';
+import { ServiceAreaService } from '../services/serviceArea.service';
 import { logger } from '../utils/logger';
+import { TriageSeverity } from '../utils/emergencyTriage';
+import { ServiceAreaType } from '../utils/serviceArea';
 import { JwtPayload } from '../middleware/auth';
 
 class HospitalController {
   private hospitalService: HospitalService;
+  private trackingService: TrackingService;
+  private fleetService: FleetService;
+  private capacityService: CapacityService;
+  private diversionService: DiversionService;
+  private serviceAreaService: ServiceAreaService;
 
   constructor() {
     this.hospitalService = new HospitalService();
+    this.trackingService = new TrackingService();
+    this.fleetService = new FleetService();
+    this.capacityService = new CapacityService();
+    this.diversionService = new DiversionService();
+    this.serviceAreaService = new ServiceAreaService();
     // Bind methods to ensure 'this' context
     this.getPendingEmergencyRequests = this.getPendingEmergencyRequests.bind(this);
     this.acceptEmergencyRequest = this.acceptEmergencyRequest.bind(this);
+    this.declineEmergencyRequest = this.declineEmergencyRequest.bind(this);
     this.assignDriverToEmergency = this.assignDriverToEmergency.bind(this);
     this.getActiveEmergencyRequests = this.getActiveEmergencyRequests.bind(this);
+    this.getEmergencyTracking = this.getEmergencyTracking.bind(this);
+    this.getDriverSuggestions = this.getDriverSuggestions.bind(this);
+    this.getAssignmentMode = this.getAssignmentMode.bind(this);
+    this.updateAssignmentMode = this.updateAssignmentMode.bind(this);
+    this.getCapacity = this.getCapacity.bind(this);
+    this.updateCapacity = this.updateCapacity.bind(this);
+    this.getDiversion = this.getDiversion.bind(this);
+    this.startDiversion = this.startDiversion.bind(this);
+    this.endDiversion = this.endDiversion.bind(this);
+    this.getNeighbourDiversions = this.getNeighbourDiversions.bind(this);
+    this.getServiceArea = this.getServiceArea.bind(this);
+    this.updateServiceArea = this.updateServiceArea.bind(this);
     this.getHospitalDrivers = this.getHospitalDrivers.bind(this);
     this.approveDriver = this.approveDriver.bind(this);
+    this.createDriverInvitation = this.createDriverInvitation.bind(this);
+    this.getDriverInvitations = this.getDriverInvitations.bind(this);
+    this.revokeDriverInvitation = this.revokeDriverInvitation.bind(this);
+    this.getSharingAgreements = this.getSharingAgreements.bind(this);
+    this.createSharingAgreement = this.createSharingAgreement.bind(this);
+    this.endSharingAgreement = this.endSharingAgreement.bind(this);
+    this.getHospitalDirectory = this.getHospitalDirectory.bind(this);
+    this.getRegistrationReview = this.getRegistrationReview.bind(this);
   }
 
   /**
@@ -29,9 +67,17 @@ class HospitalController {
     next: NextFunction,
   ): Promise<void> {
     try {
-      const hospitalId = (req.user as JwtPayload).id;
+      const hospitalId = (req.user as JwtPayload).hospitalId as string;
 
-      const result = await this.hospitalService.getPendingEmergencyRequests(hospitalId);
+      const sort = (req.query.sort as PendingEmergencySort) || PendingEmergencySort.URGENCY;
+      const severities = req.query.severity
+        ? ((req.query.severity as string).split(',') as TriageSeverity[])
+        : undefined;
+
+      const result = await this.hospitalService.getPendingEmergencyRequests(hospitalId, {
+        sort,
+        severities,
+      });
 
       res.status(200).json(result);
     } catch (error) {
@@ -48,10 +94,14 @@ class HospitalController {
    */
   async acceptEmergencyRequest(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
-      const hospitalId = (req.user as JwtPayload).id;
+      const { id: userId, hospitalId } = req.user as JwtPayload;
       const requestId = req.params.requestId;
 
-      const result = await this.hospitalService.acceptEmergencyRequest(requestId, hospitalId);
+      const result = await this.hospitalService.acceptEmergencyRequest(
+        requestId,
+        hospitalId as string,
+        userId,
+      );
 
       res.status(200).json(result);
     } catch (error) {
@@ -60,6 +110,33 @@ class HospitalController {
     }
   }
 
+  /**
+   * Decline an emergency request
+   * @param req Request
+   * @param res Response
+   * @param next NextFunction
+   */
+  async declineEmergencyRequest(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id: userId, hospitalId } = req.user as JwtPayload;
+      const requestId = req.params.requestId;
+      const { reasonCode, notes } = req.body;
+
+      const result = await this.hospitalService.declineEmergencyRequest(
+        requestId,
+        hospitalId as string,
+        userId,
+        reasonCode,
+        notes,
+      );
+
+      res.status(200).json(result);
+    } catch (error) {
+      logger.error('Error declining emergency request', { error });
+      next(error);
+    }
+  }
+
   /**
    * Assign a driver to an emergency request
    * @param req Request
@@ -68,13 +145,14 @@ class HospitalController {
    */
   async assignDriverToEmergency(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
-      const hospitalId = (req.user as JwtPayload).id;
+      const { id: userId, hospitalId } = req.user as JwtPayload;
       const requestId = req.params.requestId;
       const { driverId } = req.body;
 
       const result = await this.hospitalService.assignDriverToEmergency(
         requestId,
-        hospitalId,
+        hospitalId as string,
+        userId,
         driverId,
       );
 
@@ -93,7 +171,7 @@ class HospitalController {
    */
   async getActiveEmergencyRequests(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
-      const hospitalId = (req.user as JwtPayload).id;
+      const hospitalId = (req.user as JwtPayload).hospitalId as string;
 
       const result = await this.hospitalService.getActiveEmergencyRequests(hospitalId);
 
@@ -104,6 +182,253 @@ class HospitalController {
     }
   }
 
+  /**
+   * Get ambulance location and trail for an emergency handled by the hospital
+   * @param req Request
+   * @param res Response
+   * @param next NextFunction
+   */
+  async getEmergencyTracking(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const hospitalId = (req.user as JwtPayload).hospitalId as string;
+      const requestId = req.params.requestId;
+
+      const result = await this.trackingService.getTrackingForHospital(requestId, hospitalId);
+
+      res.status(200).json(result);
+    } catch (error) {
+      logger.error('Error getting emergency tracking', { error });
+      next(error);
+    }
+  }
+
+  /**
+   * Get available drivers ranked for an accepted emergency request
+   * @param req Request
+   * @param res Response
+   * @param next NextFunction
+   */
+  async getDriverSuggestions(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const hospitalId = (req.user as JwtPayload).hospitalId as string;
+      const requestId = req.params.requestId;
+
+      const result = await this.hospitalService.getDriverSuggestions(requestId, hospitalId);
+
+      res.status(200).json(result);
+    } catch (error) {
+      logger.error('Error getting driver suggestions', { error });
+      next(error);
+    }
+  }
+
+  /**
+   * Get the hospital's driver assignment mode
+   * @param req Request
+   * @param res Response
+   * @param next NextFunction
+   */
+  async getAssignmentMode(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const hospitalId = (req.user as JwtPayload).hospitalId as string;
+
+      const result = await this.hospitalService.getAssignmentMode(hospitalId);
+
+      res.status(200).json(result);
+    } catch (error) {
+      logger.error('Error getting assignment mode', { error });
+      next(error);
+    }
+  }
+
+  /**
+   * Update the hospital's driver assignment mode
+   * @param req Request
+   * @param res Response
+   * @param next NextFunction
+   */
+  async updateAssignmentMode(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const hospitalId = (req.user as JwtPayload).hospitalId as string;
+      const { assignmentMode } = req.body;
+
+      const result = await this.hospitalService.updateAssignmentMode(hospitalId, assignmentMode);
+
+      res.status(200).json(result);
+    } catch (error) {
+      logger.error('Error updating assignment mode', { error });
+      next(error);
+    }
+  }
+
+  /**
+   * Get the hospital's published bed capacity per department
+   * @param req Request
+   * @param res Response
+   * @param next NextFunction
+   */
+  async getCapacity(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const hospitalId = (req.user as JwtPayload).hospitalId as string;
+
+      const result = await this.capacityService.getCapacity(hospitalId);
+
+      res.status(200).json(result);
+    } catch (error) {
+      logger.error('Error getting hospital capacity', { error });
+      next(error);
+    }
+  }
+
+  /**
+   * Publish bed capacity for one or more departments
+   * @param req Request
+   * @param res Response
+   * @param next NextFunction
+   */
+  async updateCapacity(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id: userId, hospitalId } = req.user as JwtPayload;
+
+      const result = await this.capacityService.updateCapacity(
+        hospitalId as string,
+        userId,
+        req.body.departments,
+      );
+
+      res.status(200).json(result);
+    } catch (error) {
+      logger.error('Error updating hospital capacity', { error });
+      next(error);
+    }
+  }
+
+  /**
+   * Get the hospital's current diversion and recent diversions
+   * @param req Request
+   * @param res Response
+   * @param next NextFunction
+   */
+  async getDiversion(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const hospitalId = (req.user as JwtPayload).hospitalId as string;
+
+      const result = await this.diversionService.getDiversion(hospitalId);
+
+      res.status(200).json(result);
+    } catch (error) {
+      logger.error('Error getting hospital diversion', { error });
+      next(error);
+    }
+  }
+
+  /**
+   * Put the hospital on diversion
+   * @param req Request
+   * @param res Response
+   * @param next NextFunction
+   */
+  async startDiversion(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id: userId, hospitalId } = req.user as JwtPayload;
+      const { categories, reason, durationMinutes } = req.body;
+
+      const result = await this.diversionService.startDiversion(hospitalId as string, userId, {
+        categories: categories || [],
+        reason,
+        durationMinutes,
+      });
+
+      res.status(200).json(result);
+    } catch (error) {
+      logger.error('Error starting hospital diversion', { error });
+      next(error);
+    }
+  }
+
+  /**
+   * Lift the hospital's current diversion
+   * @param req Request
+   * @param res Response
+   * @param next NextFunction
+   */
+  async endDiversion(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id: userId, hospitalId } = req.user as JwtPayload;
+
+      const result = await this.diversionService.endDiversion(hospitalId as string, userId);
+
+      res.status(200).json(result);
+    } catch (error) {
+      logger.error('Error ending hospital diversion', { error });
+      next(error);
+    }
+  }
+
+  /**
+   * Get current diversions at neighbouring hospitals
+   * @param req Request
+   * @param res Response
+   * @param next NextFunction
+   */
+  async getNeighbourDiversions(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const hospitalId = (req.user as JwtPayload).hospitalId as string;
+
+      const result = await this.diversionService.getNeighbourDiversions(hospitalId);
+
+      res.status(200).json(result);
+    } catch (error) {
+      logger.error('Error getting neighbouring diversions', { error });
+      next(error);
+    }
+  }
+
+  /**
+   * Get the area the hospital serves
+   * @param req Request
+   * @param res Response
+   * @param next NextFunction
+   */
+  async getServiceArea(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const hospitalId = (req.user as JwtPayload).hospitalId as string;
+
+      const result = await this.serviceAreaService.getServiceArea(hospitalId);
+
+      res.status(200).json(result);
+    } catch (error) {
+      logger.error('Error getting hospital service area', { error });
+      next(error);
+    }
+  }
+
+  /**
+   * Set the area the hospital serves, as a radius or a GeoJSON polygon
+   * @param req Request
+   * @param res Response
+   * @param next NextFunction
+   */
+  async updateServiceArea(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id: userId, hospitalId } = req.user as JwtPayload;
+      const { type, radiusKm, boundary } = req.body;
+
+      const result = await this.serviceAreaService.updateServiceArea(
+        hospitalId as string,
+        userId,
+        type === ServiceAreaType.RADIUS
+          ? { type, radiusKm }
+          : { type, boundary: { type: 'Polygon', coordinates: boundary.coordinates } },
+      );
+
+      res.status(200).json(result);
+    } catch (error) {
+      logger.error('Error updating hospital service area', { error });
+      next(error);
+    }
+  }
+
   /**
    * Get list of hospital drivers
    * @param req Request
@@ -112,7 +437,7 @@ class HospitalController {
    */
   async getHospitalDrivers(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
-      const hospitalId = (req.user as JwtPayload).id;
+      const hospitalId = (req.user as JwtPayload).hospitalId as string;
       const status = (req.query.status as string) || 'all';
 
       const result = await this.hospitalService.getHospitalDrivers(hospitalId, status);
@@ -132,7 +457,7 @@ class HospitalController {
    */
   async approveDriver(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
-      const hospitalId = (req.user as JwtPayload).id;
+      const hospitalId = (req.user as JwtPayload).hospitalId as string;
       const driverId = req.params.driverId;
 
       const result = await this.hospitalService.approveDriver(driverId, hospitalId);
@@ -143,6 +468,161 @@ class HospitalController {
       next(error);
     }
   }
+
+  /**
+   * Invite a driver to join the hospital fleet
+   * @param req Request
+   * @param res Response
+   * @param next NextFunction
+   */
+  async createDriverInvitation(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const hospitalId = (req.user as JwtPayload).hospitalId as string;
+
+      const result = await this.fleetService.createInvitation(hospitalId, req.body.email);
+
+      res.status(201).json(result);
+    } catch (error) {
+      logger.error('Error creating driver invitation', { error });
+      next(error);
+    }
+  }
+
+  /**
+   * Get the driver invitations sent by a hospital
+   * @param req Request
+   * @param res Response
+   * @param next NextFunction
+   */
+  async getDriverInvitations(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const hospitalId = (req.user as JwtPayload).hospitalId as string;
+
+      const result = await this.fleetService.getInvitations(hospitalId);
+
+      res.status(200).json(result);
+    } catch (error) {
+      logger.error('Error getting driver invitations', { error });
+      next(error);
+    }
+  }
+
+  /**
+   * Revoke a pending driver invitation
+   * @param req Request
+   * @param res Response
+   * @param next NextFunction
+   */
+  async revokeDriverInvitation(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const hospitalId = (req.user as JwtPayload).hospitalId as string;
+      const invitationId = req.params.invitationId;
+
+      const result = await this.fleetService.revokeInvitation(hospitalId, invitationId);
+
+      res.status(200).json(result);
+    } catch (error) {
+      logger.error('Error revoking driver invitation', { error });
+      next(error);
+    }
+  }
+
+  /**
+   * Get the driver sharing agreements a hospital is part of
+   * @param req Request
+   * @param res Response
+   * @param next NextFunction
+   */
+  async getSharingAgreements(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const hospitalId = (req.user as JwtPayload).hospitalId as string;
+
+      const result = await this.fleetService.getSharingAgreements(hospitalId);
+
+      res.status(200).json(result);
+    } catch (error) {
+      logger.error('Error getting driver sharing agreements', { error });
+      next(error);
+    }
+  }
+
+  /**
+   * Lend the hospital's drivers to another hospital
+   * @param req Request
+   * @param res Response
+   * @param next NextFunction
+   */
+  async createSharingAgreement(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const hospitalId = (req.user as JwtPayload).hospitalId as string;
+
+      const result = await this.fleetService.createSharingAgreement(
+        hospitalId,
+        req.body.borrowerHospitalId,
+      );
+
+      res.status(201).json(result);
+    } catch (error) {
+      logger.error('Error creating driver sharing agreement', { error });
+      next(error);
+    }
+  }
+
+  /**
+   * End a driver sharing agreement
+   * @param req Request
+   * @param res Response
+   * @param next NextFunction
+   */
+  async endSharingAgreement(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const hospitalId = (req.user as JwtPayload).hospitalId as string;
+      const agreementId = req.params.agreementId;
+
+      const result = await this.fleetService.endSharingAgreement(hospitalId, agreementId);
+
+      res.status(200).json(result);
+    } catch (error) {
+      logger.error('Error ending driver sharing agreement', { error });
+      next(error);
+    }
+  }
+
+  /**
+   * List active hospitals that drivers can register with
+   * @param req Request
+   * @param res Response
+   * @param next NextFunction
+   */
+  async getHospitalDirectory(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const result = await this.hospitalService.getHospitalDirectory();
+
+      res.status(200).json(result);
+    } catch (error) {
+      logger.error('Error getting hospital directory', { error });
+      next(error);
+    }
+  }
+
+  /**
+   * Get the admin review status of the hospital's registration
+   * @param req Request
+   * @param res Response
+   * @param next NextFunction
+   */
+  async getRegistrationReview(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const hospitalId = (req.user as JwtPayload).hospitalId as string;
+
+      const result = await this.hospitalService.getRegistrationReview(hospitalId);
+
+      res.status(200).json(result);
+    } catch (error) {
+      logger.error('Error getting hospital registration review', { error });
+      next(error);
+    }
+  }
 }
 
 export default new HospitalController();
@@ -0,0 +1,81 @@
+import { Request, Response, NextFunction } from 'express';
+import { MedicalProfileService } from '../services/medicalProfile.service';
+import { logger } from '../utils/logger';
+import { JwtPayload } from '../middleware/auth';
+
+class ProfileController {
+  private medicalProfileService: MedicalProfileService;
+
+  constructor() {
+    this.medicalProfileService = new MedicalProfileService();
+    this.getMedicalProfile = this.getMedicalProfile.bind(this);
+    this.updateMedicalProfile = this.updateMedicalProfile.bind(this);
+  }
+
+  /**
+   * Get the signed-in user's medical profile
+   * @param req Request
+   * @param res Response
+   * @param next NextFunction
+   */
+  async getMedicalProfile(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = (req.user as JwtPayload).id;
+
+      const result = await this.medicalProfileService.getProfile(userId);
+
+      res.status(200).json(result);
+    } catch (error) {
+      logger.error('Error getting medical profile', { error });
+      next(error);
+    }
+  }
+
+  /**
+   * Replace the signed-in user's medical profile and emergency contacts
+   * @param req Request
+   * @param res Response
+   * @param next NextFunction
+   */
+  async updateMedicalProfile(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = (req.user as JwtPayload).id;
+      const {
+        dateOfBirth,
+        bloodGroup,
+        allergies,
+        chronicConditions,
+        currentMedications,
+        emergencyContacts,
+      } = req.body;
+
+      const result = await this.medicalProfileService.updateProfile(userId, {
+        dateOfBirth: dateOfBirth || null,
+        bloodGroup: bloodGroup || null,
+        allergies: allergies || [],
+        chronicConditions: chronicConditions || [],
+        currentMedications: currentMedications || [],
+        emergencyContacts: (emergencyContacts || []).map(
+          (contact: {
+            name: string;
+            relationship?: string;
+            phoneNumber: string;
+            email?: string;
+          }) => ({
+            name: contact.name,
+            relationship: contact.relationship || null,
+            phoneNumber: contact.phoneNumber,
+            email: contact.email || null,
+          }),
+        ),
+      });
+
+      res.status(200).json(result);
+    } catch (error) {
+      logger.error('Error updating medical profile', { error });
+      next(error);
+    }
+  }
+}
+
+export default new ProfileController();
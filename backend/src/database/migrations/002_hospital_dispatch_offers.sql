@@ -0,0 +1,30 @@
+-- Hospital offer status enum
+CREATE TYPE offer_status AS ENUM (
+  'offered',
+  'accepted',
+  'declined',
+  'expired',
+  'cancelled'
+);
+
+-- Offers made to hospitals while an emergency request is being dispatched
+CREATE TABLE IF NOT EXISTS emergency_offers (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  emergency_id UUID NOT NULL REFERENCES emergency_requests(id) ON DELETE CASCADE,
+  hospital_id UUID NOT NULL REFERENCES hospitals(id) ON DELETE CASCADE,
+  status offer_status NOT NULL DEFAULT 'offered',
+  dispatch_rank INTEGER NOT NULL,
+  distance_km DECIMAL(8, 2),
+  offered_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  responded_at TIMESTAMP WITH TIME ZONE,
+  CONSTRAINT uq_emergency_offer_hospital UNIQUE (emergency_id, hospital_id)
+);
+
+-- Set when every candidate hospital has been tried without an acceptance
+ALTER TABLE emergency_requests ADD COLUMN IF NOT EXISTS escalated_at TIMESTAMP WITH TIME ZONE;
+
+-- Indexes
+CREATE INDEX idx_emergency_offers_emergency_id ON emergency_offers(emergency_id);
+CREATE INDEX idx_emergency_offers_hospital_id ON emergency_offers(hospital_id);
+CREATE INDEX idx_emergency_offers_status ON emergency_offers(status);
@@ -0,0 +1,11 @@
+-- Structured reasons a hospital can give when declining an emergency request
+CREATE TYPE decline_reason AS ENUM (
+  'at_capacity',
+  'no_suitable_specialty',
+  'too_far',
+  'no_driver_available',
+  'other'
+);
+
+ALTER TABLE emergency_offers ADD COLUMN IF NOT EXISTS decline_reason decline_reason;
+ALTER TABLE emergency_offers ADD COLUMN IF NOT EXISTS decline_notes TEXT;
@@ -0,0 +1,16 @@
+-- Breadcrumb trail of driver positions reported during an assignment
+CREATE TABLE IF NOT EXISTS driver_location_history (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  assignment_id UUID NOT NULL REFERENCES emergency_assignments(id) ON DELETE CASCADE,
+  driver_id UUID NOT NULL REFERENCES drivers(id) ON DELETE CASCADE,
+  latitude DECIMAL(10, 8) NOT NULL,
+  longitude DECIMAL(11, 8) NOT NULL,
+  heading DECIMAL(5, 2),
+  speed_kmh DECIMAL(6, 2),
+  accuracy_m DECIMAL(8, 2),
+  recorded_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Indexes
+CREATE INDEX idx_driver_location_history_assignment ON driver_location_history(assignment_id, recorded_at);
+CREATE INDEX idx_driver_location_history_driver_id ON driver_location_history(driver_id);
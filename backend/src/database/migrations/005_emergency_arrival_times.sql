@@ -0,0 +1,3 @@
+-- When the ambulance actually reached the pickup location, for comparison with
+-- estimated_arrival_time
+ALTER TABLE emergency_requests ADD COLUMN IF NOT EXISTS actual_arrival_time TIMESTAMP WITH TIME ZONE;
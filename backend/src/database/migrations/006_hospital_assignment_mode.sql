@@ -0,0 +1,8 @@
+-- How a hospital assigns drivers once it accepts an emergency request
+CREATE TYPE assignment_mode AS ENUM (
+  'manual',
+  'suggested',
+  'automatic'
+);
+
+ALTER TABLE hospitals ADD COLUMN IF NOT EXISTS assignment_mode assignment_mode NOT NULL DEFAULT 'manual';
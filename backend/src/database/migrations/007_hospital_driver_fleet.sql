@@ -0,0 +1,48 @@
+-- Hospital each driver belongs to
+ALTER TABLE drivers ADD COLUMN IF NOT EXISTS hospital_id UUID REFERENCES hospitals(id) ON DELETE SET NULL;
+
+-- Driver invitation status enum
+CREATE TYPE invitation_status AS ENUM (
+  'pending',
+  'accepted',
+  'revoked'
+);
+
+-- Invitations hospitals send to drivers to join their fleet
+CREATE TABLE IF NOT EXISTS driver_invitations (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  hospital_id UUID NOT NULL REFERENCES hospitals(id) ON DELETE CASCADE,
+  email VARCHAR(255) NOT NULL,
+  invite_code VARCHAR(32) NOT NULL UNIQUE,
+  status invitation_status NOT NULL DEFAULT 'pending',
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  accepted_by UUID REFERENCES drivers(id) ON DELETE SET NULL,
+  accepted_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Driver sharing agreement status enum
+CREATE TYPE sharing_status AS ENUM (
+  'active',
+  'ended'
+);
+
+-- Lets a borrowing hospital assign drivers from a lending hospital's fleet
+CREATE TABLE IF NOT EXISTS driver_sharing_agreements (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  lender_hospital_id UUID NOT NULL REFERENCES hospitals(id) ON DELETE CASCADE,
+  borrower_hospital_id UUID NOT NULL REFERENCES hospitals(id) ON DELETE CASCADE,
+  status sharing_status NOT NULL DEFAULT 'active',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  ended_at TIMESTAMP WITH TIME ZONE,
+  CONSTRAINT chk_sharing_distinct_hospitals CHECK (lender_hospital_id <> borrower_hospital_id)
+);
+
+-- Indexes
+CREATE INDEX idx_drivers_hospital_id ON drivers(hospital_id);
+CREATE INDEX idx_driver_invitations_hospital_id ON driver_invitations(hospital_id);
+CREATE INDEX idx_driver_invitations_email ON driver_invitations(LOWER(email));
+CREATE UNIQUE INDEX idx_driver_sharing_active_pair
+  ON driver_sharing_agreements(lender_hospital_id, borrower_hospital_id)
+  WHERE status = 'active';
+CREATE INDEX idx_driver_sharing_borrower ON driver_sharing_agreements(borrower_hospital_id, status);
@@ -0,0 +1,9 @@
+-- User cancellations. Cancelling once the ambulance has reached the patient needs a reason
+-- and is flagged for review.
+ALTER TABLE emergency_requests ADD COLUMN IF NOT EXISTS cancelled_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE emergency_requests ADD COLUMN IF NOT EXISTS cancellation_reason TEXT;
+ALTER TABLE emergency_requests ADD COLUMN IF NOT EXISTS requires_review BOOLEAN NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS idx_emergency_requests_requires_review
+  ON emergency_requests(cancelled_at)
+  WHERE requires_review = true;
@@ -0,0 +1,47 @@
+-- Assignment stages, from dispatching the ambulance to handing the patient over at the hospital.
+-- Assignments previously shared the request status enum, which has no en_route/arrived values.
+CREATE TYPE assignment_status AS ENUM (
+  'assigned',
+  'en_route',
+  'arrived',
+  'patient_onboard',
+  'at_hospital',
+  'completed',
+  'cancelled'
+);
+
+ALTER TABLE emergency_assignments ALTER COLUMN status DROP DEFAULT;
+ALTER TABLE emergency_assignments
+  ALTER COLUMN status TYPE assignment_status
+  USING (
+    CASE status::text
+      WHEN 'pending' THEN 'assigned'
+      WHEN 'accepted' THEN 'assigned'
+      WHEN 'in_progress' THEN 'en_route'
+      ELSE status::text
+    END
+  )::assignment_status;
+ALTER TABLE emergency_assignments ALTER COLUMN status SET DEFAULT 'assigned';
+
+-- When each stage was reached; pickup_at records patient_onboard
+ALTER TABLE emergency_assignments ADD COLUMN IF NOT EXISTS en_route_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE emergency_assignments ADD COLUMN IF NOT EXISTS arrived_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE emergency_assignments ADD COLUMN IF NOT EXISTS at_hospital_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE emergency_assignments ADD COLUMN IF NOT EXISTS cancelled_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE emergency_assignments ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP;
+
+UPDATE emergency_assignments
+SET cancelled_at = completed_at, completed_at = NULL
+WHERE status = 'cancelled' AND cancelled_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_emergency_assignments_status ON emergency_assignments(status);
+
+-- When each request state was reached
+ALTER TABLE emergency_requests ADD COLUMN IF NOT EXISTS accepted_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE emergency_requests ADD COLUMN IF NOT EXISTS assigned_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE emergency_requests ADD COLUMN IF NOT EXISTS in_progress_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE emergency_requests ADD COLUMN IF NOT EXISTS completed_at TIMESTAMP WITH TIME ZONE;
+
+UPDATE emergency_requests
+SET completed_at = updated_at
+WHERE status = 'completed' AND completed_at IS NULL;
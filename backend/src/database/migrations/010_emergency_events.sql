@@ -0,0 +1,24 @@
+-- Append-only audit trail of everything that happens on an emergency call
+CREATE TABLE IF NOT EXISTS emergency_events (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  sequence BIGSERIAL NOT NULL,
+  emergency_id UUID NOT NULL REFERENCES emergency_requests(id),
+  event_type VARCHAR(50) NOT NULL,
+  actor_id UUID REFERENCES users(id),
+  actor_role VARCHAR(20) NOT NULL,
+  payload JSONB NOT NULL DEFAULT '{}',
+  occurred_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_emergency_events_emergency ON emergency_events(emergency_id, sequence);
+
+-- Recorded events are evidence for incident reviews and must never change
+CREATE OR REPLACE FUNCTION reject_emergency_event_changes() RETURNS trigger AS $$
+BEGIN
+  RAISE EXCEPTION 'emergency_events is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER emergency_events_append_only
+  BEFORE UPDATE OR DELETE ON emergency_events
+  FOR EACH ROW EXECUTE FUNCTION reject_emergency_event_changes();
@@ -0,0 +1,11 @@
+-- Per-participant read receipts for emergency chat. chat_messages.is_read flips to true once
+-- anyone other than the sender has read the message.
+CREATE TABLE IF NOT EXISTS chat_message_reads (
+  message_id UUID NOT NULL REFERENCES chat_messages(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  read_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (message_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_chat_messages_emergency_sent_at
+  ON chat_messages(emergency_id, sent_at);
@@ -0,0 +1,4 @@
+-- Admin suspensions. users.is_active blocks login; hospital and driver profiles are switched off
+-- together with their account.
+ALTER TABLE users ADD COLUMN IF NOT EXISTS suspended_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS suspended_by UUID REFERENCES users(id);
@@ -0,0 +1,11 @@
+-- Admin review of hospital registrations. A hospital is pending until reviewed, approved once
+-- is_approved is set and rejected while it carries a rejection reason.
+ALTER TABLE hospitals ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE hospitals ADD COLUMN IF NOT EXISTS reviewed_by UUID REFERENCES users(id);
+ALTER TABLE hospitals ADD COLUMN IF NOT EXISTS rejection_reason TEXT;
+
+-- Hospitals registered before reviews existed are already receiving emergencies
+UPDATE hospitals SET is_approved = true, reviewed_at = CURRENT_TIMESTAMP WHERE is_approved = false;
+
+CREATE INDEX IF NOT EXISTS idx_hospitals_pending_review ON hospitals(created_at)
+  WHERE is_approved = false AND rejection_reason IS NULL;
@@ -0,0 +1,11 @@
+-- Counters behind request rate limits and login lockouts when RATE_LIMIT_STORE=postgres, so
+-- every API instance shares them. Each row counts hits in a fixed window ending at reset_at;
+-- blocked_until locks the key out (used for login lockouts).
+CREATE TABLE IF NOT EXISTS rate_limits (
+  key VARCHAR(255) PRIMARY KEY,
+  count INTEGER NOT NULL DEFAULT 0,
+  reset_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  blocked_until TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_rate_limits_reset_at ON rate_limits(reset_at);
@@ -0,0 +1,36 @@
+-- Patient medical profiles. Users keep one profile and any number of emergency contacts; when a
+-- hospital accepts a request, a copy of both is frozen on the request for the responding crew.
+CREATE TABLE IF NOT EXISTS medical_profiles (
+  user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  blood_group VARCHAR(3) CHECK (blood_group IN ('A+', 'A-', 'B+', 'B-', 'AB+', 'AB-', 'O+', 'O-')),
+  allergies TEXT[] NOT NULL DEFAULT '{}',
+  chronic_conditions TEXT[] NOT NULL DEFAULT '{}',
+  current_medications TEXT[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS emergency_contacts (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name VARCHAR(100) NOT NULL,
+  relationship VARCHAR(50),
+  phone VARCHAR(20) NOT NULL,
+  email VARCHAR(255),
+  -- Order the user listed the contacts in, first to call first
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_emergency_contacts_user ON emergency_contacts(user_id, position);
+
+-- Carry over the single phone number users.emergency_contact could hold
+INSERT INTO emergency_contacts (user_id, name, phone)
+SELECT u.id, 'Emergency contact', u.emergency_contact
+FROM users u
+WHERE u.emergency_contact IS NOT NULL
+AND u.emergency_contact <> ''
+AND NOT EXISTS (SELECT 1 FROM emergency_contacts ec WHERE ec.user_id = u.id);
+
+ALTER TABLE emergency_requests ADD COLUMN IF NOT EXISTS medical_snapshot JSONB;
+ALTER TABLE emergency_requests ADD COLUMN IF NOT EXISTS medical_snapshot_at TIMESTAMP WITH TIME ZONE;
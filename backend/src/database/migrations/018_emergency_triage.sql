@@ -0,0 +1,14 @@
+-- Structured emergency categories and triage. emergency_type now holds a category key from
+-- src/utils/emergencyTriage.ts; severity is derived from the category and the triage answers.
+CREATE TYPE triage_severity AS ENUM ('low', 'moderate', 'high', 'critical');
+
+UPDATE emergency_requests SET emergency_type = 'other' WHERE emergency_type = 'Medical Emergency';
+
+ALTER TABLE emergency_requests
+  ADD COLUMN IF NOT EXISTS severity triage_severity NOT NULL DEFAULT 'moderate';
+ALTER TABLE emergency_requests
+  ADD COLUMN IF NOT EXISTS triage_answers JSONB NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS idx_emergency_requests_pending_severity
+  ON emergency_requests(severity DESC, created_at)
+  WHERE status = 'pending';
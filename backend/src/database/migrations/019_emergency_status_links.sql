@@ -0,0 +1,11 @@
+-- Read-only status links sent to a patient's emergency contacts, who have no account. Only a
+-- SHA-256 hash of each token is stored; a request can have several links, one per notification.
+CREATE TABLE IF NOT EXISTS emergency_status_links (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  emergency_id UUID NOT NULL REFERENCES emergency_requests(id) ON DELETE CASCADE,
+  token_hash CHAR(64) NOT NULL UNIQUE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_emergency_status_links_emergency
+  ON emergency_status_links(emergency_id);
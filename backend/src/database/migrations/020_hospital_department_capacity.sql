@@ -0,0 +1,13 @@
+-- Live bed availability published by hospitals per department. Departments are the keys of
+-- HospitalDepartment in src/utils/hospitalCapacity.ts.
+CREATE TABLE IF NOT EXISTS hospital_department_capacity (
+  hospital_id UUID NOT NULL REFERENCES hospitals(id) ON DELETE CASCADE,
+  department VARCHAR(20) NOT NULL
+    CHECK (department IN ('emergency_room', 'icu', 'trauma_bay', 'maternity', 'burns')),
+  total_beds INTEGER NOT NULL CHECK (total_beds >= 0),
+  available_beds INTEGER NOT NULL CHECK (available_beds >= 0 AND available_beds <= total_beds),
+  -- Hospital account that last published the figures
+  updated_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (hospital_id, department)
+);
@@ -0,0 +1,19 @@
+-- Hospital diversions: periods in which a hospital turns away all new emergencies, or only some
+-- categories. Rows are never deleted, so the table doubles as the history of diversion changes.
+CREATE TABLE IF NOT EXISTS hospital_diversions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  hospital_id UUID NOT NULL REFERENCES hospitals(id) ON DELETE CASCADE,
+  -- Emergency categories turned away; empty for a full diversion
+  categories TEXT[] NOT NULL DEFAULT '{}',
+  reason VARCHAR(500) NOT NULL,
+  started_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  started_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  -- Set when the diversion is lifted or replaced before it expires
+  ended_at TIMESTAMP WITH TIME ZONE,
+  ended_by UUID REFERENCES users(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_hospital_diversions_open
+  ON hospital_diversions(hospital_id, expires_at)
+  WHERE ended_at IS NULL;
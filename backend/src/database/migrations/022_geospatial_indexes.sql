@@ -0,0 +1,10 @@
+-- Point indexes for the bounding box prefilter in src/utils/geoSearch.ts. Proximity queries
+-- match point(longitude, latitude) against the box, which these GiST indexes serve in both
+-- dimensions, and check the exact distance on what is left.
+CREATE INDEX IF NOT EXISTS idx_hospitals_location
+  ON hospitals USING gist (point(longitude::float8, latitude::float8))
+  WHERE is_active = true AND is_approved = true AND latitude IS NOT NULL AND longitude IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_drivers_location
+  ON drivers USING gist (point(current_longitude::float8, current_latitude::float8))
+  WHERE current_latitude IS NOT NULL AND current_longitude IS NOT NULL;
@@ -0,0 +1,23 @@
+-- Area each hospital serves, limiting its pending queue: a radius around the hospital or a
+-- GeoJSON polygon. Hospitals without a row serve SERVICE_AREA_DEFAULT_RADIUS_KM around them.
+CREATE TABLE IF NOT EXISTS hospital_service_areas (
+  hospital_id UUID PRIMARY KEY REFERENCES hospitals(id) ON DELETE CASCADE,
+  area_type VARCHAR(10) NOT NULL CHECK (area_type IN ('radius', 'polygon')),
+  radius_km NUMERIC(6, 2) CHECK (radius_km > 0),
+  -- GeoJSON Polygon geometry with [longitude, latitude] positions
+  boundary JSONB,
+  -- The boundary as a Postgres polygon of (longitude, latitude) points, for containment checks
+  shape POLYGON,
+  -- Hospital account that last changed the area
+  updated_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  CHECK (
+    (area_type = 'radius' AND radius_km IS NOT NULL AND boundary IS NULL AND shape IS NULL)
+    OR (area_type = 'polygon' AND boundary IS NOT NULL AND shape IS NOT NULL AND radius_km IS NULL)
+  )
+);
+
+-- Pending queues look up requests by pickup position within the area's bounding box
+CREATE INDEX IF NOT EXISTS idx_emergency_requests_pending_pickup
+  ON emergency_requests USING gist (point(pickup_longitude::float8, pickup_latitude::float8))
+  WHERE status = 'pending';
@@ -0,0 +1,60 @@
+import { User } from '../models/user.model';
+import { UserRole } from '../middleware/auth';
+import { logger } from '../utils/logger';
+import pool from './connection';
+
+/**
+ * Create the first admin account from ADMIN_EMAIL and ADMIN_PASSWORD. Admins cannot
+ * register through the API, so this is how a new deployment gets its first one.
+ * Running it again for an existing email leaves the account untouched.
+ */
+async function seedAdmin() {
+  const email = process.env.ADMIN_EMAIL;
+  const password = process.env.ADMIN_PASSWORD;
+
+  if (!email || !password) {
+    throw new Error('ADMIN_EMAIL and ADMIN_PASSWORD must be set');
+  }
+
+  if (password.length < 8) {
+    throw new Error('ADMIN_PASSWORD must be at least 8 characters long');
+  }
+
+  const userModel = new User();
+
+  const existingUser = await userModel.findByEmail(email);
+  if (existingUser) {
+    if (existingUser.role !== UserRole.ADMIN) {
+      throw new Error(`${email} is already registered as ${existingUser.role}`);
+    }
+    logger.info(`Admin ${email} already exists`);
+    return;
+  }
+
+  const admin = await userModel.create({
+    email,
+    password,
+    role: UserRole.ADMIN,
+    first_name: process.env.ADMIN_FIRST_NAME || 'Platform',
+    last_name: process.env.ADMIN_LAST_NAME || 'Admin',
+    phone: process.env.ADMIN_PHONE || '0000000000',
+  });
+
+  // The operator chose this address, so there is nothing to confirm
+  await userModel.markEmailVerified(admin.id as string);
+
+  logger.info(`Created admin ${email}`);
+}
+
+// Seed directly if this script is executed directly
+if (require.main === module) {
+  seedAdmin()
+    .then(() => pool.end())
+    .then(() => process.exit(0))
+    .catch((err) => {
+      logger.error('Admin seeding failed', { error: err });
+      process.exit(1);
+    });
+}
+
+export default seedAdmin;
@@ -3,31 +3,31 @@ import http from 'http';
 import cors from 'cors';
 import helmet from 'helmet';
 import morgan from 'morgan';
-import { Server } from 'socket.io';
 import passport from 'passport';
 
 import config from './config';
 import { logger, morganStream } from './utils/logger';
 import { notFoundHandler, errorHandler } from './middleware/errorHandler';
+import { apiRateLimit } from './middleware/rateLimit';
+import dispatchService from './services/dispatch.service';
+import { initializeSocket } from './socket';
 
 // Import routes
 import authRoutes from './routes/auth.routes';
 import emergencyRoutes from './routes/emergency.routes';
 import hospitalRoutes from './routes/hospital.routes';
 import driverRoutes from './routes/driver.routes';
+import chatRoutes from './routes/chat.routes';
+import adminRoutes from './routes/admin.routes';
+import profileRoutes from './routes/profile.routes';
 
 // Initialize Express app
 const app: Express = express();
+app.set('trust proxy', config.server.trustProxy);
 const server = http.createServer(app);
 
 // Initialize Socket.IO
-const io = new Server(server, {
-  cors: {
-    origin: '*', // Allow all origins temporarily for debugging
-    methods: ['GET', 'POST'],
-    credentials: true,
-  },
-});
+const io = initializeSocket(server);
 
 // Middleware
 // app.use(helmet()); // Temporarily disabled for CORS debugging
@@ -46,12 +46,16 @@ app.use(passport.initialize()); // Initialize passport
 // API routes
 const apiRouter = express.Router();
 app.use(config.server.apiPrefix, apiRouter);
+apiRouter.use(apiRateLimit);
 
 // Register routes
 apiRouter.use('/auth', authRoutes);
 apiRouter.use('/', emergencyRoutes); // Mount emergency routes directly at root
 apiRouter.use('/', hospitalRoutes); // Mount hospital routes directly at root
 apiRouter.use('/driver', driverRoutes); // Mount driver routes at /driver
+apiRouter.use('/', chatRoutes); // Mount emergency chat routes directly at root
+apiRouter.use('/admin', adminRoutes); // Mount admin console routes at /admin
+apiRouter.use('/', profileRoutes); // Mount patient profile routes directly at root
 
 // API welcome route
 apiRouter.get('/', (req, res) => {
@@ -67,20 +71,14 @@ app.get('/health', (req, res) => {
 app.use(notFoundHandler);
 app.use(errorHandler);
 
-// Socket.IO connection handler
-io.on('connection', (socket) => {
-  logger.info(`Socket connected: ${socket.id}`);
-
-  socket.on('disconnect', () => {
-    logger.info(`Socket disconnected: ${socket.id}`);
-  });
-});
-
 // Start server
 const PORT = config.server.port;
 server.listen(PORT, () => {
   logger.info(`Server running on port ${PORT} in ${config.env} mode`);
   logger.info(`API available at http://localhost:${PORT}${config.server.apiPrefix}`);
+
+  // Pick up hospital offers that were still open when the server last stopped
+  dispatchService.resumeOutstandingDispatches();
 });
 
 // Handle unhandled promise rejections
@@ -3,6 +3,7 @@ import { Strategy as JwtStrategy, ExtractJwt } from 'passport-jwt';
 import { Request, Response, NextFunction } from 'express';
 import { ApiError } from './errorHandler';
 import config from '../config';
+import accountService from '../services/account.service';
 
 // Define user types
 export enum UserRole {
@@ -12,12 +13,15 @@ export enum UserRole {
   ADMIN = 'admin',
 }
 
-// JWT payload type
+// JWT payload type. authenticate adds the ID of the hospital or driver profile the account
+// owns; those are not part of the token itself.
 export interface JwtPayload {
   id: string;
   role: UserRole;
   iat: number;
   exp: number;
+  hospitalId?: string;
+  driverId?: string;
 }
 
 // Configure JWT strategy
@@ -26,13 +30,37 @@ const jwtOptions = {
   secretOrKey: config.jwt.secret,
 };
 
+/**
+ * Check the account behind a verified token and attach its hospital or driver profile.
+ * Deleted accounts and tokens issued before a role change resolve to null; suspended
+ * accounts are rejected.
+ * @param payload Verified JWT payload
+ * @returns The authenticated user, or null
+ */
+export const resolveTokenUser = async (payload: JwtPayload): Promise<JwtPayload | null> => {
+  const account = await accountService.getAccount(payload.id);
+
+  if (!account || account.role !== payload.role) {
+    return null;
+  }
+
+  if (!account.isActive) {
+    throw new ApiError(401, 'Unauthorized - Account is suspended');
+  }
+
+  return {
+    ...payload,
+    hospitalId: account.hospitalId,
+    driverId: account.driverId,
+  };
+};
+
 // Initialize passport with JWT strategy
 passport.use(
   new JwtStrategy(jwtOptions, async (payload: JwtPayload, done) => {
     try {
-      // Here you would typically check if the user exists in the database
-      // For now, we'll just pass the payload as the user
-      return done(null, payload);
+      const user = await resolveTokenUser(payload);
+      return done(null, user || false);
     } catch (error) {
       return done(error, false);
     }
@@ -13,6 +13,16 @@ export class ApiError extends Error {
   }
 }
 
+// Rate limit and lockout errors; the client may retry after retryAfterSeconds, if known
+export class TooManyRequestsError extends ApiError {
+  retryAfterSeconds?: number;
+
+  constructor(message: string, retryAfterSeconds?: number) {
+    super(429, message);
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
 // Not found error middleware
 export const notFoundHandler = (req: Request, res: Response, next: NextFunction) => {
   const error = new ApiError(404, `Resource not found - ${req.originalUrl}`);
@@ -40,10 +50,17 @@ export const errorHandler = (
   // Determine if sending stack trace based on environment
   const stack = process.env.NODE_ENV === 'production' ? undefined : err.stack;
 
+  // Tell throttled clients when they can try again
+  const retryAfter = err instanceof TooManyRequestsError ? err.retryAfterSeconds : undefined;
+  if (retryAfter !== undefined) {
+    res.set('Retry-After', String(retryAfter));
+  }
+
   res.status(statusCode).json({
     success: false,
     error: {
       message,
+      ...(retryAfter !== undefined && { retryAfter }),
       stack,
     },
   });
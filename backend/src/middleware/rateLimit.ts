@@ -0,0 +1,108 @@
+import { Request, Response, NextFunction } from 'express';
+import config from '../config';
+import { TooManyRequestsError } from './errorHandler';
+import type { JwtPayload } from './auth';
+import rateLimitService from '../services/rateLimit.service';
+import { logger } from '../utils/logger';
+
+interface RateLimitOptions {
+  // Namespaces the counters of this limiter
+  name: string;
+  windowSeconds: number;
+  max: number;
+  // Who the request is counted against; requests without a key are not limited
+  key: (req: Request) => string | undefined;
+  message: string;
+}
+
+export const byIp = (req: Request): string | undefined => req.ip;
+
+// Must run after authenticate
+export const byUser = (req: Request): string | undefined => (req.user as JwtPayload)?.id;
+
+/**
+ * Limit how often a client can call the routes behind this middleware. Responses carry
+ * RateLimit-Limit, RateLimit-Remaining and RateLimit-Reset headers; requests over the limit
+ * fail with 429 and Retry-After.
+ * @param options Limiter options
+ * @returns Middleware
+ */
+export const rateLimit = (options: RateLimitOptions) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const key = options.key(req);
+    if (!config.rateLimit.enabled || !key) {
+      return next();
+    }
+
+    try {
+      const result = await rateLimitService.hit(
+        `${options.name}:${key}`,
+        options.max,
+        options.windowSeconds,
+      );
+
+      res.set({
+        'RateLimit-Limit': String(result.limit),
+        'RateLimit-Remaining': String(result.remaining),
+        'RateLimit-Reset': String(result.retryAfterSeconds),
+      });
+
+      if (!result.allowed) {
+        return next(new TooManyRequestsError(options.message, result.retryAfterSeconds));
+      }
+      return next();
+    } catch (error) {
+      // An unavailable store must not take the API down with it
+      logger.error('Rate limiter failed; letting the request through', {
+        error,
+        limiter: options.name,
+      });
+      return next();
+    }
+  };
+};
+
+// Every API request, per client IP
+export const apiRateLimit = rateLimit({
+  name: 'api',
+  windowSeconds: config.rateLimit.api.windowSeconds,
+  max: config.rateLimit.api.maxPerIp,
+  key: byIp,
+  message: 'Too many requests, please slow down',
+});
+
+// Login attempts per client IP; failed logins per account are locked out by AuthService
+export const loginRateLimit = rateLimit({
+  name: 'login',
+  windowSeconds: config.rateLimit.login.windowSeconds,
+  max: config.rateLimit.login.maxPerIp,
+  key: byIp,
+  message: 'Too many login attempts, please try again later',
+});
+
+// Requests that send email (registration, verification resends, password resets) per client IP
+export const accountEmailRateLimit = rateLimit({
+  name: 'account-email',
+  windowSeconds: config.rateLimit.accountEmails.windowSeconds,
+  max: config.rateLimit.accountEmails.maxPerIp,
+  key: byIp,
+  message: 'Too many account requests, please try again later',
+});
+
+// New emergency requests per client IP
+export const emergencyIpRateLimit = rateLimit({
+  name: 'emergency-ip',
+  windowSeconds: config.rateLimit.emergencyCreate.windowSeconds,
+  max: config.rateLimit.emergencyCreate.maxPerIp,
+  key: byIp,
+  message: 'Too many emergency requests from this network, please try again later',
+});
+
+// New emergency requests per account
+export const emergencyUserRateLimit = rateLimit({
+  name: 'emergency-user',
+  windowSeconds: config.rateLimit.emergencyCreate.windowSeconds,
+  max: config.rateLimit.emergencyCreate.maxPerUser,
+  key: byUser,
+  message: 'Too many emergency requests from this account, please try again later',
+});
@@ -0,0 +1,56 @@
+import { Request, Response, NextFunction } from 'express';
+import { body, validationResult } from 'express-validator';
+import { ApiError } from '../errorHandler';
+
+/**
+ * Validation rules for rejecting a hospital registration
+ */
+export const validateHospitalRejection = [
+  body('reason')
+    .notEmpty()
+    .withMessage('Rejection reason is required')
+    .isString()
+    .withMessage('Rejection reason must be a string')
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Rejection reason cannot exceed 500 characters'),
+
+  // Validation handler middleware
+  (req: Request, res: Response, next: NextFunction) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      const messages = errors.array().map((error) => error.msg);
+      return next(new ApiError(400, messages.join(', ')));
+    }
+    return next();
+  },
+];
+
+/**
+ * Validation rules for reassigning an emergency request to another hospital
+ */
+export const validateEmergencyReassignment = [
+  body('hospitalId')
+    .notEmpty()
+    .withMessage('Hospital ID is required')
+    .isUUID()
+    .withMessage('Hospital ID must be a valid UUID'),
+
+  body('reason')
+    .optional()
+    .isString()
+    .withMessage('Reason must be a string')
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Reason cannot exceed 500 characters'),
+
+  // Validation handler middleware
+  (req: Request, res: Response, next: NextFunction) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      const messages = errors.array().map((error) => error.msg);
+      return next(new ApiError(400, messages.join(', ')));
+    }
+    return next();
+  },
+];
@@ -136,6 +136,24 @@ export const validateHospitalRegistration = [
     .isInt({ min: 1 })
     .withMessage('Maximum capacity must be a positive integer'),
 
+  body('licenseNumber')
+    .notEmpty()
+    .withMessage('License number is required')
+    .isString()
+    .withMessage('License number must be a string')
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage('License number cannot exceed 100 characters'),
+
+  body('hospitalType')
+    .notEmpty()
+    .withMessage('Hospital type is required')
+    .isString()
+    .withMessage('Hospital type must be a string')
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage('Hospital type cannot exceed 100 characters'),
+
   (req: Request, res: Response, next: NextFunction) => {
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
@@ -196,6 +214,15 @@ export const validateDriverRegistration = [
     .isLength({ min: 5, max: 20 })
     .withMessage('License number must be between 5 and 20 characters'),
 
+  body('hospitalId').optional().isUUID().withMessage('Hospital ID must be a valid UUID'),
+
+  body('inviteCode')
+    .optional()
+    .isString()
+    .withMessage('Invite code must be a string')
+    .isLength({ min: 6, max: 20 })
+    .withMessage('Invite code must be between 6 and 20 characters'),
+
   (req: Request, res: Response, next: NextFunction) => {
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
@@ -219,8 +246,90 @@ export const validateLogin = [
   body('userType')
     .notEmpty()
     .withMessage('User type is required')
-    .isIn([UserRole.USER, UserRole.HOSPITAL, UserRole.DRIVER])
-    .withMessage('User type must be one of: user, hospital, driver'),
+    .isIn([UserRole.USER, UserRole.HOSPITAL, UserRole.DRIVER, UserRole.ADMIN])
+    .withMessage('User type must be one of: user, hospital, driver, admin'),
+
+  (req: Request, res: Response, next: NextFunction) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      const errorMessage = formatValidationErrors(req);
+      return next(new ApiError(400, errorMessage));
+    }
+    next();
+  },
+];
+
+// Validate requests carrying a refresh token (refresh and logout)
+export const validateRefreshToken = [
+  body('refreshToken')
+    .notEmpty()
+    .withMessage('Refresh token is required')
+    .isString()
+    .withMessage('Refresh token must be a string'),
+
+  (req: Request, res: Response, next: NextFunction) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      const errorMessage = formatValidationErrors(req);
+      return next(new ApiError(400, errorMessage));
+    }
+    next();
+  },
+];
+
+// Validate requests that send an email to an address (resend verification, forgot password)
+export const validateEmailRequest = [
+  body('email')
+    .notEmpty()
+    .withMessage('Email is required')
+    .isEmail()
+    .withMessage('Invalid email format'),
+
+  (req: Request, res: Response, next: NextFunction) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      const errorMessage = formatValidationErrors(req);
+      return next(new ApiError(400, errorMessage));
+    }
+    next();
+  },
+];
+
+// Validate email verification request
+export const validateEmailVerification = [
+  body('token')
+    .notEmpty()
+    .withMessage('Verification token is required')
+    .isString()
+    .withMessage('Verification token must be a string'),
+
+  (req: Request, res: Response, next: NextFunction) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      const errorMessage = formatValidationErrors(req);
+      return next(new ApiError(400, errorMessage));
+    }
+    next();
+  },
+];
+
+// Validate password reset request
+export const validatePasswordReset = [
+  body('token')
+    .notEmpty()
+    .withMessage('Reset token is required')
+    .isString()
+    .withMessage('Reset token must be a string'),
+
+  body('password')
+    .notEmpty()
+    .withMessage('Password is required')
+    .isLength({ min: 8 })
+    .withMessage('Password must be at least 8 characters')
+    .matches(/(?=.*[a-z])(?=.*[A-Z])(?=.*[0-9])/)
+    .withMessage(
+      'Password must contain at least one uppercase letter, one lowercase letter, and one number',
+    ),
 
   (req: Request, res: Response, next: NextFunction) => {
     const errors = validationResult(req);
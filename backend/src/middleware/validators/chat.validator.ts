@@ -0,0 +1,27 @@
+import { Request, Response, NextFunction } from 'express';
+import { body, validationResult } from 'express-validator';
+import { ApiError } from '../errorHandler';
+
+/**
+ * Validation rules for posting a chat message
+ */
+export const validateChatMessage = [
+  body('message')
+    .isString()
+    .withMessage('Message must be a string')
+    .trim()
+    .notEmpty()
+    .withMessage('Message is required')
+    .isLength({ max: 1000 })
+    .withMessage('Message cannot exceed 1000 characters'),
+
+  // Validation handler middleware
+  (req: Request, res: Response, next: NextFunction) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      const messages = errors.array().map((error) => error.msg);
+      return next(new ApiError(400, messages.join(', ')));
+    }
+    return next();
+  },
+];
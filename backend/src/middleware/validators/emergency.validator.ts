@@ -1,6 +1,33 @@
 import { Request, Response, NextFunction } from 'express';
 import { body, validationResult } from 'express-validator';
 import { ApiError } from '../errorHandler';
+import { EmergencyCategory, TRIAGE_QUESTION_IDS } from '../../utils/emergencyTriage';
+
+const EMERGENCY_CATEGORIES = Object.values(EmergencyCategory);
+
+// Category and triage answers, shared by creation and later triage updates
+const triageRules = [
+  body('emergencyType')
+    .optional()
+    .isIn(EMERGENCY_CATEGORIES)
+    .withMessage(`Emergency type must be one of: ${EMERGENCY_CATEGORIES.join(', ')}`),
+
+  body('triageAnswers')
+    .optional()
+    .isObject()
+    .withMessage('Triage answers must be an object')
+    .custom((answers: Record<string, unknown>) =>
+      Object.keys(answers).every((id) => TRIAGE_QUESTION_IDS.includes(id as never)),
+    )
+    .withMessage(`Triage answers may only answer: ${TRIAGE_QUESTION_IDS.join(', ')}`),
+
+  ...TRIAGE_QUESTION_IDS.map((id) =>
+    body(`triageAnswers.${id}`)
+      .optional()
+      .isBoolean({ strict: true })
+      .withMessage('Triage answers must be true or false'),
+  ),
+];
 
 /**
  * Validation rules for creating an emergency request
@@ -29,6 +56,52 @@ export const validateEmergencyRequest = [
     .isLength({ max: 500 })
     .withMessage('Medical notes cannot exceed 500 characters'),
 
+  ...triageRules,
+
+  // Validation handler middleware
+  (req: Request, res: Response, next: NextFunction) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      const messages = errors.array().map((error) => error.msg);
+      return next(new ApiError(400, messages.join(', ')));
+    }
+    return next();
+  },
+];
+
+/**
+ * Validation rules for cancelling an emergency request
+ */
+export const validateEmergencyCancellation = [
+  body('reason')
+    .optional()
+    .isString()
+    .withMessage('Reason must be a string')
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Reason cannot exceed 500 characters'),
+
+  // Validation handler middleware
+  (req: Request, res: Response, next: NextFunction) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      const messages = errors.array().map((error) => error.msg);
+      return next(new ApiError(400, messages.join(', ')));
+    }
+    return next();
+  },
+];
+
+/**
+ * Validation rules for triaging an open emergency request
+ */
+export const validateEmergencyTriage = [
+  ...triageRules,
+
+  body()
+    .custom((value: Record<string, unknown>) => !!value.emergencyType || !!value.triageAnswers)
+    .withMessage('Emergency type or triage answers are required'),
+
   // Validation handler middleware
   (req: Request, res: Response, next: NextFunction) => {
     const errors = validationResult(req);
@@ -1,6 +1,15 @@
 import { Request, Response, NextFunction } from 'express';
-import { body, validationResult } from 'express-validator';
+import { body, query, validationResult } from 'express-validator';
 import { ApiError } from '../errorHandler';
+import config from '../../config';
+import {
+  AssignmentMode,
+  DeclineReason,
+  PendingEmergencySort,
+} from '../../services/hospital.service';
+import { EmergencyCategory, SEVERITY_ORDER, TriageSeverity } from '../../utils/emergencyTriage';
+import { HospitalDepartment } from '../../utils/hospitalCapacity';
+import { polygonError, ServiceAreaType } from '../../utils/serviceArea';
 
 /**
  * Validation rules for driver assignment
@@ -22,3 +31,236 @@ export const validateDriverAssignment = [
     return next();
   },
 ];
+
+/**
+ * Validation rules for declining an emergency request
+ */
+export const validateEmergencyDecline = [
+  body('reasonCode')
+    .notEmpty()
+    .withMessage('Reason code is required')
+    .isIn(Object.values(DeclineReason))
+    .withMessage(`Reason code must be one of: ${Object.values(DeclineReason).join(', ')}`),
+
+  body('notes')
+    .if(body('reasonCode').equals(DeclineReason.OTHER))
+    .notEmpty()
+    .withMessage('Notes are required when the reason code is other'),
+
+  body('notes')
+    .optional()
+    .isString()
+    .withMessage('Notes must be a string')
+    .isLength({ max: 500 })
+    .withMessage('Notes cannot exceed 500 characters'),
+
+  // Validation handler middleware
+  (req: Request, res: Response, next: NextFunction) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      const messages = errors.array().map((error) => error.msg);
+      return next(new ApiError(400, messages.join(', ')));
+    }
+    return next();
+  },
+];
+
+/**
+ * Validation rules for changing the driver assignment mode
+ */
+export const validateAssignmentMode = [
+  body('assignmentMode')
+    .isIn(Object.values(AssignmentMode))
+    .withMessage(`Assignment mode must be one of: ${Object.values(AssignmentMode).join(', ')}`),
+
+  // Validation handler middleware
+  (req: Request, res: Response, next: NextFunction) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      const messages = errors.array().map((error) => error.msg);
+      return next(new ApiError(400, messages.join(', ')));
+    }
+    return next();
+  },
+];
+
+/**
+ * Validation rules for inviting a driver to the hospital fleet
+ */
+export const validateDriverInvitation = [
+  body('email')
+    .notEmpty()
+    .withMessage('Email is required')
+    .isEmail()
+    .withMessage('Invalid email format'),
+
+  // Validation handler middleware
+  (req: Request, res: Response, next: NextFunction) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      const messages = errors.array().map((error) => error.msg);
+      return next(new ApiError(400, messages.join(', ')));
+    }
+    return next();
+  },
+];
+
+/**
+ * Validation rules for lending drivers to another hospital
+ */
+export const validateSharingAgreement = [
+  body('borrowerHospitalId')
+    .notEmpty()
+    .withMessage('Borrowing hospital ID is required')
+    .isUUID()
+    .withMessage('Borrowing hospital ID must be a valid UUID'),
+
+  // Validation handler middleware
+  (req: Request, res: Response, next: NextFunction) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      const messages = errors.array().map((error) => error.msg);
+      return next(new ApiError(400, messages.join(', ')));
+    }
+    return next();
+  },
+];
+
+/**
+ * Validation rules for sorting and filtering the pending emergency list
+ */
+export const validatePendingEmergencyQuery = [
+  query('sort')
+    .optional()
+    .isIn(Object.values(PendingEmergencySort))
+    .withMessage(`Sort must be one of: ${Object.values(PendingEmergencySort).join(', ')}`),
+
+  query('severity')
+    .optional()
+    .isString()
+    .custom((value: string) =>
+      value.split(',').every((severity) => SEVERITY_ORDER.includes(severity as TriageSeverity)),
+    )
+    .withMessage(`Severity must be a comma-separated list of: ${SEVERITY_ORDER.join(', ')}`),
+
+  // Validation handler middleware
+  (req: Request, res: Response, next: NextFunction) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      const messages = errors.array().map((error) => error.msg);
+      return next(new ApiError(400, messages.join(', ')));
+    }
+    return next();
+  },
+];
+
+/**
+ * Validation rules for publishing department bed capacity
+ */
+export const validateCapacityUpdate = [
+  body('departments')
+    .isArray({ min: 1, max: Object.values(HospitalDepartment).length })
+    .withMessage('Departments must be a non-empty list')
+    .custom(
+      (departments: Array<{ department?: string }>) =>
+        new Set(departments.map((entry) => entry.department)).size === departments.length,
+    )
+    .withMessage('Each department can only be listed once'),
+
+  body('departments.*.department')
+    .isIn(Object.values(HospitalDepartment))
+    .withMessage(`Department must be one of: ${Object.values(HospitalDepartment).join(', ')}`),
+
+  body('departments.*.totalBeds')
+    .isInt({ min: 0, max: 10000 })
+    .withMessage('Total beds must be a whole number between 0 and 10000')
+    .toInt(),
+
+  body('departments.*.availableBeds')
+    .isInt({ min: 0, max: 10000 })
+    .withMessage('Available beds must be a whole number between 0 and 10000')
+    .toInt(),
+
+  // Validation handler middleware
+  (req: Request, res: Response, next: NextFunction) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      const messages = errors.array().map((error) => error.msg);
+      return next(new ApiError(400, messages.join(', ')));
+    }
+    return next();
+  },
+];
+
+/**
+ * Validation rules for putting a hospital on diversion
+ */
+export const validateDiversion = [
+  body('categories')
+    .optional()
+    .isArray()
+    .withMessage('Categories must be a list; leave it empty for a full diversion'),
+
+  body('categories.*')
+    .isIn(Object.values(EmergencyCategory))
+    .withMessage(`Categories must be any of: ${Object.values(EmergencyCategory).join(', ')}`),
+
+  body('reason')
+    .isString()
+    .withMessage('Reason is required')
+    .trim()
+    .isLength({ min: 3, max: 500 })
+    .withMessage('Reason must be between 3 and 500 characters'),
+
+  body('durationMinutes')
+    .isInt({ min: 15, max: config.diversion.maxDurationHours * 60 })
+    .withMessage(
+      `Duration must be between 15 and ${config.diversion.maxDurationHours * 60} minutes`,
+    )
+    .toInt(),
+
+  // Validation handler middleware
+  (req: Request, res: Response, next: NextFunction) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      const messages = errors.array().map((error) => error.msg);
+      return next(new ApiError(400, messages.join(', ')));
+    }
+    return next();
+  },
+];
+
+/**
+ * Validation rules for setting a hospital's service area
+ */
+export const validateServiceArea = [
+  body('type')
+    .isIn(Object.values(ServiceAreaType))
+    .withMessage(`Type must be one of: ${Object.values(ServiceAreaType).join(', ')}`),
+
+  body('radiusKm')
+    .if(body('type').equals(ServiceAreaType.RADIUS))
+    .isFloat({ min: 1, max: config.serviceArea.maxRadiusKm })
+    .withMessage(`Radius must be between 1 and ${config.serviceArea.maxRadiusKm} km`)
+    .toFloat(),
+
+  body('boundary')
+    .if(body('type').equals(ServiceAreaType.POLYGON))
+    .custom((boundary: unknown) => {
+      const error = polygonError(boundary);
+      if (error) {
+        throw new Error(error);
+      }
+      return true;
+    }),
+
+  // Validation handler middleware
+  (req: Request, res: Response, next: NextFunction) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      const messages = errors.array().map((error) => error.msg);
+      return next(new ApiError(400, messages.join(', ')));
+    }
+    return next();
+  },
+];
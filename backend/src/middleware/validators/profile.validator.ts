@@ -0,0 +1,92 @@
+import { Request, Response, NextFunction } from 'express';
+import { body, validationResult } from 'express-validator';
+import { ApiError } from '../errorHandler';
+import { BLOOD_GROUPS } from '../../services/medicalProfile.service';
+
+const MAX_LIST_ITEMS = 20;
+const MAX_EMERGENCY_CONTACTS = 5;
+
+/**
+ * Rules for a list of short free-text entries such as allergies
+ * @param field Body field
+ * @param label Name used in error messages
+ */
+const textList = (field: string, label: string) => [
+  body(field)
+    .optional()
+    .isArray({ max: MAX_LIST_ITEMS })
+    .withMessage(`${label} must be a list of at most ${MAX_LIST_ITEMS} entries`),
+  body(`${field}.*`)
+    .isString()
+    .withMessage(`${label} entries must be strings`)
+    .trim()
+    .notEmpty()
+    .withMessage(`${label} entries cannot be empty`)
+    .isLength({ max: 100 })
+    .withMessage(`${label} entries cannot exceed 100 characters`),
+];
+
+/**
+ * Validation rules for replacing a medical profile
+ */
+export const validateMedicalProfile = [
+  body('dateOfBirth')
+    .optional({ values: 'null' })
+    .isISO8601({ strict: true })
+    .withMessage('Date of birth must be a date (YYYY-MM-DD)')
+    .custom((value: string) => new Date(value).getTime() <= Date.now())
+    .withMessage('Date of birth cannot be in the future'),
+
+  body('bloodGroup')
+    .optional({ values: 'null' })
+    .isIn(BLOOD_GROUPS)
+    .withMessage(`Blood group must be one of: ${BLOOD_GROUPS.join(', ')}`),
+
+  ...textList('allergies', 'Allergies'),
+  ...textList('chronicConditions', 'Chronic conditions'),
+  ...textList('currentMedications', 'Current medications'),
+
+  body('emergencyContacts')
+    .optional()
+    .isArray({ max: MAX_EMERGENCY_CONTACTS })
+    .withMessage(`At most ${MAX_EMERGENCY_CONTACTS} emergency contacts are allowed`),
+
+  body('emergencyContacts.*.name')
+    .isString()
+    .withMessage('Contact name must be a string')
+    .trim()
+    .notEmpty()
+    .withMessage('Contact name is required')
+    .isLength({ max: 100 })
+    .withMessage('Contact name cannot exceed 100 characters'),
+
+  body('emergencyContacts.*.relationship')
+    .optional({ values: 'null' })
+    .isString()
+    .withMessage('Contact relationship must be a string')
+    .trim()
+    .isLength({ max: 50 })
+    .withMessage('Contact relationship cannot exceed 50 characters'),
+
+  body('emergencyContacts.*.phoneNumber')
+    .isString()
+    .withMessage('Contact phone number is required')
+    .matches(/^\+?[0-9]{10,15}$/)
+    .withMessage('Invalid contact phone number format'),
+
+  body('emergencyContacts.*.email')
+    .optional({ values: 'falsy' })
+    .isEmail()
+    .withMessage('Invalid contact email address')
+    .normalizeEmail(),
+
+  // Validation handler middleware
+  (req: Request, res: Response, next: NextFunction) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      const messages = errors.array().map((error) => error.msg);
+      return next(new ApiError(400, messages.join(', ')));
+    }
+    return next();
+  },
+];
@@ -7,6 +7,7 @@ import { UserRole } from '../middleware/auth';
 export interface DriverData {
   id?: string;
   user_id?: string;
+  hospital_id?: string | null;
   license_number: string;
   license_expiry?: Date;
   vehicle_type?: string;
@@ -91,9 +92,9 @@ export class Driver {
       const driverQuery = `
         INSERT INTO drivers (
           user_id, license_number, license_expiry, vehicle_type, 
-          vehicle_registration, is_available, is_active, is_approved
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
-        RETURNING id, user_id, license_number, license_expiry, vehicle_type, 
+          vehicle_registration, is_available, is_active, is_approved, hospital_id
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+        RETURNING id, user_id, hospital_id, license_number, license_expiry, vehicle_type, 
                  vehicle_registration, is_available, current_latitude, current_longitude, 
                  last_location_update, is_active, is_approved, created_at, updated_at
       `;
@@ -111,6 +112,7 @@ export class Driver {
         driverData.is_available !== undefined ? driverData.is_available : true,
         driverData.is_active !== undefined ? driverData.is_active : true,
         driverData.is_approved !== undefined ? driverData.is_approved : false,
+        driverData.hospital_id || null,
       ];
 
       const driverResult: QueryResult = await client.query(driverQuery, driverValues);
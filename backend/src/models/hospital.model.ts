@@ -20,6 +20,9 @@ export interface HospitalData {
   emergency_capacity: number;
   is_active?: boolean;
   is_approved?: boolean;
+  reviewed_at?: Date | null;
+  reviewed_by?: string | null;
+  rejection_reason?: string | null;
   created_at?: Date;
   updated_at?: Date;
 }
@@ -177,4 +180,21 @@ export class Hospital {
       throw error;
     }
   }
+
+  /**
+   * Find hospital by license number
+   * @param licenseNumber Hospital license number
+   * @returns Hospital data if found
+   */
+  async findByLicenseNumber(licenseNumber: string): Promise<HospitalData | null> {
+    try {
+      const query = 'SELECT * FROM hospitals WHERE license_number = $1';
+      const result: QueryResult = await this.pool.query(query, [licenseNumber]);
+
+      return result.rows.length ? result.rows[0] : null;
+    } catch (error) {
+      logger.error('Error finding hospital by license number', { error });
+      throw error;
+    }
+  }
 }
@@ -1,4 +1,4 @@
-import { Pool, QueryResult } from 'pg';
+import { Pool, PoolClient, QueryResult } from 'pg';
 import bcrypt from 'bcrypt';
 import pool from '../database/connection';
 import { logger } from '../utils/logger';
@@ -19,6 +19,7 @@ export interface UserData {
   latitude?: number;
   longitude?: number;
   is_active?: boolean;
+  email_verified_at?: Date | null;
   created_at?: Date;
   updated_at?: Date;
 }
@@ -117,6 +118,38 @@ export class User {
     }
   }
 
+  /**
+   * Replace a user's password
+   * @param id User ID
+   * @param password New plain-text password
+   * @param db Pool or client holding the caller's transaction
+   */
+  async updatePassword(
+    id: string,
+    password: string,
+    db: Pool | PoolClient = this.pool,
+  ): Promise<void> {
+    const salt = await bcrypt.genSalt(10);
+    const hashedPassword = await bcrypt.hash(password, salt);
+
+    await db.query('UPDATE users SET password = $2, updated_at = NOW() WHERE id = $1', [
+      id,
+      hashedPassword,
+    ]);
+  }
+
+  /**
+   * Record that a user has proved they own their email address
+   * @param id User ID
+   * @param db Pool or client holding the caller's transaction
+   */
+  async markEmailVerified(id: string, db: Pool | PoolClient = this.pool): Promise<void> {
+    await db.query(
+      'UPDATE users SET email_verified_at = COALESCE(email_verified_at, NOW()) WHERE id = $1',
+      [id],
+    );
+  }
+
   /**
    * Verify password for a user
    * @param providedPassword Password to verify
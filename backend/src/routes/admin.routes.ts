@@ -0,0 +1,229 @@
+import express from 'express';
+import adminController from '../controllers/admin.controller';
+import { authenticate, authorize, UserRole } from '../middleware/auth';
+import { validateRequest } from '../middleware/validator';
+import { param, query } from 'express-validator';
+import {
+  validateEmergencyReassignment,
+  validateHospitalRejection,
+} from '../middleware/validators/admin.validator';
+import { HospitalReviewStatus } from '../services/hospital.service';
+
+const router = express.Router();
+
+const paginationRules = [
+  query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer').toInt(),
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('Limit must be between 1 and 100')
+    .toInt(),
+];
+
+/**
+ * @route   GET /api/admin/users
+ * @desc    List user accounts, optionally filtered by role
+ * @access  Private (Admin)
+ */
+router.get(
+  '/users',
+  authenticate,
+  authorize(UserRole.ADMIN),
+  [
+    query('role')
+      .optional()
+      .isIn(Object.values(UserRole))
+      .withMessage(`Role must be one of: ${Object.values(UserRole).join(', ')}`),
+    ...paginationRules,
+  ],
+  validateRequest,
+  adminController.getUsers,
+);
+
+/**
+ * @route   PUT /api/admin/users/:userId/suspend
+ * @desc    Suspend a user account
+ * @access  Private (Admin)
+ */
+router.put(
+  '/users/:userId/suspend',
+  authenticate,
+  authorize(UserRole.ADMIN),
+  [param('userId').isUUID().withMessage('Invalid user ID')],
+  validateRequest,
+  adminController.suspendUser,
+);
+
+/**
+ * @route   PUT /api/admin/users/:userId/reactivate
+ * @desc    Reactivate a suspended user account
+ * @access  Private (Admin)
+ */
+router.put(
+  '/users/:userId/reactivate',
+  authenticate,
+  authorize(UserRole.ADMIN),
+  [param('userId').isUUID().withMessage('Invalid user ID')],
+  validateRequest,
+  adminController.reactivateUser,
+);
+
+/**
+ * @route   GET /api/admin/hospitals
+ * @desc    List hospitals with their fleet size and open emergencies
+ * @access  Private (Admin)
+ */
+router.get(
+  '/hospitals',
+  authenticate,
+  authorize(UserRole.ADMIN),
+  paginationRules,
+  validateRequest,
+  adminController.getHospitals,
+);
+
+/**
+ * @route   GET /api/admin/hospitals/registrations
+ * @desc    List hospital registrations by review status (pending by default)
+ * @access  Private (Admin)
+ */
+router.get(
+  '/hospitals/registrations',
+  authenticate,
+  authorize(UserRole.ADMIN),
+  [
+    query('status')
+      .optional()
+      .isIn(Object.values(HospitalReviewStatus))
+      .withMessage(`Status must be one of: ${Object.values(HospitalReviewStatus).join(', ')}`),
+    ...paginationRules,
+  ],
+  validateRequest,
+  adminController.getHospitalRegistrations,
+);
+
+/**
+ * @route   PUT /api/admin/hospitals/:hospitalId/approve
+ * @desc    Approve a hospital registration so it receives emergencies
+ * @access  Private (Admin)
+ */
+router.put(
+  '/hospitals/:hospitalId/approve',
+  authenticate,
+  authorize(UserRole.ADMIN),
+  [param('hospitalId').isUUID().withMessage('Invalid hospital ID')],
+  validateRequest,
+  adminController.approveHospital,
+);
+
+/**
+ * @route   PUT /api/admin/hospitals/:hospitalId/reject
+ * @desc    Reject a hospital registration with a reason
+ * @access  Private (Admin)
+ */
+router.put(
+  '/hospitals/:hospitalId/reject',
+  authenticate,
+  authorize(UserRole.ADMIN),
+  param('hospitalId').isUUID().withMessage('Invalid hospital ID'),
+  validateHospitalRejection,
+  adminController.rejectHospital,
+);
+
+/**
+ * @route   PUT /api/admin/hospitals/:hospitalId/suspend
+ * @desc    Suspend a hospital and its account
+ * @access  Private (Admin)
+ */
+router.put(
+  '/hospitals/:hospitalId/suspend',
+  authenticate,
+  authorize(UserRole.ADMIN),
+  [param('hospitalId').isUUID().withMessage('Invalid hospital ID')],
+  validateRequest,
+  adminController.suspendHospital,
+);
+
+/**
+ * @route   PUT /api/admin/hospitals/:hospitalId/reactivate
+ * @desc    Reactivate a suspended hospital
+ * @access  Private (Admin)
+ */
+router.put(
+  '/hospitals/:hospitalId/reactivate',
+  authenticate,
+  authorize(UserRole.ADMIN),
+  [param('hospitalId').isUUID().withMessage('Invalid hospital ID')],
+  validateRequest,
+  adminController.reactivateHospital,
+);
+
+/**
+ * @route   GET /api/admin/drivers
+ * @desc    List drivers
+ * @access  Private (Admin)
+ */
+router.get(
+  '/drivers',
+  authenticate,
+  authorize(UserRole.ADMIN),
+  paginationRules,
+  validateRequest,
+  adminController.getDrivers,
+);
+
+/**
+ * @route   PUT /api/admin/drivers/:driverId/suspend
+ * @desc    Suspend a driver and their account
+ * @access  Private (Admin)
+ */
+router.put(
+  '/drivers/:driverId/suspend',
+  authenticate,
+  authorize(UserRole.ADMIN),
+  [param('driverId').isUUID().withMessage('Invalid driver ID')],
+  validateRequest,
+  adminController.suspendDriver,
+);
+
+/**
+ * @route   PUT /api/admin/drivers/:driverId/reactivate
+ * @desc    Reactivate a suspended driver
+ * @access  Private (Admin)
+ */
+router.put(
+  '/drivers/:driverId/reactivate',
+  authenticate,
+  authorize(UserRole.ADMIN),
+  [param('driverId').isUUID().withMessage('Invalid driver ID')],
+  validateRequest,
+  adminController.reactivateDriver,
+);
+
+/**
+ * @route   GET /api/admin/emergencies/live
+ * @desc    Get all open emergency requests, flagging stuck ones
+ * @access  Private (Admin)
+ */
+router.get(
+  '/emergencies/live',
+  authenticate,
+  authorize(UserRole.ADMIN),
+  adminController.getLiveEmergencies,
+);
+
+/**
+ * @route   POST /api/admin/emergencies/:requestId/reassign
+ * @desc    Reassign a pending or accepted emergency request to another hospital
+ * @access  Private (Admin)
+ */
+router.post(
+  '/emergencies/:requestId/reassign',
+  authenticate,
+  authorize(UserRole.ADMIN),
+  param('requestId').isUUID().withMessage('Invalid request ID'),
+  validateEmergencyReassignment,
+  adminController.reassignEmergency,
+);
+
+export default router;
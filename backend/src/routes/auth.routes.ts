@@ -5,20 +5,72 @@ import {
   validateHospitalRegistration,
   validateDriverRegistration,
   validateLogin,
+  validateRefreshToken,
+  validateEmailRequest,
+  validateEmailVerification,
+  validatePasswordReset,
 } from '../middleware/validators/auth.validator';
+import { authenticate } from '../middleware/auth';
+import { accountEmailRateLimit, loginRateLimit } from '../middleware/rateLimit';
 
 const router = Router();
 
 // User registration
-router.post('/register/user', validateUserRegistration, authController.registerUser);
+router.post(
+  '/register/user',
+  accountEmailRateLimit,
+  validateUserRegistration,
+  authController.registerUser,
+);
 
 // Hospital registration
-router.post('/register/hospital', validateHospitalRegistration, authController.registerHospital);
+router.post(
+  '/register/hospital',
+  accountEmailRateLimit,
+  validateHospitalRegistration,
+  authController.registerHospital,
+);
 
 // Driver registration
-router.post('/register/driver', validateDriverRegistration, authController.registerDriver);
+router.post(
+  '/register/driver',
+  accountEmailRateLimit,
+  validateDriverRegistration,
+  authController.registerDriver,
+);
 
 // Login for all user types
-router.post('/login', validateLogin, authController.login);
+router.post('/login', loginRateLimit, validateLogin, authController.login);
+
+// Exchange a refresh token for new tokens
+router.post('/refresh', validateRefreshToken, authController.refreshToken);
+
+// Sign out of the session the refresh token belongs to
+router.post('/logout', validateRefreshToken, authController.logout);
+
+// Sign out of every session
+router.post('/logout-all', authenticate, authController.logoutAll);
+
+// Confirm an email address with the token from the verification email
+router.post('/verify-email', validateEmailVerification, authController.verifyEmail);
+
+// Send a new verification email
+router.post(
+  '/verify-email/resend',
+  accountEmailRateLimit,
+  validateEmailRequest,
+  authController.resendVerificationEmail,
+);
+
+// Email a password reset link
+router.post(
+  '/forgot-password',
+  accountEmailRateLimit,
+  validateEmailRequest,
+  authController.forgotPassword,
+);
+
+// Set a new password with the token from the reset email
+router.post('/reset-password', validatePasswordReset, authController.resetPassword);
 
 export default router;
@@ -0,0 +1,25 @@
+import { Router } from 'express';
+import chatController from '../controllers/chat.controller';
+import { authenticate, authorize, UserRole } from '../middleware/auth';
+import { validateChatMessage } from '../middleware/validators/chat.validator';
+
+const router = Router();
+
+// The service further limits access to the emergency's participants
+const chatAuth = [authenticate, authorize(UserRole.USER, UserRole.HOSPITAL, UserRole.DRIVER)];
+
+// Get chat history - GET /api/emergencies/{requestId}/messages
+router.get('/emergencies/:requestId/messages', chatAuth, chatController.getMessages);
+
+// Post a chat message - POST /api/emergencies/{requestId}/messages
+router.post(
+  '/emergencies/:requestId/messages',
+  chatAuth,
+  validateChatMessage,
+  chatController.sendMessage,
+);
+
+// Mark chat messages as read - POST /api/emergencies/{requestId}/messages/read
+router.post('/emergencies/:requestId/messages/read', chatAuth, chatController.markMessagesRead);
+
+export default router;
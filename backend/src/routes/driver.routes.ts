@@ -3,9 +3,17 @@ import driverController from '../controllers/driver.controller';
 import { authenticate, authorize, UserRole } from '../middleware/auth';
 import { validateRequest } from '../middleware/validator';
 import { body, param, query } from 'express-validator';
+import { DRIVER_REPORTED_STATUSES } from '../utils/emergencyLifecycle';
 
 const router = express.Router();
 
+/**
+ * @route   GET /api/driver/status
+ * @desc    Get driver availability status
+ * @access  Private (Driver)
+ */
+router.get('/status', authenticate, authorize(UserRole.DRIVER), driverController.getDriverStatus);
+
 /**
  * @route   PUT /api/driver/status
  * @desc    Update driver availability status
@@ -43,7 +51,7 @@ router.put(
   authorize(UserRole.DRIVER),
   [
     param('id').isUUID().withMessage('Invalid assignment ID'),
-    body('status').isIn(['en_route', 'arrived', 'completed']).withMessage('Invalid status value'),
+    body('status').isIn(DRIVER_REPORTED_STATUSES).withMessage('Invalid status value'),
   ],
   validateRequest,
   driverController.updateAssignmentStatus,
@@ -74,4 +82,56 @@ router.get(
   driverController.getAssignmentHistory,
 );
 
+/**
+ * @route   PUT /api/driver/location
+ * @desc    Update driver's current location
+ * @access  Private (Driver)
+ */
+router.put(
+  '/location',
+  authenticate,
+  authorize(UserRole.DRIVER),
+  [
+    body('latitude')
+      .isFloat({ min: -90, max: 90 })
+      .withMessage('Latitude must be a valid coordinate between -90 and 90')
+      .toFloat(),
+    body('longitude')
+      .isFloat({ min: -180, max: 180 })
+      .withMessage('Longitude must be a valid coordinate between -180 and 180')
+      .toFloat(),
+    body('heading')
+      .optional()
+      .isFloat({ min: 0, max: 360 })
+      .withMessage('Heading must be between 0 and 360 degrees')
+      .toFloat(),
+    body('speed')
+      .optional()
+      .isFloat({ min: 0 })
+      .withMessage('Speed must be a positive number')
+      .toFloat(),
+    body('accuracy')
+      .optional()
+      .isFloat({ min: 0 })
+      .withMessage('Accuracy must be a positive number')
+      .toFloat(),
+  ],
+  validateRequest,
+  driverController.updateLocation,
+);
+
+/**
+ * @route   POST /api/driver/invitations/accept
+ * @desc    Join a hospital fleet with an invitation code
+ * @access  Private (Driver)
+ */
+router.post(
+  '/invitations/accept',
+  authenticate,
+  authorize(UserRole.DRIVER),
+  [body('inviteCode').isString().notEmpty().withMessage('Invite code is required')],
+  validateRequest,
+  driverController.acceptInvitation,
+);
+
 export default router;
@@ -1,15 +1,25 @@
 import { Router } from 'express';
 import emergencyController from '../controllers/emergency.controller';
 import { authenticate, authorize, UserRole } from '../middleware/auth';
-import { validateEmergencyRequest } from '../middleware/validators/emergency.validator';
+import {
+  validateEmergencyCancellation,
+  validateEmergencyRequest,
+  validateEmergencyTriage,
+} from '../middleware/validators/emergency.validator';
+import { emergencyIpRateLimit, emergencyUserRateLimit } from '../middleware/rateLimit';
 
 const router = Router();
 
+// Get emergency categories and triage questions - GET /api/emergency-types
+router.get('/emergency-types', emergencyController.getEmergencyCatalogue);
+
 // Create emergency request - POST /api/user/emergency
 router.post(
   '/user/emergency',
+  emergencyIpRateLimit,
   authenticate,
   authorize(UserRole.USER),
+  emergencyUserRateLimit,
   validateEmergencyRequest,
   emergencyController.createEmergency,
 );
@@ -39,4 +49,49 @@ router.get(
   emergencyController.getNearbyHospitals,
 );
 
+// Get ambulance location and trail - GET /api/user/emergency/{requestId}/tracking
+router.get(
+  '/user/emergency/:requestId/tracking',
+  authenticate,
+  authorize(UserRole.USER),
+  emergencyController.getEmergencyTracking,
+);
+
+// Cancel an emergency request - POST /api/user/emergency/{requestId}/cancel
+router.post(
+  '/user/emergency/:requestId/cancel',
+  authenticate,
+  authorize(UserRole.USER),
+  validateEmergencyCancellation,
+  emergencyController.cancelEmergency,
+);
+
+// Describe an open emergency request - PUT /api/user/emergency/{requestId}/triage
+router.put(
+  '/user/emergency/:requestId/triage',
+  authenticate,
+  authorize(UserRole.USER),
+  validateEmergencyTriage,
+  emergencyController.updateTriage,
+);
+
+// Create a shareable status link - POST /api/user/emergency/{requestId}/status-link
+router.post(
+  '/user/emergency/:requestId/status-link',
+  authenticate,
+  authorize(UserRole.USER),
+  emergencyController.createStatusLink,
+);
+
+// Follow an emergency through a status link, without an account - GET /api/emergency-status/{token}
+router.get('/emergency-status/:token', emergencyController.getPublicStatus);
+
+// Get the audit trail of an emergency - GET /api/emergencies/{requestId}/timeline
+router.get(
+  '/emergencies/:requestId/timeline',
+  authenticate,
+  authorize(UserRole.USER, UserRole.HOSPITAL, UserRole.ADMIN),
+  emergencyController.getEmergencyTimeline,
+);
+
 export default router;
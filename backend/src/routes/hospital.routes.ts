@@ -1,17 +1,34 @@
 import { Router } from 'express';
 import hospitalController from '../controllers/hospital.controller';
 import { authenticate, authorize, UserRole } from '../middleware/auth';
-import { validateDriverAssignment } from '../middleware/validators/hospital.validator';
+import {
+  validateAssignmentMode,
+  validateCapacityUpdate,
+  validateDiversion,
+  validateDriverAssignment,
+  validateDriverInvitation,
+  validateEmergencyDecline,
+  validatePendingEmergencyQuery,
+  validateServiceArea,
+  validateSharingAgreement,
+} from '../middleware/validators/hospital.validator';
 
 const router = Router();
 
 // All hospital routes require authentication and hospital role
 const hospitalAuth = [authenticate, authorize(UserRole.HOSPITAL)];
 
+// List active, approved hospitals (public, used by driver registration)
+router.get('/hospitals', hospitalController.getHospitalDirectory);
+
+// Get the admin review status of the hospital's registration
+router.get('/hospital/registration', hospitalAuth, hospitalController.getRegistrationReview);
+
 // Get pending emergency requests
 router.get(
   '/hospital/emergency/pending',
   hospitalAuth,
+  validatePendingEmergencyQuery,
   hospitalController.getPendingEmergencyRequests,
 );
 
@@ -22,6 +39,14 @@ router.post(
   hospitalController.acceptEmergencyRequest,
 );
 
+// Decline emergency request
+router.post(
+  '/hospital/emergency/:requestId/reject',
+  hospitalAuth,
+  validateEmergencyDecline,
+  hospitalController.declineEmergencyRequest,
+);
+
 // Assign driver to emergency
 router.post(
   '/hospital/emergency/:requestId/assign',
@@ -30,6 +55,13 @@ router.post(
   hospitalController.assignDriverToEmergency,
 );
 
+// Get available drivers ranked for an emergency
+router.get(
+  '/hospital/emergency/:requestId/driver-suggestions',
+  hospitalAuth,
+  hospitalController.getDriverSuggestions,
+);
+
 // Get active emergency requests
 router.get(
   '/hospital/emergency/active',
@@ -37,10 +69,107 @@ router.get(
   hospitalController.getActiveEmergencyRequests,
 );
 
+// Get ambulance location and trail for an emergency
+router.get(
+  '/hospital/emergency/:requestId/tracking',
+  hospitalAuth,
+  hospitalController.getEmergencyTracking,
+);
+
+// Get driver assignment mode
+router.get(
+  '/hospital/settings/assignment-mode',
+  hospitalAuth,
+  hospitalController.getAssignmentMode,
+);
+
+// Update driver assignment mode
+router.put(
+  '/hospital/settings/assignment-mode',
+  hospitalAuth,
+  validateAssignmentMode,
+  hospitalController.updateAssignmentMode,
+);
+
+// Get published bed capacity per department
+router.get('/hospital/capacity', hospitalAuth, hospitalController.getCapacity);
+
+// Publish bed capacity for one or more departments
+router.put(
+  '/hospital/capacity',
+  hospitalAuth,
+  validateCapacityUpdate,
+  hospitalController.updateCapacity,
+);
+
+// Get the hospital's diversion status and history
+router.get('/hospital/diversion', hospitalAuth, hospitalController.getDiversion);
+
+// Put the hospital on diversion, fully or for some emergency categories
+router.put(
+  '/hospital/diversion',
+  hospitalAuth,
+  validateDiversion,
+  hospitalController.startDiversion,
+);
+
+// Lift the hospital's diversion
+router.delete('/hospital/diversion', hospitalAuth, hospitalController.endDiversion);
+
+// Get current diversions at neighbouring hospitals
+router.get('/hospital/diversions/nearby', hospitalAuth, hospitalController.getNeighbourDiversions);
+
+// Get the area the hospital serves
+router.get('/hospital/service-area', hospitalAuth, hospitalController.getServiceArea);
+
+// Set the area the hospital serves
+router.put(
+  '/hospital/service-area',
+  hospitalAuth,
+  validateServiceArea,
+  hospitalController.updateServiceArea,
+);
+
 // Get hospital drivers
 router.get('/hospital/drivers', hospitalAuth, hospitalController.getHospitalDrivers);
 
+// Invite a driver to the hospital fleet
+router.post(
+  '/hospital/drivers/invitations',
+  hospitalAuth,
+  validateDriverInvitation,
+  hospitalController.createDriverInvitation,
+);
+
+// Get driver invitations
+router.get('/hospital/drivers/invitations', hospitalAuth, hospitalController.getDriverInvitations);
+
+// Revoke a pending driver invitation
+router.delete(
+  '/hospital/drivers/invitations/:invitationId',
+  hospitalAuth,
+  hospitalController.revokeDriverInvitation,
+);
+
 // Approve driver
 router.post('/hospital/drivers/:driverId/approve', hospitalAuth, hospitalController.approveDriver);
 
+// Get driver sharing agreements
+router.get('/hospital/sharing-agreements', hospitalAuth, hospitalController.getSharingAgreements);
+
+// Lend drivers to another hospital
+router.post(
+  '/hospital/sharing-agreements',
+  hospitalAuth,
+  validateSharingAgreement,
+  hospitalController.createSharingAgreement,
+);
+
+// End a driver sharing agreement
+router.delete(
+  '/hospital/sharing-agreements/:agreementId',
+  hospitalAuth,
+  hospitalController.endSharingAgreement,
+);
+
 export default router;
@@ -0,0 +1,25 @@
+import { Router } from 'express';
+import profileController from '../controllers/profile.controller';
+import { authenticate, authorize, UserRole } from '../middleware/auth';
+import { validateMedicalProfile } from '../middleware/validators/profile.validator';
+
+const router = Router();
+
+// Get the medical profile - GET /api/user/profile/medical
+router.get(
+  '/user/profile/medical',
+  authenticate,
+  authorize(UserRole.USER),
+  profileController.getMedicalProfile,
+);
+
+// Replace the medical profile and emergency contacts - PUT /api/user/profile/medical
+router.put(
+  '/user/profile/medical',
+  authenticate,
+  authorize(UserRole.USER),
+  validateMedicalProfile,
+  profileController.updateMedicalProfile,
+);
+
+export default router;
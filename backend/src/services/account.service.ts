@@ -0,0 +1,76 @@
+import { QueryResult } from 'pg';
+import pool from '../database/connection';
+import config from '../config';
+import type { UserRole } from '../middleware/auth';
+import { TtlCache } from '../utils/ttlCache';
+
+/**
+ * The account behind an access token, with the hospital or driver profile it owns
+ */
+export interface Account {
+  id: string;
+  role: UserRole;
+  isActive: boolean;
+  hospitalId?: string;
+  driverId?: string;
+}
+
+/**
+ * Loads accounts for request authentication. Lookups are cached for
+ * `config.auth.accountCacheTtlSeconds`, so a change made elsewhere takes effect within that
+ * time; changes made through this process call invalidate() to take effect at once.
+ */
+export class AccountService {
+  private cache = new TtlCache<Account>(
+    config.auth.accountCacheTtlSeconds * 1000,
+    config.auth.accountCacheMaxEntries,
+  );
+
+  /**
+   * Get an account and its profile
+   * @param userId User ID
+   * @returns The account, or null if it no longer exists
+   */
+  async getAccount(userId: string): Promise<Account | null> {
+    const cached = this.cache.get(userId);
+    if (cached) {
+      return cached;
+    }
+
+    const result: QueryResult = await pool.query(
+      `SELECT u.id, u.role, u.is_active, h.id as hospital_id, d.id as driver_id
+       FROM users u
+       LEFT JOIN hospitals h ON h.user_id = u.id
+       LEFT JOIN drivers d ON d.user_id = u.id
+       WHERE u.id = $1`,
+      [userId],
+    );
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const row = result.rows[0];
+    const account: Account = {
+      id: row.id,
+      role: row.role,
+      isActive: row.is_active !== false,
+      hospitalId: row.hospital_id || undefined,
+      driverId: row.driver_id || undefined,
+    };
+
+    this.cache.set(userId, account);
+
+    return account;
+  }
+
+  /**
+   * Drop a cached account so the next request reads it from the database
+   * @param userId User ID
+   */
+  invalidate(userId: string): void {
+    this.cache.delete(userId);
+  }
+}
+
+export default new AccountService();
@@ -0,0 +1,70 @@
+import crypto from 'crypto';
+import { Pool, PoolClient, QueryResult } from 'pg';
+import pool from '../database/connection';
+
+export enum AccountTokenPurpose {
+  EMAIL_VERIFICATION = 'email_verification',
+  PASSWORD_RESET = 'password_reset',
+}
+
+const hashToken = (token: string): string =>
+  crypto.createHash('sha256').update(token).digest('hex');
+
+/**
+ * Single-use tokens sent by email to prove the recipient owns the account's address.
+ * Only hashes are stored, so the table cannot be used to take over accounts.
+ */
+export class AccountTokenService {
+  /**
+   * Issue a token, replacing any unused token for the same purpose
+   * @param userId User ID
+   * @param purpose What the token can be used for
+   * @param ttlMinutes How long the token stays valid
+   * @param db Pool or client holding the caller's transaction
+   * @returns The token to send to the user
+   */
+  async issue(
+    userId: string,
+    purpose: AccountTokenPurpose,
+    ttlMinutes: number,
+    db: Pool | PoolClient = pool,
+  ): Promise<string> {
+    const token = crypto.randomBytes(32).toString('base64url');
+
+    await db.query(`DELETE FROM account_tokens WHERE user_id = $1 AND purpose = $2`, [
+      userId,
+      purpose,
+    ]);
+    await db.query(
+      `INSERT INTO account_tokens (user_id, purpose, token_hash, expires_at)
+       VALUES ($1, $2, $3, NOW() + $4 * INTERVAL '1 minute')`,
+      [userId, purpose, hashToken(token), ttlMinutes],
+    );
+
+    return token;
+  }
+
+  /**
+   * Use up a token
+   * @param token Token from the email
+   * @param purpose What the token is being used for
+   * @param db Pool or client holding the caller's transaction
+   * @returns ID of the user the token was issued to, or null if it is unknown, used or expired
+   */
+  async consume(
+    token: string,
+    purpose: AccountTokenPurpose,
+    db: Pool | PoolClient = pool,
+  ): Promise<string | null> {
+    const result: QueryResult = await db.query(
+      `UPDATE account_tokens SET used_at = NOW()
+       WHERE token_hash = $1 AND purpose = $2 AND used_at IS NULL AND expires_at > NOW()
+       RETURNING user_id`,
+      [hashToken(token), purpose],
+    );
+
+    return result.rows.length > 0 ? result.rows[0].user_id : null;
+  }
+}
+
+export default new AccountTokenService();
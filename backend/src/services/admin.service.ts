@@ -0,0 +1,837 @@
+import { QueryResult } from 'pg';
+import pool from '../database/connection';
+import config from '../config';
+import { ApiError } from '../middleware/errorHandler';
+import { UserRole } from '../middleware/auth';
+import { logger } from '../utils/logger';
+import {
+  ACTIVE_ASSIGNMENT_STATUSES,
+  EmergencyStatus,
+  OPEN_REQUEST_STATUSES,
+} from '../utils/emergencyLifecycle';
+import dispatchService from './dispatch.service';
+import tokenService from './token.service';
+import accountService from './account.service';
+import medicalProfileService from './medicalProfile.service';
+import lifecycleService, { LifecycleTransition } from './lifecycle.service';
+import { AuditService, EmergencyEventType, EventActor } from './audit.service';
+import serviceAreaService from './serviceArea.service';
+import { HospitalReviewStatus, getHospitalReviewStatus } from './hospital.service';
+import { emitEmergencyEvent, emitUserEvent, SocketEvent } from '../socket/emitter';
+
+interface Pagination {
+  total: number;
+  page: number;
+  limit: number;
+}
+
+interface UserListResponse {
+  success: boolean;
+  data: Pagination & {
+    users: Array<{
+      id: string;
+      name: string;
+      email: string;
+      phoneNumber: string;
+      role: string;
+      isActive: boolean;
+      suspendedAt: Date | null;
+      createdAt: Date;
+    }>;
+  };
+}
+
+interface HospitalListResponse {
+  success: boolean;
+  data: Pagination & {
+    hospitals: Array<{
+      id: string;
+      userId: string;
+      name: string;
+      email: string;
+      phoneNumber: string;
+      address: string;
+      isActive: boolean;
+      reviewStatus: HospitalReviewStatus;
+      driverCount: number;
+      openEmergencies: number;
+      createdAt: Date;
+    }>;
+  };
+}
+
+interface HospitalRegistrationListResponse {
+  success: boolean;
+  data: Pagination & {
+    registrations: Array<{
+      id: string;
+      name: string;
+      email: string;
+      phoneNumber: string;
+      address: string;
+      licenseNumber: string;
+      hospitalType: string;
+      emergencyCapacity: number;
+      status: HospitalReviewStatus;
+      rejectionReason: string | null;
+      submittedAt: Date;
+      reviewedAt: Date | null;
+    }>;
+  };
+}
+
+interface HospitalReviewResponse {
+  success: boolean;
+  message: string;
+  data: {
+    hospitalId: string;
+    status: HospitalReviewStatus;
+    rejectionReason: string | null;
+    reviewedAt: Date;
+  };
+}
+
+// SQL condition selecting the hospitals in each review status
+const REVIEW_STATUS_CONDITIONS: Record<HospitalReviewStatus, string> = {
+  [HospitalReviewStatus.PENDING]: 'h.is_approved = false AND h.rejection_reason IS NULL',
+  [HospitalReviewStatus.APPROVED]: 'h.is_approved = true',
+  [HospitalReviewStatus.REJECTED]: 'h.is_approved = false AND h.rejection_reason IS NOT NULL',
+};
+
+interface DriverListResponse {
+  success: boolean;
+  data: Pagination & {
+    drivers: Array<{
+      id: string;
+      userId: string;
+      name: string;
+      email: string;
+      phoneNumber: string;
+      hospital: string | null;
+      isApproved: boolean;
+      isActive: boolean;
+      isAvailable: boolean;
+      createdAt: Date;
+    }>;
+  };
+}
+
+interface AccountStatusResponse {
+  success: boolean;
+  message: string;
+  data: {
+    userId: string;
+    role: string;
+    isActive: boolean;
+  };
+}
+
+interface LiveEmergencyResponse {
+  success: boolean;
+  data: {
+    stuckAfterMinutes: number;
+    requests: Array<{
+      requestId: string;
+      status: string;
+      user: {
+        name: string;
+        phoneNumber: string;
+      };
+      hospital: {
+        id: string;
+        name: string;
+      } | null;
+      driver: {
+        id: string;
+        name: string;
+        assignmentStatus: string;
+      } | null;
+      pickupAddress: string;
+      createdAt: Date;
+      updatedAt: Date;
+      escalatedAt: Date | null;
+      isStuck: boolean;
+    }>;
+  };
+}
+
+interface ReassignEmergencyResponse {
+  success: boolean;
+  message: string;
+  data: {
+    requestId: string;
+    status: string;
+    previousHospitalId: string | null;
+    hospitalId: string;
+  };
+}
+
+/**
+ * Platform administration: review of hospital registrations, account suspension across all
+ * roles, a view of every live emergency and manual reassignment of requests no hospital is
+ * moving forward.
+ */
+export class AdminService {
+  private auditService: AuditService;
+
+  constructor() {
+    this.auditService = new AuditService();
+  }
+
+  /**
+   * List user accounts
+   * @param role Optional role filter
+   * @param page Page number
+   * @param limit Items per page
+   * @returns Response with accounts, newest first
+   */
+  async getUsers(
+    role: UserRole | undefined,
+    page: number,
+    limit: number,
+  ): Promise<UserListResponse> {
+    try {
+      const offset = (page - 1) * limit;
+
+      const countResult: QueryResult = await pool.query(
+        `SELECT COUNT(*) as total FROM users WHERE ($1::user_role IS NULL OR role = $1)`,
+        [role || null],
+      );
+
+      const result: QueryResult = await pool.query(
+        `SELECT id, email, first_name, last_name, phone, role, is_active, suspended_at, created_at
+         FROM users
+         WHERE ($1::user_role IS NULL OR role = $1)
+         ORDER BY created_at DESC
+         LIMIT $2 OFFSET $3`,
+        [role || null, limit, offset],
+      );
+
+      return {
+        success: true,
+        data: {
+          total: parseInt(countResult.rows[0].total),
+          page,
+          limit,
+          users: result.rows.map((row) => ({
+            id: row.id,
+            name: `${row.first_name} ${row.last_name}`,
+            email: row.email,
+            phoneNumber: row.phone,
+            role: row.role,
+            isActive: row.is_active,
+            suspendedAt: row.suspended_at,
+            createdAt: row.created_at,
+          })),
+        },
+      };
+    } catch (error) {
+      logger.error('Error getting users', { error });
+      throw new ApiError(500, 'Failed to get users');
+    }
+  }
+
+  /**
+   * List hospitals with their fleet size and open emergencies
+   * @param page Page number
+   * @param limit Items per page
+   * @returns Response with hospitals, alphabetically
+   */
+  async getHospitals(page: number, limit: number): Promise<HospitalListResponse> {
+    try {
+      const offset = (page - 1) * limit;
+
+      const countResult: QueryResult = await pool.query(`SELECT COUNT(*) as total FROM hospitals`);
+
+      const result: QueryResult = await pool.query(
+        `SELECT h.id, h.user_id, h.name, h.email, h.phone, h.address, h.is_active, h.is_approved,
+                h.rejection_reason, h.created_at,
+                (SELECT COUNT(*) FROM drivers d WHERE d.hospital_id = h.id) as driver_count,
+                (
+                  SELECT COUNT(*) FROM emergency_requests er
+                  WHERE er.hospital_id = h.id AND er.status = ANY($3)
+                ) as open_emergencies
+         FROM hospitals h
+         ORDER BY h.name ASC
+         LIMIT $1 OFFSET $2`,
+        [limit, offset, OPEN_REQUEST_STATUSES],
+      );
+
+      return {
+        success: true,
+        data: {
+          total: parseInt(countResult.rows[0].total),
+          page,
+          limit,
+          hospitals: result.rows.map((row) => ({
+            id: row.id,
+            userId: row.user_id,
+            name: row.name,
+            email: row.email,
+            phoneNumber: row.phone,
+            address: row.address,
+            isActive: row.is_active,
+            reviewStatus: getHospitalReviewStatus(row),
+            driverCount: parseInt(row.driver_count),
+            openEmergencies: parseInt(row.open_emergencies),
+            createdAt: row.created_at,
+          })),
+        },
+      };
+    } catch (error) {
+      logger.error('Error getting hospitals', { error });
+      throw new ApiError(500, 'Failed to get hospitals');
+    }
+  }
+
+  /**
+   * List hospital registrations in a review status, with the details admins check
+   * @param status Review status
+   * @param page Page number
+   * @param limit Items per page
+   * @returns Response with registrations, oldest first
+   */
+  async getHospitalRegistrations(
+    status: HospitalReviewStatus,
+    page: number,
+    limit: number,
+  ): Promise<HospitalRegistrationListResponse> {
+    try {
+      const offset = (page - 1) * limit;
+      const condition = REVIEW_STATUS_CONDITIONS[status];
+
+      const countResult: QueryResult = await pool.query(
+        `SELECT COUNT(*) as total FROM hospitals h WHERE ${condition}`,
+      );
+
+      const result: QueryResult = await pool.query(
+        `SELECT h.id, h.name, h.email, h.phone, h.address, h.license_number, h.hospital_type,
+                h.emergency_capacity, h.is_approved, h.rejection_reason, h.created_at,
+                h.reviewed_at
+         FROM hospitals h
+         WHERE ${condition}
+         ORDER BY h.created_at ASC
+         LIMIT $1 OFFSET $2`,
+        [limit, offset],
+      );
+
+      return {
+        success: true,
+        data: {
+          total: parseInt(countResult.rows[0].total),
+          page,
+          limit,
+          registrations: result.rows.map((row) => ({
+            id: row.id,
+            name: row.name,
+            email: row.email,
+            phoneNumber: row.phone,
+            address: row.address,
+            licenseNumber: row.license_number,
+            hospitalType: row.hospital_type,
+            emergencyCapacity: row.emergency_capacity,
+            status: getHospitalReviewStatus(row),
+            rejectionReason: row.rejection_reason,
+            submittedAt: row.created_at,
+            reviewedAt: row.reviewed_at,
+          })),
+        },
+      };
+    } catch (error) {
+      logger.error('Error getting hospital registrations', { error });
+      throw new ApiError(500, 'Failed to get hospital registrations');
+    }
+  }
+
+  /**
+   * Approve or reject a hospital registration. Approved hospitals start appearing in nearby
+   * search and dispatch; rejected ones keep their account but receive no emergencies, and may
+   * still be approved later.
+   * @param hospitalId Hospital ID (hospitals.id)
+   * @param approve Whether to approve the registration
+   * @param adminId Admin user ID
+   * @param reason Rejection reason shown to the hospital
+   * @returns Response with the review outcome
+   */
+  async reviewHospital(
+    hospitalId: string,
+    approve: boolean,
+    adminId: string,
+    reason?: string,
+  ): Promise<HospitalReviewResponse> {
+    try {
+      const hospitalResult: QueryResult = await pool.query(
+        `SELECT id, user_id, is_approved, rejection_reason FROM hospitals WHERE id = $1`,
+        [hospitalId],
+      );
+
+      if (hospitalResult.rows.length === 0) {
+        throw new ApiError(404, 'Hospital not found');
+      }
+
+      const hospital = hospitalResult.rows[0];
+
+      if (hospital.is_approved) {
+        throw new ApiError(
+          400,
+          approve
+            ? 'Hospital is already approved'
+            : 'Approved hospitals cannot be rejected; suspend the hospital instead',
+        );
+      }
+
+      if (!approve && !reason) {
+        throw new ApiError(400, 'A reason is required to reject a hospital');
+      }
+
+      // Guard against a concurrent review of the same registration
+      const updateResult: QueryResult = await pool.query(
+        `UPDATE hospitals
+         SET is_approved = $2, rejection_reason = $3, reviewed_at = NOW(), reviewed_by = $4,
+             updated_at = NOW()
+         WHERE id = $1 AND is_approved = false
+         RETURNING reviewed_at`,
+        [hospitalId, approve, approve ? null : reason, adminId],
+      );
+
+      if (updateResult.rows.length === 0) {
+        throw new ApiError(409, 'Hospital registration was reviewed by someone else');
+      }
+
+      const status = approve ? HospitalReviewStatus.APPROVED : HospitalReviewStatus.REJECTED;
+      const rejectionReason = approve ? null : (reason as string);
+      const reviewedAt = updateResult.rows[0].reviewed_at;
+
+      logger.info(`Admin ${adminId} ${status} hospital ${hospitalId}`);
+
+      emitUserEvent(SocketEvent.HOSPITAL_REVIEWED, hospital.user_id, {
+        hospitalId,
+        status,
+        rejectionReason,
+      });
+
+      return {
+        success: true,
+        message: approve ? 'Hospital approved successfully' : 'Hospital rejected successfully',
+        data: {
+          hospitalId,
+          status,
+          rejectionReason,
+          reviewedAt,
+        },
+      };
+    } catch (error) {
+      logger.error('Error reviewing hospital registration', { error });
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      throw new ApiError(500, 'Failed to review hospital registration');
+    }
+  }
+
+  /**
+   * List drivers with the hospital fleet they belong to
+   * @param page Page number
+   * @param limit Items per page
+   * @returns Response with drivers, newest first
+   */
+  async getDrivers(page: number, limit: number): Promise<DriverListResponse> {
+    try {
+      const offset = (page - 1) * limit;
+
+      const countResult: QueryResult = await pool.query(`SELECT COUNT(*) as total FROM drivers`);
+
+      const result: QueryResult = await pool.query(
+        `SELECT d.id, d.user_id, d.is_approved, d.is_active, d.is_available, d.created_at,
+                u.first_name, u.last_name, u.email, u.phone,
+                h.name as hospital_name
+         FROM drivers d
+         JOIN users u ON d.user_id = u.id
+         LEFT JOIN hospitals h ON d.hospital_id = h.id
+         ORDER BY d.created_at DESC
+         LIMIT $1 OFFSET $2`,
+        [limit, offset],
+      );
+
+      return {
+        success: true,
+        data: {
+          total: parseInt(countResult.rows[0].total),
+          page,
+          limit,
+          drivers: result.rows.map((row) => ({
+            id: row.id,
+            userId: row.user_id,
+            name: `${row.first_name} ${row.last_name}`,
+            email: row.email,
+            phoneNumber: row.phone,
+            hospital: row.hospital_name || null,
+            isApproved: row.is_approved,
+            isActive: row.is_active,
+            isAvailable: row.is_available,
+            createdAt: row.created_at,
+          })),
+        },
+      };
+    } catch (error) {
+      logger.error('Error getting drivers', { error });
+      throw new ApiError(500, 'Failed to get drivers');
+    }
+  }
+
+  /**
+   * Suspend or reactivate an account. Suspending signs the account out of every session and
+   * rejects its access tokens. Hospital and driver profiles follow their account: a suspended
+   * hospital receives no offers and a suspended driver cannot be assigned.
+   * @param userId User ID of the account
+   * @param isActive Whether the account should be active
+   * @param adminId Admin user ID
+   * @returns Response with the new account status
+   */
+  async setAccountActive(
+    userId: string,
+    isActive: boolean,
+    adminId: string,
+  ): Promise<AccountStatusResponse> {
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      if (userId === adminId) {
+        throw new ApiError(400, 'You cannot change the status of your own account');
+      }
+
+      const userResult: QueryResult = await client.query(
+        `SELECT id, role FROM users WHERE id = $1 FOR UPDATE`,
+        [userId],
+      );
+
+      if (userResult.rows.length === 0) {
+        throw new ApiError(404, 'User not found');
+      }
+
+      const role: UserRole = userResult.rows[0].role;
+
+      if (!isActive && role === UserRole.DRIVER) {
+        const assignmentResult: QueryResult = await client.query(
+          `SELECT ea.id
+           FROM emergency_assignments ea
+           JOIN drivers d ON ea.driver_id = d.id
+           WHERE d.user_id = $1 AND ea.status = ANY($2)`,
+          [userId, ACTIVE_ASSIGNMENT_STATUSES],
+        );
+
+        if (assignmentResult.rows.length > 0) {
+          throw new ApiError(400, 'Driver has an active assignment and cannot be suspended');
+        }
+      }
+
+      await client.query(
+        `UPDATE users
+         SET is_active = $2,
+             suspended_at = CASE WHEN $2 THEN NULL ELSE NOW() END,
+             suspended_by = CASE WHEN $2 THEN NULL ELSE $3::uuid END,
+             updated_at = NOW()
+         WHERE id = $1`,
+        [userId, isActive, adminId],
+      );
+
+      // Suspended accounts cannot refresh their way back in
+      if (!isActive) {
+        await tokenService.revokeAllSessions(userId, client);
+      }
+
+      if (role === UserRole.HOSPITAL) {
+        await client.query(
+          `UPDATE hospitals SET is_active = $2, updated_at = NOW() WHERE user_id = $1`,
+          [userId, isActive],
+        );
+      } else if (role === UserRole.DRIVER) {
+        // Reactivated drivers go back on duty explicitly through their availability toggle
+        await client.query(
+          `UPDATE drivers
+           SET is_active = $2, is_available = is_available AND $2, updated_at = NOW()
+           WHERE user_id = $1`,
+          [userId, isActive],
+        );
+      }
+
+      await client.query('COMMIT');
+
+      // Requests with access tokens issued before the change are checked against it at once
+      accountService.invalidate(userId);
+
+      logger.info(`Admin ${adminId} ${isActive ? 'reactivated' : 'suspended'} ${role} ${userId}`);
+
+      return {
+        success: true,
+        message: isActive ? 'Account reactivated successfully' : 'Account suspended successfully',
+        data: {
+          userId,
+          role,
+          isActive,
+        },
+      };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      logger.error('Error changing account status', { error });
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      throw new ApiError(500, 'Failed to change account status');
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Suspend or reactivate a hospital together with its account
+   * @param hospitalId Hospital ID (hospitals.id)
+   * @param isActive Whether the hospital should be active
+   * @param adminId Admin user ID
+   * @returns Response with the new account status
+   */
+  async setHospitalActive(
+    hospitalId: string,
+    isActive: boolean,
+    adminId: string,
+  ): Promise<AccountStatusResponse> {
+    const userId = await this.findProfileUserId('hospitals', hospitalId, 'Hospital not found');
+    return this.setAccountActive(userId, isActive, adminId);
+  }
+
+  /**
+   * Suspend or reactivate a driver together with their account
+   * @param driverId Driver ID (drivers.id)
+   * @param isActive Whether the driver should be active
+   * @param adminId Admin user ID
+   * @returns Response with the new account status
+   */
+  async setDriverActive(
+    driverId: string,
+    isActive: boolean,
+    adminId: string,
+  ): Promise<AccountStatusResponse> {
+    const userId = await this.findProfileUserId('drivers', driverId, 'Driver not found');
+    return this.setAccountActive(userId, isActive, adminId);
+  }
+
+  /**
+   * Get every emergency request that is still open, flagging the ones that look stuck:
+   * escalated, or pending/accepted without progress for `config.admin.stuckAfterMinutes`
+   * @returns Response with open requests, oldest first
+   */
+  async getLiveEmergencies(): Promise<LiveEmergencyResponse> {
+    try {
+      const result: QueryResult = await pool.query(
+        `SELECT er.id, er.status, er.pickup_address, er.created_at, er.updated_at, er.escalated_at,
+                u.first_name, u.last_name, u.phone,
+                h.id as hospital_id, h.name as hospital_name,
+                ea.driver_id, ea.status as assignment_status,
+                du.first_name as driver_first_name, du.last_name as driver_last_name,
+                (
+                  er.escalated_at IS NOT NULL
+                  OR (
+                    er.status IN ('pending', 'accepted')
+                    AND er.updated_at < NOW() - make_interval(mins => $2)
+                  )
+                ) as is_stuck
+         FROM emergency_requests er
+         JOIN users u ON er.user_id = u.id
+         LEFT JOIN hospitals h ON er.hospital_id = h.id
+         LEFT JOIN LATERAL (
+           SELECT driver_id, status
+           FROM emergency_assignments
+           WHERE emergency_id = er.id
+           ORDER BY assigned_at DESC
+           LIMIT 1
+         ) ea ON true
+         LEFT JOIN drivers d ON ea.driver_id = d.id
+         LEFT JOIN users du ON d.user_id = du.id
+         WHERE er.status = ANY($1)
+         ORDER BY er.created_at ASC`,
+        [OPEN_REQUEST_STATUSES, config.admin.stuckAfterMinutes],
+      );
+
+      return {
+        success: true,
+        data: {
+          stuckAfterMinutes: config.admin.stuckAfterMinutes,
+          requests: result.rows.map((row) => ({
+            requestId: row.id,
+            status: row.status,
+            user: {
+              name: `${row.first_name} ${row.last_name}`,
+              phoneNumber: row.phone,
+            },
+            hospital: row.hospital_id ? { id: row.hospital_id, name: row.hospital_name } : null,
+            driver: row.driver_id
+              ? {
+                  id: row.driver_id,
+                  name: `${row.driver_first_name} ${row.driver_last_name}`,
+                  assignmentStatus: row.assignment_status,
+                }
+              : null,
+            pickupAddress: row.pickup_address,
+            createdAt: row.created_at,
+            updatedAt: row.updated_at,
+            escalatedAt: row.escalated_at,
+            isStuck: row.is_stuck,
+          })),
+        },
+      };
+    } catch (error) {
+      logger.error('Error getting live emergencies', { error });
+      throw new ApiError(500, 'Failed to get live emergencies');
+    }
+  }
+
+  /**
+   * Hand a request that has no driver yet to another hospital. Pending requests are accepted
+   * on the hospital's behalf, which ends dispatch; accepted requests move over together with
+   * the acceptance.
+   * @param requestId Emergency request ID
+   * @param hospitalId Hospital ID (hospitals.id) taking over the request
+   * @param adminId Admin user ID
+   * @param reason Optional note for the audit trail
+   * @returns Response with the reassigned request
+   */
+  async reassignEmergency(
+    requestId: string,
+    hospitalId: string,
+    adminId: string,
+    reason?: string,
+  ): Promise<ReassignEmergencyResponse> {
+    const client = await pool.connect();
+    const actor: EventActor = { id: adminId, role: UserRole.ADMIN };
+
+    try {
+      await client.query('BEGIN');
+
+      const requestResult: QueryResult = await client.query(
+        `SELECT id, status, user_id, hospital_id
+         FROM emergency_requests
+         WHERE id = $1
+         FOR UPDATE`,
+        [requestId],
+      );
+
+      if (requestResult.rows.length === 0) {
+        throw new ApiError(404, 'Emergency request not found');
+      }
+
+      const request = requestResult.rows[0];
+
+      if (
+        request.status !== EmergencyStatus.PENDING &&
+        request.status !== EmergencyStatus.ACCEPTED
+      ) {
+        throw new ApiError(400, 'Only pending or accepted emergency requests can be reassigned');
+      }
+
+      if (request.hospital_id === hospitalId) {
+        throw new ApiError(400, 'Emergency request is already handled by this hospital');
+      }
+
+      const hospitalResult: QueryResult = await client.query(
+        `SELECT id FROM hospitals WHERE id = $1 AND is_active = true AND is_approved = true`,
+        [hospitalId],
+      );
+
+      if (hospitalResult.rows.length === 0) {
+        throw new ApiError(404, 'Hospital not found, inactive or not approved');
+      }
+
+      await this.auditService.record(client, requestId, EmergencyEventType.REASSIGNED, actor, {
+        fromHospitalId: request.hospital_id,
+        toHospitalId: hospitalId,
+        reason: reason || null,
+      });
+
+      // Pending requests leave the lists of the hospitals serving them, taken before the
+      // acceptance closes the open offer; accepted ones leave the previous hospital's list
+      const hospitalIds =
+        request.status === EmergencyStatus.PENDING
+          ? await serviceAreaService.hospitalsServing(requestId, client)
+          : [request.hospital_id];
+
+      const transitions: LifecycleTransition[] = [];
+
+      if (request.status === EmergencyStatus.PENDING) {
+        transitions.push(
+          await lifecycleService.transitionRequest(
+            client,
+            requestId,
+            EmergencyStatus.ACCEPTED,
+            actor,
+            { hospital_id: hospitalId },
+          ),
+        );
+        await medicalProfileService.attachSnapshot(client, requestId, request.user_id);
+      } else {
+        await client.query(
+          `UPDATE emergency_requests SET hospital_id = $2, updated_at = NOW() WHERE id = $1`,
+          [requestId, hospitalId],
+        );
+
+        // The previous hospital no longer holds the acceptance
+        await client.query(
+          `UPDATE emergency_offers
+           SET status = 'cancelled', responded_at = NOW()
+           WHERE emergency_id = $1 AND hospital_id = $2 AND status = 'accepted'`,
+          [requestId, request.hospital_id],
+        );
+      }
+
+      await dispatchService.recordAcceptance(client, requestId, hospitalId);
+
+      await client.query('COMMIT');
+
+      dispatchService.stopDispatch(requestId);
+      await lifecycleService.runHooks(transitions);
+
+      emitEmergencyEvent(
+        SocketEvent.EMERGENCY_REASSIGNED,
+        { requestId, userId: request.user_id, hospitalId, hospitalIds },
+        { status: EmergencyStatus.ACCEPTED, hospitalId, previousHospitalId: request.hospital_id },
+      );
+
+      return {
+        success: true,
+        message: 'Emergency request reassigned successfully',
+        data: {
+          requestId,
+          status: EmergencyStatus.ACCEPTED,
+          previousHospitalId: request.hospital_id,
+          hospitalId,
+        },
+      };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      logger.error('Error reassigning emergency request', { error });
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      throw new ApiError(500, 'Failed to reassign emergency request');
+    } finally {
+      client.release();
+    }
+  }
+
+  private async findProfileUserId(
+    table: 'hospitals' | 'drivers',
+    id: string,
+    notFoundMessage: string,
+  ): Promise<string> {
+    const result: QueryResult = await pool.query(`SELECT user_id FROM ${table} WHERE id = $1`, [
+      id,
+    ]);
+
+    if (result.rows.length === 0) {
+      throw new ApiError(404, notFoundMessage);
+    }
+
+    return result.rows[0].user_id;
+  }
+}
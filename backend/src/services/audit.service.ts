@@ -0,0 +1,162 @@
+import { Pool, PoolClient, QueryResult } from 'pg';
+import pool from '../database/connection';
+import { ApiError } from '../middleware/errorHandler';
+import { JwtPayload, UserRole } from '../middleware/auth';
+import { logger } from '../utils/logger';
+
+/**
+ * Kinds of entries in an emergency's audit trail
+ */
+export enum EmergencyEventType {
+  CREATED = 'created',
+  TRIAGED = 'triaged',
+  OFFERED = 'offered',
+  OFFER_EXPIRED = 'offer_expired',
+  DECLINED = 'declined',
+  ESCALATED = 'escalated',
+  STATUS_CHANGED = 'status_changed',
+  DRIVER_ASSIGNED = 'driver_assigned',
+  FIRST_LOCATION = 'first_location',
+  APPROACHING_PICKUP = 'approaching_pickup',
+  CANCELLED = 'cancelled',
+  REASSIGNED = 'reassigned',
+  CONTACTS_NOTIFIED = 'contacts_notified',
+}
+
+/**
+ * Who caused an event. Events raised by the platform itself (dispatch timeouts, automatic
+ * assignment) have the system role and no actor ID.
+ */
+export interface EventActor {
+  id: string | null;
+  role: UserRole | 'system';
+}
+
+export const SYSTEM_ACTOR: EventActor = { id: null, role: 'system' };
+
+interface TimelineResponse {
+  success: boolean;
+  data: {
+    requestId: string;
+    events: Array<{
+      id: string;
+      type: string;
+      actor: {
+        id: string | null;
+        role: string;
+        name: string | null;
+      };
+      payload: Record<string, unknown>;
+      occurredAt: Date;
+    }>;
+  };
+}
+
+export class AuditService {
+  /**
+   * Append an event to an emergency's audit trail. Pass the transaction's client so the
+   * event is only kept if the change it describes is committed.
+   * @param db Pool or client holding the caller's transaction
+   * @param requestId Emergency request ID
+   * @param type Event type
+   * @param actor Who caused the event
+   * @param payload Event details
+   */
+  async record(
+    db: Pool | PoolClient,
+    requestId: string,
+    type: EmergencyEventType,
+    actor: EventActor,
+    payload: Record<string, unknown> = {},
+  ): Promise<void> {
+    await db.query(
+      `INSERT INTO emergency_events (emergency_id, event_type, actor_id, actor_role, payload)
+       VALUES ($1, $2, $3, $4, $5)`,
+      [requestId, type, actor.id, actor.role, JSON.stringify(payload)],
+    );
+  }
+
+  /**
+   * Get the event types already recorded for an assignment of an emergency request
+   * @param requestId Emergency request ID
+   * @param assignmentId Assignment ID
+   * @returns Distinct event types
+   */
+  async getAssignmentEventTypes(
+    requestId: string,
+    assignmentId: string,
+  ): Promise<EmergencyEventType[]> {
+    const result: QueryResult = await pool.query(
+      `SELECT DISTINCT event_type
+       FROM emergency_events
+       WHERE emergency_id = $1 AND payload->>'assignmentId' = $2`,
+      [requestId, assignmentId],
+    );
+
+    return result.rows.map((row) => row.event_type);
+  }
+
+  /**
+   * Get the full audit trail of an emergency request, oldest first. Available to the
+   * requesting user, the hospital handling the request and admins.
+   * @param requestId Emergency request ID
+   * @param viewer Authenticated user
+   * @returns Response with the recorded events
+   */
+  async getTimeline(requestId: string, viewer: JwtPayload): Promise<TimelineResponse> {
+    try {
+      const requestResult: QueryResult = await pool.query(
+        `SELECT er.user_id, h.user_id as hospital_user_id
+         FROM emergency_requests er
+         LEFT JOIN hospitals h ON er.hospital_id = h.id
+         WHERE er.id = $1`,
+        [requestId],
+      );
+
+      const request = requestResult.rows[0];
+      const canView =
+        request &&
+        (viewer.role === UserRole.ADMIN ||
+          (viewer.role === UserRole.USER && request.user_id === viewer.id) ||
+          (viewer.role === UserRole.HOSPITAL && request.hospital_user_id === viewer.id));
+
+      if (!canView) {
+        throw new ApiError(404, 'Emergency request not found');
+      }
+
+      const eventsResult: QueryResult = await pool.query(
+        `SELECT ee.id, ee.event_type, ee.actor_id, ee.actor_role, ee.payload, ee.occurred_at,
+                u.first_name, u.last_name
+         FROM emergency_events ee
+         LEFT JOIN users u ON ee.actor_id = u.id
+         WHERE ee.emergency_id = $1
+         ORDER BY ee.sequence ASC`,
+        [requestId],
+      );
+
+      return {
+        success: true,
+        data: {
+          requestId,
+          events: eventsResult.rows.map((row) => ({
+            id: row.id,
+            type: row.event_type,
+            actor: {
+              id: row.actor_id,
+              role: row.actor_role,
+              name: row.first_name ? `${row.first_name} ${row.last_name}` : null,
+            },
+            payload: row.payload,
+            occurredAt: row.occurred_at,
+          })),
+        },
+      };
+    } catch (error) {
+      logger.error('Error getting emergency timeline', { error });
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      throw new ApiError(500, 'Failed to get emergency timeline');
+    }
+  }
+}
@@ -1,11 +1,16 @@
-import jwt from 'jsonwebtoken';
 import { User, UserData } from '../models/user.model';
 import { Hospital, HospitalData } from '../models/hospital.model';
 import { Driver, DriverData } from '../models/driver.model';
+import pool from '../database/connection';
+import config from '../config';
 import { ApiError } from '../middleware/errorHandler';
 import { UserRole } from '../middleware/auth';
-import config from '../config';
 import { logger } from '../utils/logger';
+import { FleetService } from './fleet.service';
+import tokenService from './token.service';
+import accountTokenService, { AccountTokenPurpose } from './accountToken.service';
+import mailService from './mail.service';
+import rateLimitService from './rateLimit.service';
 
 interface UserRegistrationData {
   firstName: string;
@@ -27,6 +32,8 @@ interface HospitalRegistrationData {
   latitude?: number;
   longitude?: number;
   maxCapacity: number;
+  licenseNumber?: string;
+  hospitalType?: string;
 }
 
 interface DriverRegistrationData {
@@ -36,6 +43,8 @@ interface DriverRegistrationData {
   phoneNumber: string;
   password: string;
   licenseNumber: string;
+  hospitalId?: string;
+  inviteCode?: string;
 }
 
 interface LoginData {
@@ -54,19 +63,46 @@ interface AuthResponse {
     lastName?: string;
     email: string;
     userType: string;
+    // Left out of registration responses while the email address still has to be verified
+    token?: string;
+    refreshToken?: string;
+    emailVerificationRequired?: boolean;
+  };
+}
+
+interface TokenRefreshResponse {
+  success: boolean;
+  message: string;
+  data: {
     token: string;
+    refreshToken: string;
+  };
+}
+
+interface LogoutResponse {
+  success: boolean;
+  message: string;
+  data?: {
+    revokedSessions: number;
   };
 }
 
+interface AccountEmailResponse {
+  success: boolean;
+  message: string;
+}
+
 class AuthService {
   private userModel: User;
   private hospitalModel: Hospital;
   private driverModel: Driver;
+  private fleetService: FleetService;
 
   constructor() {
     this.userModel = new User();
     this.hospitalModel = new Hospital();
     this.driverModel = new Driver();
+    this.fleetService = new FleetService();
   }
 
   /**
@@ -93,11 +129,7 @@ class AuthService {
         role: UserRole.USER,
       });
 
-      // Generate JWT token
-      const token = this.generateToken({
-        id: newUser.id as string,
-        role: UserRole.USER,
-      });
+      await this.sendVerificationEmail(newUser.id as string, newUser.email, newUser.first_name);
 
       return {
         success: true,
@@ -108,7 +140,10 @@ class AuthService {
           lastName: newUser.last_name,
           email: newUser.email,
           userType: UserRole.USER,
-          token,
+          ...(await this.startRegistrationSession({
+            id: newUser.id as string,
+            role: UserRole.USER,
+          })),
         },
       };
     } catch (error) {
@@ -139,6 +174,16 @@ class AuthService {
         throw new ApiError(400, 'Email already registered');
       }
 
+      // The license number is what admins check before approving the hospital
+      if (hospitalData.licenseNumber) {
+        const licensedHospital = await this.hospitalModel.findByLicenseNumber(
+          hospitalData.licenseNumber,
+        );
+        if (licensedHospital) {
+          throw new ApiError(400, 'License number already registered');
+        }
+      }
+
       // Create hospital with user account
       const { hospital, user } = await this.hospitalModel.create(
         {
@@ -149,15 +194,13 @@ class AuthService {
           latitude: hospitalData.latitude,
           longitude: hospitalData.longitude,
           emergency_capacity: hospitalData.maxCapacity,
+          license_number: hospitalData.licenseNumber,
+          hospital_type: hospitalData.hospitalType,
         },
         hospitalData.password,
       );
 
-      // Generate JWT token
-      const token = this.generateToken({
-        id: user.id as string,
-        role: UserRole.HOSPITAL,
-      });
+      await this.sendVerificationEmail(user.id as string, user.email, hospital.name);
 
       return {
         success: true,
@@ -167,7 +210,10 @@ class AuthService {
           name: hospital.name,
           email: hospital.email,
           userType: UserRole.HOSPITAL,
-          token,
+          ...(await this.startRegistrationSession({
+            id: user.id as string,
+            role: UserRole.HOSPITAL,
+          })),
         },
       };
     } catch (error) {
@@ -192,11 +238,25 @@ class AuthService {
         throw new ApiError(400, 'Email already registered');
       }
 
+      // Drivers join a hospital's fleet either with an invitation, which counts as that
+      // hospital's approval, or by picking the hospital and waiting for it to approve them
+      const invitation = driverData.inviteCode
+        ? await this.fleetService.findValidInvitation(driverData.inviteCode, driverData.email)
+        : null;
+
+      if (!invitation && driverData.hospitalId) {
+        const hospital = await this.hospitalModel.findById(driverData.hospitalId);
+        if (!hospital || !hospital.is_active || !hospital.is_approved) {
+          throw new ApiError(400, 'Selected hospital not found');
+        }
+      }
+
       // Create driver with user account
       const { driver, user } = await this.driverModel.create(
         {
           license_number: driverData.licenseNumber,
-          is_approved: false,
+          hospital_id: invitation ? invitation.hospitalId : driverData.hospitalId,
+          is_approved: invitation !== null,
         },
         {
           firstName: driverData.firstName,
@@ -207,22 +267,27 @@ class AuthService {
         },
       );
 
-      // Generate JWT token
-      const token = this.generateToken({
-        id: user.id as string,
-        role: UserRole.DRIVER,
-      });
+      if (invitation) {
+        await this.fleetService.markInvitationAccepted(invitation.id, driver.id as string);
+      }
+
+      await this.sendVerificationEmail(user.id as string, user.email, user.first_name);
 
       return {
         success: true,
-        message: 'Driver registration submitted successfully. Awaiting hospital approval.',
+        message: invitation
+          ? 'Driver registered successfully and joined the inviting hospital fleet.'
+          : 'Driver registration submitted successfully. Awaiting hospital approval.',
         data: {
           id: user.id as string,
           firstName: user.first_name,
           lastName: user.last_name,
           email: user.email,
           userType: UserRole.DRIVER,
-          token,
+          ...(await this.startRegistrationSession({
+            id: user.id as string,
+            role: UserRole.DRIVER,
+          })),
         },
       };
     } catch (error) {
@@ -235,7 +300,7 @@ class AuthService {
   }
 
   /**
-   * Login a user, hospital or driver
+   * Login a user, hospital, driver or admin
    * @param loginData Login credentials
    * @returns Authentication response
    */
@@ -243,25 +308,42 @@ class AuthService {
     try {
       const { email, password, userType } = loginData;
 
+      // Addresses with repeated failed logins are locked out for a while
+      await rateLimitService.assertLoginAllowed(email);
+
       // Find user by email
       const user = await this.userModel.findByEmail(email);
       if (!user) {
+        await rateLimitService.recordLoginFailure(email);
         throw new ApiError(401, 'Invalid credentials');
       }
 
       // Verify password
       const isPasswordValid = await this.userModel.verifyPassword(password, user.password);
       if (!isPasswordValid) {
+        await rateLimitService.recordLoginFailure(email);
         throw new ApiError(401, 'Invalid credentials');
       }
 
+      await rateLimitService.clearLoginFailures(email);
+
       // Verify user type matches
       if (user.role !== userType) {
         throw new ApiError(401, `Invalid account type. This account is registered as ${user.role}`);
       }
 
-      // Generate token
-      const token = this.generateToken({
+      // Suspended accounts keep their data but cannot sign in
+      if (user.is_active === false) {
+        throw new ApiError(403, 'Account is suspended');
+      }
+
+      // Whoever registered must show they own the email address before signing in
+      if (config.accountEmails.requireVerification && !user.email_verified_at) {
+        throw new ApiError(403, 'Email address is not verified');
+      }
+
+      // Start a new session
+      const { accessToken: token, refreshToken } = await tokenService.issueTokens({
         id: user.id as string,
         role: user.role as UserRole,
       });
@@ -272,6 +354,7 @@ class AuthService {
         email: user.email,
         userType: user.role,
         token,
+        refreshToken,
       };
 
       // Add role-specific details
@@ -283,7 +366,7 @@ class AuthService {
         if (hospital) {
           response.name = hospital.name;
         }
-      } else if (user.role === UserRole.DRIVER) {
+      } else if (user.role === UserRole.DRIVER || user.role === UserRole.ADMIN) {
         response.firstName = user.first_name;
         response.lastName = user.last_name;
       }
@@ -303,18 +386,233 @@ class AuthService {
   }
 
   /**
-   * Generate JWT token
-   * @param payload Token payload
-   * @returns JWT token
+   * Exchange a refresh token for a new access token and refresh token
+   * @param refreshToken Refresh token
+   * @returns New tokens
    */
-  private generateToken(payload: { id: string; role: UserRole }): string {
-    const secretKey = process.env.JWT_SECRET || 'default_jwt_secret_key';
-    const expiresIn = process.env.JWT_EXPIRES_IN || '7d';
-    const options: jwt.SignOptions = {
-      expiresIn: expiresIn as jwt.SignOptions['expiresIn'],
+  async refreshToken(refreshToken: string): Promise<TokenRefreshResponse> {
+    const tokens = await tokenService.rotateRefreshToken(refreshToken);
+
+    return {
+      success: true,
+      message: 'Token refreshed successfully',
+      data: {
+        token: tokens.accessToken,
+        refreshToken: tokens.refreshToken,
+      },
+    };
+  }
+
+  /**
+   * Sign out of the session a refresh token belongs to
+   * @param refreshToken Refresh token
+   * @returns Logout response
+   */
+  async logout(refreshToken: string): Promise<LogoutResponse> {
+    await tokenService.revokeSession(refreshToken);
+
+    return {
+      success: true,
+      message: 'Logged out successfully',
     };
+  }
+
+  /**
+   * Sign a user out of every session
+   * @param userId User ID
+   * @returns Logout response with the number of sessions revoked
+   */
+  async logoutAll(userId: string): Promise<LogoutResponse> {
+    try {
+      const revokedSessions = await tokenService.revokeAllSessions(userId);
+
+      return {
+        success: true,
+        message: 'Logged out of all sessions successfully',
+        data: {
+          revokedSessions,
+        },
+      };
+    } catch (error) {
+      logger.error('Error logging out of all sessions', { error });
+      throw new ApiError(500, 'Failed to log out of all sessions');
+    }
+  }
+
+  /**
+   * Confirm an account's email address with the token from the verification email
+   * @param token Email verification token
+   * @returns Verification response
+   */
+  async verifyEmail(token: string): Promise<AccountEmailResponse> {
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const userId = await accountTokenService.consume(
+        token,
+        AccountTokenPurpose.EMAIL_VERIFICATION,
+        client,
+      );
+      if (!userId) {
+        throw new ApiError(400, 'Invalid or expired verification link');
+      }
 
-    return jwt.sign(payload, secretKey, options);
+      await this.userModel.markEmailVerified(userId, client);
+
+      await client.query('COMMIT');
+
+      return {
+        success: true,
+        message: 'Email verified successfully',
+      };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      logger.error('Error verifying email', { error });
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      throw new ApiError(500, 'Failed to verify email');
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Send a new verification email. The response is the same whether or not the address
+   * belongs to an unverified account, so it cannot be used to discover accounts.
+   * @param email Email address
+   * @returns Generic response
+   */
+  async resendVerificationEmail(email: string): Promise<AccountEmailResponse> {
+    try {
+      const user = await this.userModel.findByEmail(email);
+
+      if (user && !user.email_verified_at && user.is_active !== false) {
+        await this.sendVerificationEmail(user.id as string, user.email, user.first_name);
+      }
+
+      return {
+        success: true,
+        message:
+          'If the address belongs to an unverified account, a new verification link has been sent',
+      };
+    } catch (error) {
+      logger.error('Error resending verification email', { error });
+      throw new ApiError(500, 'Failed to resend verification email');
+    }
+  }
+
+  /**
+   * Email a password reset link. The response is the same whether or not the address belongs
+   * to an account, so it cannot be used to discover accounts.
+   * @param email Email address
+   * @returns Generic response
+   */
+  async requestPasswordReset(email: string): Promise<AccountEmailResponse> {
+    try {
+      const user = await this.userModel.findByEmail(email);
+
+      if (user && user.is_active !== false) {
+        const token = await accountTokenService.issue(
+          user.id as string,
+          AccountTokenPurpose.PASSWORD_RESET,
+          config.accountEmails.passwordResetTtlMinutes,
+        );
+        await mailService.sendPasswordReset(user.email, user.first_name, token);
+      }
+
+      return {
+        success: true,
+        message: 'If the address belongs to an account, a password reset link has been sent',
+      };
+    } catch (error) {
+      logger.error('Error requesting password reset', { error });
+      throw new ApiError(500, 'Failed to request password reset');
+    }
+  }
+
+  /**
+   * Set a new password with the token from the reset email. The reset link proves ownership of
+   * the email address, so it also verifies it, and every existing session is signed out.
+   * @param token Password reset token
+   * @param password New password
+   * @returns Reset response
+   */
+  async resetPassword(token: string, password: string): Promise<AccountEmailResponse> {
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const userId = await accountTokenService.consume(
+        token,
+        AccountTokenPurpose.PASSWORD_RESET,
+        client,
+      );
+      if (!userId) {
+        throw new ApiError(400, 'Invalid or expired password reset link');
+      }
+
+      await this.userModel.updatePassword(userId, password, client);
+      await this.userModel.markEmailVerified(userId, client);
+      await tokenService.revokeAllSessions(userId, client);
+
+      await client.query('COMMIT');
+
+      return {
+        success: true,
+        message: 'Password reset successfully. Sign in with your new password.',
+      };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      logger.error('Error resetting password', { error });
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      throw new ApiError(500, 'Failed to reset password');
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Sign a newly registered account in, unless it has to verify its email address first
+   * @param subject The new account
+   * @returns Tokens, or a flag telling the client to wait for verification
+   */
+  private async startRegistrationSession(subject: {
+    id: string;
+    role: UserRole;
+  }): Promise<{ token?: string; refreshToken?: string; emailVerificationRequired: boolean }> {
+    if (config.accountEmails.requireVerification) {
+      return { emailVerificationRequired: true };
+    }
+
+    const { accessToken: token, refreshToken } = await tokenService.issueTokens(subject);
+
+    return { token, refreshToken, emailVerificationRequired: false };
+  }
+
+  /**
+   * Email a verification link. Failures are logged rather than thrown: the account exists
+   * either way and the user can ask for a new link.
+   * @param userId User ID
+   * @param email Address to verify
+   * @param name Name to greet
+   */
+  private async sendVerificationEmail(userId: string, email: string, name: string): Promise<void> {
+    try {
+      const token = await accountTokenService.issue(
+        userId,
+        AccountTokenPurpose.EMAIL_VERIFICATION,
+        config.accountEmails.verificationTtlHours * 60,
+      );
+      await mailService.sendEmailVerification(email, name, token);
+    } catch (error) {
+      logger.error('Error sending verification email', { error });
+    }
   }
 }
 
@@ -325,4 +623,7 @@ export {
   DriverRegistrationData,
   LoginData,
   AuthResponse,
+  TokenRefreshResponse,
+  LogoutResponse,
+  AccountEmailResponse,
 };
@@ -0,0 +1,138 @@
+import { QueryResult } from 'pg';
+import pool from '../database/connection';
+import config from '../config';
+import { ApiError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+import {
+  HOSPITAL_DEPARTMENTS,
+  HospitalDepartment,
+  isCapacityStale,
+} from '../utils/hospitalCapacity';
+
+export interface DepartmentCapacityUpdate {
+  department: HospitalDepartment;
+  totalBeds: number;
+  availableBeds: number;
+}
+
+interface DepartmentCapacity {
+  department: HospitalDepartment;
+  label: string;
+  // Null until the hospital publishes figures for the department
+  totalBeds: number | null;
+  availableBeds: number | null;
+  updatedAt: Date | null;
+  stale: boolean;
+}
+
+interface CapacityResponse {
+  success: boolean;
+  message?: string;
+  data: {
+    staleAfterMinutes: number;
+    departments: DepartmentCapacity[];
+  };
+}
+
+/**
+ * Live bed availability that hospitals publish per department. Dispatch and the nearby
+ * hospital list read it straight from hospital_department_capacity.
+ */
+export class CapacityService {
+  /**
+   * Get the figures a hospital has published, one entry per department
+   * @param hospitalId Hospital ID
+   * @returns Response with the departments
+   */
+  async getCapacity(hospitalId: string): Promise<CapacityResponse> {
+    try {
+      const result: QueryResult = await pool.query(
+        `SELECT department, total_beds, available_beds, updated_at
+         FROM hospital_department_capacity
+         WHERE hospital_id = $1`,
+        [hospitalId],
+      );
+
+      const { staleAfterMinutes } = config.capacity;
+      const rows = new Map(result.rows.map((row) => [row.department, row]));
+
+      return {
+        success: true,
+        data: {
+          staleAfterMinutes,
+          departments: Object.values(HospitalDepartment).map((department) => {
+            const row = rows.get(department);
+            return {
+              department,
+              label: HOSPITAL_DEPARTMENTS[department].label,
+              totalBeds: row ? row.total_beds : null,
+              availableBeds: row ? row.available_beds : null,
+              updatedAt: row ? row.updated_at : null,
+              stale: row ? isCapacityStale(row.updated_at, staleAfterMinutes) : false,
+            };
+          }),
+        },
+      };
+    } catch (error) {
+      logger.error('Error getting hospital capacity', { error, hospitalId });
+      throw new ApiError(500, 'Failed to get hospital capacity');
+    }
+  }
+
+  /**
+   * Publish bed figures for one or more departments. Departments left out keep their
+   * previous figures and timestamp.
+   * @param hospitalId Hospital ID
+   * @param userId Hospital account publishing the figures
+   * @param updates New figures per department
+   * @returns Response with every department
+   */
+  async updateCapacity(
+    hospitalId: string,
+    userId: string,
+    updates: DepartmentCapacityUpdate[],
+  ): Promise<CapacityResponse> {
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      for (const update of updates) {
+        if (update.availableBeds > update.totalBeds) {
+          throw new ApiError(
+            400,
+            `Available beds cannot exceed total beds for ${HOSPITAL_DEPARTMENTS[update.department].label}`,
+          );
+        }
+
+        await client.query(
+          `INSERT INTO hospital_department_capacity (
+            hospital_id, department, total_beds, available_beds, updated_by, updated_at
+          ) VALUES ($1, $2, $3, $4, $5, NOW())
+          ON CONFLICT (hospital_id, department) DO UPDATE SET
+            total_beds = EXCLUDED.total_beds,
+            available_beds = EXCLUDED.available_beds,
+            updated_by = EXCLUDED.updated_by,
+            updated_at = EXCLUDED.updated_at`,
+          [hospitalId, update.department, update.totalBeds, update.availableBeds, userId],
+        );
+      }
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      logger.error('Error updating hospital capacity', { error, hospitalId });
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      throw new ApiError(500, 'Failed to update hospital capacity');
+    } finally {
+      client.release();
+    }
+
+    const result = await this.getCapacity(hospitalId);
+    return { ...result, message: 'Capacity updated successfully' };
+  }
+}
+
+export default new CapacityService();
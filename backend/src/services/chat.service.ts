@@ -0,0 +1,296 @@
+import { QueryResult, QueryResultRow } from 'pg';
+import pool from '../database/connection';
+import { ApiError } from '../middleware/errorHandler';
+import { JwtPayload } from '../middleware/auth';
+import { logger } from '../utils/logger';
+import { isTerminalRequestStatus } from '../utils/emergencyLifecycle';
+import { EmergencyAudience, emitEmergencyEvent, SocketEvent } from '../socket/emitter';
+
+interface ChatMessage {
+  id: string;
+  senderId: string;
+  senderName: string;
+  senderRole: string;
+  message: string;
+  sentAt: Date;
+  isRead: boolean;
+  readBy: Array<{
+    userId: string;
+    readAt: Date;
+  }>;
+}
+
+interface ChatHistoryResponse {
+  success: boolean;
+  data: {
+    total: number;
+    page: number;
+    limit: number;
+    readOnly: boolean;
+    messages: ChatMessage[];
+  };
+}
+
+interface SendMessageResponse {
+  success: boolean;
+  message: string;
+  data: ChatMessage;
+}
+
+interface MarkReadResponse {
+  success: boolean;
+  data: {
+    messageIds: string[];
+    readAt: Date | null;
+  };
+}
+
+// Chat participant, from the REST token or the socket handshake
+type ChatUser = Pick<JwtPayload, 'id' | 'role'>;
+
+// The emergency a chat belongs to, as seen by one of its participants
+interface ChatContext {
+  audience: EmergencyAudience;
+  readOnly: boolean;
+}
+
+/**
+ * Chat between the patient, the hospital handling the emergency and its assigned driver.
+ * Messages are stored in `chat_messages` and pushed to the participants over Socket.IO.
+ * Once the emergency is completed or cancelled the history stays readable but no new
+ * messages are accepted.
+ */
+export class ChatService {
+  /**
+   * Get a page of an emergency's chat history, newest first
+   * @param requestId Emergency request ID
+   * @param viewer Authenticated participant
+   * @param page Page number
+   * @param limit Items per page
+   * @returns Response with messages and their read receipts
+   */
+  async getMessages(
+    requestId: string,
+    viewer: ChatUser,
+    page: number,
+    limit: number,
+  ): Promise<ChatHistoryResponse> {
+    try {
+      const context = await this.getChatContext(requestId, viewer);
+      const offset = (page - 1) * limit;
+
+      const countResult: QueryResult = await pool.query(
+        `SELECT COUNT(*) as total FROM chat_messages WHERE emergency_id = $1`,
+        [requestId],
+      );
+      const total = parseInt(countResult.rows[0].total);
+
+      const messagesResult: QueryResult = await pool.query(
+        `${this.messageQuery('cm.emergency_id = $1')}
+         ORDER BY cm.sent_at DESC
+         LIMIT $2 OFFSET $3`,
+        [requestId, limit, offset],
+      );
+
+      return {
+        success: true,
+        data: {
+          total,
+          page,
+          limit,
+          readOnly: context.readOnly,
+          messages: messagesResult.rows.map((row) => this.formatMessage(row)),
+        },
+      };
+    } catch (error) {
+      logger.error('Error getting chat messages', { error });
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      throw new ApiError(500, 'Failed to get chat messages');
+    }
+  }
+
+  /**
+   * Post a message to an emergency's chat
+   * @param requestId Emergency request ID
+   * @param sender Authenticated participant
+   * @param message Message text
+   * @returns Response with the stored message
+   */
+  async sendMessage(
+    requestId: string,
+    sender: ChatUser,
+    message: string,
+  ): Promise<SendMessageResponse> {
+    try {
+      const context = await this.getChatContext(requestId, sender);
+
+      if (context.readOnly) {
+        throw new ApiError(400, 'Chat is read-only because the emergency has been closed');
+      }
+
+      const insertResult: QueryResult = await pool.query(
+        `INSERT INTO chat_messages (emergency_id, sender_id, message)
+         VALUES ($1, $2, $3)
+         RETURNING id`,
+        [requestId, sender.id, message],
+      );
+
+      const messageResult: QueryResult = await pool.query(this.messageQuery('cm.id = $1'), [
+        insertResult.rows[0].id,
+      ]);
+      const chatMessage = this.formatMessage(messageResult.rows[0]);
+
+      emitEmergencyEvent(SocketEvent.CHAT_MESSAGE, context.audience, { ...chatMessage });
+
+      return {
+        success: true,
+        message: 'Message sent successfully',
+        data: chatMessage,
+      };
+    } catch (error) {
+      logger.error('Error sending chat message', { error });
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      throw new ApiError(500, 'Failed to send chat message');
+    }
+  }
+
+  /**
+   * Mark every message the participant has not read yet as read, and let the other
+   * participants know
+   * @param requestId Emergency request ID
+   * @param reader Authenticated participant
+   * @returns Response with the newly read message IDs
+   */
+  async markMessagesRead(requestId: string, reader: ChatUser): Promise<MarkReadResponse> {
+    const client = await pool.connect();
+
+    try {
+      const context = await this.getChatContext(requestId, reader);
+
+      await client.query('BEGIN');
+
+      const readResult: QueryResult = await client.query(
+        `INSERT INTO chat_message_reads (message_id, user_id)
+         SELECT cm.id, $2
+         FROM chat_messages cm
+         WHERE cm.emergency_id = $1 AND cm.sender_id <> $2
+         ON CONFLICT (message_id, user_id) DO NOTHING
+         RETURNING message_id, read_at`,
+        [requestId, reader.id],
+      );
+
+      const messageIds: string[] = readResult.rows.map((row) => row.message_id);
+
+      if (messageIds.length > 0) {
+        await client.query(`UPDATE chat_messages SET is_read = true WHERE id = ANY($1)`, [
+          messageIds,
+        ]);
+      }
+
+      await client.query('COMMIT');
+
+      const readAt = readResult.rows[0]?.read_at || null;
+
+      if (messageIds.length > 0) {
+        emitEmergencyEvent(SocketEvent.CHAT_READ, context.audience, {
+          readerId: reader.id,
+          readerRole: reader.role,
+          messageIds,
+          readAt,
+        });
+      }
+
+      return {
+        success: true,
+        data: { messageIds, readAt },
+      };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      logger.error('Error marking chat messages as read', { error });
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      throw new ApiError(500, 'Failed to mark chat messages as read');
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Resolve the emergency behind a chat and make sure the user takes part in it: the
+   * requesting user, the handling hospital or the most recently assigned driver
+   */
+  private async getChatContext(requestId: string, viewer: ChatUser): Promise<ChatContext> {
+    const result: QueryResult = await pool.query(
+      `SELECT er.status, er.user_id, er.hospital_id, h.user_id as hospital_user_id,
+              ea.driver_id, d.user_id as driver_user_id
+       FROM emergency_requests er
+       LEFT JOIN hospitals h ON er.hospital_id = h.id
+       LEFT JOIN LATERAL (
+         SELECT driver_id
+         FROM emergency_assignments
+         WHERE emergency_id = er.id
+         ORDER BY assigned_at DESC
+         LIMIT 1
+       ) ea ON true
+       LEFT JOIN drivers d ON ea.driver_id = d.id
+       WHERE er.id = $1`,
+      [requestId],
+    );
+
+    const request = result.rows[0];
+    const participants = request
+      ? [request.user_id, request.hospital_user_id, request.driver_user_id]
+      : [];
+
+    if (!participants.includes(viewer.id)) {
+      throw new ApiError(404, 'Emergency request not found');
+    }
+
+    return {
+      audience: {
+        requestId,
+        userId: request.user_id,
+        hospitalId: request.hospital_id,
+        driverId: request.driver_id,
+      },
+      readOnly: isTerminalRequestStatus(request.status),
+    };
+  }
+
+  private messageQuery(condition: string): string {
+    return `
+      SELECT cm.id, cm.sender_id, cm.message, cm.sent_at, cm.is_read,
+             u.first_name, u.last_name, u.role,
+             COALESCE(
+               (
+                 SELECT json_agg(json_build_object('userId', r.user_id, 'readAt', r.read_at)
+                                 ORDER BY r.read_at)
+                 FROM chat_message_reads r
+                 WHERE r.message_id = cm.id
+               ),
+               '[]'
+             ) as read_by
+      FROM chat_messages cm
+      JOIN users u ON cm.sender_id = u.id
+      WHERE ${condition}
+    `;
+  }
+
+  private formatMessage(row: QueryResultRow): ChatMessage {
+    return {
+      id: row.id,
+      senderId: row.sender_id,
+      senderName: `${row.first_name} ${row.last_name}`,
+      senderRole: row.role,
+      message: row.message,
+      sentAt: row.sent_at,
+      isRead: row.is_read,
+      readBy: row.read_by,
+    };
+  }
+}
@@ -0,0 +1,365 @@
+import crypto from 'crypto';
+import { QueryResult } from 'pg';
+import pool from '../database/connection';
+import config from '../config';
+import { logger } from '../utils/logger';
+import { AssignmentStatus, EmergencyStatus } from '../utils/emergencyLifecycle';
+import mailService, { MailService } from './mail.service';
+import statusLinkService from './statusLink.service';
+import lifecycleService, { LifecycleTransition } from './lifecycle.service';
+import { AuditService, EmergencyEventType, SYSTEM_ACTOR } from './audit.service';
+import { EmergencyContact } from './medicalProfile.service';
+
+// How long to wait for an SMS gateway or webhook before counting the delivery as failed
+const PROVIDER_TIMEOUT_MS = 10000;
+
+/**
+ * Emergency milestones a patient's contacts are told about
+ */
+export enum ContactNotificationEvent {
+  CREATED = 'created',
+  ASSIGNED = 'assigned',
+  ARRIVED = 'arrived',
+  COMPLETED = 'completed',
+}
+
+/**
+ * A message about one emergency milestone, the same for every contact
+ */
+export interface ContactNotification {
+  requestId: string;
+  event: ContactNotificationEvent;
+  subject: string;
+  text: string;
+  statusUrl: string;
+}
+
+/**
+ * Delivers contact notifications over one channel. Implement this to add a provider.
+ */
+export interface ContactNotifier {
+  readonly channel: string;
+  // Whether the contact has the details this channel needs, e.g. an email address
+  canReach(contact: EmergencyContact): boolean;
+  notify(contact: EmergencyContact, notification: ContactNotification): Promise<void>;
+}
+
+/**
+ * Writes notifications to the application log instead of sending them
+ */
+export class LogContactNotifier implements ContactNotifier {
+  readonly channel = 'log';
+
+  canReach(): boolean {
+    return true;
+  }
+
+  async notify(contact: EmergencyContact, notification: ContactNotification): Promise<void> {
+    logger.info(`Notification to ${contact.name}: ${notification.subject}`, {
+      contact,
+      notification,
+    });
+  }
+}
+
+/**
+ * Sends text messages through an HTTP SMS gateway that accepts `{ from, to, text }` as JSON
+ */
+export class SmsContactNotifier implements ContactNotifier {
+  readonly channel = 'sms';
+
+  constructor(
+    private readonly gatewayUrl: string,
+    private readonly apiKey: string,
+    private readonly sender: string,
+  ) {}
+
+  canReach(contact: EmergencyContact): boolean {
+    return Boolean(contact.phoneNumber);
+  }
+
+  async notify(contact: EmergencyContact, notification: ContactNotification): Promise<void> {
+    const response = await fetch(this.gatewayUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+      },
+      body: JSON.stringify({ from: this.sender, to: contact.phoneNumber, text: notification.text }),
+      signal: AbortSignal.timeout(PROVIDER_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      throw new Error(`SMS gateway responded with ${response.status}`);
+    }
+  }
+}
+
+/**
+ * Emails contacts that have an email address
+ */
+export class EmailContactNotifier implements ContactNotifier {
+  readonly channel = 'email';
+
+  constructor(private readonly mail: MailService) {}
+
+  canReach(contact: EmergencyContact): boolean {
+    return Boolean(contact.email);
+  }
+
+  async notify(contact: EmergencyContact, notification: ContactNotification): Promise<void> {
+    await this.mail.send({
+      to: contact.email!,
+      subject: notification.subject,
+      text: [`Hello ${contact.name},`, '', notification.text].join('\n'),
+    });
+  }
+}
+
+/**
+ * Posts each notification as JSON to a URL, e.g. to hand delivery to another system. The body
+ * is signed with the shared secret in the X-Signature header.
+ */
+export class WebhookContactNotifier implements ContactNotifier {
+  readonly channel = 'webhook';
+
+  constructor(
+    private readonly url: string,
+    private readonly secret: string,
+  ) {}
+
+  canReach(): boolean {
+    return true;
+  }
+
+  async notify(contact: EmergencyContact, notification: ContactNotification): Promise<void> {
+    const body = JSON.stringify({ ...notification, contact, sentAt: new Date().toISOString() });
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+
+    if (this.secret) {
+      headers['X-Signature'] =
+        `sha256=${crypto.createHmac('sha256', this.secret).update(body).digest('hex')}`;
+    }
+
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers,
+      body,
+      signal: AbortSignal.timeout(PROVIDER_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Webhook responded with ${response.status}`);
+    }
+  }
+}
+
+/**
+ * Create a notifier named in CONTACT_NOTIFIERS
+ * @param name Notifier name: log, sms, email or webhook
+ * @returns Contact notifier
+ */
+export const createContactNotifier = (name: string): ContactNotifier => {
+  const { sms, webhook } = config.contactNotifications;
+
+  switch (name) {
+    case 'log':
+      return new LogContactNotifier();
+    case 'sms':
+      if (!sms.gatewayUrl) {
+        throw new Error('SMS_GATEWAY_URL must be set to use the sms notifier');
+      }
+      return new SmsContactNotifier(sms.gatewayUrl, sms.apiKey, sms.sender);
+    case 'email':
+      return new EmailContactNotifier(mailService);
+    case 'webhook':
+      if (!webhook.url) {
+        throw new Error('CONTACT_WEBHOOK_URL must be set to use the webhook notifier');
+      }
+      return new WebhookContactNotifier(webhook.url, webhook.secret);
+    default:
+      throw new Error(`Unknown contact notifier: ${name}`);
+  }
+};
+
+/**
+ * Write the message for an emergency milestone
+ * @param event Milestone
+ * @param patientName Patient's full name
+ * @param hospitalName Hospital handling the emergency, if any
+ * @param statusUrl Status link for the contact to follow
+ * @returns Subject and text of the message
+ */
+export const buildContactMessage = (
+  event: ContactNotificationEvent,
+  patientName: string,
+  hospitalName: string | null,
+  statusUrl: string,
+): { subject: string; text: string } => {
+  const messages: Record<ContactNotificationEvent, { subject: string; text: string }> = {
+    [ContactNotificationEvent.CREATED]: {
+      subject: `${patientName} has requested an ambulance`,
+      text: `${patientName} listed you as an emergency contact and has just requested an ambulance through Instant Ambulance.`,
+    },
+    [ContactNotificationEvent.ASSIGNED]: {
+      subject: `An ambulance is on its way to ${patientName}`,
+      text: `${hospitalName || 'A hospital'} has sent an ambulance to ${patientName}.`,
+    },
+    [ContactNotificationEvent.ARRIVED]: {
+      subject: `The ambulance has reached ${patientName}`,
+      text: `The ambulance crew has arrived and is with ${patientName}.`,
+    },
+    [ContactNotificationEvent.COMPLETED]: {
+      subject: `${patientName}'s emergency has been completed`,
+      text: `The ambulance crew${hospitalName ? ` from ${hospitalName}` : ''} has finished attending to ${patientName}.`,
+    },
+  };
+
+  const { subject, text } = messages[event];
+  return { subject, text: `${text} Follow the progress: ${statusUrl}` };
+};
+
+/**
+ * Tells a patient's emergency contacts when their emergency is created, an ambulance is
+ * assigned, the ambulance arrives and the emergency is completed. Every message carries a new
+ * status link. Failures are logged and never affect the emergency itself.
+ */
+export class ContactNotificationService {
+  private auditService: AuditService;
+
+  constructor(
+    private notifiers: ContactNotifier[] = config.contactNotifications.notifiers.map(
+      createContactNotifier,
+    ),
+  ) {
+    this.auditService = new AuditService();
+  }
+
+  /**
+   * Replace the notifiers, e.g. with ones backed by other providers
+   * @param notifiers Contact notifiers
+   */
+  setNotifiers(notifiers: ContactNotifier[]): void {
+    this.notifiers = notifiers;
+  }
+
+  /**
+   * Notify the contacts of an emergency's patient about a milestone
+   * @param requestId Emergency request ID
+   * @param event Milestone
+   */
+  async notifyContacts(requestId: string, event: ContactNotificationEvent): Promise<void> {
+    try {
+      const requestResult: QueryResult = await pool.query(
+        `SELECT er.user_id, u.first_name, u.last_name, h.name as hospital_name
+         FROM emergency_requests er
+         JOIN users u ON er.user_id = u.id
+         LEFT JOIN hospitals h ON er.hospital_id = h.id
+         WHERE er.id = $1`,
+        [requestId],
+      );
+
+      if (requestResult.rows.length === 0 || this.notifiers.length === 0) {
+        return;
+      }
+
+      const request = requestResult.rows[0];
+
+      const contactResult: QueryResult = await pool.query(
+        `SELECT name, relationship, phone, email
+         FROM emergency_contacts
+         WHERE user_id = $1
+         ORDER BY position`,
+        [request.user_id],
+      );
+
+      if (contactResult.rows.length === 0) {
+        return;
+      }
+
+      const contacts: EmergencyContact[] = contactResult.rows.map((row) => ({
+        name: row.name,
+        relationship: row.relationship,
+        phoneNumber: row.phone,
+        email: row.email,
+      }));
+
+      const statusUrl = await statusLinkService.issue(requestId);
+      const notification: ContactNotification = {
+        requestId,
+        event,
+        statusUrl,
+        ...buildContactMessage(
+          event,
+          `${request.first_name} ${request.last_name}`,
+          request.hospital_name,
+          statusUrl,
+        ),
+      };
+
+      let delivered = 0;
+      let failed = 0;
+
+      for (const contact of contacts) {
+        for (const notifier of this.notifiers.filter((entry) => entry.canReach(contact))) {
+          try {
+            await notifier.notify(contact, notification);
+            delivered++;
+          } catch (error) {
+            failed++;
+            logger.error('Error notifying emergency contact', {
+              error,
+              requestId,
+              channel: notifier.channel,
+            });
+          }
+        }
+      }
+
+      await this.auditService.record(
+        pool,
+        requestId,
+        EmergencyEventType.CONTACTS_NOTIFIED,
+        SYSTEM_ACTOR,
+        {
+          event,
+          contacts: contacts.length,
+          delivered,
+          failed,
+          channels: this.notifiers.map((notifier) => notifier.channel),
+        },
+      );
+    } catch (error) {
+      logger.error('Error notifying emergency contacts', { error, requestId, event });
+    }
+  }
+
+  /**
+   * Notify contacts about the lifecycle transitions that are milestones for them
+   * @param transition Committed transition
+   */
+  async handleTransition(transition: LifecycleTransition): Promise<void> {
+    let event: ContactNotificationEvent | null = null;
+
+    if (transition.entity === 'request' && transition.to === EmergencyStatus.ASSIGNED) {
+      event = ContactNotificationEvent.ASSIGNED;
+    } else if (transition.entity === 'assignment' && transition.to === AssignmentStatus.ARRIVED) {
+      event = ContactNotificationEvent.ARRIVED;
+    } else if (transition.entity === 'request' && transition.to === EmergencyStatus.COMPLETED) {
+      event = ContactNotificationEvent.COMPLETED;
+    }
+
+    if (event) {
+      await this.notifyContacts(transition.requestId, event);
+    }
+  }
+}
+
+const contactNotificationService = new ContactNotificationService();
+
+// Not awaited, so a slow provider cannot hold up the request that caused the transition
+lifecycleService.onTransition((transition) => {
+  contactNotificationService.handleTransition(transition);
+});
+
+export default contactNotificationService;
@@ -0,0 +1,467 @@
+import { PoolClient, QueryResult } from 'pg';
+import pool from '../database/connection';
+import config from '../config';
+import { ApiError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+import { proximityQuery } from '../utils/geoSearch';
+import { matchesSpecialty, toEmergencyCategory, TriageSeverity } from '../utils/emergencyTriage';
+import { departmentFor, HospitalDepartment, isCapacityStale } from '../utils/hospitalCapacity';
+import { diversionCondition } from '../utils/hospitalDiversion';
+import { AuditService, EmergencyEventType, SYSTEM_ACTOR } from './audit.service';
+import { emitEmergencyEvent, SocketEvent } from '../socket/emitter';
+
+interface DispatchCandidate {
+  id: string;
+  name: string;
+  distance: number;
+  specialtyMatch: boolean;
+  department: HospitalDepartment;
+  // Beds free in the department, null without fresh published figures
+  availableBeds: number | null;
+}
+
+/**
+ * Offers pending emergency requests to hospitals one at a time, closest first. Hospitals whose
+ * specialty suits the emergency category are offered it ahead of general hospitals up to
+ * `config.dispatch.specialtyPreferenceKm` closer. Hospitals whose up-to-date bed figures show
+ * the patient's department full are only offered it once every other hospital has been.
+ *
+ * Each offer stays open for `config.dispatch.offerTimeoutSeconds`. When it expires
+ * (or the hospital declines) the request moves on to the next closest hospital that
+ * has not seen it yet. Once the candidate list runs out the request is escalated.
+ * Every offer and its outcome is persisted in `emergency_offers` and the request's audit trail.
+ */
+export class DispatchService {
+  private timers = new Map<string, NodeJS.Timeout>();
+  private auditService = new AuditService();
+
+  /**
+   * Start dispatching a newly created emergency request
+   * @param requestId Emergency request ID
+   */
+  async startDispatch(requestId: string): Promise<void> {
+    try {
+      await this.offerNext(requestId);
+    } catch (error) {
+      // Dispatch failures must never prevent the request itself from being created
+      logger.error('Error starting dispatch for emergency request', { error, requestId });
+    }
+  }
+
+  /**
+   * Offer the request to the next closest hospital that has not been offered it yet
+   * @param requestId Emergency request ID
+   */
+  async offerNext(requestId: string): Promise<void> {
+    const client = await pool.connect();
+    let offer: { id: string; hospitalId: string; hospitalName: string; expiresAt: Date } | null =
+      null;
+
+    try {
+      await client.query('BEGIN');
+
+      // Lock the request so concurrent expiries/declines cannot issue two offers
+      const requestResult: QueryResult = await client.query(
+        `SELECT id, status, pickup_latitude, pickup_longitude, emergency_type, severity
+         FROM emergency_requests
+         WHERE id = $1
+         FOR UPDATE`,
+        [requestId],
+      );
+
+      if (requestResult.rows.length === 0 || requestResult.rows[0].status !== 'pending') {
+        await client.query('COMMIT');
+        this.clearTimer(requestId);
+        return;
+      }
+
+      const request = requestResult.rows[0];
+
+      // Only one hospital holds the request at a time
+      const openOfferResult: QueryResult = await client.query(
+        `SELECT id FROM emergency_offers WHERE emergency_id = $1 AND status = 'offered'`,
+        [requestId],
+      );
+
+      if (openOfferResult.rows.length > 0) {
+        await client.query('COMMIT');
+        return;
+      }
+
+      // Hospitals answering from their pending lists were never offered the request, so only
+      // offers made here (which carry an expiry) count toward the limit
+      const offeredCountResult: QueryResult = await client.query(
+        `SELECT COUNT(*) as total FROM emergency_offers
+         WHERE emergency_id = $1 AND expires_at IS NOT NULL`,
+        [requestId],
+      );
+      const offeredCount = parseInt(offeredCountResult.rows[0].total);
+
+      const candidate =
+        offeredCount < config.dispatch.maxHospitals
+          ? await this.findNextCandidate(
+              client,
+              requestId,
+              parseFloat(request.pickup_latitude),
+              parseFloat(request.pickup_longitude),
+              request.emergency_type,
+              request.severity,
+            )
+          : null;
+
+      if (!candidate) {
+        await this.escalate(client, requestId, offeredCount);
+        await client.query('COMMIT');
+        this.clearTimer(requestId);
+        return;
+      }
+
+      const insertResult: QueryResult = await client.query(
+        `INSERT INTO emergency_offers (
+          emergency_id, hospital_id, status, dispatch_rank, distance_km, offered_at, expires_at
+        ) VALUES ($1, $2, 'offered', $3, $4, NOW(), NOW() + make_interval(secs => $5))
+        RETURNING id, expires_at`,
+        [
+          requestId,
+          candidate.id,
+          offeredCount + 1,
+          candidate.distance.toFixed(2),
+          config.dispatch.offerTimeoutSeconds,
+        ],
+      );
+
+      await this.auditService.record(client, requestId, EmergencyEventType.OFFERED, SYSTEM_ACTOR, {
+        offerId: insertResult.rows[0].id,
+        hospitalId: candidate.id,
+        hospitalName: candidate.name,
+        dispatchRank: offeredCount + 1,
+        distanceKm: parseFloat(candidate.distance.toFixed(2)),
+        specialtyMatch: candidate.specialtyMatch,
+        department: candidate.department,
+        availableBeds: candidate.availableBeds,
+        expiresAt: insertResult.rows[0].expires_at,
+      });
+
+      await client.query('COMMIT');
+
+      offer = {
+        id: insertResult.rows[0].id,
+        hospitalId: candidate.id,
+        hospitalName: candidate.name,
+        expiresAt: insertResult.rows[0].expires_at,
+      };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      logger.error('Error offering emergency request to next hospital', { error, requestId });
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    logger.info(`Offered emergency ${requestId} to hospital ${offer.hospitalName}`);
+    emitEmergencyEvent(
+      SocketEvent.EMERGENCY_OFFERED,
+      { requestId, hospitalId: offer.hospitalId },
+      { offerExpiresAt: offer.expiresAt },
+    );
+    this.scheduleExpiry(requestId, offer.id, config.dispatch.offerTimeoutSeconds * 1000);
+  }
+
+  /**
+   * Mark an open offer as expired and move on to the next hospital
+   * @param requestId Emergency request ID
+   * @param offerId Offer ID
+   * @param reason Why the offer ended early, recorded in the audit trail
+   */
+  async expireOffer(requestId: string, offerId: string, reason?: string): Promise<void> {
+    this.timers.delete(requestId);
+
+    try {
+      const result: QueryResult = await pool.query(
+        `UPDATE emergency_offers
+         SET status = 'expired', responded_at = NOW()
+         WHERE id = $1 AND status = 'offered'
+         RETURNING id, hospital_id`,
+        [offerId],
+      );
+
+      // The hospital responded in the meantime
+      if (result.rowCount === 0) {
+        return;
+      }
+
+      await this.auditService.record(
+        pool,
+        requestId,
+        EmergencyEventType.OFFER_EXPIRED,
+        SYSTEM_ACTOR,
+        { offerId, hospitalId: result.rows[0].hospital_id, ...(reason && { reason }) },
+      );
+
+      logger.info(`Offer ${offerId} for emergency ${requestId} expired`);
+      await this.offerNext(requestId);
+    } catch (error) {
+      logger.error('Error expiring emergency offer', { error, requestId, offerId });
+    }
+  }
+
+  /**
+   * Take back a hospital's open offers for requests it can no longer take, e.g. once it goes on
+   * diversion, and move those requests on to the next hospital
+   * @param hospitalId Hospital ID
+   * @param categories Emergency categories to take back; empty for every open offer
+   */
+  async withdrawOffers(hospitalId: string, categories: string[]): Promise<void> {
+    try {
+      const result: QueryResult = await pool.query(
+        `SELECT eo.id, eo.emergency_id
+         FROM emergency_offers eo
+         JOIN emergency_requests er ON eo.emergency_id = er.id
+         WHERE eo.hospital_id = $1 AND eo.status = 'offered'
+         AND (cardinality($2::text[]) = 0 OR er.emergency_type = ANY($2))`,
+        [hospitalId, categories],
+      );
+
+      for (const offer of result.rows) {
+        this.clearTimer(offer.emergency_id);
+        await this.expireOffer(offer.emergency_id, offer.id, 'diversion');
+      }
+    } catch (error) {
+      logger.error('Error withdrawing emergency offers', { error, hospitalId });
+    }
+  }
+
+  /**
+   * Record that a hospital accepted the request. Must run inside the caller's transaction;
+   * call `stopDispatch` once that transaction has committed.
+   * @param client Database client holding the transaction
+   * @param requestId Emergency request ID
+   * @param hospitalId Hospital ID (hospitals.id)
+   */
+  async recordAcceptance(client: PoolClient, requestId: string, hospitalId: string): Promise<void> {
+    // A hospital may accept from its pending list without having been offered the request
+    await client.query(
+      `INSERT INTO emergency_offers (emergency_id, hospital_id, status, dispatch_rank, responded_at)
+       VALUES (
+         $1, $2, 'accepted',
+         (SELECT COUNT(*) + 1 FROM emergency_offers WHERE emergency_id = $1),
+         NOW()
+       )
+       ON CONFLICT (emergency_id, hospital_id)
+       DO UPDATE SET status = 'accepted', responded_at = NOW()`,
+      [requestId, hospitalId],
+    );
+
+    // Withdraw any offer still open with another hospital
+    await client.query(
+      `UPDATE emergency_offers
+       SET status = 'cancelled', responded_at = NOW()
+       WHERE emergency_id = $1 AND hospital_id <> $2 AND status = 'offered'`,
+      [requestId, hospitalId],
+    );
+  }
+
+  /**
+   * Record that a hospital declined the request. Must run inside the caller's transaction;
+   * if the hospital held the open offer, call `offerNext` once that transaction has committed.
+   * @param client Database client holding the transaction
+   * @param requestId Emergency request ID
+   * @param hospitalId Hospital ID (hospitals.id)
+   * @param reason Decline reason code
+   * @param notes Optional free-text explanation
+   * @returns Whether the declining hospital held the currently open offer
+   */
+  async recordDecline(
+    client: PoolClient,
+    requestId: string,
+    hospitalId: string,
+    reason: string,
+    notes: string | null,
+  ): Promise<boolean> {
+    const existingResult: QueryResult = await client.query(
+      `SELECT status FROM emergency_offers WHERE emergency_id = $1 AND hospital_id = $2`,
+      [requestId, hospitalId],
+    );
+
+    const previousStatus = existingResult.rows[0]?.status;
+
+    if (previousStatus === 'declined') {
+      throw new ApiError(400, 'Emergency request has already been declined by this hospital');
+    }
+
+    // Hospitals can also decline requests they see in their pending list without an offer
+    await client.query(
+      `INSERT INTO emergency_offers (
+        emergency_id, hospital_id, status, dispatch_rank, responded_at, decline_reason, decline_notes
+      ) VALUES (
+        $1, $2, 'declined',
+        (SELECT COUNT(*) + 1 FROM emergency_offers WHERE emergency_id = $1),
+        NOW(), $3, $4
+      )
+      ON CONFLICT (emergency_id, hospital_id)
+      DO UPDATE SET status = 'declined', responded_at = NOW(),
+                    decline_reason = EXCLUDED.decline_reason, decline_notes = EXCLUDED.decline_notes`,
+      [requestId, hospitalId, reason, notes],
+    );
+
+    return previousStatus === 'offered';
+  }
+
+  /**
+   * Stop any pending expiry timer for a request that has left the dispatch phase
+   * @param requestId Emergency request ID
+   */
+  stopDispatch(requestId: string): void {
+    this.clearTimer(requestId);
+  }
+
+  /**
+   * Re-arm timers for offers that were open when the process last stopped, and start
+   * dispatch for pending requests that never received an offer
+   */
+  async resumeOutstandingDispatches(): Promise<void> {
+    try {
+      const openOffers: QueryResult = await pool.query(
+        `SELECT eo.id, eo.emergency_id,
+                GREATEST(EXTRACT(EPOCH FROM (eo.expires_at - NOW())), 0) as remaining_seconds
+         FROM emergency_offers eo
+         JOIN emergency_requests er ON eo.emergency_id = er.id
+         WHERE eo.status = 'offered' AND er.status = 'pending'`,
+      );
+
+      openOffers.rows.forEach((row) => {
+        this.scheduleExpiry(row.emergency_id, row.id, parseFloat(row.remaining_seconds) * 1000);
+      });
+
+      const undispatched: QueryResult = await pool.query(
+        `SELECT er.id
+         FROM emergency_requests er
+         WHERE er.status = 'pending'
+         AND er.escalated_at IS NULL
+         AND NOT EXISTS (
+           SELECT 1 FROM emergency_offers eo
+           WHERE eo.emergency_id = er.id AND eo.status = 'offered'
+         )`,
+      );
+
+      for (const row of undispatched.rows) {
+        await this.startDispatch(row.id);
+      }
+
+      logger.info(
+        `Resumed dispatch: ${openOffers.rows.length} open offers, ${undispatched.rows.length} pending requests`,
+      );
+    } catch (error) {
+      logger.error('Error resuming outstanding dispatches', { error });
+    }
+  }
+
+  /**
+   * Find the closest active, approved hospital within the search radius that has not been
+   * offered the request yet and is not on diversion for its category, counting specialty
+   * matches as closer than they are and keeping hospitals without free beds in the patient's
+   * department for last
+   */
+  private async findNextCandidate(
+    client: PoolClient,
+    requestId: string,
+    latitude: number,
+    longitude: number,
+    emergencyType: string,
+    severity: TriageSeverity,
+  ): Promise<DispatchCandidate | null> {
+    const category = toEmergencyCategory(emergencyType);
+    const department = departmentFor(category, severity);
+    const proximity = proximityQuery(
+      'h.latitude',
+      'h.longitude',
+      { latitude, longitude },
+      config.dispatch.searchRadiusKm,
+      4,
+    );
+    const result: QueryResult = await client.query(
+      `SELECT h.id, h.name, h.specialty, ${proximity.distance} as distance,
+              hdc.available_beds, hdc.updated_at as capacity_updated_at
+       FROM hospitals h
+       LEFT JOIN hospital_department_capacity hdc
+         ON hdc.hospital_id = h.id AND hdc.department = $2
+       WHERE h.is_active = true AND h.is_approved = true
+       AND h.latitude IS NOT NULL AND h.longitude IS NOT NULL
+       AND ${proximity.condition}
+       AND NOT EXISTS (
+         SELECT 1 FROM emergency_offers eo
+         WHERE eo.emergency_id = $1 AND eo.hospital_id = h.id
+       )
+       AND NOT ${diversionCondition('h.id', '$3')}`,
+      [requestId, department, category, ...proximity.params],
+    );
+
+    const candidates: DispatchCandidate[] = result.rows.map((hospital) => ({
+      id: hospital.id,
+      name: hospital.name,
+      distance: hospital.distance,
+      specialtyMatch: matchesSpecialty(category, hospital.specialty),
+      department,
+      availableBeds:
+        hospital.capacity_updated_at &&
+        !isCapacityStale(hospital.capacity_updated_at, config.capacity.staleAfterMinutes)
+          ? hospital.available_beds
+          : null,
+    }));
+
+    const isFull = (candidate: DispatchCandidate) => (candidate.availableBeds === 0 ? 1 : 0);
+    const score = (candidate: DispatchCandidate) =>
+      candidate.distance - (candidate.specialtyMatch ? config.dispatch.specialtyPreferenceKm : 0);
+    candidates.sort(
+      (a, b) => isFull(a) - isFull(b) || score(a) - score(b) || a.distance - b.distance,
+    );
+
+    return candidates[0] || null;
+  }
+
+  /**
+   * Flag a request that no hospital has taken so it can be handled manually
+   */
+  private async escalate(client: PoolClient, requestId: string, offeredCount: number) {
+    const result: QueryResult = await client.query(
+      `UPDATE emergency_requests
+       SET escalated_at = NOW(), updated_at = NOW()
+       WHERE id = $1 AND escalated_at IS NULL`,
+      [requestId],
+    );
+
+    if (result.rowCount === 0) {
+      return;
+    }
+
+    await this.auditService.record(client, requestId, EmergencyEventType.ESCALATED, SYSTEM_ACTOR, {
+      offeredCount,
+    });
+
+    logger.warn(
+      `Emergency ${requestId} escalated: no hospital accepted after ${offeredCount} offers`,
+    );
+  }
+
+  private scheduleExpiry(requestId: string, offerId: string, delayMs: number) {
+    this.clearTimer(requestId);
+
+    const timer = setTimeout(() => {
+      this.expireOffer(requestId, offerId);
+    }, delayMs);
+
+    // Don't keep the process alive just for pending offers
+    timer.unref();
+    this.timers.set(requestId, timer);
+  }
+
+  private clearTimer(requestId: string) {
+    const timer = this.timers.get(requestId);
+    if (timer) {
+      clearTimeout(timer);
+      this.timers.delete(requestId);
+    }
+  }
+}
+
+export default new DispatchService();
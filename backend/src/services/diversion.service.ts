@@ -0,0 +1,319 @@
+import { QueryResult } from 'pg';
+import pool from '../database/connection';
+import config from '../config';
+import { ApiError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+import { proximityQuery } from '../utils/geoSearch';
+import { EmergencyCategory } from '../utils/emergencyTriage';
+import dispatchService from './dispatch.service';
+import { emitHospitalEvent, SocketEvent } from '../socket/emitter';
+
+export interface DiversionRequest {
+  // Empty for a full diversion
+  categories: EmergencyCategory[];
+  reason: string;
+  durationMinutes: number;
+}
+
+interface Diversion {
+  diversionId: string;
+  full: boolean;
+  categories: EmergencyCategory[];
+  reason: string;
+  startedAt: Date;
+  expiresAt: Date;
+  endedAt: Date | null;
+  active: boolean;
+}
+
+interface DiversionResponse {
+  success: boolean;
+  message?: string;
+  data: {
+    active: Diversion | null;
+    history: Diversion[];
+  };
+}
+
+interface NeighbourDiversionResponse {
+  success: boolean;
+  data: {
+    radiusKm: number;
+    diversions: Array<
+      Diversion & {
+        hospital: {
+          id: string;
+          name: string;
+          distance: number;
+        };
+      }
+    >;
+  };
+}
+
+// Diversions shown in a hospital's own history
+const HISTORY_LIMIT = 20;
+
+const formatDiversion = (row: {
+  id: string;
+  categories: EmergencyCategory[];
+  reason: string;
+  started_at: Date;
+  expires_at: Date;
+  ended_at: Date | null;
+}): Diversion => ({
+  diversionId: row.id,
+  full: row.categories.length === 0,
+  categories: row.categories,
+  reason: row.reason,
+  startedAt: row.started_at,
+  expiresAt: row.expires_at,
+  endedAt: row.ended_at,
+  active: !row.ended_at && new Date(row.expires_at).getTime() > Date.now(),
+});
+
+/**
+ * Lets hospitals stop receiving new emergencies for a while, either all of them or only some
+ * categories. Dispatch, the pending list and the patients' nearby list skip diverted
+ * hospitals; diversions end by themselves at their expiry.
+ */
+export class DiversionService {
+  /**
+   * Get the hospital's current diversion and its recent diversions
+   * @param hospitalId Hospital ID
+   * @returns Response with the current diversion, if any, and the history
+   */
+  async getDiversion(hospitalId: string): Promise<DiversionResponse> {
+    try {
+      const result: QueryResult = await pool.query(
+        `SELECT id, categories, reason, started_at, expires_at, ended_at
+         FROM hospital_diversions
+         WHERE hospital_id = $1
+         ORDER BY started_at DESC
+         LIMIT $2`,
+        [hospitalId, HISTORY_LIMIT],
+      );
+
+      const history = result.rows.map(formatDiversion);
+
+      return {
+        success: true,
+        data: {
+          active: history.find((diversion) => diversion.active) || null,
+          history,
+        },
+      };
+    } catch (error) {
+      logger.error('Error getting hospital diversion', { error, hospitalId });
+      throw new ApiError(500, 'Failed to get hospital diversion');
+    }
+  }
+
+  /**
+   * Put the hospital on diversion, replacing any current diversion. Open offers for the
+   * diverted categories are passed on to other hospitals.
+   * @param hospitalId Hospital ID
+   * @param userId Hospital account starting the diversion
+   * @param request Categories, reason and duration
+   * @returns Response with the new diversion
+   */
+  async startDiversion(
+    hospitalId: string,
+    userId: string,
+    request: DiversionRequest,
+  ): Promise<DiversionResponse> {
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      await client.query(
+        `UPDATE hospital_diversions
+         SET ended_at = NOW(), ended_by = $2
+         WHERE hospital_id = $1 AND ended_at IS NULL AND expires_at > NOW()`,
+        [hospitalId, userId],
+      );
+
+      await client.query(
+        `INSERT INTO hospital_diversions (
+          hospital_id, categories, reason, started_by, expires_at
+        ) VALUES ($1, $2, $3, $4, NOW() + make_interval(mins => $5))`,
+        [
+          hospitalId,
+          [...new Set(request.categories)],
+          request.reason,
+          userId,
+          request.durationMinutes,
+        ],
+      );
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      logger.error('Error starting hospital diversion', { error, hospitalId });
+      throw new ApiError(500, 'Failed to start hospital diversion');
+    } finally {
+      client.release();
+    }
+
+    logger.info(`Hospital ${hospitalId} went on diversion`, {
+      categories: request.categories,
+      reason: request.reason,
+    });
+
+    await dispatchService.withdrawOffers(hospitalId, request.categories);
+    await this.notifyNeighbours(hospitalId);
+
+    const result = await this.getDiversion(hospitalId);
+    return { ...result, message: 'Diversion started' };
+  }
+
+  /**
+   * Lift the hospital's current diversion before it expires
+   * @param hospitalId Hospital ID
+   * @param userId Hospital account lifting the diversion
+   * @returns Response with the history
+   */
+  async endDiversion(hospitalId: string, userId: string): Promise<DiversionResponse> {
+    try {
+      const result: QueryResult = await pool.query(
+        `UPDATE hospital_diversions
+         SET ended_at = NOW(), ended_by = $2
+         WHERE hospital_id = $1 AND ended_at IS NULL AND expires_at > NOW()`,
+        [hospitalId, userId],
+      );
+
+      if (result.rowCount === 0) {
+        throw new ApiError(404, 'Hospital is not on diversion');
+      }
+    } catch (error) {
+      logger.error('Error ending hospital diversion', { error, hospitalId });
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      throw new ApiError(500, 'Failed to end hospital diversion');
+    }
+
+    logger.info(`Hospital ${hospitalId} lifted its diversion`);
+    await this.notifyNeighbours(hospitalId);
+
+    const response = await this.getDiversion(hospitalId);
+    return { ...response, message: 'Diversion lifted' };
+  }
+
+  /**
+   * List current diversions at other hospitals within `config.diversion.neighbourRadiusKm`
+   * @param hospitalId Hospital ID
+   * @returns Response with the neighbouring diversions, closest first
+   */
+  async getNeighbourDiversions(hospitalId: string): Promise<NeighbourDiversionResponse> {
+    try {
+      const hospitalResult: QueryResult = await pool.query(
+        `SELECT latitude, longitude FROM hospitals WHERE id = $1`,
+        [hospitalId],
+      );
+
+      if (hospitalResult.rows.length === 0) {
+        throw new ApiError(404, 'Hospital not found');
+      }
+
+      const { latitude, longitude } = hospitalResult.rows[0];
+      const { neighbourRadiusKm } = config.diversion;
+
+      if (latitude === null || longitude === null) {
+        return { success: true, data: { radiusKm: neighbourRadiusKm, diversions: [] } };
+      }
+
+      const proximity = proximityQuery(
+        'h.latitude',
+        'h.longitude',
+        { latitude: parseFloat(latitude), longitude: parseFloat(longitude) },
+        neighbourRadiusKm,
+        2,
+      );
+
+      const result: QueryResult = await pool.query(
+        `SELECT hd.id, hd.categories, hd.reason, hd.started_at, hd.expires_at, hd.ended_at,
+                h.id as hospital_id, h.name as hospital_name, ${proximity.distance} as distance
+         FROM hospital_diversions hd
+         JOIN hospitals h ON hd.hospital_id = h.id
+         WHERE hd.hospital_id <> $1
+         AND hd.ended_at IS NULL AND hd.expires_at > NOW()
+         AND h.is_active = true AND h.is_approved = true
+         AND h.latitude IS NOT NULL AND h.longitude IS NOT NULL
+         AND ${proximity.condition}
+         ORDER BY distance`,
+        [hospitalId, ...proximity.params],
+      );
+
+      const diversions = result.rows.map((row) => ({
+        ...formatDiversion(row),
+        hospital: {
+          id: row.hospital_id,
+          name: row.hospital_name,
+          distance: parseFloat(row.distance.toFixed(2)),
+        },
+      }));
+
+      return {
+        success: true,
+        data: {
+          radiusKm: neighbourRadiusKm,
+          diversions,
+        },
+      };
+    } catch (error) {
+      logger.error('Error getting neighbouring diversions', { error, hospitalId });
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      throw new ApiError(500, 'Failed to get neighbouring diversions');
+    }
+  }
+
+  /**
+   * Tell the hospital and the hospitals around it that its diversion changed
+   */
+  private async notifyNeighbours(hospitalId: string): Promise<void> {
+    try {
+      const hospitalResult: QueryResult = await pool.query(
+        `SELECT latitude, longitude FROM hospitals
+         WHERE id = $1 AND latitude IS NOT NULL AND longitude IS NOT NULL`,
+        [hospitalId],
+      );
+
+      let neighbourIds: string[] = [];
+      if (hospitalResult.rows.length > 0) {
+        const proximity = proximityQuery(
+          'h.latitude',
+          'h.longitude',
+          {
+            latitude: parseFloat(hospitalResult.rows[0].latitude),
+            longitude: parseFloat(hospitalResult.rows[0].longitude),
+          },
+          config.diversion.neighbourRadiusKm,
+          1,
+        );
+
+        const result: QueryResult = await pool.query(
+          `SELECT h.id FROM hospitals h
+           WHERE h.is_active = true AND h.is_approved = true
+           AND h.latitude IS NOT NULL AND h.longitude IS NOT NULL
+           AND ${proximity.condition}`,
+          proximity.params,
+        );
+        neighbourIds = result.rows.map((row) => row.id);
+      }
+
+      emitHospitalEvent(
+        SocketEvent.HOSPITAL_DIVERSION_CHANGED,
+        [...new Set([hospitalId, ...neighbourIds])],
+        { hospitalId },
+      );
+    } catch (error) {
+      logger.error('Error notifying hospitals of a diversion change', { error, hospitalId });
+    }
+  }
+}
+
+export default new DiversionService();
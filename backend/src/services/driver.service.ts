@@ -1,7 +1,12 @@
 import { ApiError } from '../middleware/errorHandler';
+import { UserRole } from '../middleware/auth';
 import { logger } from '../utils/logger';
 import pool from '../database/connection';
+import lifecycleService from './lifecycle.service';
 import { QueryResult } from 'pg';
+import { MedicalSnapshot, toMedicalSnapshot } from './medicalProfile.service';
+import { ACTIVE_ASSIGNMENT_STATUSES, AssignmentStatus } from '../utils/emergencyLifecycle';
+import { TriageSeverity } from '../utils/emergencyTriage';
 
 interface AvailabilityStatusResponse {
   success: boolean;
@@ -12,6 +17,21 @@ interface AvailabilityStatusResponse {
   };
 }
 
+interface DriverStatusResponse {
+  success: boolean;
+  data: {
+    isAvailable: boolean;
+    isApproved: boolean;
+    vehicleType: string;
+    vehicleRegistration: string;
+    hospital: {
+      id: string;
+      name: string;
+    } | null;
+    lastLocationUpdate: Date | null;
+  };
+}
+
 interface CurrentAssignmentResponse {
   success: boolean;
   data: {
@@ -32,6 +52,9 @@ interface CurrentAssignmentResponse {
       address: string;
     };
     medicalNotes: string;
+    emergencyType: string;
+    severity: TriageSeverity;
+    medicalProfile: MedicalSnapshot | null;
     assignedAt: Date;
   } | null;
 }
@@ -58,12 +81,57 @@ interface AssignmentHistoryResponse {
       user: string;
       pickup: string;
       status: string;
+      assignedAt: Date;
       completedAt?: Date;
     }>;
   };
 }
 
 export class DriverService {
+  /**
+   * Get the driver's availability, approval and vehicle
+   * @param driverId Driver ID
+   * @returns Response with the driver's status
+   */
+  async getDriverStatus(driverId: string): Promise<DriverStatusResponse> {
+    try {
+      const result: QueryResult = await pool.query(
+        `SELECT d.is_available, d.is_approved, d.vehicle_type, d.vehicle_registration,
+                d.last_location_update, h.id as hospital_id, h.name as hospital_name
+         FROM drivers d
+         LEFT JOIN hospitals h ON d.hospital_id = h.id
+         WHERE d.id = $1`,
+        [driverId],
+      );
+
+      if (result.rows.length === 0) {
+        throw new ApiError(404, 'Driver not found');
+      }
+
+      const driver = result.rows[0];
+
+      return {
+        success: true,
+        data: {
+          isAvailable: driver.is_available,
+          isApproved: driver.is_approved,
+          vehicleType: driver.vehicle_type,
+          vehicleRegistration: driver.vehicle_registration,
+          hospital: driver.hospital_id
+            ? { id: driver.hospital_id, name: driver.hospital_name }
+            : null,
+          lastLocationUpdate: driver.last_location_update,
+        },
+      };
+    } catch (error) {
+      logger.error('Error getting driver status', { error });
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      throw new ApiError(500, 'Failed to get driver status');
+    }
+  }
+
   /**
    * Update driver availability status
    * @param driverId Driver ID
@@ -79,21 +147,6 @@ export class DriverService {
     try {
       await client.query('BEGIN');
 
-      // Check if driver exists
-      const driverQuery = `
-        SELECT id
-        FROM drivers
-        WHERE user_id = $1
-      `;
-
-      const driverResult: QueryResult = await client.query(driverQuery, [driverId]);
-
-      if (driverResult.rows.length === 0) {
-        throw new ApiError(404, 'Driver not found');
-      }
-
-      const driver = driverResult.rows[0];
-
       // Check if driver has active assignments
       if (!isAvailable) {
         // If driver is trying to go unavailable, check if they have active assignments
@@ -101,12 +154,13 @@ export class DriverService {
           SELECT id
           FROM emergency_assignments
           WHERE driver_id = $1
-          AND status IN ('assigned', 'en_route', 'arrived')
+          AND status = ANY($2)
           LIMIT 1
         `;
 
         const activeAssignmentResult: QueryResult = await client.query(activeAssignmentQuery, [
-          driver.id,
+          driverId,
+          ACTIVE_ASSIGNMENT_STATUSES,
         ]);
 
         if (activeAssignmentResult.rows.length > 0) {
@@ -122,7 +176,7 @@ export class DriverService {
         RETURNING is_available, updated_at
       `;
 
-      const updateResult: QueryResult = await client.query(updateQuery, [isAvailable, driver.id]);
+      const updateResult: QueryResult = await client.query(updateQuery, [isAvailable, driverId]);
 
       await client.query('COMMIT');
 
@@ -148,31 +202,17 @@ export class DriverService {
 
   /**
    * Get driver's current assignment
-   * @param driverId Driver ID (user ID)
+   * @param driverId Driver ID
    * @returns Response with current assignment details
    */
   async getCurrentAssignment(driverId: string): Promise<CurrentAssignmentResponse> {
     try {
-      // Get driver ID from user ID
-      const driverQuery = `
-        SELECT id
-        FROM drivers
-        WHERE user_id = $1
-      `;
-
-      const driverResult: QueryResult = await pool.query(driverQuery, [driverId]);
-
-      if (driverResult.rows.length === 0) {
-        throw new ApiError(404, 'Driver not found');
-      }
-
-      const driver = driverResult.rows[0];
-
       // Get current assignment
       const assignmentQuery = `
         SELECT 
           ea.id as assignment_id, ea.emergency_id as request_id, ea.status, ea.assigned_at,
           er.description, er.pickup_address, er.pickup_latitude, er.pickup_longitude,
+          er.emergency_type, er.severity, er.medical_snapshot, er.medical_snapshot_at,
           u.first_name as user_first_name, u.last_name as user_last_name, u.phone as user_phone,
           h.name as hospital_name, h.address as hospital_address
         FROM emergency_assignments ea
@@ -180,12 +220,15 @@ export class DriverService {
         JOIN users u ON er.user_id = u.id
         LEFT JOIN hospitals h ON er.hospital_id = h.id
         WHERE ea.driver_id = $1
-        AND ea.status IN ('assigned', 'en_route', 'arrived')
+        AND ea.status = ANY($2)
         ORDER BY ea.assigned_at DESC
         LIMIT 1
       `;
 
-      const assignmentResult: QueryResult = await pool.query(assignmentQuery, [driver.id]);
+      const assignmentResult: QueryResult = await pool.query(assignmentQuery, [
+        driverId,
+        ACTIVE_ASSIGNMENT_STATUSES,
+      ]);
 
       // If no active assignment found
       if (assignmentResult.rows.length === 0) {
@@ -217,6 +260,9 @@ export class DriverService {
             address: assignment.hospital_address,
           },
           medicalNotes: assignment.description || '',
+          emergencyType: assignment.emergency_type,
+          severity: assignment.severity,
+          medicalProfile: toMedicalSnapshot(assignment),
           assignedAt: assignment.assigned_at,
         },
       };
@@ -232,13 +278,15 @@ export class DriverService {
   /**
    * Update assignment status
    * @param assignmentId Assignment ID
-   * @param driverId Driver ID (user ID)
+   * @param driverId Driver ID
+   * @param userId User ID of the driver
    * @param status New status
    * @returns Response with updated status
    */
   async updateAssignmentStatus(
     assignmentId: string,
     driverId: string,
+    userId: string,
     status: string,
   ): Promise<AssignmentStatusResponse> {
     const client = await pool.connect();
@@ -246,93 +294,41 @@ export class DriverService {
     try {
       await client.query('BEGIN');
 
-      // Get driver ID from user ID
-      const driverQuery = `
-        SELECT id
-        FROM drivers
-        WHERE user_id = $1
-      `;
-
-      const driverResult: QueryResult = await client.query(driverQuery, [driverId]);
-
-      if (driverResult.rows.length === 0) {
-        throw new ApiError(404, 'Driver not found');
-      }
-
-      const driver = driverResult.rows[0];
-
       // Check if assignment exists and belongs to this driver
       const assignmentQuery = `
-        SELECT id, status, emergency_id
+        SELECT id
         FROM emergency_assignments
         WHERE id = $1 AND driver_id = $2
       `;
 
       const assignmentResult: QueryResult = await client.query(assignmentQuery, [
         assignmentId,
-        driver.id,
+        driverId,
       ]);
 
       if (assignmentResult.rows.length === 0) {
         throw new ApiError(404, 'Assignment not found or not assigned to this driver');
       }
 
-      const assignment = assignmentResult.rows[0];
-
-      // Validate status transition
-      const validStatusMap: Record<string, string[]> = {
-        assigned: ['en_route'],
-        en_route: ['arrived'],
-        arrived: ['completed'],
-      };
-
-      if (!validStatusMap[assignment.status]?.includes(status)) {
-        throw new ApiError(400, `Cannot transition from ${assignment.status} to ${status}`);
-      }
-
-      // Update fields based on new status
-      let updateAssignmentQuery = `
-        UPDATE emergency_assignments
-        SET status = $1
-      `;
-
-      const queryParams: any[] = [status];
-
-      // Add timestamp fields based on status
-      if (status === 'en_route') {
-        updateAssignmentQuery += `, en_route_at = NOW()`;
-      } else if (status === 'arrived') {
-        updateAssignmentQuery += `, arrived_at = NOW()`;
-      } else if (status === 'completed') {
-        updateAssignmentQuery += `, completed_at = NOW()`;
-
-        // If completed, make driver available again
-        await client.query(
-          `UPDATE drivers SET is_available = true, updated_at = NOW() WHERE id = $1`,
-          [driver.id],
-        );
-
-        // Also update emergency request status to completed
-        await client.query(
-          `UPDATE emergency_requests SET status = 'completed', updated_at = NOW() WHERE id = $1`,
-          [assignment.emergency_id],
-        );
-      }
-
-      updateAssignmentQuery += `, updated_at = NOW() WHERE id = $2 RETURNING status, updated_at`;
-      queryParams.push(assignmentId);
-
-      const updateResult: QueryResult = await client.query(updateAssignmentQuery, queryParams);
+      // Guards the transition, stamps its time and frees the driver once the assignment ends
+      const transitions = await lifecycleService.transitionAssignment(
+        client,
+        assignmentId,
+        status as AssignmentStatus,
+        { id: userId, role: UserRole.DRIVER },
+      );
 
       await client.query('COMMIT');
 
+      await lifecycleService.runHooks(transitions);
+
       return {
         success: true,
         message: 'Assignment status updated successfully',
         data: {
           assignmentId,
-          status: updateResult.rows[0].status,
-          updatedAt: updateResult.rows[0].updated_at,
+          status: transitions[0].to,
+          updatedAt: transitions[0].at,
         },
       };
     } catch (error) {
@@ -349,7 +345,7 @@ export class DriverService {
 
   /**
    * Get driver's assignment history
-   * @param driverId Driver ID (user ID)
+   * @param driverId Driver ID
    * @param page Page number
    * @param limit Items per page
    * @returns Response with assignment history
@@ -360,21 +356,6 @@ export class DriverService {
     limit: number,
   ): Promise<AssignmentHistoryResponse> {
     try {
-      // Get driver ID from user ID
-      const driverQuery = `
-        SELECT id
-        FROM drivers
-        WHERE user_id = $1
-      `;
-
-      const driverResult: QueryResult = await pool.query(driverQuery, [driverId]);
-
-      if (driverResult.rows.length === 0) {
-        throw new ApiError(404, 'Driver not found');
-      }
-
-      const driver = driverResult.rows[0];
-
       // Calculate offset
       const offset = (page - 1) * limit;
 
@@ -385,14 +366,14 @@ export class DriverService {
         WHERE driver_id = $1
       `;
 
-      const countResult: QueryResult = await pool.query(countQuery, [driver.id]);
+      const countResult: QueryResult = await pool.query(countQuery, [driverId]);
       const total = parseInt(countResult.rows[0].total);
 
       // Query to get paginated history
       const historyQuery = `
         SELECT 
-          ea.id as assignment_id, ea.emergency_id as request_id, ea.status, ea.completed_at,
-          u.first_name as user_first_name, u.last_name as user_last_name,
+          ea.id as assignment_id, ea.emergency_id as request_id, ea.status, ea.assigned_at,
+          ea.completed_at, u.first_name as user_first_name, u.last_name as user_last_name,
           er.pickup_address
         FROM emergency_assignments ea
         JOIN emergency_requests er ON ea.emergency_id = er.id
@@ -402,7 +383,7 @@ export class DriverService {
         LIMIT $2 OFFSET $3
       `;
 
-      const historyResult: QueryResult = await pool.query(historyQuery, [driver.id, limit, offset]);
+      const historyResult: QueryResult = await pool.query(historyQuery, [driverId, limit, offset]);
 
       // Format the response
       const assignments = historyResult.rows.map((row) => ({
@@ -411,6 +392,7 @@ export class DriverService {
         user: `${row.user_first_name} ${row.user_last_name}`,
         pickup: row.pickup_address,
         status: row.status,
+        assignedAt: row.assigned_at,
         completedAt: row.completed_at || null,
       }));
 
@@ -1,8 +1,40 @@
-import { ApiError } from '../middleware/errorHandler';
+import { ApiError, TooManyRequestsError } from '../middleware/errorHandler';
+import { UserRole } from '../middleware/auth';
 import { logger } from '../utils/logger';
 import pool from '../database/connection';
+import config from '../config';
 import { QueryResult } from 'pg';
-import { calculateDistance } from '../utils/locationUtils';
+import { proximityQuery } from '../utils/geoSearch';
+import {
+  ACTIVE_ASSIGNMENT_STATUSES,
+  AssignmentStatus,
+  EmergencyStatus,
+  OPEN_REQUEST_STATUSES,
+} from '../utils/emergencyLifecycle';
+import {
+  assessSeverity,
+  EMERGENCY_CATEGORIES,
+  EmergencyCategory,
+  TRIAGE_QUESTIONS,
+  TriageAnswers,
+  TriageSeverity,
+  toEmergencyCategory,
+} from '../utils/emergencyTriage';
+import {
+  BedAvailability,
+  departmentFor,
+  HospitalDepartment,
+  resolveBedAvailability,
+} from '../utils/hospitalCapacity';
+import { diversionCondition } from '../utils/hospitalDiversion';
+import dispatchService from './dispatch.service';
+import contactNotificationService, {
+  ContactNotificationEvent,
+} from './contactNotification.service';
+import lifecycleService, { LifecycleTransition } from './lifecycle.service';
+import serviceAreaService from './serviceArea.service';
+import { AuditService, EmergencyEventType, EventActor } from './audit.service';
+import { emitEmergencyEvent, SocketEvent } from '../socket/emitter';
 
 interface EmergencyRequestData {
   userId: string;
@@ -10,6 +42,8 @@ interface EmergencyRequestData {
   pickupLongitude: number;
   pickupAddress: string;
   medicalNotes?: string;
+  emergencyType?: EmergencyCategory;
+  triageAnswers?: TriageAnswers;
 }
 
 interface EmergencyRequestResponse {
@@ -18,15 +52,56 @@ interface EmergencyRequestResponse {
   data?: {
     requestId: string;
     status: string;
+    emergencyType: EmergencyCategory;
+    severity: TriageSeverity;
     createdAt: Date;
   };
 }
 
+interface TriageResponse {
+  success: boolean;
+  message: string;
+  data: {
+    requestId: string;
+    emergencyType: EmergencyCategory;
+    severity: TriageSeverity;
+    triageAnswers: TriageAnswers;
+  };
+}
+
+interface EmergencyCatalogueResponse {
+  success: boolean;
+  data: {
+    categories: Array<{
+      id: EmergencyCategory;
+      label: string;
+      baseSeverity: TriageSeverity;
+    }>;
+    questions: Array<{
+      id: string;
+      text: string;
+    }>;
+  };
+}
+
+interface CancelEmergencyResponse {
+  success: boolean;
+  message: string;
+  data: {
+    requestId: string;
+    status: string;
+    cancelledAt: Date;
+    requiresReview: boolean;
+  };
+}
+
 interface EmergencyStatusResponse {
   success: boolean;
   data?: {
     requestId: string;
     status: string;
+    emergencyType: string;
+    severity: TriageSeverity;
     hospital?: {
       id: string;
       name: string;
@@ -38,10 +113,21 @@ interface EmergencyStatusResponse {
       name: string;
       phoneNumber: string;
       status: string;
-      estimatedArrival: string;
+      estimatedArrival: Date | null;
+      etaMinutes: number | null;
     };
+    dispatchHistory: Array<{
+      hospitalName: string;
+      status: string;
+      declineReason: string | null;
+      offeredAt: Date;
+      respondedAt: Date | null;
+    }>;
     createdAt: Date;
     acceptedAt?: Date;
+    actualArrivalTime: Date | null;
+    cancelledAt: Date | null;
+    cancellationReason: string | null;
   };
 }
 
@@ -57,6 +143,8 @@ interface EmergencyHistoryResponse {
       hospital?: string;
       createdAt: Date;
       completedAt?: Date;
+      estimatedArrivalTime: Date | null;
+      actualArrivalTime: Date | null;
     }>;
   };
 }
@@ -70,8 +158,7 @@ interface NearbyHospital {
   address: string;
   latitude: number;
   longitude: number;
-  maxCapacity: number;
-  currentRequests: number;
+  beds: BedAvailability;
 }
 
 // Add a new interface for emergency location data
@@ -79,15 +166,27 @@ interface EmergencyLocation {
   pickupLatitude: number;
   pickupLongitude: number;
   pickupAddress: string;
+  emergencyType: EmergencyCategory;
+  severity: TriageSeverity;
 }
 
 export class EmergencyService {
+  private auditService: AuditService;
+
+  constructor() {
+    this.auditService = new AuditService();
+  }
+
   /**
-   * Find nearby hospitals sorted by distance
+   * Find nearby hospitals sorted by distance, with their bed availability in a department.
+   * Hospitals that have not published figures for it are estimated from their registered
+   * emergency capacity and open requests. Hospitals on diversion for the category are left out.
    * @param latitude Patient's latitude
    * @param longitude Patient's longitude
    * @param maxDistance Maximum distance in kilometers (default: 50)
    * @param limit Maximum number of hospitals to return (default: 10)
+   * @param department Department the patient needs (default: emergency room)
+   * @param category Emergency category (default: other)
    * @returns Array of nearby hospitals sorted by distance
    */
   async findNearbyHospitals(
@@ -95,48 +194,69 @@ export class EmergencyService {
     longitude: number,
     maxDistance: number = 50,
     limit: number = 10,
+    department: HospitalDepartment = HospitalDepartment.EMERGENCY_ROOM,
+    category: EmergencyCategory = EmergencyCategory.OTHER,
   ): Promise<NearbyHospital[]> {
     try {
-      // Query to get all hospitals with location data and their current request count
+      const proximity = proximityQuery(
+        'h.latitude',
+        'h.longitude',
+        { latitude, longitude },
+        maxDistance,
+        3,
+      );
+
+      // Closest hospitals within range, with their published beds and their open request count
       const query = `
         SELECT 
           h.id, h.name, h.user_id, h.address, h.latitude, h.longitude, h.emergency_capacity as max_capacity,
-          COUNT(er.id) FILTER (WHERE er.status = 'accepted' OR er.status = 'assigned') as current_requests
+          hdc.total_beds, hdc.available_beds, hdc.updated_at as capacity_updated_at,
+          ${proximity.distance} as distance,
+          (
+            SELECT COUNT(*) FROM emergency_requests er
+            WHERE er.hospital_id = h.id AND er.status IN ('accepted', 'assigned', 'in_progress')
+          ) as current_requests
         FROM hospitals h
-        LEFT JOIN emergency_requests er ON h.id = er.hospital_id
-        WHERE h.is_active = true AND h.latitude IS NOT NULL AND h.longitude IS NOT NULL
-        GROUP BY h.id
+        LEFT JOIN hospital_department_capacity hdc ON hdc.hospital_id = h.id AND hdc.department = $1
+        WHERE h.is_active = true AND h.is_approved = true
+          AND h.latitude IS NOT NULL AND h.longitude IS NOT NULL
+          AND ${proximity.condition}
+          AND NOT ${diversionCondition('h.id', '$2')}
+        ORDER BY distance
+        LIMIT $10
       `;
 
-      const result: QueryResult = await pool.query(query);
-
-      // Calculate distance for each hospital and filter by max distance
-      const nearbyHospitals = result.rows
-        .map((hospital) => {
-          const distance = calculateDistance(
-            latitude,
-            longitude,
-            hospital.latitude,
-            hospital.longitude,
-          );
-
-          return {
-            id: hospital.id,
-            name: hospital.name,
-            userId: hospital.user_id,
-            address: hospital.address,
-            latitude: hospital.latitude,
-            longitude: hospital.longitude,
-            distance,
-            maxCapacity: hospital.max_capacity,
-            currentRequests: parseInt(hospital.current_requests) || 0,
-          };
-        })
-        .filter((hospital) => hospital.distance <= maxDistance)
-        // Sort by distance (closest first)
-        .sort((a, b) => a.distance - b.distance)
-        // Take only the specified limit
-        .slice(0, limit);
+      const result: QueryResult = await pool.query(query, [
+        department,
+        category,
+        ...proximity.params,
+        limit,
+      ]);
+
+      const nearbyHospitals = result.rows.map((hospital) => ({
+        id: hospital.id,
+        name: hospital.name,
+        userId: hospital.user_id,
+        address: hospital.address,
+        latitude: hospital.latitude,
+        longitude: hospital.longitude,
+        distance: hospital.distance,
+        beds: resolveBedAvailability(
+          department,
+          hospital.capacity_updated_at
+            ? {
+                totalBeds: hospital.total_beds,
+                availableBeds: hospital.available_beds,
+                updatedAt: hospital.capacity_updated_at,
+              }
+            : null,
+          {
+            capacity: hospital.max_capacity,
+            openRequests: parseInt(hospital.current_requests) || 0,
+          },
+          config.capacity.staleAfterMinutes,
+        ),
+      }));
 
       return nearbyHospitals;
     } catch (error) {
@@ -158,11 +278,32 @@ export class EmergencyService {
     try {
       await client.query('BEGIN');
 
+      // Lock the user so concurrent requests cannot slip past the open request limit
+      await client.query('SELECT id FROM users WHERE id = $1 FOR UPDATE', [requestData.userId]);
+
+      const openResult: QueryResult = await client.query(
+        `SELECT COUNT(*)::int AS count FROM emergency_requests
+         WHERE user_id = $1 AND status = ANY($2)`,
+        [requestData.userId, OPEN_REQUEST_STATUSES],
+      );
+
+      const { maxOpenPerUser } = config.emergency;
+      if (openResult.rows[0].count >= maxOpenPerUser) {
+        throw new TooManyRequestsError(
+          `You already have ${maxOpenPerUser} open emergency request${maxOpenPerUser === 1 ? '' : 's'}. Cancel one or wait for it to finish before requesting another.`,
+        );
+      }
+
+      const emergencyType = requestData.emergencyType || EmergencyCategory.OTHER;
+      const triageAnswers = requestData.triageAnswers || {};
+      const severity = assessSeverity(emergencyType, triageAnswers);
+
       // Create emergency request in database
       const query = `
         INSERT INTO emergency_requests (
-          user_id, pickup_latitude, pickup_longitude, pickup_address, emergency_type, description, status
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+          user_id, pickup_latitude, pickup_longitude, pickup_address, emergency_type, description,
+          status, severity, triage_answers
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
         RETURNING id, status, created_at
       `;
 
@@ -171,50 +312,49 @@ export class EmergencyService {
         requestData.pickupLatitude,
         requestData.pickupLongitude,
         requestData.pickupAddress,
-        'Medical Emergency', // Default emergency type
+        emergencyType,
         requestData.medicalNotes || '', // Use medical notes as description
         'pending',
+        severity,
+        JSON.stringify(triageAnswers),
       ];
 
       const result: QueryResult = await client.query(query, values);
       const emergencyRequest = result.rows[0];
 
+      await this.auditService.record(
+        client,
+        emergencyRequest.id,
+        EmergencyEventType.CREATED,
+        { id: requestData.userId, role: UserRole.USER },
+        {
+          pickupLatitude: requestData.pickupLatitude,
+          pickupLongitude: requestData.pickupLongitude,
+          pickupAddress: requestData.pickupAddress,
+          emergencyType,
+          severity,
+        },
+      );
+
+      const hospitalIds = await serviceAreaService.hospitalsServing(emergencyRequest.id, client);
+
       await client.query('COMMIT');
 
-      // Find nearby hospitals
-      try {
-        const nearbyHospitals = await this.findNearbyHospitals(
-          requestData.pickupLatitude,
-          requestData.pickupLongitude,
-        );
+      // Hospitals that may see the request reload their pending lists for the details
+      emitEmergencyEvent(
+        SocketEvent.EMERGENCY_CREATED,
+        { requestId: emergencyRequest.id, userId: requestData.userId, hospitalIds },
+        { status: emergencyRequest.status, severity },
+      );
 
-        logger.info(
-          `Found ${nearbyHospitals.length} nearby hospitals for emergency ${emergencyRequest.id}`,
-        );
+      // Offer the request to the closest hospital; the dispatcher cascades on decline or timeout
+      await dispatchService.startDispatch(emergencyRequest.id);
 
-        // Here we would send the request to each hospital one by one
-        // This would typically be done through a background job or queue
-        // For demonstration, we'll log them here
-        nearbyHospitals.forEach((hospital, index) => {
-          logger.info(
-            `Hospital ${index + 1}: ${hospital.name}, Distance: ${hospital.distance.toFixed(2)} km`,
-          );
-
-          // In a real implementation, we would:
-          // 1. Send a notification to the hospital (via push, SMS, etc.)
-          // 2. Wait for a response or timeout
-          // 3. If accepted, assign this hospital to the request
-          // 4. If rejected or timed out, move to the next hospital
-
-          // For the demo, we'll just log that we would notify this hospital
-          logger.info(
-            `Would notify hospital ${hospital.name} about emergency ${emergencyRequest.id}`,
-          );
-        });
-      } catch (error) {
-        // Just log the error, don't prevent the request from being created
-        logger.error('Error finding nearby hospitals', { error });
-      }
+      // Never rejects; not awaited so slow notification providers cannot delay the SOS
+      contactNotificationService.notifyContacts(
+        emergencyRequest.id,
+        ContactNotificationEvent.CREATED,
+      );
 
       return {
         success: true,
@@ -222,12 +362,17 @@ export class EmergencyService {
         data: {
           requestId: emergencyRequest.id,
           status: emergencyRequest.status,
+          emergencyType,
+          severity,
           createdAt: emergencyRequest.created_at,
         },
       };
     } catch (error) {
       await client.query('ROLLBACK');
       logger.error('Error creating emergency request', { error });
+      if (error instanceof ApiError) {
+        throw error;
+      }
       throw new ApiError(500, 'Failed to create emergency request');
     } finally {
       client.release();
@@ -248,7 +393,9 @@ export class EmergencyService {
       // Query to get emergency request with related hospital and driver info
       const query = `
         SELECT 
-          er.id as request_id, er.status, er.created_at, er.updated_at as accepted_at,
+          er.id as request_id, er.status, er.created_at, er.accepted_at,
+          er.estimated_arrival_time, er.actual_arrival_time, er.cancelled_at, er.cancellation_reason,
+          er.emergency_type, er.severity,
           h.id as hospital_id, h.name as hospital_name, h.address as hospital_address, h.phone as hospital_phone,
           ea.id as assignment_id, ea.status as driver_status, ea.assigned_at,
           d.id as driver_id, 
@@ -269,14 +416,37 @@ export class EmergencyService {
 
       const request = result.rows[0];
 
+      // Every hospital the request was offered to, declined by or accepted by
+      const historyQuery = `
+        SELECT h.name as hospital_name, eo.status, eo.decline_reason, eo.offered_at, eo.responded_at
+        FROM emergency_offers eo
+        JOIN hospitals h ON eo.hospital_id = h.id
+        WHERE eo.emergency_id = $1
+        ORDER BY eo.dispatch_rank ASC
+      `;
+
+      const historyResult: QueryResult = await pool.query(historyQuery, [requestId]);
+
       // Prepare response data
       const responseData: EmergencyStatusResponse = {
         success: true,
         data: {
           requestId: request.request_id,
           status: request.status,
+          emergencyType: request.emergency_type,
+          severity: request.severity,
+          dispatchHistory: historyResult.rows.map((row) => ({
+            hospitalName: row.hospital_name,
+            status: row.status,
+            declineReason: row.decline_reason,
+            offeredAt: row.offered_at,
+            respondedAt: row.responded_at,
+          })),
           createdAt: request.created_at,
           acceptedAt: request.accepted_at,
+          actualArrivalTime: request.actual_arrival_time,
+          cancelledAt: request.cancelled_at,
+          cancellationReason: request.cancellation_reason,
         },
       };
 
@@ -294,8 +464,12 @@ export class EmergencyService {
       if (request.driver_id) {
         const driverName = `${request.driver_first_name} ${request.driver_last_name}`;
 
-        // Calculate estimated arrival time (this would normally use a more sophisticated calculation)
-        const estimatedArrival = '5 minutes'; // Placeholder
+        // Refreshed by EtaService whenever the driver reports a position or changes status
+        const estimatedArrival: Date | null = request.estimated_arrival_time;
+        const etaMinutes =
+          estimatedArrival && !request.actual_arrival_time
+            ? Math.max(0, Math.ceil((new Date(estimatedArrival).getTime() - Date.now()) / 60000))
+            : null;
 
         responseData.data!.driver = {
           id: request.driver_id,
@@ -303,6 +477,7 @@ export class EmergencyService {
           phoneNumber: request.driver_phone,
           status: request.driver_status,
           estimatedArrival,
+          etaMinutes,
         };
       }
 
@@ -316,6 +491,273 @@ export class EmergencyService {
     }
   }
 
+  /**
+   * List the emergency categories and triage questions a request can be described with
+   * @returns Response with the catalogue
+   */
+  getEmergencyCatalogue(): EmergencyCatalogueResponse {
+    return {
+      success: true,
+      data: {
+        categories: Object.values(EmergencyCategory).map((id) => ({
+          id,
+          label: EMERGENCY_CATEGORIES[id].label,
+          baseSeverity: EMERGENCY_CATEGORIES[id].baseSeverity,
+        })),
+        questions: TRIAGE_QUESTIONS.map(({ id, text }) => ({ id, text })),
+      },
+    };
+  }
+
+  /**
+   * Describe an open request after the fact, e.g. once the SOS has been sent. Answers are
+   * merged into earlier ones and the severity is assessed again; dispatch uses the new
+   * category for any later offers.
+   * @param requestId Emergency request ID
+   * @param userId User ID
+   * @param emergencyType New category, or undefined to keep the current one
+   * @param triageAnswers Answers to merge into the earlier ones
+   * @returns Response with the updated triage
+   */
+  async updateTriage(
+    requestId: string,
+    userId: string,
+    emergencyType: EmergencyCategory | undefined,
+    triageAnswers: TriageAnswers = {},
+  ): Promise<TriageResponse> {
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const requestResult: QueryResult = await client.query(
+        `SELECT id, status, emergency_type, triage_answers, hospital_id
+         FROM emergency_requests
+         WHERE id = $1 AND user_id = $2
+         FOR UPDATE`,
+        [requestId, userId],
+      );
+
+      if (requestResult.rows.length === 0) {
+        throw new ApiError(404, 'Emergency request not found');
+      }
+
+      const request = requestResult.rows[0];
+
+      if (!OPEN_REQUEST_STATUSES.includes(request.status)) {
+        throw new ApiError(400, 'Only open emergency requests can be triaged');
+      }
+
+      const category = emergencyType || toEmergencyCategory(request.emergency_type);
+      const answers: TriageAnswers = { ...request.triage_answers, ...triageAnswers };
+      const severity = assessSeverity(category, answers);
+
+      await client.query(
+        `UPDATE emergency_requests
+         SET emergency_type = $2, triage_answers = $3, severity = $4, updated_at = NOW()
+         WHERE id = $1`,
+        [requestId, category, JSON.stringify(answers), severity],
+      );
+
+      await this.auditService.record(
+        client,
+        requestId,
+        EmergencyEventType.TRIAGED,
+        { id: userId, role: UserRole.USER },
+        { emergencyType: category, severity, triageAnswers: answers },
+      );
+
+      const assignmentResult: QueryResult = await client.query(
+        `SELECT driver_id FROM emergency_assignments
+         WHERE emergency_id = $1 AND status = ANY($2)`,
+        [requestId, ACTIVE_ASSIGNMENT_STATUSES],
+      );
+
+      const hospitalIds =
+        request.status === EmergencyStatus.PENDING
+          ? await serviceAreaService.hospitalsServing(requestId, client)
+          : [];
+
+      await client.query('COMMIT');
+
+      emitEmergencyEvent(
+        SocketEvent.EMERGENCY_TRIAGED,
+        {
+          requestId,
+          userId,
+          hospitalId: request.hospital_id,
+          driverId: assignmentResult.rows[0]?.driver_id,
+          hospitalIds,
+        },
+        { emergencyType: category, severity },
+      );
+
+      return {
+        success: true,
+        message: 'Emergency triage updated successfully',
+        data: {
+          requestId,
+          emergencyType: category,
+          severity,
+          triageAnswers: answers,
+        },
+      };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      logger.error('Error updating emergency triage', { error });
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      throw new ApiError(500, 'Failed to update emergency triage');
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Cancel an emergency request on behalf of the user who raised it. Withdraws any open
+   * hospital offer, and if a driver is assigned closes the assignment and frees the driver.
+   * Once the ambulance has reached the patient a reason is required and the cancellation is
+   * flagged for review.
+   * @param requestId Emergency request ID
+   * @param userId User ID
+   * @param reason Optional cancellation reason
+   * @returns Response with the cancelled request
+   */
+  async cancelEmergencyRequest(
+    requestId: string,
+    userId: string,
+    reason?: string,
+  ): Promise<CancelEmergencyResponse> {
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const requestResult: QueryResult = await client.query(
+        `SELECT id, status, hospital_id, actual_arrival_time
+         FROM emergency_requests
+         WHERE id = $1 AND user_id = $2
+         FOR UPDATE`,
+        [requestId, userId],
+      );
+
+      if (requestResult.rows.length === 0) {
+        throw new ApiError(404, 'Emergency request not found');
+      }
+
+      const request = requestResult.rows[0];
+
+      if (request.status === 'completed' || request.status === 'cancelled') {
+        throw new ApiError(400, `Emergency request is already ${request.status}`);
+      }
+
+      const assignmentResult: QueryResult = await client.query(
+        `SELECT id, driver_id, pickup_at
+         FROM emergency_assignments
+         WHERE emergency_id = $1 AND status = ANY($2)
+         FOR UPDATE`,
+        [requestId, ACTIVE_ASSIGNMENT_STATUSES],
+      );
+
+      const assignment = assignmentResult.rows[0] || null;
+
+      // The ambulance reaching the patient counts as pickup for cancellation purposes
+      const afterPickup = Boolean(assignment?.pickup_at || request.actual_arrival_time);
+
+      if (afterPickup && !reason) {
+        throw new ApiError(
+          400,
+          'A reason is required to cancel after the ambulance has reached the patient',
+        );
+      }
+
+      const actor: EventActor = { id: userId, role: UserRole.USER };
+
+      // Taken before the cancellation withdraws the open offer
+      const hospitalIds =
+        request.status === 'pending'
+          ? await serviceAreaService.hospitalsServing(requestId, client)
+          : [];
+
+      await this.auditService.record(client, requestId, EmergencyEventType.CANCELLED, actor, {
+        reason: reason || null,
+        requiresReview: afterPickup,
+      });
+
+      const transitions: LifecycleTransition[] = [
+        await lifecycleService.transitionRequest(
+          client,
+          requestId,
+          EmergencyStatus.CANCELLED,
+          actor,
+          { cancellation_reason: reason || null, requires_review: afterPickup },
+        ),
+      ];
+
+      // Withdraw the offer still waiting on a hospital, if any
+      await client.query(
+        `UPDATE emergency_offers
+         SET status = 'cancelled', responded_at = NOW()
+         WHERE emergency_id = $1 AND status = 'offered'`,
+        [requestId],
+      );
+
+      // Closing the assignment also frees the driver
+      if (assignment) {
+        transitions.push(
+          ...(await lifecycleService.transitionAssignment(
+            client,
+            assignment.id,
+            AssignmentStatus.CANCELLED,
+            actor,
+            { notes: reason || 'Cancelled by user' },
+          )),
+        );
+      }
+
+      await client.query('COMMIT');
+
+      dispatchService.stopDispatch(requestId);
+      await lifecycleService.runHooks(transitions);
+
+      // Pending requests also sit in other hospitals' lists
+      emitEmergencyEvent(
+        SocketEvent.EMERGENCY_CANCELLED,
+        {
+          requestId,
+          userId,
+          hospitalId: request.hospital_id || undefined,
+          driverId: assignment?.driver_id,
+          hospitalIds,
+        },
+        { status: 'cancelled', reason: reason || null, requiresReview: afterPickup },
+      );
+
+      return {
+        success: true,
+        message: afterPickup
+          ? 'Emergency request cancelled and flagged for review'
+          : 'Emergency request cancelled successfully',
+        data: {
+          requestId,
+          status: 'cancelled',
+          cancelledAt: transitions[0].at,
+          requiresReview: afterPickup,
+        },
+      };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      logger.error('Error cancelling emergency request', { error });
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      throw new ApiError(500, 'Failed to cancel emergency request');
+    } finally {
+      client.release();
+    }
+  }
+
   /**
    * Get user's emergency request history
    * @param userId User ID
@@ -345,7 +787,8 @@ export class EmergencyService {
       // Query to get paginated history
       const historyQuery = `
         SELECT 
-          er.id as request_id, er.status, er.created_at, er.updated_at as completed_at,
+          er.id as request_id, er.status, er.created_at, er.completed_at,
+          er.estimated_arrival_time, er.actual_arrival_time,
           h.name as hospital_name
         FROM emergency_requests er
         LEFT JOIN hospitals h ON er.hospital_id = h.id
@@ -363,6 +806,8 @@ export class EmergencyService {
         hospital: row.hospital_name || null,
         createdAt: row.created_at,
         completedAt: row.completed_at || null,
+        estimatedArrivalTime: row.estimated_arrival_time,
+        actualArrivalTime: row.actual_arrival_time,
       }));
 
       return {
@@ -388,7 +833,7 @@ export class EmergencyService {
   async getEmergencyLocationById(requestId: string): Promise<EmergencyLocation | null> {
     try {
       const query = `
-        SELECT pickup_latitude, pickup_longitude, pickup_address
+        SELECT pickup_latitude, pickup_longitude, pickup_address, emergency_type, severity
         FROM emergency_requests
         WHERE id = $1
       `;
@@ -404,6 +849,8 @@ export class EmergencyService {
         pickupLatitude: parseFloat(row.pickup_latitude),
         pickupLongitude: parseFloat(row.pickup_longitude),
         pickupAddress: row.pickup_address,
+        emergencyType: toEmergencyCategory(row.emergency_type),
+        severity: row.severity,
       };
     } catch (error) {
       logger.error('Error getting emergency location', { error, requestId });
@@ -0,0 +1,112 @@
+import { QueryResult } from 'pg';
+import pool from '../database/connection';
+import config from '../config';
+import { logger } from '../utils/logger';
+import { estimateTravelSeconds } from '../utils/etaUtils';
+import { AssignmentStatus } from '../utils/emergencyLifecycle';
+import { emitEmergencyEvent, SocketEvent } from '../socket/emitter';
+
+// Assignment statuses in which the ambulance is still heading to the pickup
+const EN_ROUTE_STATUSES: string[] = [AssignmentStatus.ASSIGNED, AssignmentStatus.EN_ROUTE];
+
+// Assignment statuses reached once the ambulance is at the pickup
+const ARRIVED_STATUSES: string[] = [
+  AssignmentStatus.ARRIVED,
+  AssignmentStatus.PATIENT_ONBOARD,
+  AssignmentStatus.AT_HOSPITAL,
+  AssignmentStatus.COMPLETED,
+];
+
+export class EtaService {
+  /**
+   * Recompute and store the ambulance ETA for an emergency request from the assigned
+   * driver's last known position. Records the actual arrival time once the driver has
+   * arrived. Failures are logged and never propagate to the caller.
+   * @param requestId Emergency request ID
+   */
+  async refreshEstimate(requestId: string): Promise<void> {
+    try {
+      const query = `
+        SELECT
+          er.user_id, er.hospital_id, er.pickup_latitude, er.pickup_longitude,
+          ea.id as assignment_id, ea.status as assignment_status,
+          d.id as driver_id, d.vehicle_type, d.current_latitude, d.current_longitude
+        FROM emergency_requests er
+        JOIN emergency_assignments ea ON ea.emergency_id = er.id
+        JOIN drivers d ON ea.driver_id = d.id
+        WHERE er.id = $1
+        ORDER BY ea.assigned_at DESC
+        LIMIT 1
+      `;
+
+      const result: QueryResult = await pool.query(query, [requestId]);
+
+      if (result.rows.length === 0) {
+        return;
+      }
+
+      const row = result.rows[0];
+      const audience = {
+        requestId,
+        userId: row.user_id,
+        hospitalId: row.hospital_id,
+        driverId: row.driver_id,
+      };
+
+      if (ARRIVED_STATUSES.includes(row.assignment_status)) {
+        const arrivalResult: QueryResult = await pool.query(
+          `UPDATE emergency_requests
+           SET actual_arrival_time = NOW()
+           WHERE id = $1 AND actual_arrival_time IS NULL
+           RETURNING actual_arrival_time`,
+          [requestId],
+        );
+
+        if (arrivalResult.rows.length > 0) {
+          emitEmergencyEvent(SocketEvent.EMERGENCY_ETA_UPDATED, audience, {
+            estimatedArrivalTime: null,
+            etaMinutes: 0,
+            actualArrivalTime: arrivalResult.rows[0].actual_arrival_time,
+          });
+        }
+        return;
+      }
+
+      // Without a reported position there is nothing to estimate from yet
+      if (!EN_ROUTE_STATUSES.includes(row.assignment_status) || row.current_latitude === null) {
+        return;
+      }
+
+      const travelSeconds = estimateTravelSeconds(
+        {
+          latitude: parseFloat(row.current_latitude),
+          longitude: parseFloat(row.current_longitude),
+        },
+        {
+          latitude: parseFloat(row.pickup_latitude),
+          longitude: parseFloat(row.pickup_longitude),
+        },
+        row.vehicle_type,
+        new Date(),
+        config.eta.speedProfile,
+        config.eta.roadFactor,
+      );
+
+      const updateResult: QueryResult = await pool.query(
+        `UPDATE emergency_requests
+         SET estimated_arrival_time = NOW() + make_interval(secs => $2)
+         WHERE id = $1
+         RETURNING estimated_arrival_time`,
+        [requestId, travelSeconds],
+      );
+
+      emitEmergencyEvent(SocketEvent.EMERGENCY_ETA_UPDATED, audience, {
+        estimatedArrivalTime: updateResult.rows[0].estimated_arrival_time,
+        etaMinutes: Math.ceil(travelSeconds / 60),
+        actualArrivalTime: null,
+      });
+    } catch (error) {
+      logger.error('Error refreshing emergency ETA', { error, requestId });
+    }
+  }
+}
@@ -0,0 +1,508 @@
+import crypto from 'crypto';
+import { Pool, PoolClient, QueryResult } from 'pg';
+import pool from '../database/connection';
+import config from '../config';
+import { ApiError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+
+interface DriverInvitation {
+  id: string;
+  hospitalId: string;
+  email: string;
+}
+
+interface InvitationResponse {
+  success: boolean;
+  message: string;
+  data: {
+    invitationId: string;
+    email: string;
+    inviteCode: string;
+    expiresAt: Date;
+  };
+}
+
+interface InvitationListResponse {
+  success: boolean;
+  data: {
+    invitations: Array<{
+      invitationId: string;
+      email: string;
+      inviteCode: string;
+      status: string;
+      expiresAt: Date;
+      acceptedAt: Date | null;
+      createdAt: Date;
+    }>;
+  };
+}
+
+interface JoinFleetResponse {
+  success: boolean;
+  message: string;
+  data: {
+    hospitalId: string;
+    hospitalName: string;
+  };
+}
+
+interface SharingAgreementResponse {
+  success: boolean;
+  message: string;
+  data: {
+    agreementId: string;
+    lenderHospitalId: string;
+    borrowerHospitalId: string;
+    status: string;
+  };
+}
+
+interface SharingAgreementListResponse {
+  success: boolean;
+  data: {
+    agreements: Array<{
+      agreementId: string;
+      direction: 'lending' | 'borrowing';
+      hospital: {
+        id: string;
+        name: string;
+      };
+      status: string;
+      createdAt: Date;
+      endedAt: Date | null;
+    }>;
+  };
+}
+
+/**
+ * SQL condition matching drivers a hospital may see and assign: its own fleet plus drivers
+ * lent to it under an active sharing agreement. Expects the drivers table aliased as `d`.
+ * @param hospitalParam Placeholder holding the hospital ID (hospitals.id), e.g. `$1`
+ * @returns SQL condition
+ */
+export const assignableDriverCondition = (hospitalParam: string) => `(
+  d.hospital_id = ${hospitalParam}
+  OR d.hospital_id IN (
+    SELECT dsa.lender_hospital_id
+    FROM driver_sharing_agreements dsa
+    WHERE dsa.borrower_hospital_id = ${hospitalParam} AND dsa.status = 'active'
+  )
+)`;
+
+/**
+ * Manages hospital driver fleets: invitations for drivers to join a hospital and
+ * agreements under which hospitals lend their drivers to each other
+ */
+export class FleetService {
+  /**
+   * Invite a driver to join the hospital's fleet
+   * @param hospitalId Hospital ID
+   * @param email Driver's email address
+   * @returns Response with the invitation code
+   */
+  async createInvitation(hospitalId: string, email: string): Promise<InvitationResponse> {
+    try {
+      const memberResult: QueryResult = await pool.query(
+        `SELECT d.id
+         FROM drivers d
+         JOIN users u ON d.user_id = u.id
+         WHERE LOWER(u.email) = LOWER($1) AND d.hospital_id = $2`,
+        [email, hospitalId],
+      );
+
+      if (memberResult.rows.length > 0) {
+        throw new ApiError(400, 'Driver is already part of this hospital fleet');
+      }
+
+      const inviteCode = crypto.randomBytes(5).toString('hex').toUpperCase();
+
+      const result: QueryResult = await pool.query(
+        `INSERT INTO driver_invitations (hospital_id, email, invite_code, expires_at)
+         VALUES ($1, $2, $3, NOW() + make_interval(hours => $4))
+         RETURNING id, email, invite_code, expires_at`,
+        [hospitalId, email, inviteCode, config.fleet.invitationTtlHours],
+      );
+
+      const invitation = result.rows[0];
+
+      return {
+        success: true,
+        message: 'Driver invitation created successfully',
+        data: {
+          invitationId: invitation.id,
+          email: invitation.email,
+          inviteCode: invitation.invite_code,
+          expiresAt: invitation.expires_at,
+        },
+      };
+    } catch (error) {
+      logger.error('Error creating driver invitation', { error });
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      throw new ApiError(500, 'Failed to create driver invitation');
+    }
+  }
+
+  /**
+   * List the invitations a hospital has sent
+   * @param hospitalId Hospital ID
+   * @returns Response with invitations, newest first
+   */
+  async getInvitations(hospitalId: string): Promise<InvitationListResponse> {
+    try {
+      const result: QueryResult = await pool.query(
+        `SELECT id, email, invite_code, accepted_at, expires_at, created_at,
+                CASE
+                  WHEN status = 'pending' AND expires_at < NOW() THEN 'expired'
+                  ELSE status::text
+                END as status
+         FROM driver_invitations
+         WHERE hospital_id = $1
+         ORDER BY created_at DESC`,
+        [hospitalId],
+      );
+
+      return {
+        success: true,
+        data: {
+          invitations: result.rows.map((row) => ({
+            invitationId: row.id,
+            email: row.email,
+            inviteCode: row.invite_code,
+            status: row.status,
+            expiresAt: row.expires_at,
+            acceptedAt: row.accepted_at,
+            createdAt: row.created_at,
+          })),
+        },
+      };
+    } catch (error) {
+      logger.error('Error getting driver invitations', { error });
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      throw new ApiError(500, 'Failed to get driver invitations');
+    }
+  }
+
+  /**
+   * Revoke a pending invitation
+   * @param hospitalId Hospital ID
+   * @param invitationId Invitation ID
+   * @returns Response confirming the revocation
+   */
+  async revokeInvitation(
+    hospitalId: string,
+    invitationId: string,
+  ): Promise<{ success: boolean; message: string }> {
+    try {
+      const result: QueryResult = await pool.query(
+        `UPDATE driver_invitations
+         SET status = 'revoked'
+         WHERE id = $1 AND hospital_id = $2 AND status = 'pending'
+         RETURNING id`,
+        [invitationId, hospitalId],
+      );
+
+      if (result.rows.length === 0) {
+        throw new ApiError(404, 'Pending invitation not found');
+      }
+
+      return {
+        success: true,
+        message: 'Driver invitation revoked successfully',
+      };
+    } catch (error) {
+      logger.error('Error revoking driver invitation', { error });
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      throw new ApiError(500, 'Failed to revoke driver invitation');
+    }
+  }
+
+  /**
+   * Look up a pending, unexpired invitation addressed to an email
+   * @param inviteCode Invitation code
+   * @param email Driver's email address
+   * @param db Pool or client holding the caller's transaction, which keeps the invitation locked
+   * @returns The invitation
+   */
+  async findValidInvitation(
+    inviteCode: string,
+    email: string,
+    db: Pool | PoolClient = pool,
+  ): Promise<DriverInvitation> {
+    const result: QueryResult = await db.query(
+      `SELECT id, hospital_id, email
+       FROM driver_invitations
+       WHERE invite_code = $1
+       AND LOWER(email) = LOWER($2)
+       AND status = 'pending'
+       AND expires_at > NOW()
+       FOR UPDATE`,
+      [inviteCode.trim().toUpperCase(), email],
+    );
+
+    if (result.rows.length === 0) {
+      throw new ApiError(400, 'Invalid or expired invitation code');
+    }
+
+    const invitation = result.rows[0];
+
+    return {
+      id: invitation.id,
+      hospitalId: invitation.hospital_id,
+      email: invitation.email,
+    };
+  }
+
+  /**
+   * Mark an invitation as used by a driver
+   * @param invitationId Invitation ID
+   * @param driverId Driver ID (drivers.id)
+   * @param db Pool or client holding the caller's transaction
+   */
+  async markInvitationAccepted(
+    invitationId: string,
+    driverId: string,
+    db: Pool | PoolClient = pool,
+  ): Promise<void> {
+    await db.query(
+      `UPDATE driver_invitations
+       SET status = 'accepted', accepted_by = $2, accepted_at = NOW()
+       WHERE id = $1`,
+      [invitationId, driverId],
+    );
+  }
+
+  /**
+   * Join a hospital's fleet with an invitation code. Invited drivers are approved by the
+   * inviting hospital.
+   * @param driverId Driver ID
+   * @param inviteCode Invitation code
+   * @returns Response with the hospital joined
+   */
+  async acceptInvitation(driverId: string, inviteCode: string): Promise<JoinFleetResponse> {
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const driverResult: QueryResult = await client.query(
+        `SELECT d.id, d.hospital_id, d.is_approved, u.email
+         FROM drivers d
+         JOIN users u ON d.user_id = u.id
+         WHERE d.id = $1`,
+        [driverId],
+      );
+
+      if (driverResult.rows.length === 0) {
+        throw new ApiError(404, 'Driver not found');
+      }
+
+      const driver = driverResult.rows[0];
+      // Locked so the same code cannot be redeemed twice at once
+      const invitation = await this.findValidInvitation(inviteCode, driver.email, client);
+
+      if (
+        driver.hospital_id &&
+        driver.hospital_id !== invitation.hospitalId &&
+        driver.is_approved
+      ) {
+        throw new ApiError(400, 'Driver already belongs to another hospital fleet');
+      }
+
+      const updateResult: QueryResult = await client.query(
+        `UPDATE drivers d
+         SET hospital_id = $1, is_approved = true, updated_at = NOW()
+         FROM hospitals h
+         WHERE d.id = $2 AND h.id = $1
+         RETURNING h.id as hospital_id, h.name as hospital_name`,
+        [invitation.hospitalId, driver.id],
+      );
+
+      if (updateResult.rows.length === 0) {
+        throw new ApiError(404, 'Inviting hospital not found');
+      }
+
+      await this.markInvitationAccepted(invitation.id, driver.id, client);
+
+      await client.query('COMMIT');
+
+      return {
+        success: true,
+        message: 'Joined hospital fleet successfully',
+        data: {
+          hospitalId: updateResult.rows[0].hospital_id,
+          hospitalName: updateResult.rows[0].hospital_name,
+        },
+      };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      logger.error('Error accepting driver invitation', { error });
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      throw new ApiError(500, 'Failed to accept driver invitation');
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * List the sharing agreements a hospital lends or borrows drivers under
+   * @param hospitalId Hospital ID
+   * @returns Response with sharing agreements
+   */
+  async getSharingAgreements(hospitalId: string): Promise<SharingAgreementListResponse> {
+    try {
+      const result: QueryResult = await pool.query(
+        `SELECT
+           dsa.id, dsa.status, dsa.created_at, dsa.ended_at,
+           CASE WHEN dsa.lender_hospital_id = $1 THEN 'lending' ELSE 'borrowing' END as direction,
+           h.id as other_hospital_id, h.name as other_hospital_name
+         FROM driver_sharing_agreements dsa
+         JOIN hospitals h ON h.id = CASE
+           WHEN dsa.lender_hospital_id = $1 THEN dsa.borrower_hospital_id
+           ELSE dsa.lender_hospital_id
+         END
+         WHERE dsa.lender_hospital_id = $1 OR dsa.borrower_hospital_id = $1
+         ORDER BY dsa.created_at DESC`,
+        [hospitalId],
+      );
+
+      return {
+        success: true,
+        data: {
+          agreements: result.rows.map((row) => ({
+            agreementId: row.id,
+            direction: row.direction,
+            hospital: {
+              id: row.other_hospital_id,
+              name: row.other_hospital_name,
+            },
+            status: row.status,
+            createdAt: row.created_at,
+            endedAt: row.ended_at,
+          })),
+        },
+      };
+    } catch (error) {
+      logger.error('Error getting driver sharing agreements', { error });
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      throw new ApiError(500, 'Failed to get driver sharing agreements');
+    }
+  }
+
+  /**
+   * Lend the hospital's drivers to another hospital
+   * @param hospitalId Lending hospital ID
+   * @param borrowerHospitalId Borrowing hospital ID (hospitals.id)
+   * @returns Response with the new agreement
+   */
+  async createSharingAgreement(
+    hospitalId: string,
+    borrowerHospitalId: string,
+  ): Promise<SharingAgreementResponse> {
+    try {
+      if (hospitalId === borrowerHospitalId) {
+        throw new ApiError(400, 'A hospital cannot share drivers with itself');
+      }
+
+      const borrowerResult: QueryResult = await pool.query(
+        'SELECT id FROM hospitals WHERE id = $1 AND is_active = true AND is_approved = true',
+        [borrowerHospitalId],
+      );
+
+      if (borrowerResult.rows.length === 0) {
+        throw new ApiError(404, 'Borrowing hospital not found');
+      }
+
+      const existingResult: QueryResult = await pool.query(
+        `SELECT id FROM driver_sharing_agreements
+         WHERE lender_hospital_id = $1 AND borrower_hospital_id = $2 AND status = 'active'`,
+        [hospitalId, borrowerHospitalId],
+      );
+
+      if (existingResult.rows.length > 0) {
+        throw new ApiError(400, 'An active sharing agreement with this hospital already exists');
+      }
+
+      const result: QueryResult = await pool.query(
+        `INSERT INTO driver_sharing_agreements (lender_hospital_id, borrower_hospital_id)
+         VALUES ($1, $2)
+         RETURNING id, lender_hospital_id, borrower_hospital_id, status`,
+        [hospitalId, borrowerHospitalId],
+      );
+
+      const agreement = result.rows[0];
+
+      return {
+        success: true,
+        message: 'Driver sharing agreement created successfully',
+        data: {
+          agreementId: agreement.id,
+          lenderHospitalId: agreement.lender_hospital_id,
+          borrowerHospitalId: agreement.borrower_hospital_id,
+          status: agreement.status,
+        },
+      };
+    } catch (error) {
+      logger.error('Error creating driver sharing agreement', { error });
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      throw new ApiError(500, 'Failed to create driver sharing agreement');
+    }
+  }
+
+  /**
+   * End a sharing agreement. Either party may end it.
+   * @param hospitalId Hospital ID
+   * @param agreementId Agreement ID
+   * @returns Response with the ended agreement
+   */
+  async endSharingAgreement(
+    hospitalId: string,
+    agreementId: string,
+  ): Promise<SharingAgreementResponse> {
+    try {
+      const result: QueryResult = await pool.query(
+        `UPDATE driver_sharing_agreements
+         SET status = 'ended', ended_at = NOW()
+         WHERE id = $1
+         AND (lender_hospital_id = $2 OR borrower_hospital_id = $2)
+         AND status = 'active'
+         RETURNING id, lender_hospital_id, borrower_hospital_id, status`,
+        [agreementId, hospitalId],
+      );
+
+      if (result.rows.length === 0) {
+        throw new ApiError(404, 'Active sharing agreement not found');
+      }
+
+      const agreement = result.rows[0];
+
+      return {
+        success: true,
+        message: 'Driver sharing agreement ended successfully',
+        data: {
+          agreementId: agreement.id,
+          lenderHospitalId: agreement.lender_hospital_id,
+          borrowerHospitalId: agreement.borrower_hospital_id,
+          status: agreement.status,
+        },
+      };
+    } catch (error) {
+      logger.error('Error ending driver sharing agreement', { error });
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      throw new ApiError(500, 'Failed to end driver sharing agreement');
+    }
+  }
+}
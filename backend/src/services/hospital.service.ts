@@ -1,8 +1,27 @@
 import { ApiError } from '../middleware/errorHandler';
+import { UserRole } from '../middleware/auth';
 import { logger } from '../utils/logger';
 import pool from '../database/connection';
 import { QueryResult } from 'pg';
-import { calculateDistance } from '../utils/locationUtils';
+import config from '../config';
+import { distanceSql, proximityQuery } from '../utils/geoSearch';
+import { DriverCandidate, rankDrivers } from '../utils/driverRanking';
+import { EmergencyStatus } from '../utils/emergencyLifecycle';
+import { TriageSeverity } from '../utils/emergencyTriage';
+import { diversionCondition } from '../utils/hospitalDiversion';
+import { visibleRequestQuery } from '../utils/serviceArea';
+import dispatchService from './dispatch.service';
+import lifecycleService from './lifecycle.service';
+import serviceAreaService from './serviceArea.service';
+import { EtaService } from './eta.service';
+import { AuditService, EmergencyEventType, EventActor, SYSTEM_ACTOR } from './audit.service';
+import { assignableDriverCondition } from './fleet.service';
+import medicalProfileService, {
+  MedicalProfile,
+  MedicalSnapshot,
+  toMedicalSnapshot,
+} from './medicalProfile.service';
+import { emitEmergencyEvent, SocketEvent } from '../socket/emitter';
 
 interface PendingEmergencyResponse {
   success: boolean;
@@ -19,23 +38,156 @@ interface PendingEmergencyResponse {
         address: string;
       };
       medicalNotes: string;
-      distance: string;
+      emergencyType: string;
+      severity: TriageSeverity;
+      // The requester's current profile; it is frozen onto the request on acceptance
+      medicalProfile: MedicalProfile | null;
+      distance: string | null;
+      offeredToHospital: boolean;
+      offerExpiresAt: Date | null;
       createdAt: Date;
     }>;
   };
 }
 
+// Orders a hospital can list its pending emergency requests in
+export enum PendingEmergencySort {
+  // Weighs severity against distance, longest waiting first on a tie
+  URGENCY = 'urgency',
+  NEWEST = 'newest',
+  // Most urgent first, longest waiting first within a severity
+  SEVERITY = 'severity',
+  DISTANCE = 'distance',
+}
+
+// ORDER BY clause of the pending list for each sort
+const PENDING_ORDER: Record<PendingEmergencySort, string> = {
+  [PendingEmergencySort.URGENCY]: 'urgency_score ASC, er.created_at ASC',
+  [PendingEmergencySort.NEWEST]: 'er.created_at DESC',
+  [PendingEmergencySort.SEVERITY]: 'er.severity DESC, er.created_at ASC',
+  [PendingEmergencySort.DISTANCE]: 'distance ASC NULLS LAST, er.created_at DESC',
+};
+
+interface PendingEmergencyOptions {
+  sort: PendingEmergencySort;
+  // Only list requests with one of these severities
+  severities?: TriageSeverity[];
+}
+
+// Reason codes a hospital can give when declining an emergency request
+export enum DeclineReason {
+  AT_CAPACITY = 'at_capacity',
+  NO_SUITABLE_SPECIALTY = 'no_suitable_specialty',
+  TOO_FAR = 'too_far',
+  NO_DRIVER_AVAILABLE = 'no_driver_available',
+  OTHER = 'other',
+}
+
+// Where a hospital registration stands in the admin review
+export enum HospitalReviewStatus {
+  PENDING = 'pending',
+  APPROVED = 'approved',
+  REJECTED = 'rejected',
+}
+
+/**
+ * Derive the review status of a hospital from its row: approved once `is_approved` is set,
+ * rejected while it carries a rejection reason, pending otherwise
+ * @param hospital Hospital row
+ * @returns Review status
+ */
+export const getHospitalReviewStatus = (hospital: {
+  is_approved?: boolean;
+  rejection_reason?: string | null;
+}): HospitalReviewStatus => {
+  if (hospital.is_approved) {
+    return HospitalReviewStatus.APPROVED;
+  }
+  return hospital.rejection_reason ? HospitalReviewStatus.REJECTED : HospitalReviewStatus.PENDING;
+};
+
+// How a hospital assigns drivers to the emergency requests it accepts
+export enum AssignmentMode {
+  MANUAL = 'manual',
+  SUGGESTED = 'suggested',
+  AUTOMATIC = 'automatic',
+}
+
+interface DriverSuggestion {
+  id: string;
+  name: string;
+  vehicleType: string | null;
+  distanceKm: number;
+  recentAssignments: number;
+  lastLocationUpdate: Date | null;
+  score: number;
+}
+
 interface AcceptEmergencyResponse {
   success: boolean;
   message: string;
   data: {
     requestId: string;
+    assignmentMode: AssignmentMode;
     availableDrivers: Array<{
       id: string;
       name: string;
       isAvailable: boolean;
       lastAssignment: Date | null;
     }>;
+    suggestedDrivers?: DriverSuggestion[];
+    assignment?: AssignDriverResponse['data'] | null;
+  };
+}
+
+interface DriverSuggestionsResponse {
+  success: boolean;
+  data: {
+    requestId: string;
+    drivers: DriverSuggestion[];
+  };
+}
+
+interface AssignmentModeResponse {
+  success: boolean;
+  message?: string;
+  data: {
+    assignmentMode: AssignmentMode;
+  };
+}
+
+interface HospitalDirectoryResponse {
+  success: boolean;
+  data: {
+    hospitals: Array<{
+      id: string;
+      name: string;
+      address: string;
+    }>;
+  };
+}
+
+interface RegistrationReviewResponse {
+  success: boolean;
+  data: {
+    hospitalId: string;
+    name: string;
+    licenseNumber: string;
+    hospitalType: string;
+    status: HospitalReviewStatus;
+    rejectionReason: string | null;
+    submittedAt: Date;
+    reviewedAt: Date | null;
+  };
+}
+
+interface DeclineEmergencyResponse {
+  success: boolean;
+  message: string;
+  data: {
+    requestId: string;
+    reasonCode: DeclineReason;
+    declinedAt: Date;
   };
 }
 
@@ -64,6 +216,9 @@ interface ActiveEmergencyResponse {
         phoneNumber: string;
       };
       status: string;
+      emergencyType: string;
+      severity: TriageSeverity;
+      medicalProfile: MedicalSnapshot | null;
       driver: {
         id: string;
         name: string;
@@ -86,6 +241,7 @@ interface HospitalDriversResponse {
       licenseNumber: string;
       isAvailable: boolean;
       isApproved: boolean;
+      isShared: boolean;
       createdAt: Date;
     }>;
   };
@@ -102,18 +258,33 @@ interface ApproveDriverResponse {
 }
 
 export class HospitalService {
+  private etaService: EtaService;
+  private auditService: AuditService;
+
+  constructor() {
+    this.etaService = new EtaService();
+    this.auditService = new AuditService();
+  }
+
   /**
-   * Get list of pending emergency requests for a hospital
+   * Get list of pending emergency requests for a hospital: those picked up inside its service
+   * area and those offered to it
    * @param hospitalId Hospital ID
+   * @param options Sort order and severity filter
    * @returns Response with pending emergency requests
    */
-  async getPendingEmergencyRequests(hospitalId: string): Promise<PendingEmergencyResponse> {
+  async getPendingEmergencyRequests(
+    hospitalId: string,
+    options: PendingEmergencyOptions = { sort: PendingEmergencySort.URGENCY },
+  ): Promise<PendingEmergencyResponse> {
     try {
-      // First, get hospital location for distance calculation
+      // First, get hospital location and service area
       const hospitalQuery = `
-        SELECT latitude, longitude
-        FROM hospitals
-        WHERE user_id = $1
+        SELECT h.id, h.latitude, h.longitude, h.is_approved,
+               hsa.area_type, hsa.radius_km, hsa.boundary
+        FROM hospitals h
+        LEFT JOIN hospital_service_areas hsa ON hsa.hospital_id = h.id
+        WHERE h.id = $1
       `;
 
       const hospitalResult: QueryResult = await pool.query(hospitalQuery, [hospitalId]);
@@ -124,46 +295,76 @@ export class HospitalService {
 
       const hospital = hospitalResult.rows[0];
 
-      // Get all pending requests
+      if (!hospital.is_approved) {
+        throw new ApiError(403, 'Hospital registration has not been approved yet');
+      }
+
+      const visible = visibleRequestQuery('$1', hospital, config.serviceArea.defaultRadiusKm, 6);
+      const distance = distanceSql('er.pickup_latitude', 'er.pickup_longitude', '$3', '$4');
+
+      // Get the pending requests in the service area or offered to the hospital. Urgency counts
+      // each severity level above low as config.serviceArea.severityWeightKm closer.
       const requestsQuery = `
         SELECT 
           er.id, er.user_id, er.description, er.pickup_address, 
           er.pickup_latitude, er.pickup_longitude, er.created_at,
-          u.first_name, u.last_name, u.phone
+          er.emergency_type, er.severity,
+          ${distance} as distance,
+          COALESCE(${distance}, 0)
+            - (array_position(enum_range(NULL::triage_severity), er.severity) - 1) * $5::float8
+            as urgency_score,
+          u.first_name, u.last_name, u.phone,
+          eo.expires_at as offer_expires_at
         FROM emergency_requests er
         JOIN users u ON er.user_id = u.id
+        LEFT JOIN emergency_offers eo
+          ON eo.emergency_id = er.id AND eo.hospital_id = $1 AND eo.status = 'offered'
         WHERE er.status = 'pending'
-        ORDER BY er.created_at DESC
+        AND NOT EXISTS (
+          SELECT 1 FROM emergency_offers d
+          WHERE d.emergency_id = er.id AND d.hospital_id = $1 AND d.status = 'declined'
+        )
+        AND NOT ${diversionCondition('$1', 'er.emergency_type')}
+        AND ($2::triage_severity[] IS NULL OR er.severity = ANY($2))
+        AND ${visible.condition}
+        ORDER BY ${PENDING_ORDER[options.sort]}
       `;
 
-      const requestsResult: QueryResult = await pool.query(requestsQuery);
+      const requestsResult: QueryResult = await pool.query(requestsQuery, [
+        hospital.id,
+        options.severities || null,
+        hospital.latitude,
+        hospital.longitude,
+        config.serviceArea.severityWeightKm,
+        ...visible.params,
+      ]);
 
-      // Format the response and calculate distances
-      const requests = requestsResult.rows.map((row) => {
-        // Calculate distance in kilometers
-        const distance = calculateDistance(
-          hospital.latitude,
-          hospital.longitude,
-          row.pickup_latitude,
-          row.pickup_longitude,
-        );
+      const profiles = await medicalProfileService.loadProfiles([
+        ...new Set<string>(requestsResult.rows.map((row) => row.user_id)),
+      ]);
 
-        return {
-          requestId: row.id,
-          user: {
-            name: `${row.first_name} ${row.last_name}`,
-            phoneNumber: row.phone,
-          },
-          pickupLocation: {
-            latitude: parseFloat(row.pickup_latitude),
-            longitude: parseFloat(row.pickup_longitude),
-            address: row.pickup_address,
-          },
-          medicalNotes: row.description || '',
-          distance: `${distance.toFixed(1)} km`,
-          createdAt: row.created_at,
-        };
-      });
+      // Format the response
+      const requests = requestsResult.rows.map((row) => ({
+        requestId: row.id,
+        user: {
+          name: `${row.first_name} ${row.last_name}`,
+          phoneNumber: row.phone,
+        },
+        pickupLocation: {
+          latitude: parseFloat(row.pickup_latitude),
+          longitude: parseFloat(row.pickup_longitude),
+          address: row.pickup_address,
+        },
+        medicalNotes: row.description || '',
+        emergencyType: row.emergency_type,
+        severity: row.severity,
+        medicalProfile: profiles.get(row.user_id) ?? null,
+        // Unknown until the hospital has set its location
+        distance: row.distance === null ? null : `${row.distance.toFixed(1)} km`,
+        offeredToHospital: !!row.offer_expires_at,
+        offerExpiresAt: row.offer_expires_at || null,
+        createdAt: row.created_at,
+      }));
 
       return {
         success: true,
@@ -184,11 +385,13 @@ export class HospitalService {
    * Accept an emergency request
    * @param requestId Emergency request ID
    * @param hospitalId Hospital ID
+   * @param userId User ID of the hospital account
    * @returns Response with available drivers
    */
   async acceptEmergencyRequest(
     requestId: string,
     hospitalId: string,
+    userId: string,
   ): Promise<AcceptEmergencyResponse> {
     const client = await pool.connect();
 
@@ -197,9 +400,10 @@ export class HospitalService {
 
       // Check if request exists and is still pending
       const requestQuery = `
-        SELECT status
+        SELECT status, user_id
         FROM emergency_requests
         WHERE id = $1
+        FOR UPDATE
       `;
 
       const requestResult: QueryResult = await client.query(requestQuery, [requestId]);
@@ -212,11 +416,12 @@ export class HospitalService {
         throw new ApiError(400, 'Emergency request is no longer pending');
       }
 
-      // Get hospital ID from user ID
+      const requesterId = requestResult.rows[0].user_id;
+
       const hospitalQuery = `
-        SELECT id
+        SELECT id, assignment_mode, is_approved
         FROM hospitals
-        WHERE user_id = $1
+        WHERE id = $1
       `;
 
       const hospitalResult: QueryResult = await client.query(hospitalQuery, [hospitalId]);
@@ -227,19 +432,49 @@ export class HospitalService {
 
       const hospital = hospitalResult.rows[0];
 
+      if (!hospital.is_approved) {
+        throw new ApiError(403, 'Hospital registration has not been approved yet');
+      }
+
+      if (!(await serviceAreaService.canSeeRequest(hospital.id, requestId, client))) {
+        throw new ApiError(
+          403,
+          'Emergency request is outside your service area and has not been offered to you',
+        );
+      }
+
+      const diversionResult: QueryResult = await client.query(
+        `SELECT ${diversionCondition('$1', 'er.emergency_type')} AS diverted
+         FROM emergency_requests er
+         WHERE er.id = $2`,
+        [hospital.id, requestId],
+      );
+
+      if (diversionResult.rows[0].diverted) {
+        throw new ApiError(
+          409,
+          'Your hospital is on diversion for this kind of emergency. Lift the diversion to accept it.',
+        );
+      }
+
+      // Taken before acceptance closes the open offers
+      const notifiedHospitalIds = await serviceAreaService.hospitalsServing(requestId, client);
+
       // Update request status and assign hospital
-      const updateQuery = `
-        UPDATE emergency_requests
-        SET status = 'accepted', hospital_id = $1, updated_at = NOW()
-        WHERE id = $2
-        RETURNING id
-      `;
+      const transition = await lifecycleService.transitionRequest(
+        client,
+        requestId,
+        EmergencyStatus.ACCEPTED,
+        { id: userId, role: UserRole.HOSPITAL },
+        { hospital_id: hospital.id },
+      );
+
+      // Close out the dispatch cascade for this request
+      await dispatchService.recordAcceptance(client, requestId, hospital.id);
 
-      await client.query(updateQuery, [hospital.id, requestId]);
+      await medicalProfileService.attachSnapshot(client, requestId, requesterId);
 
-      // Get available drivers
-      // Since there's no direct hospital-driver relationship in the schema,
-      // we'll just get all approved and available drivers
+      // Get the drivers this hospital can assign: its own fleet plus any shared with it
       const driversQuery = `
         SELECT 
           d.id, u.first_name, u.last_name, d.is_available,
@@ -252,10 +487,11 @@ export class HospitalService {
         JOIN users u ON d.user_id = u.id
         WHERE d.is_approved = true
         AND d.is_active = true
+        AND ${assignableDriverCondition('$1')}
         ORDER BY d.is_available DESC, last_assignment ASC
       `;
 
-      const driversResult: QueryResult = await client.query(driversQuery);
+      const driversResult: QueryResult = await client.query(driversQuery, [hospital.id]);
 
       const availableDrivers = driversResult.rows.map((row) => ({
         id: row.id,
@@ -266,12 +502,42 @@ export class HospitalService {
 
       await client.query('COMMIT');
 
+      dispatchService.stopDispatch(requestId);
+      await lifecycleService.runHooks([transition]);
+
+      // Other hospitals drop the request from their pending lists
+      emitEmergencyEvent(
+        SocketEvent.EMERGENCY_ACCEPTED,
+        {
+          requestId,
+          userId: requesterId,
+          hospitalId: hospital.id,
+          hospitalIds: notifiedHospitalIds,
+        },
+        { status: 'accepted', hospitalId: hospital.id },
+      );
+
+      const assignmentMode: AssignmentMode = hospital.assignment_mode;
+      const suggestedDrivers =
+        assignmentMode === AssignmentMode.MANUAL
+          ? undefined
+          : await this.suggestDriversSafely(requestId);
+      const assignment =
+        assignmentMode === AssignmentMode.AUTOMATIC
+          ? await this.autoAssignDriver(requestId, hospitalId, userId, suggestedDrivers || [])
+          : undefined;
+
       return {
         success: true,
-        message: 'Emergency request accepted successfully',
+        message: assignment
+          ? 'Emergency request accepted and driver assigned automatically'
+          : 'Emergency request accepted successfully',
         data: {
           requestId,
+          assignmentMode,
           availableDrivers,
+          suggestedDrivers,
+          assignment,
         },
       };
     } catch (error) {
@@ -287,45 +553,255 @@ export class HospitalService {
   }
 
   /**
-   * Assign a driver to an emergency request
+   * Rank available drivers for an accepted emergency request
    * @param requestId Emergency request ID
-   * @param hospitalId Hospital ID (user ID)
-   * @param driverId Driver ID
-   * @returns Response with assignment details
+   * @param hospitalId Hospital ID
+   * @returns Response with drivers ordered from best to worst
    */
-  async assignDriverToEmergency(
+  async getDriverSuggestions(
     requestId: string,
     hospitalId: string,
-    driverId: string,
-  ): Promise<AssignDriverResponse> {
+  ): Promise<DriverSuggestionsResponse> {
+    try {
+      const requestQuery = `
+        SELECT status
+        FROM emergency_requests
+        WHERE id = $1 AND hospital_id = $2
+      `;
+
+      const requestResult: QueryResult = await pool.query(requestQuery, [requestId, hospitalId]);
+
+      if (requestResult.rows.length === 0) {
+        throw new ApiError(404, 'Emergency request not found or not assigned to this hospital');
+      }
+
+      if (requestResult.rows[0].status !== 'accepted') {
+        throw new ApiError(400, 'Drivers can only be suggested for accepted emergency requests');
+      }
+
+      const drivers = await this.suggestDrivers(requestId);
+
+      return {
+        success: true,
+        data: {
+          requestId,
+          drivers,
+        },
+      };
+    } catch (error) {
+      logger.error('Error getting driver suggestions', { error });
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      throw new ApiError(500, 'Failed to get driver suggestions');
+    }
+  }
+
+  /**
+   * Get the hospital's driver assignment mode
+   * @param hospitalId Hospital ID
+   * @returns Response with the assignment mode
+   */
+  async getAssignmentMode(hospitalId: string): Promise<AssignmentModeResponse> {
+    try {
+      const result: QueryResult = await pool.query(
+        'SELECT assignment_mode FROM hospitals WHERE id = $1',
+        [hospitalId],
+      );
+
+      if (result.rows.length === 0) {
+        throw new ApiError(404, 'Hospital not found');
+      }
+
+      return {
+        success: true,
+        data: {
+          assignmentMode: result.rows[0].assignment_mode,
+        },
+      };
+    } catch (error) {
+      logger.error('Error getting assignment mode', { error });
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      throw new ApiError(500, 'Failed to get assignment mode');
+    }
+  }
+
+  /**
+   * Change how the hospital assigns drivers to accepted emergency requests
+   * @param hospitalId Hospital ID
+   * @param assignmentMode New assignment mode
+   * @returns Response with the updated assignment mode
+   */
+  async updateAssignmentMode(
+    hospitalId: string,
+    assignmentMode: AssignmentMode,
+  ): Promise<AssignmentModeResponse> {
+    try {
+      const result: QueryResult = await pool.query(
+        `UPDATE hospitals
+         SET assignment_mode = $1, updated_at = NOW()
+         WHERE id = $2
+         RETURNING assignment_mode`,
+        [assignmentMode, hospitalId],
+      );
+
+      if (result.rows.length === 0) {
+        throw new ApiError(404, 'Hospital not found');
+      }
+
+      return {
+        success: true,
+        message: 'Assignment mode updated successfully',
+        data: {
+          assignmentMode: result.rows[0].assignment_mode,
+        },
+      };
+    } catch (error) {
+      logger.error('Error updating assignment mode', { error });
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      throw new ApiError(500, 'Failed to update assignment mode');
+    }
+  }
+
+  /**
+   * Decline an emergency request
+   * @param requestId Emergency request ID
+   * @param hospitalId Hospital ID
+   * @param userId User ID of the hospital account
+   * @param reasonCode Structured decline reason
+   * @param notes Optional free-text explanation
+   * @returns Response with decline details
+   */
+  async declineEmergencyRequest(
+    requestId: string,
+    hospitalId: string,
+    userId: string,
+    reasonCode: DeclineReason,
+    notes?: string,
+  ): Promise<DeclineEmergencyResponse> {
     const client = await pool.connect();
+    let heldOpenOffer = false;
 
     try {
       await client.query('BEGIN');
 
-      // Get hospital ID from user ID
-      const hospitalQuery = `
-        SELECT id
-        FROM hospitals
-        WHERE user_id = $1
+      // Check if request exists and is still pending
+      const requestQuery = `
+        SELECT status
+        FROM emergency_requests
+        WHERE id = $1
+        FOR UPDATE
       `;
 
-      const hospitalResult: QueryResult = await client.query(hospitalQuery, [hospitalId]);
+      const requestResult: QueryResult = await client.query(requestQuery, [requestId]);
+
+      if (requestResult.rows.length === 0) {
+        throw new ApiError(404, 'Emergency request not found');
+      }
+
+      if (requestResult.rows[0].status !== 'pending') {
+        throw new ApiError(400, 'Emergency request is no longer pending');
+      }
+
+      const hospitalResult: QueryResult = await client.query(
+        'SELECT is_approved FROM hospitals WHERE id = $1',
+        [hospitalId],
+      );
 
       if (hospitalResult.rows.length === 0) {
         throw new ApiError(404, 'Hospital not found');
       }
 
-      const hospital = hospitalResult.rows[0];
+      if (!hospitalResult.rows[0].is_approved) {
+        throw new ApiError(403, 'Hospital registration has not been approved yet');
+      }
+
+      if (!(await serviceAreaService.canSeeRequest(hospitalId, requestId, client))) {
+        throw new ApiError(
+          403,
+          'Emergency request is outside your service area and has not been offered to you',
+        );
+      }
+
+      heldOpenOffer = await dispatchService.recordDecline(
+        client,
+        requestId,
+        hospitalId,
+        reasonCode,
+        notes || null,
+      );
+
+      await this.auditService.record(
+        client,
+        requestId,
+        EmergencyEventType.DECLINED,
+        { id: userId, role: UserRole.HOSPITAL },
+        { hospitalId, reasonCode, notes: notes || null },
+      );
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      logger.error('Error declining emergency request', { error });
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      throw new ApiError(500, 'Failed to decline emergency request');
+    } finally {
+      client.release();
+    }
+
+    // Hand the request to the next hospital straight away instead of waiting for the timeout
+    if (heldOpenOffer) {
+      dispatchService.stopDispatch(requestId);
+      await dispatchService.startDispatch(requestId);
+    }
+
+    return {
+      success: true,
+      message: 'Emergency request declined',
+      data: {
+        requestId,
+        reasonCode,
+        declinedAt: new Date(),
+      },
+    };
+  }
+
+  /**
+   * Assign a driver to an emergency request
+   * @param requestId Emergency request ID
+   * @param hospitalId Hospital ID
+   * @param userId User ID of the hospital account
+   * @param driverId Driver ID
+   * @param automatic Whether the driver was picked by automatic assignment
+   * @returns Response with assignment details
+   */
+  async assignDriverToEmergency(
+    requestId: string,
+    hospitalId: string,
+    userId: string,
+    driverId: string,
+    automatic = false,
+  ): Promise<AssignDriverResponse> {
+    const client = await pool.connect();
+    const actor: EventActor = automatic ? SYSTEM_ACTOR : { id: userId, role: UserRole.HOSPITAL };
+
+    try {
+      await client.query('BEGIN');
 
       // Check if request exists, is accepted, and belongs to this hospital
       const requestQuery = `
-        SELECT status
+        SELECT status, user_id
         FROM emergency_requests
         WHERE id = $1 AND hospital_id = $2
       `;
 
-      const requestResult: QueryResult = await client.query(requestQuery, [requestId, hospital.id]);
+      const requestResult: QueryResult = await client.query(requestQuery, [requestId, hospitalId]);
 
       if (requestResult.rows.length === 0) {
         throw new ApiError(404, 'Emergency request not found or not assigned to this hospital');
@@ -335,15 +811,18 @@ export class HospitalService {
         throw new ApiError(400, 'Emergency request must be in accepted status to assign a driver');
       }
 
-      // Check if driver exists and is available
+      // Check if driver exists, belongs to (or is shared with) this hospital and is available.
+      // The driver row stays locked until commit so two hospitals cannot book the same driver.
       const driverQuery = `
         SELECT d.id, d.is_available, u.first_name, u.last_name, u.phone
         FROM drivers d
         JOIN users u ON d.user_id = u.id
         WHERE d.id = $1 AND d.is_approved = true AND d.is_active = true
+        AND ${assignableDriverCondition('$2')}
+        FOR UPDATE OF d
       `;
 
-      const driverResult: QueryResult = await client.query(driverQuery, [driverId]);
+      const driverResult: QueryResult = await client.query(driverQuery, [driverId, hospitalId]);
 
       if (driverResult.rows.length === 0) {
         throw new ApiError(404, 'Driver not found or not approved');
@@ -352,18 +831,9 @@ export class HospitalService {
       const driver = driverResult.rows[0];
 
       if (!driver.is_available) {
-        throw new ApiError(400, 'Driver is currently unavailable');
+        throw new ApiError(409, 'Driver is currently unavailable');
       }
 
-      // Update request status to assigned
-      const updateRequestQuery = `
-        UPDATE emergency_requests
-        SET status = 'assigned', updated_at = NOW()
-        WHERE id = $1
-      `;
-
-      await client.query(updateRequestQuery, [requestId]);
-
       // Create assignment
       const createAssignmentQuery = `
         INSERT INTO emergency_assignments (
@@ -379,6 +849,21 @@ export class HospitalService {
 
       const assignmentId = assignmentResult.rows[0].id;
 
+      await this.auditService.record(client, requestId, EmergencyEventType.DRIVER_ASSIGNED, actor, {
+        assignmentId,
+        driverId,
+        driverName: `${driver.first_name} ${driver.last_name}`,
+        automatic,
+      });
+
+      // Update request status to assigned
+      const transition = await lifecycleService.transitionRequest(
+        client,
+        requestId,
+        EmergencyStatus.ASSIGNED,
+        actor,
+      );
+
       // Update driver status to unavailable
       const updateDriverQuery = `
         UPDATE drivers
@@ -390,6 +875,26 @@ export class HospitalService {
 
       await client.query('COMMIT');
 
+      await lifecycleService.runHooks([transition]);
+
+      emitEmergencyEvent(
+        SocketEvent.EMERGENCY_DRIVER_ASSIGNED,
+        {
+          requestId,
+          userId: requestResult.rows[0].user_id,
+          hospitalId,
+          driverId: driver.id,
+        },
+        {
+          status: 'assigned',
+          assignmentId,
+          driver: { id: driver.id, name: `${driver.first_name} ${driver.last_name}` },
+        },
+      );
+
+      // Start estimating arrival from the driver's last known position
+      await this.etaService.refreshEstimate(requestId);
+
       return {
         success: true,
         message: 'Driver assigned successfully',
@@ -417,30 +922,16 @@ export class HospitalService {
 
   /**
    * Get active emergency requests for a hospital
-   * @param hospitalId Hospital ID (user ID)
+   * @param hospitalId Hospital ID
    * @returns Response with active emergency requests
    */
   async getActiveEmergencyRequests(hospitalId: string): Promise<ActiveEmergencyResponse> {
     try {
-      // Get hospital ID from user ID
-      const hospitalQuery = `
-        SELECT id
-        FROM hospitals
-        WHERE user_id = $1
-      `;
-
-      const hospitalResult: QueryResult = await pool.query(hospitalQuery, [hospitalId]);
-
-      if (hospitalResult.rows.length === 0) {
-        throw new ApiError(404, 'Hospital not found');
-      }
-
-      const hospital = hospitalResult.rows[0];
-
       // Get active requests (accepted, assigned, in_progress)
       const requestsQuery = `
         SELECT 
-          er.id as request_id, er.status, er.created_at,
+          er.id as request_id, er.status, er.created_at, er.emergency_type, er.severity,
+          er.medical_snapshot, er.medical_snapshot_at,
           u.first_name as user_first_name, u.last_name as user_last_name, u.phone as user_phone,
           d.id as driver_id, du.first_name as driver_first_name, du.last_name as driver_last_name,
           ea.status as driver_status
@@ -454,7 +945,7 @@ export class HospitalService {
         ORDER BY er.created_at DESC
       `;
 
-      const requestsResult: QueryResult = await pool.query(requestsQuery, [hospital.id]);
+      const requestsResult: QueryResult = await pool.query(requestsQuery, [hospitalId]);
 
       const requests = requestsResult.rows.map((row) => {
         const request = {
@@ -464,6 +955,9 @@ export class HospitalService {
             phoneNumber: row.user_phone,
           },
           status: row.status,
+          emergencyType: row.emergency_type,
+          severity: row.severity,
+          medicalProfile: toMedicalSnapshot(row),
           createdAt: row.created_at,
           driver: null as any,
         };
@@ -496,18 +990,88 @@ export class HospitalService {
     }
   }
 
+  /**
+   * List active, approved hospitals drivers can register with and hospitals can share
+   * drivers with
+   * @returns Response with hospitals ordered by name
+   */
+  async getHospitalDirectory(): Promise<HospitalDirectoryResponse> {
+    try {
+      const result: QueryResult = await pool.query(
+        `SELECT id, name, address
+         FROM hospitals
+         WHERE is_active = true AND is_approved = true
+         ORDER BY name ASC`,
+      );
+
+      return {
+        success: true,
+        data: {
+          hospitals: result.rows.map((row) => ({
+            id: row.id,
+            name: row.name,
+            address: row.address,
+          })),
+        },
+      };
+    } catch (error) {
+      logger.error('Error getting hospital directory', { error });
+      throw new ApiError(500, 'Failed to get hospital directory');
+    }
+  }
+
+  /**
+   * Get where the hospital's registration stands in the admin review. Until it is approved
+   * the hospital receives no emergencies.
+   * @param hospitalId Hospital ID
+   * @returns Response with the review status
+   */
+  async getRegistrationReview(hospitalId: string): Promise<RegistrationReviewResponse> {
+    try {
+      const result: QueryResult = await pool.query(
+        `SELECT id, name, license_number, hospital_type, is_approved, rejection_reason,
+                created_at, reviewed_at
+         FROM hospitals
+         WHERE id = $1`,
+        [hospitalId],
+      );
+
+      if (result.rows.length === 0) {
+        throw new ApiError(404, 'Hospital not found');
+      }
+
+      const hospital = result.rows[0];
+
+      return {
+        success: true,
+        data: {
+          hospitalId: hospital.id,
+          name: hospital.name,
+          licenseNumber: hospital.license_number,
+          hospitalType: hospital.hospital_type,
+          status: getHospitalReviewStatus(hospital),
+          rejectionReason: hospital.rejection_reason,
+          submittedAt: hospital.created_at,
+          reviewedAt: hospital.reviewed_at,
+        },
+      };
+    } catch (error) {
+      logger.error('Error getting hospital registration review', { error });
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      throw new ApiError(500, 'Failed to get hospital registration review');
+    }
+  }
+
   /**
    * Get list of hospital drivers
-   * @param hospitalId Hospital ID (user ID)
+   * @param hospitalId Hospital ID
    * @param status Driver status filter
    * @returns Response with hospital drivers
    */
   async getHospitalDrivers(hospitalId: string, status: string): Promise<HospitalDriversResponse> {
     try {
-      // Since there's no direct hospital-driver relationship in the schema,
-      // we'll retrieve all drivers and later would need a mechanism to associate drivers with hospitals
-
-      // For now, we'll get all drivers
       let statusFilter = '';
 
       if (status === 'available') {
@@ -518,17 +1082,22 @@ export class HospitalService {
         statusFilter = 'AND d.is_approved = false';
       }
 
+      // Own fleet plus drivers lent under an active sharing agreement
       const driversQuery = `
         SELECT 
           d.id, d.license_number, d.is_available, d.is_approved, d.created_at,
+          d.hospital_id <> $1 as is_shared,
           u.first_name, u.last_name, u.email, u.phone
         FROM drivers d
         JOIN users u ON d.user_id = u.id
-        WHERE d.is_active = true ${statusFilter}
+        WHERE d.is_active = true
+        AND ${assignableDriverCondition('$1')}
+        AND (d.hospital_id = $1 OR d.is_approved = true)
+        ${statusFilter}
         ORDER BY d.created_at DESC
       `;
 
-      const driversResult: QueryResult = await pool.query(driversQuery);
+      const driversResult: QueryResult = await pool.query(driversQuery, [hospitalId]);
 
       const drivers = driversResult.rows.map((row) => ({
         id: row.id,
@@ -538,6 +1107,7 @@ export class HospitalService {
         licenseNumber: row.license_number,
         isAvailable: row.is_available,
         isApproved: row.is_approved,
+        isShared: row.is_shared,
         createdAt: row.created_at,
       }));
 
@@ -560,7 +1130,7 @@ export class HospitalService {
   /**
    * Approve a driver registration
    * @param driverId Driver ID
-   * @param hospitalId Hospital ID (user ID)
+   * @param hospitalId Hospital ID
    * @returns Response with approved driver info
    */
   async approveDriver(driverId: string, hospitalId: string): Promise<ApproveDriverResponse> {
@@ -569,18 +1139,15 @@ export class HospitalService {
     try {
       await client.query('BEGIN');
 
-      // Since there's no direct hospital-driver relationship in the schema,
-      // we'll check if the driver exists and update their approval status
-
-      // Check if driver exists
+      // Hospitals can only approve drivers who registered with their own fleet
       const driverQuery = `
         SELECT d.id, d.is_approved, u.first_name, u.last_name, u.email
         FROM drivers d
         JOIN users u ON d.user_id = u.id
-        WHERE d.id = $1
+        WHERE d.id = $1 AND d.hospital_id = $2
       `;
 
-      const driverResult: QueryResult = await client.query(driverQuery, [driverId]);
+      const driverResult: QueryResult = await client.query(driverQuery, [driverId, hospitalId]);
 
       if (driverResult.rows.length === 0) {
         throw new ApiError(404, 'Driver not found');
@@ -623,4 +1190,117 @@ export class HospitalService {
       client.release();
     }
   }
+
+  /**
+   * Rank the available fleet and shared drivers for a request by distance to the pickup,
+   * vehicle type and recent workload
+   */
+  private async suggestDrivers(requestId: string): Promise<DriverSuggestion[]> {
+    const pickupResult: QueryResult = await pool.query(
+      'SELECT pickup_latitude, pickup_longitude, hospital_id FROM emergency_requests WHERE id = $1',
+      [requestId],
+    );
+    const pickup = pickupResult.rows[0];
+    const pickupCoordinates = {
+      latitude: parseFloat(pickup.pickup_latitude),
+      longitude: parseFloat(pickup.pickup_longitude),
+    };
+
+    // Only drivers within ranking range are worth loading
+    const proximity = proximityQuery(
+      'd.current_latitude',
+      'd.current_longitude',
+      pickupCoordinates,
+      config.driverRanking.maxDistanceKm,
+      3,
+    );
+
+    const driversQuery = `
+      SELECT
+        d.id, u.first_name, u.last_name, d.vehicle_type,
+        d.current_latitude, d.current_longitude, d.last_location_update,
+        (
+          SELECT COUNT(*)
+          FROM emergency_assignments ea
+          WHERE ea.driver_id = d.id
+          AND ea.assigned_at > NOW() - make_interval(hours => $1)
+        ) as recent_assignments
+      FROM drivers d
+      JOIN users u ON d.user_id = u.id
+      WHERE d.is_approved = true
+      AND d.is_active = true
+      AND d.is_available = true
+      AND ${assignableDriverCondition('$2')}
+      AND ${proximity.condition}
+    `;
+
+    const driversResult: QueryResult = await pool.query(driversQuery, [
+      config.driverRanking.workloadWindowHours,
+      pickup.hospital_id,
+      ...proximity.params,
+    ]);
+
+    const candidates: DriverCandidate[] = driversResult.rows.map((row) => ({
+      id: row.id,
+      name: `${row.first_name} ${row.last_name}`,
+      vehicleType: row.vehicle_type,
+      latitude: row.current_latitude !== null ? parseFloat(row.current_latitude) : null,
+      longitude: row.current_longitude !== null ? parseFloat(row.current_longitude) : null,
+      lastLocationUpdate: row.last_location_update,
+      recentAssignments: parseInt(row.recent_assignments),
+    }));
+
+    return rankDrivers(candidates, pickupCoordinates, config.driverRanking).map((driver) => ({
+      id: driver.id,
+      name: driver.name,
+      vehicleType: driver.vehicleType,
+      distanceKm: driver.distanceKm,
+      recentAssignments: driver.recentAssignments,
+      lastLocationUpdate: driver.lastLocationUpdate,
+      score: Math.round(driver.score * 100) / 100,
+    }));
+  }
+
+  /**
+   * Suggest drivers without failing an acceptance that has already been committed
+   */
+  private async suggestDriversSafely(requestId: string): Promise<DriverSuggestion[]> {
+    try {
+      return await this.suggestDrivers(requestId);
+    } catch (error) {
+      logger.error('Error ranking drivers for emergency request', { error, requestId });
+      return [];
+    }
+  }
+
+  /**
+   * Assign the best-ranked driver, moving down the list if a driver was taken in the meantime.
+   * Leaves the request for manual assignment when nobody can be assigned.
+   */
+  private async autoAssignDriver(
+    requestId: string,
+    hospitalId: string,
+    userId: string,
+    suggestions: DriverSuggestion[],
+  ): Promise<AssignDriverResponse['data'] | null> {
+    for (const suggestion of suggestions) {
+      try {
+        const result = await this.assignDriverToEmergency(
+          requestId,
+          hospitalId,
+          userId,
+          suggestion.id,
+          true,
+        );
+        return result.data;
+      } catch (error) {
+        if (!(error instanceof ApiError) || error.statusCode >= 500) {
+          break;
+        }
+      }
+    }
+
+    logger.warn(`No driver could be assigned automatically to emergency ${requestId}`);
+    return null;
+  }
 }
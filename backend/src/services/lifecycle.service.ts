@@ -0,0 +1,289 @@
+import { PoolClient, QueryResult } from 'pg';
+import { ApiError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+import {
+  ASSIGNMENT_TIMESTAMP_COLUMNS,
+  AssignmentStatus,
+  canTransitionAssignment,
+  canTransitionRequest,
+  EmergencyStatus,
+  isTerminalAssignmentStatus,
+  REQUEST_TIMESTAMP_COLUMNS,
+  requestStatusForAssignment,
+} from '../utils/emergencyLifecycle';
+import { EtaService } from './eta.service';
+import { AuditService, EmergencyEventType, EventActor } from './audit.service';
+import { emitEmergencyEvent, SocketEvent } from '../socket/emitter';
+
+/**
+ * A state change of an emergency request or one of its assignments
+ */
+export interface LifecycleTransition {
+  entity: 'request' | 'assignment';
+  id: string;
+  requestId: string;
+  from: string;
+  to: string;
+  at: Date;
+  userId: string;
+  hospitalId: string | null;
+  driverId: string | null;
+}
+
+export type LifecycleHook = (transition: LifecycleTransition) => void | Promise<void>;
+
+// Additional columns to write together with a transition, e.g. the accepting hospital
+type TransitionChanges = Record<string, unknown>;
+
+/**
+ * Single owner of emergency request and assignment states.
+ *
+ * Transitions run inside the caller's transaction: they lock the row, reject moves the state
+ * machine does not allow, stamp the matching timestamp column and apply side effects that must
+ * be atomic with the change (releasing the driver, moving the request along with its
+ * assignment) and appending the change to the emergency's audit trail. Hooks registered with
+ * `onTransition` run once the caller has committed and passed the transitions to `runHooks`.
+ */
+export class LifecycleService {
+  private hooks: LifecycleHook[] = [];
+  private etaService: EtaService;
+  private auditService: AuditService;
+
+  constructor() {
+    this.etaService = new EtaService();
+    this.auditService = new AuditService();
+
+    // Keep everyone following the emergency up to date with the ambulance's progress
+    this.onTransition(async (transition) => {
+      if (transition.entity !== 'assignment') {
+        return;
+      }
+
+      emitEmergencyEvent(
+        SocketEvent.ASSIGNMENT_STATUS_CHANGED,
+        {
+          requestId: transition.requestId,
+          userId: transition.userId,
+          hospitalId: transition.hospitalId || undefined,
+          driverId: transition.driverId || undefined,
+        },
+        { assignmentId: transition.id, status: transition.to, previousStatus: transition.from },
+      );
+
+      await this.etaService.refreshEstimate(transition.requestId);
+    });
+  }
+
+  /**
+   * Register a hook to run after each committed transition
+   * @param hook Hook receiving the transition
+   */
+  onTransition(hook: LifecycleHook): void {
+    this.hooks.push(hook);
+  }
+
+  /**
+   * Move an emergency request to a new state
+   * @param client Database client holding the transaction
+   * @param requestId Emergency request ID
+   * @param to New request status
+   * @param actor Who caused the transition
+   * @param changes Additional columns to update
+   * @returns The transition
+   */
+  async transitionRequest(
+    client: PoolClient,
+    requestId: string,
+    to: EmergencyStatus,
+    actor: EventActor,
+    changes: TransitionChanges = {},
+  ): Promise<LifecycleTransition> {
+    const requestResult: QueryResult = await client.query(
+      `SELECT id, status, user_id FROM emergency_requests WHERE id = $1 FOR UPDATE`,
+      [requestId],
+    );
+
+    if (requestResult.rows.length === 0) {
+      throw new ApiError(404, 'Emergency request not found');
+    }
+
+    const request = requestResult.rows[0];
+
+    if (!canTransitionRequest(request.status, to)) {
+      throw new ApiError(400, `Cannot move emergency request from ${request.status} to ${to}`);
+    }
+
+    const updateResult = await this.applyTransition(
+      client,
+      'emergency_requests',
+      requestId,
+      to,
+      REQUEST_TIMESTAMP_COLUMNS[to],
+      changes,
+      'hospital_id',
+    );
+
+    const driverResult: QueryResult = await client.query(
+      `SELECT driver_id FROM emergency_assignments
+       WHERE emergency_id = $1
+       ORDER BY assigned_at DESC
+       LIMIT 1`,
+      [requestId],
+    );
+
+    await this.auditService.record(client, requestId, EmergencyEventType.STATUS_CHANGED, actor, {
+      entity: 'request',
+      from: request.status,
+      to,
+    });
+
+    return {
+      entity: 'request',
+      id: requestId,
+      requestId,
+      from: request.status,
+      to,
+      at: updateResult.transitioned_at,
+      userId: request.user_id,
+      hospitalId: updateResult.hospital_id,
+      driverId: driverResult.rows[0]?.driver_id || null,
+    };
+  }
+
+  /**
+   * Move an assignment to a new stage, releasing the driver when it ends and moving the
+   * request along with it
+   * @param client Database client holding the transaction
+   * @param assignmentId Assignment ID
+   * @param to New assignment status
+   * @param actor Who caused the transition
+   * @param changes Additional columns to update
+   * @returns The assignment transition, followed by the request transition it caused if any
+   */
+  async transitionAssignment(
+    client: PoolClient,
+    assignmentId: string,
+    to: AssignmentStatus,
+    actor: EventActor,
+    changes: TransitionChanges = {},
+  ): Promise<LifecycleTransition[]> {
+    const assignmentResult: QueryResult = await client.query(
+      `SELECT ea.id, ea.status, ea.emergency_id, ea.driver_id,
+              er.status as request_status, er.user_id, er.hospital_id
+       FROM emergency_assignments ea
+       JOIN emergency_requests er ON ea.emergency_id = er.id
+       WHERE ea.id = $1
+       FOR UPDATE OF ea`,
+      [assignmentId],
+    );
+
+    if (assignmentResult.rows.length === 0) {
+      throw new ApiError(404, 'Assignment not found');
+    }
+
+    const assignment = assignmentResult.rows[0];
+
+    if (!canTransitionAssignment(assignment.status, to)) {
+      throw new ApiError(400, `Cannot transition from ${assignment.status} to ${to}`);
+    }
+
+    const updateResult = await this.applyTransition(
+      client,
+      'emergency_assignments',
+      assignmentId,
+      to,
+      ASSIGNMENT_TIMESTAMP_COLUMNS[to],
+      changes,
+    );
+
+    if (isTerminalAssignmentStatus(to)) {
+      await client.query(
+        `UPDATE drivers SET is_available = true, updated_at = NOW() WHERE id = $1`,
+        [assignment.driver_id],
+      );
+    }
+
+    await this.auditService.record(
+      client,
+      assignment.emergency_id,
+      EmergencyEventType.STATUS_CHANGED,
+      actor,
+      { entity: 'assignment', assignmentId, from: assignment.status, to },
+    );
+
+    const transitions: LifecycleTransition[] = [
+      {
+        entity: 'assignment',
+        id: assignmentId,
+        requestId: assignment.emergency_id,
+        from: assignment.status,
+        to,
+        at: updateResult.transitioned_at,
+        userId: assignment.user_id,
+        hospitalId: assignment.hospital_id,
+        driverId: assignment.driver_id,
+      },
+    ];
+
+    const requestStatus = requestStatusForAssignment(to);
+
+    if (requestStatus && requestStatus !== assignment.request_status) {
+      transitions.push(
+        await this.transitionRequest(client, assignment.emergency_id, requestStatus, actor),
+      );
+    }
+
+    return transitions;
+  }
+
+  /**
+   * Run the registered hooks for committed transitions. Hook failures are logged and never
+   * propagate to the caller.
+   * @param transitions Transitions returned by `transitionRequest`/`transitionAssignment`
+   */
+  async runHooks(transitions: LifecycleTransition[]): Promise<void> {
+    for (const transition of transitions) {
+      for (const hook of this.hooks) {
+        try {
+          await hook(transition);
+        } catch (error) {
+          logger.error('Error running emergency lifecycle hook', { error, transition });
+        }
+      }
+    }
+  }
+
+  private async applyTransition(
+    client: PoolClient,
+    table: 'emergency_requests' | 'emergency_assignments',
+    id: string,
+    to: string,
+    timestampColumn: string | null,
+    changes: TransitionChanges,
+    returning: string = 'id',
+  ) {
+    const values: unknown[] = [id, to];
+    const assignments = ['status = $2', 'updated_at = NOW()'];
+
+    if (timestampColumn) {
+      assignments.push(`${timestampColumn} = NOW()`);
+    }
+
+    Object.entries(changes).forEach(([column, value]) => {
+      values.push(value);
+      assignments.push(`${column} = $${values.length}`);
+    });
+
+    const result: QueryResult = await client.query(
+      `UPDATE ${table}
+       SET ${assignments.join(', ')}
+       WHERE id = $1
+       RETURNING ${returning}, ${timestampColumn || 'updated_at'} as transitioned_at`,
+      values,
+    );
+
+    return result.rows[0];
+  }
+}
+
+export default new LifecycleService();
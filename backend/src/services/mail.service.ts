@@ -0,0 +1,137 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import config from '../config';
+import { logger } from '../utils/logger';
+
+/**
+ * Plain-text email
+ */
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+/**
+ * Delivers email. Implement this to send through a real mail provider.
+ */
+export interface MailTransport {
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+/**
+ * Writes email to the application log instead of sending it
+ */
+export class ConsoleMailTransport implements MailTransport {
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    logger.info(`Email to ${message.to}: ${message.subject}`, { email: message });
+  }
+}
+
+/**
+ * Writes each email to its own file in a local outbox directory instead of sending it
+ */
+export class FileMailTransport implements MailTransport {
+  constructor(private readonly outboxDir: string) {}
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    await fs.mkdir(this.outboxDir, { recursive: true });
+
+    const fileName = `${Date.now()}-${crypto.randomBytes(4).toString('hex')}.eml`;
+    const content = [
+      `From: ${message.from}`,
+      `To: ${message.to}`,
+      `Subject: ${message.subject}`,
+      `Date: ${new Date().toUTCString()}`,
+      '',
+      message.text,
+    ].join('\n');
+
+    await fs.writeFile(path.join(this.outboxDir, fileName), content, 'utf-8');
+  }
+}
+
+/**
+ * Create the transport named by MAIL_TRANSPORT
+ * @param name Transport name: console or file
+ * @returns Mail transport
+ */
+export const createMailTransport = (name: string): MailTransport => {
+  switch (name) {
+    case 'console':
+      return new ConsoleMailTransport();
+    case 'file':
+      return new FileMailTransport(config.mail.outboxDir);
+    default:
+      throw new Error(`Unknown mail transport: ${name}`);
+  }
+};
+
+export class MailService {
+  constructor(private transport: MailTransport = createMailTransport(config.mail.transport)) {}
+
+  /**
+   * Replace the transport, e.g. with one backed by a mail provider
+   * @param transport Mail transport
+   */
+  setTransport(transport: MailTransport): void {
+    this.transport = transport;
+  }
+
+  /**
+   * Send an email from the configured sender
+   * @param message Email to send
+   */
+  async send(message: MailMessage): Promise<void> {
+    await this.transport.send({ ...message, from: config.mail.from });
+  }
+
+  /**
+   * Send the link that confirms an account's email address
+   * @param to Email address being verified
+   * @param name Name to greet
+   * @param token Email verification token
+   */
+  async sendEmailVerification(to: string, name: string, token: string): Promise<void> {
+    const link = `${config.mail.appUrl}/verify-email?token=${encodeURIComponent(token)}`;
+
+    await this.send({
+      to,
+      subject: 'Verify your Instant Ambulance email address',
+      text: [
+        `Hello ${name},`,
+        '',
+        'Confirm that this is your email address by opening the link below:',
+        link,
+        '',
+        `The link expires in ${config.accountEmails.verificationTtlHours} hours. If you did not create an Instant Ambulance account, you can ignore this email.`,
+      ].join('\n'),
+    });
+  }
+
+  /**
+   * Send a password reset link
+   * @param to Email address of the account
+   * @param name Name to greet
+   * @param token Password reset token
+   */
+  async sendPasswordReset(to: string, name: string, token: string): Promise<void> {
+    const link = `${config.mail.appUrl}/reset-password?token=${encodeURIComponent(token)}`;
+
+    await this.send({
+      to,
+      subject: 'Reset your Instant Ambulance password',
+      text: [
+        `Hello ${name},`,
+        '',
+        'Choose a new password by opening the link below:',
+        link,
+        '',
+        `The link expires in ${config.accountEmails.passwordResetTtlMinutes} minutes. If you did not ask to reset your password, you can ignore this email; your password stays the same.`,
+      ].join('\n'),
+    });
+  }
+}
+
+export default new MailService();
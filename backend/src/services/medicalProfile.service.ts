@@ -0,0 +1,249 @@
+import { Pool, PoolClient, QueryResult } from 'pg';
+import { ApiError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+import pool from '../database/connection';
+
+export const BLOOD_GROUPS = ['A+', 'A-', 'B+', 'B-', 'AB+', 'AB-', 'O+', 'O-'] as const;
+
+export type BloodGroup = (typeof BLOOD_GROUPS)[number];
+
+export interface EmergencyContact {
+  name: string;
+  relationship: string | null;
+  phoneNumber: string;
+  email: string | null;
+}
+
+/**
+ * What a patient tells responders about themselves
+ */
+export interface MedicalProfile {
+  // YYYY-MM-DD
+  dateOfBirth: string | null;
+  bloodGroup: BloodGroup | null;
+  allergies: string[];
+  chronicConditions: string[];
+  currentMedications: string[];
+  // In the order the patient wants them called
+  emergencyContacts: EmergencyContact[];
+  // When the patient last saved the profile; null if they never have
+  updatedAt: Date | null;
+}
+
+export type MedicalProfileInput = Omit<MedicalProfile, 'updatedAt'>;
+
+/**
+ * The profile as it stood when a hospital accepted the request
+ */
+export interface MedicalSnapshot extends MedicalProfile {
+  capturedAt: Date;
+}
+
+interface MedicalProfileResponse {
+  success: boolean;
+  message?: string;
+  data: MedicalProfile;
+}
+
+/**
+ * Read the snapshot columns of an emergency_requests row
+ * @param row Row selected with medical_snapshot and medical_snapshot_at
+ * @returns Snapshot, or null for requests accepted without one
+ */
+export const toMedicalSnapshot = (row: {
+  medical_snapshot?: MedicalProfile | null;
+  medical_snapshot_at?: Date | null;
+}): MedicalSnapshot | null => {
+  if (!row.medical_snapshot || !row.medical_snapshot_at) {
+    return null;
+  }
+  return { ...row.medical_snapshot, capturedAt: row.medical_snapshot_at };
+};
+
+export class MedicalProfileService {
+  /**
+   * Get a user's medical profile
+   * @param userId User ID
+   * @returns Response with the profile; fields are empty until the user fills them in
+   */
+  async getProfile(userId: string): Promise<MedicalProfileResponse> {
+    try {
+      const profile = (await this.loadProfiles([userId])).get(userId);
+
+      if (!profile) {
+        throw new ApiError(404, 'User not found');
+      }
+
+      return {
+        success: true,
+        data: profile,
+      };
+    } catch (error) {
+      logger.error('Error getting medical profile', { error });
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      throw new ApiError(500, 'Failed to get medical profile');
+    }
+  }
+
+  /**
+   * Replace a user's medical profile and emergency contacts
+   * @param userId User ID
+   * @param profile New profile
+   * @returns Response with the saved profile
+   */
+  async updateProfile(
+    userId: string,
+    profile: MedicalProfileInput,
+  ): Promise<MedicalProfileResponse> {
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const userResult: QueryResult = await client.query(
+        `UPDATE users SET date_of_birth = $2, updated_at = NOW() WHERE id = $1 RETURNING id`,
+        [userId, profile.dateOfBirth],
+      );
+
+      if (userResult.rows.length === 0) {
+        throw new ApiError(404, 'User not found');
+      }
+
+      await client.query(
+        `INSERT INTO medical_profiles (
+           user_id, blood_group, allergies, chronic_conditions, current_medications
+         )
+         VALUES ($1, $2, $3, $4, $5)
+         ON CONFLICT (user_id) DO UPDATE SET
+           blood_group = EXCLUDED.blood_group,
+           allergies = EXCLUDED.allergies,
+           chronic_conditions = EXCLUDED.chronic_conditions,
+           current_medications = EXCLUDED.current_medications,
+           updated_at = NOW()`,
+        [
+          userId,
+          profile.bloodGroup,
+          profile.allergies,
+          profile.chronicConditions,
+          profile.currentMedications,
+        ],
+      );
+
+      await client.query('DELETE FROM emergency_contacts WHERE user_id = $1', [userId]);
+
+      for (const [position, contact] of profile.emergencyContacts.entries()) {
+        await client.query(
+          `INSERT INTO emergency_contacts (user_id, name, relationship, phone, email, position)
+           VALUES ($1, $2, $3, $4, $5, $6)`,
+          [
+            userId,
+            contact.name,
+            contact.relationship,
+            contact.phoneNumber,
+            contact.email,
+            position,
+          ],
+        );
+      }
+
+      const profiles = await this.loadProfiles([userId], client);
+
+      await client.query('COMMIT');
+
+      return {
+        success: true,
+        message: 'Medical profile updated successfully',
+        data: profiles.get(userId) as MedicalProfile,
+      };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      logger.error('Error updating medical profile', { error });
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      throw new ApiError(500, 'Failed to update medical profile');
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Load the current profiles of several users
+   * @param userIds User IDs
+   * @param db Pool or client holding the caller's transaction
+   * @returns Profiles by user ID; users without a profile get an empty one
+   */
+  async loadProfiles(
+    userIds: string[],
+    db: Pool | PoolClient = pool,
+  ): Promise<Map<string, MedicalProfile>> {
+    const profiles = new Map<string, MedicalProfile>();
+    if (userIds.length === 0) {
+      return profiles;
+    }
+
+    const profileResult: QueryResult = await db.query(
+      `SELECT
+         u.id, to_char(u.date_of_birth, 'YYYY-MM-DD') as date_of_birth,
+         mp.blood_group, mp.allergies, mp.chronic_conditions, mp.current_medications,
+         mp.updated_at
+       FROM users u
+       LEFT JOIN medical_profiles mp ON mp.user_id = u.id
+       WHERE u.id = ANY($1)`,
+      [userIds],
+    );
+
+    for (const row of profileResult.rows) {
+      profiles.set(row.id, {
+        dateOfBirth: row.date_of_birth,
+        bloodGroup: row.blood_group,
+        allergies: row.allergies || [],
+        chronicConditions: row.chronic_conditions || [],
+        currentMedications: row.current_medications || [],
+        emergencyContacts: [],
+        updatedAt: row.updated_at,
+      });
+    }
+
+    const contactResult: QueryResult = await db.query(
+      `SELECT user_id, name, relationship, phone, email
+       FROM emergency_contacts
+       WHERE user_id = ANY($1)
+       ORDER BY position, created_at`,
+      [userIds],
+    );
+
+    for (const row of contactResult.rows) {
+      profiles.get(row.user_id)?.emergencyContacts.push({
+        name: row.name,
+        relationship: row.relationship,
+        phoneNumber: row.phone,
+        email: row.email,
+      });
+    }
+
+    return profiles;
+  }
+
+  /**
+   * Freeze the requester's current profile onto an emergency request, so later edits do not
+   * change what the responding crew was given
+   * @param client Client holding the accepting transaction
+   * @param requestId Emergency request ID
+   * @param userId User ID of the requester
+   */
+  async attachSnapshot(client: PoolClient, requestId: string, userId: string): Promise<void> {
+    const profiles = await this.loadProfiles([userId], client);
+
+    await client.query(
+      `UPDATE emergency_requests
+       SET medical_snapshot = $2, medical_snapshot_at = NOW()
+       WHERE id = $1`,
+      [requestId, JSON.stringify(profiles.get(userId) ?? null)],
+    );
+  }
+}
+
+export default new MedicalProfileService();
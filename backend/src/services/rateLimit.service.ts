@@ -0,0 +1,297 @@
+import { Pool, QueryResult } from 'pg';
+import pool from '../database/connection';
+import config from '../config';
+import { TooManyRequestsError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+
+/**
+ * Hits counted for a key in the current window. Times are epoch milliseconds.
+ */
+export interface RateLimitEntry {
+  count: number;
+  resetAt: number;
+  blockedUntil: number | null;
+}
+
+/**
+ * Where rate limit counters live. Windows are fixed: the first hit after a window ended starts
+ * a new one and clears any block.
+ */
+export interface RateLimitStore {
+  /** Count a hit, starting a new window of windowMs if the current one has ended */
+  increment(key: string, windowMs: number): Promise<RateLimitEntry>;
+  /** Current window, or null if there is none */
+  get(key: string): Promise<RateLimitEntry | null>;
+  /** Block a key until blockedUntil and keep its window open until at least resetAt */
+  block(key: string, blockedUntil: number, resetAt: number): Promise<void>;
+  reset(key: string): Promise<void>;
+  /** Drop windows that have ended */
+  prune(): Promise<void>;
+}
+
+/**
+ * Keeps counters in process memory. Each API instance counts on its own.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private entries = new Map<string, RateLimitEntry>();
+
+  constructor(private readonly now: () => number = Date.now) {}
+
+  async increment(key: string, windowMs: number): Promise<RateLimitEntry> {
+    const now = this.now();
+    const entry = this.entries.get(key);
+
+    if (!entry || entry.resetAt <= now) {
+      const fresh = { count: 1, resetAt: now + windowMs, blockedUntil: null };
+      this.entries.set(key, fresh);
+      return { ...fresh };
+    }
+
+    entry.count += 1;
+    return { ...entry };
+  }
+
+  async get(key: string): Promise<RateLimitEntry | null> {
+    const entry = this.entries.get(key);
+    if (!entry || entry.resetAt <= this.now()) {
+      return null;
+    }
+    return { ...entry };
+  }
+
+  async block(key: string, blockedUntil: number, resetAt: number): Promise<void> {
+    const entry = this.entries.get(key);
+    if (entry) {
+      entry.blockedUntil = blockedUntil;
+      entry.resetAt = Math.max(entry.resetAt, resetAt);
+    }
+  }
+
+  async reset(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async prune(): Promise<void> {
+    const now = this.now();
+    for (const [key, entry] of this.entries) {
+      if (entry.resetAt <= now) {
+        this.entries.delete(key);
+      }
+    }
+  }
+}
+
+const toEntry = (row: {
+  count: number;
+  reset_at: Date;
+  blocked_until: Date | null;
+}): RateLimitEntry => ({
+  count: row.count,
+  resetAt: new Date(row.reset_at).getTime(),
+  blockedUntil: row.blocked_until ? new Date(row.blocked_until).getTime() : null,
+});
+
+/**
+ * Keeps counters in the rate_limits table so every API instance shares them
+ */
+export class PostgresRateLimitStore implements RateLimitStore {
+  constructor(
+    private readonly db: Pool = pool,
+    private readonly now: () => number = Date.now,
+  ) {}
+
+  async increment(key: string, windowMs: number): Promise<RateLimitEntry> {
+    const now = this.now();
+    const result: QueryResult = await this.db.query(
+      `INSERT INTO rate_limits AS rl (key, count, reset_at)
+       VALUES ($1, 1, to_timestamp($3 / 1000.0))
+       ON CONFLICT (key) DO UPDATE SET
+         count = CASE WHEN rl.reset_at <= to_timestamp($2 / 1000.0) THEN 1 ELSE rl.count + 1 END,
+         blocked_until = CASE
+           WHEN rl.reset_at <= to_timestamp($2 / 1000.0) THEN NULL ELSE rl.blocked_until
+         END,
+         reset_at = CASE
+           WHEN rl.reset_at <= to_timestamp($2 / 1000.0) THEN EXCLUDED.reset_at ELSE rl.reset_at
+         END
+       RETURNING count, reset_at, blocked_until`,
+      [key, now, now + windowMs],
+    );
+
+    return toEntry(result.rows[0]);
+  }
+
+  async get(key: string): Promise<RateLimitEntry | null> {
+    const result: QueryResult = await this.db.query(
+      `SELECT count, reset_at, blocked_until FROM rate_limits
+       WHERE key = $1 AND reset_at > to_timestamp($2 / 1000.0)`,
+      [key, this.now()],
+    );
+
+    return result.rows.length > 0 ? toEntry(result.rows[0]) : null;
+  }
+
+  async block(key: string, blockedUntil: number, resetAt: number): Promise<void> {
+    await this.db.query(
+      `UPDATE rate_limits
+       SET blocked_until = to_timestamp($2 / 1000.0),
+           reset_at = GREATEST(reset_at, to_timestamp($3 / 1000.0))
+       WHERE key = $1`,
+      [key, blockedUntil, resetAt],
+    );
+  }
+
+  async reset(key: string): Promise<void> {
+    await this.db.query('DELETE FROM rate_limits WHERE key = $1', [key]);
+  }
+
+  async prune(): Promise<void> {
+    await this.db.query('DELETE FROM rate_limits WHERE reset_at <= to_timestamp($1 / 1000.0)', [
+      this.now(),
+    ]);
+  }
+}
+
+/**
+ * Create the store named by RATE_LIMIT_STORE
+ * @param name Store name: memory or postgres
+ * @returns Rate limit store
+ */
+export const createRateLimitStore = (name: string): RateLimitStore => {
+  switch (name) {
+    case 'memory':
+      return new MemoryRateLimitStore();
+    case 'postgres':
+      return new PostgresRateLimitStore();
+    default:
+      throw new Error(`Unknown rate limit store: ${name}`);
+  }
+};
+
+/**
+ * Outcome of counting a request against a limit
+ */
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  retryAfterSeconds: number;
+}
+
+const PRUNE_INTERVAL_MS = 60 * 1000;
+
+const loginKey = (email: string): string => `login-failures:${email.trim().toLowerCase()}`;
+
+const formatWait = (seconds: number): string => {
+  if (seconds < 60) {
+    return `${seconds} second${seconds === 1 ? '' : 's'}`;
+  }
+  const minutes = Math.ceil(seconds / 60);
+  return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+};
+
+export class RateLimitService {
+  private lastPrunedAt: number;
+
+  constructor(
+    private readonly store: RateLimitStore = createRateLimitStore(config.rateLimit.store),
+    private readonly now: () => number = Date.now,
+  ) {
+    this.lastPrunedAt = now();
+  }
+
+  /**
+   * Count a request against a limit
+   * @param key Counter key, e.g. limiter name and client IP
+   * @param max Requests allowed per window
+   * @param windowSeconds Window length
+   * @returns Whether the request is within the limit
+   */
+  async hit(key: string, max: number, windowSeconds: number): Promise<RateLimitResult> {
+    const entry = await this.store.increment(key, windowSeconds * 1000);
+    this.pruneOccasionally();
+
+    return {
+      allowed: entry.count <= max,
+      limit: max,
+      remaining: Math.max(0, max - entry.count),
+      retryAfterSeconds: this.secondsUntil(entry.resetAt),
+    };
+  }
+
+  /**
+   * Reject a login while the email address is locked out
+   * @param email Email address being signed in
+   */
+  async assertLoginAllowed(email: string): Promise<void> {
+    if (config.loginLockout.maxFailures <= 0) {
+      return;
+    }
+
+    const entry = await this.store.get(loginKey(email));
+    if (entry?.blockedUntil && entry.blockedUntil > this.now()) {
+      const retryAfterSeconds = this.secondsUntil(entry.blockedUntil);
+      throw new TooManyRequestsError(
+        `Too many failed login attempts. Try again in ${formatWait(retryAfterSeconds)}`,
+        retryAfterSeconds,
+      );
+    }
+  }
+
+  /**
+   * Count a failed login. From maxFailures failures on, the address is locked out, twice as long
+   * for every further failure.
+   * @param email Email address that failed to sign in
+   */
+  async recordLoginFailure(email: string): Promise<void> {
+    const { maxFailures, windowMinutes, baseLockoutSeconds, maxLockoutMinutes } =
+      config.loginLockout;
+    if (maxFailures <= 0) {
+      return;
+    }
+
+    const windowMs = windowMinutes * 60 * 1000;
+    const key = loginKey(email);
+    const entry = await this.store.increment(key, windowMs);
+
+    if (entry.count < maxFailures) {
+      return;
+    }
+
+    const lockoutMs = Math.min(
+      baseLockoutSeconds * 1000 * 2 ** (entry.count - maxFailures),
+      maxLockoutMinutes * 60 * 1000,
+    );
+    const blockedUntil = this.now() + lockoutMs;
+
+    // Failures keep counting for a full window after the lockout ends
+    await this.store.block(key, blockedUntil, blockedUntil + windowMs);
+    logger.warn(`Locked logins for ${email} for ${lockoutMs / 1000}s`, {
+      failedAttempts: entry.count,
+    });
+  }
+
+  /**
+   * Forget failed logins after a successful one
+   * @param email Email address that signed in
+   */
+  async clearLoginFailures(email: string): Promise<void> {
+    await this.store.reset(loginKey(email));
+  }
+
+  private secondsUntil(time: number): number {
+    return Math.max(1, Math.ceil((time - this.now()) / 1000));
+  }
+
+  private pruneOccasionally(): void {
+    if (this.now() - this.lastPrunedAt < PRUNE_INTERVAL_MS) {
+      return;
+    }
+    this.lastPrunedAt = this.now();
+
+    this.store.prune().catch((error) => {
+      logger.error('Error pruning rate limit counters', { error });
+    });
+  }
+}
+
+export default new RateLimitService();
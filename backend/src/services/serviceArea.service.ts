@@ -0,0 +1,236 @@
+import { Pool, PoolClient, QueryResult } from 'pg';
+import pool from '../database/connection';
+import config from '../config';
+import { ApiError } from '../middleware/errorHandler';
+import { proximityQuery } from '../utils/geoSearch';
+import { logger } from '../utils/logger';
+import {
+  GeoJsonPolygon,
+  polygonLiteral,
+  ServiceArea,
+  ServiceAreaType,
+  toServiceArea,
+  visibleRequestQuery,
+} from '../utils/serviceArea';
+
+interface ServiceAreaResponse {
+  success: boolean;
+  message?: string;
+  data: {
+    type: ServiceAreaType;
+    radiusKm: number | null;
+    boundary: GeoJsonPolygon | null;
+    // True while the hospital serves the default radius
+    isDefault: boolean;
+    defaultRadiusKm: number;
+    maxRadiusKm: number;
+    location: { latitude: number; longitude: number } | null;
+    updatedAt: Date | null;
+  };
+}
+
+/**
+ * The area each hospital serves. Its pending queue only lists requests picked up inside
+ * the area, besides those offered to it directly, and only those hospitals hear about the
+ * request or may accept it.
+ */
+export class ServiceAreaService {
+  /**
+   * Get the hospital's service area, or the default radius when it has not set one
+   * @param hospitalId Hospital ID
+   * @returns Response with the service area
+   */
+  async getServiceArea(hospitalId: string): Promise<ServiceAreaResponse> {
+    try {
+      const result: QueryResult = await pool.query(
+        `SELECT h.latitude, h.longitude, hsa.area_type, hsa.radius_km, hsa.boundary, hsa.updated_at
+         FROM hospitals h
+         LEFT JOIN hospital_service_areas hsa ON hsa.hospital_id = h.id
+         WHERE h.id = $1`,
+        [hospitalId],
+      );
+
+      if (result.rows.length === 0) {
+        throw new ApiError(404, 'Hospital not found');
+      }
+
+      const row = result.rows[0];
+      const { defaultRadiusKm, maxRadiusKm } = config.serviceArea;
+      const area = toServiceArea(row, defaultRadiusKm);
+
+      return {
+        success: true,
+        data: {
+          type: area.type,
+          radiusKm: area.type === ServiceAreaType.RADIUS ? area.radiusKm : null,
+          boundary: area.type === ServiceAreaType.POLYGON ? area.boundary : null,
+          isDefault: row.area_type === null,
+          defaultRadiusKm,
+          maxRadiusKm,
+          location:
+            row.latitude !== null && row.longitude !== null
+              ? { latitude: parseFloat(row.latitude), longitude: parseFloat(row.longitude) }
+              : null,
+          updatedAt: row.updated_at,
+        },
+      };
+    } catch (error) {
+      logger.error('Error getting hospital service area', { error, hospitalId });
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      throw new ApiError(500, 'Failed to get hospital service area');
+    }
+  }
+
+  /**
+   * Replace the hospital's service area
+   * @param hospitalId Hospital ID
+   * @param userId Hospital account changing the area
+   * @param area New service area
+   * @returns Response with the service area
+   */
+  async updateServiceArea(
+    hospitalId: string,
+    userId: string,
+    area: ServiceArea,
+  ): Promise<ServiceAreaResponse> {
+    try {
+      if (area.type === ServiceAreaType.RADIUS) {
+        const hospitalResult: QueryResult = await pool.query(
+          `SELECT 1 FROM hospitals
+           WHERE id = $1 AND latitude IS NOT NULL AND longitude IS NOT NULL`,
+          [hospitalId],
+        );
+
+        if (hospitalResult.rows.length === 0) {
+          throw new ApiError(
+            400,
+            "A radius is measured from the hospital's location, which has not been set",
+          );
+        }
+      }
+
+      await pool.query(
+        `INSERT INTO hospital_service_areas (
+          hospital_id, area_type, radius_km, boundary, shape, updated_by, updated_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, NOW())
+        ON CONFLICT (hospital_id) DO UPDATE SET
+          area_type = EXCLUDED.area_type,
+          radius_km = EXCLUDED.radius_km,
+          boundary = EXCLUDED.boundary,
+          shape = EXCLUDED.shape,
+          updated_by = EXCLUDED.updated_by,
+          updated_at = EXCLUDED.updated_at`,
+        [
+          hospitalId,
+          area.type,
+          area.type === ServiceAreaType.RADIUS ? area.radiusKm : null,
+          area.type === ServiceAreaType.POLYGON ? JSON.stringify(area.boundary) : null,
+          area.type === ServiceAreaType.POLYGON ? polygonLiteral(area.boundary) : null,
+          userId,
+        ],
+      );
+    } catch (error) {
+      logger.error('Error updating hospital service area', { error, hospitalId });
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      throw new ApiError(500, 'Failed to update hospital service area');
+    }
+
+    const result = await this.getServiceArea(hospitalId);
+    return { ...result, message: 'Service area updated successfully' };
+  }
+
+  /**
+   * Check whether a hospital may see a pending request: it is offered to the hospital or
+   * picked up inside its service area
+   * @param hospitalId Hospital ID
+   * @param requestId Emergency request ID
+   * @param db Pool or the client of an open transaction
+   * @returns True if the hospital may see the request
+   */
+  async canSeeRequest(
+    hospitalId: string,
+    requestId: string,
+    db: Pool | PoolClient = pool,
+  ): Promise<boolean> {
+    const hospitalResult: QueryResult = await db.query(
+      `SELECT h.latitude, h.longitude, hsa.area_type, hsa.radius_km, hsa.boundary
+       FROM hospitals h
+       LEFT JOIN hospital_service_areas hsa ON hsa.hospital_id = h.id
+       WHERE h.id = $1`,
+      [hospitalId],
+    );
+
+    if (hospitalResult.rows.length === 0) {
+      return false;
+    }
+
+    const visible = visibleRequestQuery(
+      '$1',
+      hospitalResult.rows[0],
+      config.serviceArea.defaultRadiusKm,
+      3,
+    );
+    const result: QueryResult = await db.query(
+      `SELECT 1 FROM emergency_requests er WHERE er.id = $2 AND ${visible.condition}`,
+      [hospitalId, requestId, ...visible.params],
+    );
+
+    return result.rows.length > 0;
+  }
+
+  /**
+   * Active, approved hospitals that may see a pending request: those it is offered to and those
+   * whose service area holds the pickup. The counterpart of `canSeeRequest` for telling
+   * hospitals about the request.
+   * @param requestId Emergency request ID
+   * @param db Pool or the client of an open transaction
+   * @returns Hospital IDs
+   */
+  async hospitalsServing(requestId: string, db: Pool | PoolClient = pool): Promise<string[]> {
+    const requestResult: QueryResult = await db.query(
+      'SELECT pickup_latitude, pickup_longitude FROM emergency_requests WHERE id = $1',
+      [requestId],
+    );
+
+    if (requestResult.rows.length === 0) {
+      return [];
+    }
+
+    const pickup = {
+      latitude: parseFloat(requestResult.rows[0].pickup_latitude),
+      longitude: parseFloat(requestResult.rows[0].pickup_longitude),
+    };
+    // No radius is wider than maxRadiusKm, so hospitals farther away cannot reach the pickup
+    const { defaultRadiusKm, maxRadiusKm } = config.serviceArea;
+    const proximity = proximityQuery('h.latitude', 'h.longitude', pickup, maxRadiusKm, 5);
+
+    const result: QueryResult = await db.query(
+      `SELECT h.id
+       FROM hospitals h
+       LEFT JOIN hospital_service_areas hsa ON hsa.hospital_id = h.id
+       WHERE h.is_active = true AND h.is_approved = true
+       AND (
+         EXISTS (
+           SELECT 1 FROM emergency_offers eo
+           WHERE eo.emergency_id = $1 AND eo.hospital_id = h.id AND eo.status = 'offered'
+         )
+         OR (hsa.area_type = 'polygon' AND hsa.shape @> point($3::float8, $2::float8))
+         OR (
+           COALESCE(hsa.area_type, 'radius') = 'radius'
+           AND h.latitude IS NOT NULL AND h.longitude IS NOT NULL
+           AND ${proximity.condition}
+           AND ${proximity.distance} <= COALESCE(hsa.radius_km::float8, $4::float8)
+         )
+       )`,
+      [requestId, pickup.latitude, pickup.longitude, defaultRadiusKm, ...proximity.params],
+    );
+
+    return result.rows.map((row) => row.id);
+  }
+}
+
+export default new ServiceAreaService();
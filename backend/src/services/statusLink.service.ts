@@ -0,0 +1,186 @@
+import crypto from 'crypto';
+import { Pool, PoolClient, QueryResult } from 'pg';
+import pool from '../database/connection';
+import config from '../config';
+import { ApiError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+import { OPEN_REQUEST_STATUSES } from '../utils/emergencyLifecycle';
+
+const hashToken = (token: string): string =>
+  crypto.createHash('sha256').update(token).digest('hex');
+
+/**
+ * What someone holding a status link can see: progress only, no medical details or
+ * locations
+ */
+export interface PublicEmergencyStatus {
+  status: string;
+  patientFirstName: string;
+  createdAt: Date;
+  acceptedAt: Date | null;
+  completedAt: Date | null;
+  cancelledAt: Date | null;
+  hospital: {
+    name: string;
+    address: string;
+    phoneNumber: string;
+  } | null;
+  ambulance: {
+    status: string;
+    estimatedArrival: Date | null;
+    etaMinutes: number | null;
+    arrivedAt: Date | null;
+  } | null;
+}
+
+interface PublicEmergencyStatusResponse {
+  success: boolean;
+  data: PublicEmergencyStatus;
+}
+
+interface StatusLinkResponse {
+  success: boolean;
+  data: {
+    url: string;
+  };
+}
+
+/**
+ * Read-only links to an emergency's progress for people without an account, such as the
+ * patient's emergency contacts. Only token hashes are stored.
+ */
+export class StatusLinkService {
+  /**
+   * Create a new status link for an emergency request
+   * @param requestId Emergency request ID
+   * @param db Pool or client holding the caller's transaction
+   * @returns URL of the status page in the frontend
+   */
+  async issue(requestId: string, db: Pool | PoolClient = pool): Promise<string> {
+    const token = crypto.randomBytes(32).toString('base64url');
+
+    await db.query(
+      `INSERT INTO emergency_status_links (emergency_id, token_hash) VALUES ($1, $2)`,
+      [requestId, hashToken(token)],
+    );
+
+    return `${config.mail.appUrl}/status/${encodeURIComponent(token)}`;
+  }
+
+  /**
+   * Create a status link the patient can share themselves
+   * @param requestId Emergency request ID
+   * @param userId User ID
+   * @returns Response with the link
+   */
+  async createForUser(requestId: string, userId: string): Promise<StatusLinkResponse> {
+    try {
+      const requestResult: QueryResult = await pool.query(
+        `SELECT status FROM emergency_requests WHERE id = $1 AND user_id = $2`,
+        [requestId, userId],
+      );
+
+      if (requestResult.rows.length === 0) {
+        throw new ApiError(404, 'Emergency request not found');
+      }
+
+      if (!OPEN_REQUEST_STATUSES.includes(requestResult.rows[0].status)) {
+        throw new ApiError(400, 'Status links can only be shared for open emergency requests');
+      }
+
+      return {
+        success: true,
+        data: { url: await this.issue(requestId) },
+      };
+    } catch (error) {
+      logger.error('Error creating emergency status link', { error });
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      throw new ApiError(500, 'Failed to create status link');
+    }
+  }
+
+  /**
+   * Get an emergency's progress through a status link. Links work while the request is open
+   * and for a while after it is completed or cancelled.
+   * @param token Token from the link
+   * @returns Response with the public status
+   */
+  async getStatus(token: string): Promise<PublicEmergencyStatusResponse> {
+    try {
+      const result: QueryResult = await pool.query(
+        `SELECT er.status, er.created_at, er.accepted_at, er.completed_at, er.cancelled_at,
+                er.estimated_arrival_time, er.actual_arrival_time,
+                u.first_name,
+                h.name as hospital_name, h.address as hospital_address, h.phone as hospital_phone,
+                ea.status as assignment_status, ea.arrived_at
+         FROM emergency_status_links sl
+         JOIN emergency_requests er ON sl.emergency_id = er.id
+         JOIN users u ON er.user_id = u.id
+         LEFT JOIN hospitals h ON er.hospital_id = h.id
+         LEFT JOIN LATERAL (
+           SELECT status, arrived_at FROM emergency_assignments
+           WHERE emergency_id = er.id
+           ORDER BY assigned_at DESC
+           LIMIT 1
+         ) ea ON true
+         WHERE sl.token_hash = $1
+         AND (
+           er.status = ANY($2)
+           OR COALESCE(er.completed_at, er.cancelled_at, er.updated_at)
+              > NOW() - $3 * INTERVAL '1 hour'
+         )`,
+        [hashToken(token), OPEN_REQUEST_STATUSES, config.contactNotifications.statusLinkTtlHours],
+      );
+
+      if (result.rows.length === 0) {
+        throw new ApiError(404, 'Status link not found or expired');
+      }
+
+      const row = result.rows[0];
+      const estimatedArrival: Date | null = row.estimated_arrival_time;
+
+      return {
+        success: true,
+        data: {
+          status: row.status,
+          patientFirstName: row.first_name,
+          createdAt: row.created_at,
+          acceptedAt: row.accepted_at,
+          completedAt: row.completed_at,
+          cancelledAt: row.cancelled_at,
+          hospital: row.hospital_name
+            ? {
+                name: row.hospital_name,
+                address: row.hospital_address,
+                phoneNumber: row.hospital_phone,
+              }
+            : null,
+          ambulance: row.assignment_status
+            ? {
+                status: row.assignment_status,
+                estimatedArrival,
+                etaMinutes:
+                  estimatedArrival && !row.actual_arrival_time
+                    ? Math.max(
+                        0,
+                        Math.ceil((new Date(estimatedArrival).getTime() - Date.now()) / 60000),
+                      )
+                    : null,
+                arrivedAt: row.arrived_at,
+              }
+            : null,
+        },
+      };
+    } catch (error) {
+      logger.error('Error getting emergency status from link', { error });
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      throw new ApiError(500, 'Failed to get emergency status');
+    }
+  }
+}
+
+export default new StatusLinkService();
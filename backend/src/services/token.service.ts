@@ -0,0 +1,218 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { Pool, PoolClient, QueryResult } from 'pg';
+import pool from '../database/connection';
+import config from '../config';
+import { ApiError } from '../middleware/errorHandler';
+import { UserRole } from '../middleware/auth';
+import { logger } from '../utils/logger';
+
+/**
+ * Access and refresh token issued together at sign-in and on every refresh
+ */
+export interface TokenPair {
+  accessToken: string;
+  refreshToken: string;
+}
+
+interface TokenSubject {
+  id: string;
+  role: UserRole;
+}
+
+// Claims of a refresh token; jti is the refresh_tokens row ID
+interface RefreshTokenPayload extends TokenSubject {
+  jti: string;
+  exp: number;
+}
+
+export class TokenService {
+  /**
+   * Sign a short-lived access token
+   * @param subject User the token is issued to
+   * @returns Access token
+   */
+  generateAccessToken(subject: TokenSubject): string {
+    return jwt.sign({ id: subject.id, role: subject.role }, config.jwt.secret, {
+      expiresIn: config.jwt.expiresIn as jwt.SignOptions['expiresIn'],
+    });
+  }
+
+  /**
+   * Issue an access token and a refresh token. Without a family a new session is started.
+   * @param subject User the tokens are issued to
+   * @param familyId Session the refresh token belongs to
+   * @param db Pool or client holding the caller's transaction
+   * @returns Token pair
+   */
+  async issueTokens(
+    subject: TokenSubject,
+    familyId?: string,
+    db: Pool | PoolClient = pool,
+  ): Promise<TokenPair> {
+    if (!familyId) {
+      // Expired tokens are only kept to detect reuse while they could still be presented
+      await db.query(`DELETE FROM refresh_tokens WHERE user_id = $1 AND expires_at <= NOW()`, [
+        subject.id,
+      ]);
+    }
+
+    const tokenId = crypto.randomUUID();
+    const refreshToken = jwt.sign(
+      { id: subject.id, role: subject.role },
+      config.jwt.refreshSecret,
+      {
+        expiresIn: config.jwt.refreshExpiresIn as jwt.SignOptions['expiresIn'],
+        jwtid: tokenId,
+      },
+    );
+    const { exp } = jwt.decode(refreshToken) as RefreshTokenPayload;
+
+    await db.query(
+      `INSERT INTO refresh_tokens (id, user_id, family_id, expires_at)
+       VALUES ($1, $2, $3, to_timestamp($4))`,
+      [tokenId, subject.id, familyId || crypto.randomUUID(), exp],
+    );
+
+    return {
+      accessToken: this.generateAccessToken(subject),
+      refreshToken,
+    };
+  }
+
+  /**
+   * Exchange a refresh token for a new token pair. The presented token is revoked; presenting
+   * it again means it leaked, so the whole session is revoked.
+   * @param refreshToken Refresh token
+   * @returns New token pair
+   */
+  async rotateRefreshToken(refreshToken: string): Promise<TokenPair> {
+    const payload = this.verifyRefreshToken(refreshToken, false);
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const tokenResult: QueryResult = await client.query(
+        `SELECT rt.id, rt.family_id, rt.revoked_at, rt.replaced_by, u.role, u.is_active
+         FROM refresh_tokens rt
+         JOIN users u ON rt.user_id = u.id
+         WHERE rt.id = $1
+         FOR UPDATE OF rt`,
+        [payload.jti],
+      );
+
+      if (tokenResult.rows.length === 0) {
+        throw new ApiError(401, 'Invalid or expired refresh token');
+      }
+
+      const token = tokenResult.rows[0];
+
+      if (token.revoked_at && token.replaced_by) {
+        await this.revokeFamily(client, token.family_id);
+        await client.query('COMMIT');
+        logger.warn(`Refresh token ${token.id} was reused; revoked session ${token.family_id}`);
+        throw new ApiError(401, 'Refresh token has already been used; please sign in again');
+      }
+
+      if (token.revoked_at) {
+        throw new ApiError(401, 'Refresh token has been revoked');
+      }
+
+      if (token.is_active === false) {
+        await this.revokeFamily(client, token.family_id);
+        await client.query('COMMIT');
+        throw new ApiError(403, 'Account is suspended');
+      }
+
+      // The role is read again so a changed account does not keep its old permissions
+      const tokens = await this.issueTokens(
+        { id: payload.id, role: token.role },
+        token.family_id,
+        client,
+      );
+      const { jti: replacementId } = jwt.decode(tokens.refreshToken) as RefreshTokenPayload;
+
+      await client.query(
+        `UPDATE refresh_tokens SET revoked_at = NOW(), replaced_by = $2 WHERE id = $1`,
+        [token.id, replacementId],
+      );
+
+      await client.query('COMMIT');
+
+      return tokens;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      logger.error('Error refreshing token', { error });
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      throw new ApiError(500, 'Failed to refresh token');
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Revoke the session a refresh token belongs to. Expired tokens are accepted so clients can
+   * always sign out.
+   * @param refreshToken Refresh token
+   */
+  async revokeSession(refreshToken: string): Promise<void> {
+    const payload = this.verifyRefreshToken(refreshToken, true);
+
+    try {
+      const tokenResult: QueryResult = await pool.query(
+        `SELECT family_id FROM refresh_tokens WHERE id = $1`,
+        [payload.jti],
+      );
+
+      if (tokenResult.rows.length > 0) {
+        await this.revokeFamily(pool, tokenResult.rows[0].family_id);
+      }
+    } catch (error) {
+      logger.error('Error revoking session', { error });
+      throw new ApiError(500, 'Failed to sign out');
+    }
+  }
+
+  /**
+   * Revoke every session of a user. Access tokens already issued stay valid until they expire.
+   * @param userId User ID
+   * @param db Pool or client holding the caller's transaction
+   * @returns Number of sessions revoked
+   */
+  async revokeAllSessions(userId: string, db: Pool | PoolClient = pool): Promise<number> {
+    const result: QueryResult = await db.query(
+      `UPDATE refresh_tokens SET revoked_at = NOW()
+       WHERE user_id = $1 AND revoked_at IS NULL AND expires_at > NOW()
+       RETURNING family_id`,
+      [userId],
+    );
+
+    return new Set(result.rows.map((row) => row.family_id)).size;
+  }
+
+  private async revokeFamily(db: Pool | PoolClient, familyId: string): Promise<void> {
+    await db.query(
+      `UPDATE refresh_tokens SET revoked_at = NOW() WHERE family_id = $1 AND revoked_at IS NULL`,
+      [familyId],
+    );
+  }
+
+  private verifyRefreshToken(refreshToken: string, ignoreExpiration: boolean): RefreshTokenPayload {
+    try {
+      const payload = jwt.verify(refreshToken, config.jwt.refreshSecret, {
+        ignoreExpiration,
+      }) as RefreshTokenPayload;
+      if (!payload.jti || !payload.id) {
+        throw new Error('Refresh token is missing claims');
+      }
+      return payload;
+    } catch {
+      throw new ApiError(401, 'Invalid or expired refresh token');
+    }
+  }
+}
+
+export default new TokenService();
@@ -0,0 +1,370 @@
+import { QueryResult } from 'pg';
+import pool from '../database/connection';
+import config from '../config';
+import { ApiError } from '../middleware/errorHandler';
+import { UserRole } from '../middleware/auth';
+import { logger } from '../utils/logger';
+import { Driver } from '../models/driver.model';
+import { calculateDistance } from '../utils/locationUtils';
+import { ACTIVE_ASSIGNMENT_STATUSES } from '../utils/emergencyLifecycle';
+import { EtaService } from './eta.service';
+import { AuditService, EmergencyEventType, EventActor } from './audit.service';
+import { emitEmergencyEvent, SocketEvent } from '../socket/emitter';
+
+export interface LocationUpdateData {
+  latitude: number;
+  longitude: number;
+  heading?: number;
+  speed?: number;
+  accuracy?: number;
+}
+
+const isInRange = (value: unknown, min: number, max: number) =>
+  typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max;
+
+/**
+ * Validate a location payload sent over the socket (mirrors the PUT /driver/location rules)
+ * @param data Payload received from the client
+ * @returns Error message, or null when the payload is valid
+ */
+export const validateLocationUpdate = (
+  data: Partial<LocationUpdateData> | undefined,
+): string | null => {
+  if (!data || !isInRange(data.latitude, -90, 90)) {
+    return 'Latitude must be a valid coordinate between -90 and 90';
+  }
+  if (!isInRange(data.longitude, -180, 180)) {
+    return 'Longitude must be a valid coordinate between -180 and 180';
+  }
+  if (data.heading !== undefined && !isInRange(data.heading, 0, 360)) {
+    return 'Heading must be between 0 and 360 degrees';
+  }
+  if (data.speed !== undefined && !isInRange(data.speed, 0, Infinity)) {
+    return 'Speed must be a positive number';
+  }
+  if (data.accuracy !== undefined && !isInRange(data.accuracy, 0, Infinity)) {
+    return 'Accuracy must be a positive number';
+  }
+  return null;
+};
+
+interface LocationPoint {
+  latitude: number;
+  longitude: number;
+  recordedAt: Date;
+}
+
+interface LocationUpdateResponse {
+  success: boolean;
+  message: string;
+  data: {
+    latitude: number;
+    longitude: number;
+    updatedAt: Date;
+    assignmentId: string | null;
+  };
+}
+
+interface TrackingResponse {
+  success: boolean;
+  data: {
+    requestId: string;
+    assignmentId: string;
+    assignmentStatus: string;
+    driver: {
+      id: string;
+      name: string;
+      vehicleType: string | null;
+      vehicleRegistration: string | null;
+    };
+    currentLocation: LocationPoint | null;
+    trail: LocationPoint[];
+  } | null;
+}
+
+export class TrackingService {
+  private driverModel: Driver;
+  private etaService: EtaService;
+  private auditService: AuditService;
+
+  constructor() {
+    this.driverModel = new Driver();
+    this.etaService = new EtaService();
+    this.auditService = new AuditService();
+  }
+
+  /**
+   * Record a driver's current position. While the driver has an open assignment the
+   * position is also appended to the assignment's trail and pushed to its followers, and
+   * location milestones are added to the emergency's audit trail.
+   * @param driverId Driver ID
+   * @param userId User ID of the driver
+   * @param location Reported position
+   * @returns Response with the stored position
+   */
+  async updateDriverLocation(
+    driverId: string,
+    userId: string,
+    location: LocationUpdateData,
+  ): Promise<LocationUpdateResponse> {
+    try {
+      const driverRecord = await this.driverModel.updateLocation(
+        driverId,
+        location.latitude,
+        location.longitude,
+      );
+
+      if (!driverRecord) {
+        throw new ApiError(404, 'Driver not found');
+      }
+
+      const assignmentQuery = `
+        SELECT ea.id, ea.emergency_id, er.user_id, er.hospital_id,
+               er.pickup_latitude, er.pickup_longitude
+        FROM emergency_assignments ea
+        JOIN emergency_requests er ON ea.emergency_id = er.id
+        WHERE ea.driver_id = $1
+        AND ea.status = ANY($2)
+        ORDER BY ea.assigned_at DESC
+        LIMIT 1
+      `;
+
+      const assignmentResult: QueryResult = await pool.query(assignmentQuery, [
+        driverRecord.id,
+        ACTIVE_ASSIGNMENT_STATUSES,
+      ]);
+      const assignment = assignmentResult.rows[0];
+
+      if (assignment) {
+        await pool.query(
+          `INSERT INTO driver_location_history (
+            assignment_id, driver_id, latitude, longitude, heading, speed_kmh, accuracy_m
+          ) VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+          [
+            assignment.id,
+            driverRecord.id,
+            location.latitude,
+            location.longitude,
+            location.heading ?? null,
+            location.speed ?? null,
+            location.accuracy ?? null,
+          ],
+        );
+
+        await this.recordLocationMilestones(
+          assignment,
+          { id: userId, role: UserRole.DRIVER },
+          location,
+        );
+
+        emitEmergencyEvent(
+          SocketEvent.DRIVER_LOCATION_UPDATED,
+          {
+            requestId: assignment.emergency_id,
+            userId: assignment.user_id,
+            hospitalId: assignment.hospital_id,
+          },
+          {
+            assignmentId: assignment.id,
+            latitude: location.latitude,
+            longitude: location.longitude,
+            heading: location.heading ?? null,
+            speed: location.speed ?? null,
+          },
+        );
+
+        await this.etaService.refreshEstimate(assignment.emergency_id);
+      }
+
+      return {
+        success: true,
+        message: 'Location updated successfully',
+        data: {
+          latitude: location.latitude,
+          longitude: location.longitude,
+          updatedAt: driverRecord.last_location_update!,
+          assignmentId: assignment?.id || null,
+        },
+      };
+    } catch (error) {
+      logger.error('Error updating driver location', { error });
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      throw new ApiError(500, 'Failed to update driver location');
+    }
+  }
+
+  /**
+   * Get the ambulance position and trail for an emergency owned by a user
+   * @param requestId Emergency request ID
+   * @param userId User ID
+   * @returns Response with tracking data
+   */
+  async getTrackingForUser(requestId: string, userId: string): Promise<TrackingResponse> {
+    const result: QueryResult = await pool.query(
+      'SELECT id FROM emergency_requests WHERE id = $1 AND user_id = $2',
+      [requestId, userId],
+    );
+
+    if (result.rows.length === 0) {
+      throw new ApiError(404, 'Emergency request not found');
+    }
+
+    return this.getTracking(requestId);
+  }
+
+  /**
+   * Get the ambulance position and trail for an emergency handled by a hospital
+   * @param requestId Emergency request ID
+   * @param hospitalId Hospital ID
+   * @returns Response with tracking data
+   */
+  async getTrackingForHospital(requestId: string, hospitalId: string): Promise<TrackingResponse> {
+    const result: QueryResult = await pool.query(
+      `SELECT id FROM emergency_requests WHERE id = $1 AND hospital_id = $2`,
+      [requestId, hospitalId],
+    );
+
+    if (result.rows.length === 0) {
+      throw new ApiError(404, 'Emergency request not found or not assigned to this hospital');
+    }
+
+    return this.getTracking(requestId);
+  }
+
+  /**
+   * Record the first position reported for an assignment and the moment the ambulance
+   * comes within `config.tracking.approachingPickupRadiusMeters` of the pickup, once each
+   */
+  private async recordLocationMilestones(
+    assignment: {
+      id: string;
+      emergency_id: string;
+      pickup_latitude: string;
+      pickup_longitude: string;
+    },
+    actor: EventActor,
+    location: LocationUpdateData,
+  ) {
+    const recorded = await this.auditService.getAssignmentEventTypes(
+      assignment.emergency_id,
+      assignment.id,
+    );
+
+    if (!recorded.includes(EmergencyEventType.FIRST_LOCATION)) {
+      await this.auditService.record(
+        pool,
+        assignment.emergency_id,
+        EmergencyEventType.FIRST_LOCATION,
+        actor,
+        { assignmentId: assignment.id, latitude: location.latitude, longitude: location.longitude },
+      );
+    }
+
+    const distanceMeters =
+      calculateDistance(
+        location.latitude,
+        location.longitude,
+        parseFloat(assignment.pickup_latitude),
+        parseFloat(assignment.pickup_longitude),
+      ) * 1000;
+
+    if (
+      !recorded.includes(EmergencyEventType.APPROACHING_PICKUP) &&
+      distanceMeters <= config.tracking.approachingPickupRadiusMeters
+    ) {
+      await this.auditService.record(
+        pool,
+        assignment.emergency_id,
+        EmergencyEventType.APPROACHING_PICKUP,
+        actor,
+        {
+          assignmentId: assignment.id,
+          latitude: location.latitude,
+          longitude: location.longitude,
+          distanceMeters: Math.round(distanceMeters),
+        },
+      );
+    }
+  }
+
+  /**
+   * Build tracking data for the most recent assignment of an emergency
+   */
+  private async getTracking(requestId: string): Promise<TrackingResponse> {
+    try {
+      const assignmentQuery = `
+        SELECT
+          ea.id as assignment_id, ea.status,
+          d.id as driver_id, d.vehicle_type, d.vehicle_registration,
+          d.current_latitude, d.current_longitude, d.last_location_update,
+          u.first_name, u.last_name
+        FROM emergency_assignments ea
+        JOIN drivers d ON ea.driver_id = d.id
+        JOIN users u ON d.user_id = u.id
+        WHERE ea.emergency_id = $1
+        ORDER BY ea.assigned_at DESC
+        LIMIT 1
+      `;
+
+      const assignmentResult: QueryResult = await pool.query(assignmentQuery, [requestId]);
+
+      // No driver has been assigned yet
+      if (assignmentResult.rows.length === 0) {
+        return {
+          success: true,
+          data: null,
+        };
+      }
+
+      const assignment = assignmentResult.rows[0];
+
+      const trailResult: QueryResult = await pool.query(
+        `SELECT latitude, longitude, recorded_at
+         FROM driver_location_history
+         WHERE assignment_id = $1
+         ORDER BY recorded_at ASC`,
+        [assignment.assignment_id],
+      );
+
+      const trail = trailResult.rows.map((row) => ({
+        latitude: parseFloat(row.latitude),
+        longitude: parseFloat(row.longitude),
+        recordedAt: row.recorded_at,
+      }));
+
+      // Fall back to the driver's last known position before the first breadcrumb arrives
+      const currentLocation =
+        trail.length > 0
+          ? trail[trail.length - 1]
+          : assignment.current_latitude !== null
+            ? {
+                latitude: parseFloat(assignment.current_latitude),
+                longitude: parseFloat(assignment.current_longitude),
+                recordedAt: assignment.last_location_update,
+              }
+            : null;
+
+      return {
+        success: true,
+        data: {
+          requestId,
+          assignmentId: assignment.assignment_id,
+          assignmentStatus: assignment.status,
+          driver: {
+            id: assignment.driver_id,
+            name: `${assignment.first_name} ${assignment.last_name}`,
+            vehicleType: assignment.vehicle_type,
+            vehicleRegistration: assignment.vehicle_registration,
+          },
+          currentLocation,
+          trail,
+        },
+      };
+    } catch (error) {
+      logger.error('Error getting emergency tracking', { error });
+      throw new ApiError(500, 'Failed to get emergency tracking');
+    }
+  }
+}
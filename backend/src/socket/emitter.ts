@@ -0,0 +1,132 @@
+import { Server } from 'socket.io';
+import { logger } from '../utils/logger';
+
+// Events pushed to connected clients
+export enum SocketEvent {
+  EMERGENCY_CREATED = 'emergency:created',
+  EMERGENCY_OFFERED = 'emergency:offered',
+  EMERGENCY_ACCEPTED = 'emergency:accepted',
+  EMERGENCY_DRIVER_ASSIGNED = 'emergency:driver_assigned',
+  EMERGENCY_CANCELLED = 'emergency:cancelled',
+  EMERGENCY_REASSIGNED = 'emergency:reassigned',
+  EMERGENCY_TRIAGED = 'emergency:triaged',
+  EMERGENCY_ETA_UPDATED = 'emergency:eta_updated',
+  ASSIGNMENT_STATUS_CHANGED = 'assignment:status_changed',
+  DRIVER_LOCATION_UPDATED = 'driver:location_updated',
+  CHAT_MESSAGE = 'chat:message',
+  CHAT_READ = 'chat:read',
+  HOSPITAL_REVIEWED = 'hospital:reviewed',
+  HOSPITAL_DIVERSION_CHANGED = 'hospital:diversion_changed',
+}
+
+// Room naming helpers shared by the connection handler and the emitters
+export const rooms = {
+  user: (userId: string) => `user:${userId}`,
+  hospital: (hospitalId: string) => `hospital:${hospitalId}`,
+  driver: (driverId: string) => `driver:${driverId}`,
+  emergency: (requestId: string) => `emergency:${requestId}`,
+};
+
+// Parties of an emergency that should hear about a change
+export interface EmergencyAudience {
+  requestId: string;
+  userId?: string | null;
+  hospitalId?: string | null;
+  driverId?: string | null;
+  // Further hospitals, e.g. those that may see a pending request
+  hospitalIds?: string[];
+}
+
+let io: Server | null = null;
+
+/**
+ * Register the Socket.IO server used by the emit helpers
+ * @param server Socket.IO server
+ */
+export const setSocketServer = (server: Server) => {
+  io = server;
+};
+
+/**
+ * Emit an emergency event to the emergency room and to every party listed in the audience
+ * @param event Event name
+ * @param audience Parties that should receive the event
+ * @param payload Event payload
+ */
+export const emitEmergencyEvent = (
+  event: SocketEvent,
+  audience: EmergencyAudience,
+  payload: Record<string, unknown>,
+) => {
+  if (!io) {
+    return;
+  }
+
+  const targets = [rooms.emergency(audience.requestId)];
+
+  if (audience.userId) targets.push(rooms.user(audience.userId));
+  if (audience.hospitalId) targets.push(rooms.hospital(audience.hospitalId));
+  if (audience.driverId) targets.push(rooms.driver(audience.driverId));
+  if (audience.hospitalIds) targets.push(...audience.hospitalIds.map(rooms.hospital));
+
+  try {
+    // Socket.IO de-duplicates sockets that are in more than one of the target rooms
+    io.to(targets).emit(event, {
+      requestId: audience.requestId,
+      ...payload,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    logger.error('Error emitting socket event', { error, event });
+  }
+};
+
+/**
+ * Emit an event to every socket of a single user, e.g. about a change to their account
+ * @param event Event name
+ * @param userId User ID
+ * @param payload Event payload
+ */
+export const emitUserEvent = (
+  event: SocketEvent,
+  userId: string,
+  payload: Record<string, unknown>,
+) => {
+  if (!io) {
+    return;
+  }
+
+  try {
+    io.to(rooms.user(userId)).emit(event, {
+      ...payload,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    logger.error('Error emitting socket event', { error, event });
+  }
+};
+
+/**
+ * Emit an event to the rooms of one or more hospitals, e.g. about a change at a neighbour
+ * @param event Event name
+ * @param hospitalIds Hospital IDs (hospitals.id)
+ * @param payload Event payload
+ */
+export const emitHospitalEvent = (
+  event: SocketEvent,
+  hospitalIds: string[],
+  payload: Record<string, unknown>,
+) => {
+  if (!io || hospitalIds.length === 0) {
+    return;
+  }
+
+  try {
+    io.to(hospitalIds.map(rooms.hospital)).emit(event, {
+      ...payload,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    logger.error('Error emitting socket event', { error, event });
+  }
+};
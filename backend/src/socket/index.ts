@@ -0,0 +1,272 @@
+import http from 'http';
+import jwt from 'jsonwebtoken';
+import { Server, Socket } from 'socket.io';
+import { QueryResult } from 'pg';
+import pool from '../database/connection';
+import config from '../config';
+import { logger } from '../utils/logger';
+import { JwtPayload, resolveTokenUser, UserRole } from '../middleware/auth';
+import { ApiError } from '../middleware/errorHandler';
+import {
+  LocationUpdateData,
+  TrackingService,
+  validateLocationUpdate,
+} from '../services/tracking.service';
+import { ChatService } from '../services/chat.service';
+import { ServiceAreaService } from '../services/serviceArea.service';
+import { rooms, setSocketServer } from './emitter';
+
+// Identity resolved during the socket handshake
+interface SocketUser {
+  id: string;
+  role: UserRole;
+  hospitalId?: string;
+  hospitalApproved?: boolean;
+  driverId?: string;
+}
+
+type Ack = (response: { success: boolean; error?: string; data?: unknown }) => void;
+
+const trackingService = new TrackingService();
+const chatService = new ChatService();
+const serviceAreaService = new ServiceAreaService();
+
+/**
+ * Resolve the hospital or driver profile behind an authenticated user
+ * @param payload Verified JWT payload
+ * @returns Socket identity
+ */
+const resolveSocketUser = async (payload: JwtPayload): Promise<SocketUser> => {
+  const tokenUser = await resolveTokenUser(payload);
+
+  if (!tokenUser) {
+    throw new Error('Account is no longer valid');
+  }
+
+  const user: SocketUser = {
+    id: tokenUser.id,
+    role: tokenUser.role,
+    hospitalId: tokenUser.hospitalId,
+    driverId: tokenUser.driverId,
+  };
+
+  if (user.hospitalId) {
+    const result: QueryResult = await pool.query(
+      'SELECT is_approved FROM hospitals WHERE id = $1',
+      [user.hospitalId],
+    );
+    user.hospitalApproved = result.rows[0]?.is_approved === true;
+  }
+
+  return user;
+};
+
+/**
+ * Check whether a socket user may follow a given emergency
+ * @param user Socket identity
+ * @param requestId Emergency request ID
+ * @returns True if the user takes part in the emergency
+ */
+const canAccessEmergency = async (user: SocketUser, requestId: string): Promise<boolean> => {
+  const query = `
+    SELECT er.user_id, er.hospital_id, er.status,
+      EXISTS (
+        SELECT 1 FROM emergency_assignments ea
+        WHERE ea.emergency_id = er.id AND ea.driver_id = $2
+      ) as is_assigned_driver
+    FROM emergency_requests er
+    WHERE er.id = $1
+  `;
+
+  const result: QueryResult = await pool.query(query, [requestId, user.driverId || null]);
+
+  if (result.rows.length === 0) {
+    return false;
+  }
+
+  const request = result.rows[0];
+
+  switch (user.role) {
+    case UserRole.USER:
+      return request.user_id === user.id;
+    case UserRole.HOSPITAL:
+      if (!user.hospitalId) {
+        return false;
+      }
+      if (request.hospital_id === user.hospitalId) {
+        return true;
+      }
+      // Until one accepts, pending requests are visible to the hospitals they are offered to
+      // and those whose service area holds the pickup
+      return (
+        request.status === 'pending' &&
+        user.hospitalApproved === true &&
+        (await serviceAreaService.canSeeRequest(user.hospitalId, requestId))
+      );
+    case UserRole.DRIVER:
+      return request.is_assigned_driver;
+    case UserRole.ADMIN:
+      return true;
+    default:
+      return false;
+  }
+};
+
+/**
+ * Attach subscription handlers to a connected socket
+ * @param socket Connected socket
+ */
+const registerHandlers = (socket: Socket) => {
+  const user = socket.data.user as SocketUser;
+
+  socket.on('emergency:subscribe', async (data: { requestId?: string }, ack?: Ack) => {
+    try {
+      if (!data?.requestId || !(await canAccessEmergency(user, data.requestId))) {
+        ack?.({ success: false, error: 'Emergency request not found' });
+        return;
+      }
+
+      await socket.join(rooms.emergency(data.requestId));
+      ack?.({ success: true });
+    } catch (error) {
+      logger.error('Error subscribing socket to emergency', { error });
+      ack?.({ success: false, error: 'Failed to subscribe to emergency' });
+    }
+  });
+
+  // Drivers stream their position over the socket as an alternative to PUT /driver/location
+  const { driverId } = user;
+  if (user.role === UserRole.DRIVER && driverId) {
+    socket.on('driver:location', async (data: LocationUpdateData, ack?: Ack) => {
+      const validationError = validateLocationUpdate(data);
+      if (validationError) {
+        ack?.({ success: false, error: validationError });
+        return;
+      }
+
+      try {
+        const result = await trackingService.updateDriverLocation(driverId, user.id, {
+          latitude: data.latitude,
+          longitude: data.longitude,
+          heading: data.heading,
+          speed: data.speed,
+          accuracy: data.accuracy,
+        });
+        ack?.({ success: true, data: result.data });
+      } catch (error) {
+        ack?.({
+          success: false,
+          error: error instanceof ApiError ? error.message : 'Failed to update location',
+        });
+      }
+    });
+  }
+
+  // Participants can chat over the socket as an alternative to the REST endpoints
+  if (user.role !== UserRole.ADMIN) {
+    socket.on('chat:send', async (data: { requestId?: string; message?: unknown }, ack?: Ack) => {
+      const message = typeof data?.message === 'string' ? data.message.trim() : '';
+      if (!data?.requestId || !message || message.length > 1000) {
+        ack?.({ success: false, error: 'Message must be between 1 and 1000 characters' });
+        return;
+      }
+
+      try {
+        const result = await chatService.sendMessage(data.requestId, user, message);
+        ack?.({ success: true, data: result.data });
+      } catch (error) {
+        ack?.({
+          success: false,
+          error: error instanceof ApiError ? error.message : 'Failed to send chat message',
+        });
+      }
+    });
+
+    socket.on('chat:read', async (data: { requestId?: string }, ack?: Ack) => {
+      if (!data?.requestId) {
+        ack?.({ success: false, error: 'Emergency request not found' });
+        return;
+      }
+
+      try {
+        const result = await chatService.markMessagesRead(data.requestId, user);
+        ack?.({ success: true, data: result.data });
+      } catch (error) {
+        ack?.({
+          success: false,
+          error: error instanceof ApiError ? error.message : 'Failed to mark messages as read',
+        });
+      }
+    });
+  }
+
+  socket.on('emergency:unsubscribe', async (data: { requestId?: string }, ack?: Ack) => {
+    if (data?.requestId) {
+      await socket.leave(rooms.emergency(data.requestId));
+    }
+    ack?.({ success: true });
+  });
+};
+
+/**
+ * Create the Socket.IO server with JWT-authenticated connections.
+ * Each socket joins a room for its user and, depending on role, for its hospital or driver
+ * profile. Clients join per-emergency rooms with `emergency:subscribe`.
+ * @param server HTTP server to attach to
+ * @returns Socket.IO server
+ */
+export const initializeSocket = (server: http.Server): Server => {
+  const io = new Server(server, {
+    cors: {
+      origin: '*', // Allow all origins temporarily for debugging
+      methods: ['GET', 'POST'],
+      credentials: true,
+    },
+  });
+
+  // Authenticate the handshake with the same access token used for the REST API
+  io.use(async (socket, next) => {
+    try {
+      const header = socket.handshake.headers.authorization;
+      const token =
+        socket.handshake.auth?.token || (header?.startsWith('Bearer ') ? header.slice(7) : null);
+
+      if (!token) {
+        return next(new Error('Unauthorized - Token required'));
+      }
+
+      const payload = jwt.verify(token, config.jwt.secret) as JwtPayload;
+      socket.data.user = await resolveSocketUser(payload);
+      return next();
+    } catch (error) {
+      logger.warn('Socket authentication failed', { error: (error as Error).message });
+      return next(new Error('Unauthorized - Invalid token'));
+    }
+  });
+
+  io.on('connection', (socket) => {
+    const user = socket.data.user as SocketUser;
+
+    socket.join(rooms.user(user.id));
+
+    if (user.hospitalId) {
+      socket.join(rooms.hospital(user.hospitalId));
+    }
+
+    if (user.driverId) {
+      socket.join(rooms.driver(user.driverId));
+    }
+
+    registerHandlers(socket);
+
+    logger.info(`Socket connected: ${socket.id} (${user.role} ${user.id})`);
+
+    socket.on('disconnect', () => {
+      logger.info(`Socket disconnected: ${socket.id}`);
+    });
+  });
+
+  setSocketServer(io);
+
+  return io;
+};
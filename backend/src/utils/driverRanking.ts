@@ -0,0 +1,82 @@
+import { calculateDistance } from './locationUtils';
+import { Coordinates } from './etaUtils';
+
+export interface DriverCandidate {
+  id: string;
+  name: string;
+  vehicleType: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  lastLocationUpdate: Date | null;
+  recentAssignments: number;
+}
+
+export interface DriverRankingOptions {
+  maxDistanceKm: number;
+  // Each assignment in the workload window weighs as much as this many extra kilometres
+  workloadPenaltyKm: number;
+  // Extra kilometres added per vehicle type, lower is preferred
+  vehiclePenaltyKm: Record<string, number>;
+  defaultVehiclePenaltyKm: number;
+  // Positions older than this are trusted less
+  staleLocationMinutes: number;
+  staleLocationPenaltyKm: number;
+}
+
+export interface RankedDriver extends DriverCandidate {
+  distanceKm: number;
+  score: number;
+}
+
+/**
+ * Rank drivers for a pickup. Each driver's score is the straight-line distance to the
+ * pickup plus penalties for vehicle type, recent workload and stale positions; the lowest
+ * score ranks first. Drivers without a known position or beyond the maximum distance are
+ * left out.
+ * @param candidates Available drivers
+ * @param pickup Pickup coordinates
+ * @param options Ranking weights
+ * @param now Reference time for position staleness
+ * @returns Drivers ordered from best to worst
+ */
+export function rankDrivers(
+  candidates: DriverCandidate[],
+  pickup: Coordinates,
+  options: DriverRankingOptions,
+  now: Date = new Date(),
+): RankedDriver[] {
+  return candidates
+    .filter((driver) => driver.latitude !== null && driver.longitude !== null)
+    .map((driver) => {
+      const distanceKm = calculateDistance(
+        pickup.latitude,
+        pickup.longitude,
+        driver.latitude!,
+        driver.longitude!,
+      );
+
+      const vehicleKey = driver.vehicleType?.trim().toLowerCase() || '';
+      const vehiclePenalty =
+        options.vehiclePenaltyKm[vehicleKey] ?? options.defaultVehiclePenaltyKm;
+
+      const isStale =
+        !driver.lastLocationUpdate ||
+        now.getTime() - new Date(driver.lastLocationUpdate).getTime() >
+          options.staleLocationMinutes * 60 * 1000;
+
+      const score =
+        distanceKm +
+        vehiclePenalty +
+        driver.recentAssignments * options.workloadPenaltyKm +
+        (isStale ? options.staleLocationPenaltyKm : 0);
+
+      return { ...driver, distanceKm: Math.round(distanceKm * 100) / 100, score };
+    })
+    .filter((driver) => driver.distanceKm <= options.maxDistanceKm)
+    .sort(
+      (a, b) =>
+        a.score - b.score ||
+        a.recentAssignments - b.recentAssignments ||
+        a.distanceKm - b.distanceKm,
+    );
+}
@@ -0,0 +1,155 @@
+/**
+ * States an emergency request moves through, from the SOS to the patient's hand-over
+ */
+export enum EmergencyStatus {
+  PENDING = 'pending',
+  ACCEPTED = 'accepted',
+  ASSIGNED = 'assigned',
+  IN_PROGRESS = 'in_progress',
+  COMPLETED = 'completed',
+  CANCELLED = 'cancelled',
+}
+
+/**
+ * Stages of a driver's assignment to an emergency request
+ */
+export enum AssignmentStatus {
+  ASSIGNED = 'assigned',
+  EN_ROUTE = 'en_route',
+  ARRIVED = 'arrived',
+  PATIENT_ONBOARD = 'patient_onboard',
+  AT_HOSPITAL = 'at_hospital',
+  COMPLETED = 'completed',
+  CANCELLED = 'cancelled',
+}
+
+const REQUEST_TRANSITIONS: Record<EmergencyStatus, EmergencyStatus[]> = {
+  [EmergencyStatus.PENDING]: [EmergencyStatus.ACCEPTED, EmergencyStatus.CANCELLED],
+  [EmergencyStatus.ACCEPTED]: [EmergencyStatus.ASSIGNED, EmergencyStatus.CANCELLED],
+  [EmergencyStatus.ASSIGNED]: [EmergencyStatus.IN_PROGRESS, EmergencyStatus.CANCELLED],
+  [EmergencyStatus.IN_PROGRESS]: [EmergencyStatus.COMPLETED, EmergencyStatus.CANCELLED],
+  [EmergencyStatus.COMPLETED]: [],
+  [EmergencyStatus.CANCELLED]: [],
+};
+
+// Arrived may complete directly when the patient is treated on scene and not transported
+const ASSIGNMENT_TRANSITIONS: Record<AssignmentStatus, AssignmentStatus[]> = {
+  [AssignmentStatus.ASSIGNED]: [AssignmentStatus.EN_ROUTE, AssignmentStatus.CANCELLED],
+  [AssignmentStatus.EN_ROUTE]: [AssignmentStatus.ARRIVED, AssignmentStatus.CANCELLED],
+  [AssignmentStatus.ARRIVED]: [
+    AssignmentStatus.PATIENT_ONBOARD,
+    AssignmentStatus.COMPLETED,
+    AssignmentStatus.CANCELLED,
+  ],
+  [AssignmentStatus.PATIENT_ONBOARD]: [AssignmentStatus.AT_HOSPITAL, AssignmentStatus.CANCELLED],
+  [AssignmentStatus.AT_HOSPITAL]: [AssignmentStatus.COMPLETED],
+  [AssignmentStatus.COMPLETED]: [],
+  [AssignmentStatus.CANCELLED]: [],
+};
+
+/**
+ * Column recording when a request entered each state
+ */
+export const REQUEST_TIMESTAMP_COLUMNS: Record<EmergencyStatus, string | null> = {
+  [EmergencyStatus.PENDING]: null,
+  [EmergencyStatus.ACCEPTED]: 'accepted_at',
+  [EmergencyStatus.ASSIGNED]: 'assigned_at',
+  [EmergencyStatus.IN_PROGRESS]: 'in_progress_at',
+  [EmergencyStatus.COMPLETED]: 'completed_at',
+  [EmergencyStatus.CANCELLED]: 'cancelled_at',
+};
+
+/**
+ * Column recording when an assignment entered each stage
+ */
+export const ASSIGNMENT_TIMESTAMP_COLUMNS: Record<AssignmentStatus, string> = {
+  [AssignmentStatus.ASSIGNED]: 'assigned_at',
+  [AssignmentStatus.EN_ROUTE]: 'en_route_at',
+  [AssignmentStatus.ARRIVED]: 'arrived_at',
+  [AssignmentStatus.PATIENT_ONBOARD]: 'pickup_at',
+  [AssignmentStatus.AT_HOSPITAL]: 'at_hospital_at',
+  [AssignmentStatus.COMPLETED]: 'completed_at',
+  [AssignmentStatus.CANCELLED]: 'cancelled_at',
+};
+
+/**
+ * Request states in which the emergency is still being handled
+ */
+export const OPEN_REQUEST_STATUSES: EmergencyStatus[] = [
+  EmergencyStatus.PENDING,
+  EmergencyStatus.ACCEPTED,
+  EmergencyStatus.ASSIGNED,
+  EmergencyStatus.IN_PROGRESS,
+];
+
+/**
+ * Assignment stages during which the driver is busy with the emergency
+ */
+export const ACTIVE_ASSIGNMENT_STATUSES: AssignmentStatus[] = [
+  AssignmentStatus.ASSIGNED,
+  AssignmentStatus.EN_ROUTE,
+  AssignmentStatus.ARRIVED,
+  AssignmentStatus.PATIENT_ONBOARD,
+  AssignmentStatus.AT_HOSPITAL,
+];
+
+/**
+ * Assignment stages a driver reports from the road
+ */
+export const DRIVER_REPORTED_STATUSES: AssignmentStatus[] = [
+  AssignmentStatus.EN_ROUTE,
+  AssignmentStatus.ARRIVED,
+  AssignmentStatus.PATIENT_ONBOARD,
+  AssignmentStatus.AT_HOSPITAL,
+  AssignmentStatus.COMPLETED,
+];
+
+/**
+ * Request states that no longer change
+ */
+export const isTerminalRequestStatus = (status: string): boolean =>
+  REQUEST_TRANSITIONS[status as EmergencyStatus]?.length === 0;
+
+/**
+ * Assignment stages that release the driver
+ */
+export const isTerminalAssignmentStatus = (status: string): boolean =>
+  ASSIGNMENT_TRANSITIONS[status as AssignmentStatus]?.length === 0;
+
+/**
+ * Check whether a request may move between two states
+ * @param from Current request status
+ * @param to Requested request status
+ * @returns Whether the transition is allowed
+ */
+export const canTransitionRequest = (from: string, to: string): boolean =>
+  REQUEST_TRANSITIONS[from as EmergencyStatus]?.includes(to as EmergencyStatus) ?? false;
+
+/**
+ * Check whether an assignment may move between two stages
+ * @param from Current assignment status
+ * @param to Requested assignment status
+ * @returns Whether the transition is allowed
+ */
+export const canTransitionAssignment = (from: string, to: string): boolean =>
+  ASSIGNMENT_TRANSITIONS[from as AssignmentStatus]?.includes(to as AssignmentStatus) ?? false;
+
+/**
+ * Request state implied by an assignment stage. Cancelling an assignment does not by itself
+ * change the request.
+ * @param status Assignment status
+ * @returns Request status to move to, or null to leave the request alone
+ */
+export const requestStatusForAssignment = (status: AssignmentStatus): EmergencyStatus | null => {
+  switch (status) {
+    case AssignmentStatus.EN_ROUTE:
+    case AssignmentStatus.ARRIVED:
+    case AssignmentStatus.PATIENT_ONBOARD:
+    case AssignmentStatus.AT_HOSPITAL:
+      return EmergencyStatus.IN_PROGRESS;
+    case AssignmentStatus.COMPLETED:
+      return EmergencyStatus.COMPLETED;
+    default:
+      return null;
+  }
+};
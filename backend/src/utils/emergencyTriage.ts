@@ -0,0 +1,189 @@
+/**
+ * Kinds of emergency a patient can report
+ */
+export enum EmergencyCategory {
+  CARDIAC = 'cardiac',
+  STROKE = 'stroke',
+  RESPIRATORY = 'respiratory',
+  TRAUMA = 'trauma',
+  MATERNITY = 'maternity',
+  BURNS = 'burns',
+  POISONING = 'poisoning',
+  ALLERGIC_REACTION = 'allergic_reaction',
+  SEIZURE = 'seizure',
+  OTHER = 'other',
+}
+
+/**
+ * How urgently a patient needs care, from least to most urgent
+ */
+export enum TriageSeverity {
+  LOW = 'low',
+  MODERATE = 'moderate',
+  HIGH = 'high',
+  CRITICAL = 'critical',
+}
+
+// Least to most urgent; matches the order of the triage_severity database enum
+export const SEVERITY_ORDER: TriageSeverity[] = [
+  TriageSeverity.LOW,
+  TriageSeverity.MODERATE,
+  TriageSeverity.HIGH,
+  TriageSeverity.CRITICAL,
+];
+
+interface CategoryDefinition {
+  label: string;
+  // Severity before any triage answers are known
+  baseSeverity: TriageSeverity;
+  // Matched case-insensitively against hospitals.specialty
+  specialtyKeywords: string[];
+}
+
+export const EMERGENCY_CATEGORIES: Record<EmergencyCategory, CategoryDefinition> = {
+  [EmergencyCategory.CARDIAC]: {
+    label: 'Heart problem',
+    baseSeverity: TriageSeverity.HIGH,
+    specialtyKeywords: ['cardio', 'cardiac', 'heart'],
+  },
+  [EmergencyCategory.STROKE]: {
+    label: 'Stroke',
+    baseSeverity: TriageSeverity.HIGH,
+    specialtyKeywords: ['neuro', 'stroke'],
+  },
+  [EmergencyCategory.RESPIRATORY]: {
+    label: 'Breathing difficulty',
+    baseSeverity: TriageSeverity.HIGH,
+    specialtyKeywords: ['pulmon', 'respirat', 'chest'],
+  },
+  [EmergencyCategory.TRAUMA]: {
+    label: 'Injury or accident',
+    baseSeverity: TriageSeverity.MODERATE,
+    specialtyKeywords: ['trauma', 'orthop'],
+  },
+  [EmergencyCategory.MATERNITY]: {
+    label: 'Pregnancy or childbirth',
+    baseSeverity: TriageSeverity.MODERATE,
+    specialtyKeywords: ['obstet', 'maternity', 'gynec', 'gynaec'],
+  },
+  [EmergencyCategory.BURNS]: {
+    label: 'Burns',
+    baseSeverity: TriageSeverity.MODERATE,
+    specialtyKeywords: ['burn', 'plastic'],
+  },
+  [EmergencyCategory.POISONING]: {
+    label: 'Poisoning or overdose',
+    baseSeverity: TriageSeverity.HIGH,
+    specialtyKeywords: ['toxic', 'poison'],
+  },
+  [EmergencyCategory.ALLERGIC_REACTION]: {
+    label: 'Severe allergic reaction',
+    baseSeverity: TriageSeverity.HIGH,
+    specialtyKeywords: ['allerg', 'immun'],
+  },
+  [EmergencyCategory.SEIZURE]: {
+    label: 'Seizure',
+    baseSeverity: TriageSeverity.HIGH,
+    specialtyKeywords: ['neuro'],
+  },
+  [EmergencyCategory.OTHER]: {
+    label: 'Other medical emergency',
+    baseSeverity: TriageSeverity.MODERATE,
+    specialtyKeywords: [],
+  },
+};
+
+/**
+ * Yes/no questions the patient (or a bystander) answers; a yes raises the severity to at
+ * least the question's level
+ */
+export const TRIAGE_QUESTIONS = [
+  {
+    id: 'unresponsive',
+    text: 'Is the patient unconscious or not responding?',
+    severity: TriageSeverity.CRITICAL,
+  },
+  {
+    id: 'breathingDifficulty',
+    text: 'Is the patient struggling to breathe or not breathing?',
+    severity: TriageSeverity.CRITICAL,
+  },
+  {
+    id: 'severeBleeding',
+    text: 'Is there heavy bleeding that will not stop?',
+    severity: TriageSeverity.CRITICAL,
+  },
+  {
+    id: 'chestPain',
+    text: 'Does the patient have chest pain or pressure?',
+    severity: TriageSeverity.HIGH,
+  },
+  {
+    id: 'strokeSigns',
+    text: 'Is one side of the face drooping, an arm weak or speech slurred?',
+    severity: TriageSeverity.HIGH,
+  },
+  {
+    id: 'severePain',
+    text: 'Is the patient in severe pain?',
+    severity: TriageSeverity.MODERATE,
+  },
+] as const;
+
+export type TriageQuestionId = (typeof TRIAGE_QUESTIONS)[number]['id'];
+
+export type TriageAnswers = Partial<Record<TriageQuestionId, boolean>>;
+
+export const TRIAGE_QUESTION_IDS: TriageQuestionId[] = TRIAGE_QUESTIONS.map(
+  (question) => question.id,
+);
+
+/**
+ * Compare two severities
+ * @returns Negative if a is less urgent than b, positive if more urgent, 0 if equal
+ */
+export function compareSeverity(a: TriageSeverity, b: TriageSeverity): number {
+  return SEVERITY_ORDER.indexOf(a) - SEVERITY_ORDER.indexOf(b);
+}
+
+/**
+ * Work out how urgent an emergency is from its category and the triage answers given
+ * @param category Emergency category
+ * @param answers Triage answers; unanswered questions count as no
+ * @returns The most urgent of the category's base severity and any answered red flag
+ */
+export function assessSeverity(
+  category: EmergencyCategory,
+  answers: TriageAnswers = {},
+): TriageSeverity {
+  return TRIAGE_QUESTIONS.filter((question) => answers[question.id] === true).reduce(
+    (severity, question) =>
+      compareSeverity(question.severity, severity) > 0 ? question.severity : severity,
+    EMERGENCY_CATEGORIES[category].baseSeverity,
+  );
+}
+
+/**
+ * Whether a hospital's specialty suits an emergency category
+ * @param category Emergency category
+ * @param specialty Free-text hospitals.specialty, e.g. "Cardiology, Neurology"
+ */
+export function matchesSpecialty(category: EmergencyCategory, specialty: string | null): boolean {
+  if (!specialty) {
+    return false;
+  }
+  const normalized = specialty.toLowerCase();
+  return EMERGENCY_CATEGORIES[category].specialtyKeywords.some((keyword) =>
+    normalized.includes(keyword),
+  );
+}
+
+/**
+ * Read a category stored in emergency_requests.emergency_type. Requests created before the
+ * catalogue existed are treated as other.
+ */
+export function toEmergencyCategory(value: string | null | undefined): EmergencyCategory {
+  return Object.values(EmergencyCategory).includes(value as EmergencyCategory)
+    ? (value as EmergencyCategory)
+    : EmergencyCategory.OTHER;
+}
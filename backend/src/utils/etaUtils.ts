@@ -0,0 +1,81 @@
+import { calculateDistance } from './locationUtils';
+
+/**
+ * A window of the day in which travel speed is scaled. Windows may wrap past midnight
+ * (e.g. startHour 22, endHour 6).
+ */
+export interface TimeOfDayWindow {
+  startHour: number;
+  endHour: number;
+  multiplier: number;
+}
+
+export interface SpeedProfile {
+  defaultSpeedKmh: number;
+  vehicleSpeedsKmh: Record<string, number>;
+  timeOfDay: TimeOfDayWindow[];
+}
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+/**
+ * Check whether an hour falls inside a time-of-day window
+ * @param hour Hour of the day (0-23)
+ * @param window Time-of-day window
+ * @returns True if the hour is inside the window
+ */
+function isInWindow(hour: number, window: TimeOfDayWindow): boolean {
+  if (window.startHour <= window.endHour) {
+    return hour >= window.startHour && hour < window.endHour;
+  }
+  return hour >= window.startHour || hour < window.endHour;
+}
+
+/**
+ * Get the expected average speed for a vehicle at a given time
+ * @param profile Speed profile
+ * @param vehicleType Driver's vehicle type (matched case-insensitively)
+ * @param at Time of travel
+ * @returns Speed in km/h
+ */
+export function getExpectedSpeed(
+  profile: SpeedProfile,
+  vehicleType: string | null | undefined,
+  at: Date,
+): number {
+  const baseSpeed =
+    (vehicleType && profile.vehicleSpeedsKmh[vehicleType.trim().toLowerCase()]) ||
+    profile.defaultSpeedKmh;
+
+  const window = profile.timeOfDay.find((w) => isInWindow(at.getHours(), w));
+
+  return baseSpeed * (window ? window.multiplier : 1);
+}
+
+/**
+ * Estimate driving time between two points
+ * @param from Current position
+ * @param to Destination
+ * @param vehicleType Driver's vehicle type
+ * @param at Time of travel
+ * @param profile Speed profile
+ * @param roadFactor Ratio of road distance to straight-line distance
+ * @returns Travel time in seconds
+ */
+export function estimateTravelSeconds(
+  from: Coordinates,
+  to: Coordinates,
+  vehicleType: string | null | undefined,
+  at: Date,
+  profile: SpeedProfile,
+  roadFactor: number,
+): number {
+  const distanceKm =
+    calculateDistance(from.latitude, from.longitude, to.latitude, to.longitude) * roadFactor;
+  const speedKmh = getExpectedSpeed(profile, vehicleType, at);
+
+  return Math.round((distanceKm / speedKmh) * 3600);
+}
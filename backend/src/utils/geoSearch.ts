@@ -0,0 +1,122 @@
+import { Coordinates } from './etaUtils';
+
+// Kilometres per degree of latitude, matching the Earth radius used by calculateDistance
+const KM_PER_DEGREE = (6371 * Math.PI) / 180;
+
+export interface BoundingBox {
+  minLatitude: number;
+  maxLatitude: number;
+  // minLongitude is greater than maxLongitude when the box crosses the antimeridian
+  minLongitude: number;
+  maxLongitude: number;
+}
+
+export interface ProximityQuery {
+  // Holds for rows within the radius; starts with the bounding box so point indexes can be used
+  condition: string;
+  // Distance from the origin in kilometres
+  distance: string;
+  params: number[];
+}
+
+/**
+ * Great-circle distance in kilometres between two positions, as a SQL expression. Computes
+ * the same Haversine distance as `calculateDistance` and is NULL when either position is.
+ * @param latExpr SQL expression for the latitude, e.g. `h.latitude`
+ * @param lngExpr SQL expression for the longitude, e.g. `h.longitude`
+ * @param originLatExpr SQL expression for the origin latitude, e.g. `$1`
+ * @param originLngExpr SQL expression for the origin longitude, e.g. `$2`
+ * @returns SQL expression
+ */
+export const distanceSql = (
+  latExpr: string,
+  lngExpr: string,
+  originLatExpr: string,
+  originLngExpr: string,
+) => `(12742 * asin(least(1, sqrt(
+  power(sin(radians(${latExpr}::float8 - ${originLatExpr}::float8) / 2), 2)
+  + cos(radians(${originLatExpr}::float8)) * cos(radians(${latExpr}::float8))
+  * power(sin(radians(${lngExpr}::float8 - ${originLngExpr}::float8) / 2), 2)
+))))`;
+
+/**
+ * Smallest latitude/longitude box holding every point within a radius of the origin. Near the
+ * poles the box spans every longitude.
+ * @param origin Centre of the search
+ * @param radiusKm Search radius in kilometres
+ * @returns Bounding box
+ */
+export function boundingBox(origin: Coordinates, radiusKm: number): BoundingBox {
+  const latitudeDelta = radiusKm / KM_PER_DEGREE;
+  const minLatitude = Math.max(origin.latitude - latitudeDelta, -90);
+  const maxLatitude = Math.min(origin.latitude + latitudeDelta, 90);
+
+  // The circle reaches over a pole, or is wide enough to go all the way round
+  const longitudeScale = Math.cos(
+    (Math.max(Math.abs(minLatitude), Math.abs(maxLatitude)) * Math.PI) / 180,
+  );
+  const longitudeDelta = longitudeScale > 0 ? latitudeDelta / longitudeScale : Infinity;
+
+  if (minLatitude === -90 || maxLatitude === 90 || longitudeDelta >= 180) {
+    return { minLatitude, maxLatitude, minLongitude: -180, maxLongitude: 180 };
+  }
+
+  const wrap = (longitude: number) =>
+    longitude < -180 ? longitude + 360 : longitude > 180 ? longitude - 360 : longitude;
+
+  return {
+    minLatitude,
+    maxLatitude,
+    minLongitude: wrap(origin.longitude - longitudeDelta),
+    maxLongitude: wrap(origin.longitude + longitudeDelta),
+  };
+}
+
+/**
+ * SQL for finding rows within a radius of a position: a bounding box prefilter on
+ * `point(longitude, latitude)` that GiST point indexes can serve, followed by the exact
+ * distance check. Boxes crossing the antimeridian are split into one box on each side.
+ * @param latExpr SQL expression for the latitude, e.g. `h.latitude`
+ * @param lngExpr SQL expression for the longitude, e.g. `h.longitude`
+ * @param origin Centre of the search
+ * @param radiusKm Search radius in kilometres
+ * @param firstParam Number of the first query parameter to use; `params` fills seven from there
+ * @returns Condition, distance expression and their parameters
+ */
+export function proximityQuery(
+  latExpr: string,
+  lngExpr: string,
+  origin: Coordinates,
+  radiusKm: number,
+  firstParam: number,
+): ProximityQuery {
+  const box = boundingBox(origin, radiusKm);
+  const [originLat, originLng, radius, minLat, maxLat, minLng, maxLng] = Array.from(
+    { length: 7 },
+    (_, index) => `$${firstParam + index}`,
+  );
+
+  const distance = distanceSql(latExpr, lngExpr, originLat, originLng);
+  const point = `point(${lngExpr}::float8, ${latExpr}::float8)`;
+  const inBox = (west: string, east: string) =>
+    `${point} <@ box(point(${west}::float8, ${minLat}::float8), point(${east}::float8, ${maxLat}::float8))`;
+  const boxCondition =
+    box.minLongitude <= box.maxLongitude
+      ? inBox(minLng, maxLng)
+      : `(${inBox(minLng, '180')} OR ${inBox('-180', maxLng)})`;
+
+  return {
+    condition: `(${boxCondition}
+      AND ${distance} <= ${radius})`,
+    distance,
+    params: [
+      origin.latitude,
+      origin.longitude,
+      radiusKm,
+      box.minLatitude,
+      box.maxLatitude,
+      box.minLongitude,
+      box.maxLongitude,
+    ],
+  };
+}
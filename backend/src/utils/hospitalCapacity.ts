@@ -0,0 +1,108 @@
+import { EmergencyCategory, TriageSeverity } from './emergencyTriage';
+
+/**
+ * Hospital departments that publish live bed availability
+ */
+export enum HospitalDepartment {
+  EMERGENCY_ROOM = 'emergency_room',
+  ICU = 'icu',
+  TRAUMA_BAY = 'trauma_bay',
+  MATERNITY = 'maternity',
+  BURNS = 'burns',
+}
+
+export const HOSPITAL_DEPARTMENTS: Record<HospitalDepartment, { label: string }> = {
+  [HospitalDepartment.EMERGENCY_ROOM]: { label: 'Emergency room' },
+  [HospitalDepartment.ICU]: { label: 'Intensive care' },
+  [HospitalDepartment.TRAUMA_BAY]: { label: 'Trauma bay' },
+  [HospitalDepartment.MATERNITY]: { label: 'Maternity' },
+  [HospitalDepartment.BURNS]: { label: 'Burns unit' },
+};
+
+// Categories with a dedicated department; everything else goes through the emergency room
+const CATEGORY_DEPARTMENTS: Partial<Record<EmergencyCategory, HospitalDepartment>> = {
+  [EmergencyCategory.TRAUMA]: HospitalDepartment.TRAUMA_BAY,
+  [EmergencyCategory.MATERNITY]: HospitalDepartment.MATERNITY,
+  [EmergencyCategory.BURNS]: HospitalDepartment.BURNS,
+};
+
+/**
+ * Department a patient is admitted through: the category's own department if it has one,
+ * intensive care for other critical patients and the emergency room for the rest
+ * @param category Emergency category
+ * @param severity Triage severity
+ */
+export function departmentFor(
+  category: EmergencyCategory,
+  severity: TriageSeverity,
+): HospitalDepartment {
+  return (
+    CATEGORY_DEPARTMENTS[category] ||
+    (severity === TriageSeverity.CRITICAL
+      ? HospitalDepartment.ICU
+      : HospitalDepartment.EMERGENCY_ROOM)
+  );
+}
+
+/**
+ * Whether figures published at updatedAt are too old to rely on
+ * @param updatedAt When the figures were published
+ * @param staleAfterMinutes Age after which figures are stale
+ * @param now Reference time
+ */
+export function isCapacityStale(
+  updatedAt: Date,
+  staleAfterMinutes: number,
+  now: Date = new Date(),
+): boolean {
+  return now.getTime() - new Date(updatedAt).getTime() > staleAfterMinutes * 60000;
+}
+
+/**
+ * Where bed figures come from: fresh figures published by the hospital, published figures
+ * that are out of date, or an estimate from the registered capacity and open requests for
+ * hospitals that have not published any
+ */
+export type CapacitySource = 'reported' | 'stale' | 'estimated';
+
+export interface BedAvailability {
+  department: HospitalDepartment;
+  totalBeds: number;
+  availableBeds: number;
+  updatedAt: Date | null;
+  source: CapacitySource;
+}
+
+/**
+ * Work out a hospital's bed availability in a department
+ * @param department Department the patient needs
+ * @param reported Figures the hospital published for the department, if any
+ * @param estimate Registered emergency capacity and open requests, used without published figures
+ * @param staleAfterMinutes Age after which published figures are stale
+ * @param now Reference time
+ */
+export function resolveBedAvailability(
+  department: HospitalDepartment,
+  reported: { totalBeds: number; availableBeds: number; updatedAt: Date } | null,
+  estimate: { capacity: number; openRequests: number },
+  staleAfterMinutes: number,
+  now: Date = new Date(),
+): BedAvailability {
+  if (reported) {
+    return {
+      department,
+      totalBeds: reported.totalBeds,
+      availableBeds: reported.availableBeds,
+      updatedAt: reported.updatedAt,
+      source: isCapacityStale(reported.updatedAt, staleAfterMinutes, now) ? 'stale' : 'reported',
+    };
+  }
+
+  return {
+    department,
+    totalBeds: estimate.capacity,
+    availableBeds: Math.max(0, estimate.capacity - estimate.openRequests),
+    updatedAt: null,
+    source: 'estimated',
+  };
+}
@@ -0,0 +1,15 @@
+/**
+ * SQL condition that holds while a hospital is on diversion for an emergency category: a
+ * diversion that has not been lifted or expired and either turns away everything or lists the
+ * category.
+ * @param hospitalExpr SQL expression for the hospital ID, e.g. `h.id` or `$1`
+ * @param categoryExpr SQL expression for the emergency category, e.g. `er.emergency_type` or `$2`
+ * @returns SQL condition
+ */
+export const diversionCondition = (hospitalExpr: string, categoryExpr: string) => `EXISTS (
+  SELECT 1 FROM hospital_diversions hd
+  WHERE hd.hospital_id = ${hospitalExpr}
+  AND hd.ended_at IS NULL
+  AND hd.expires_at > NOW()
+  AND (cardinality(hd.categories) = 0 OR ${categoryExpr} = ANY(hd.categories))
+)`;
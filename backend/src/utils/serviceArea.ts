@@ -0,0 +1,216 @@
+import { Coordinates } from './etaUtils';
+import { BoundingBox, proximityQuery } from './geoSearch';
+
+// How a hospital describes the area it serves
+export enum ServiceAreaType {
+  RADIUS = 'radius',
+  POLYGON = 'polygon',
+}
+
+// GeoJSON Polygon geometry: one closed ring of [longitude, latitude] positions
+export interface GeoJsonPolygon {
+  type: 'Polygon';
+  coordinates: number[][][];
+}
+
+export type ServiceArea =
+  | { type: ServiceAreaType.RADIUS; radiusKm: number }
+  | { type: ServiceAreaType.POLYGON; boundary: GeoJsonPolygon };
+
+// Location and service area columns of a hospital joined with hospital_service_areas
+export interface HospitalAreaRow {
+  latitude: string | null;
+  longitude: string | null;
+  area_type: string | null;
+  radius_km: string | null;
+  boundary: GeoJsonPolygon | null;
+}
+
+// Keeps the containment check cheap on every pending list load
+export const MAX_POLYGON_POSITIONS = 1000;
+
+/**
+ * Check that a value is a GeoJSON Polygon the pending queue can use: a single closed ring
+ * of at least four valid positions that does not cross the antimeridian. Holes are not
+ * supported.
+ * @param value Value to check
+ * @returns Why the value cannot be used, or null if it can
+ */
+export function polygonError(value: unknown): string | null {
+  const polygon = value as Partial<GeoJsonPolygon> | null;
+
+  if (!polygon || typeof polygon !== 'object' || polygon.type !== 'Polygon') {
+    return 'Boundary must be a GeoJSON Polygon';
+  }
+  if (!Array.isArray(polygon.coordinates) || polygon.coordinates.length === 0) {
+    return 'Boundary must have coordinates';
+  }
+  if (polygon.coordinates.length > 1) {
+    return 'Boundary cannot have holes';
+  }
+
+  const ring = polygon.coordinates[0];
+  if (!Array.isArray(ring) || ring.length < 4 || ring.length > MAX_POLYGON_POSITIONS) {
+    return `Boundary must have between 4 and ${MAX_POLYGON_POSITIONS} positions`;
+  }
+
+  const valid = ring.every(
+    (position) =>
+      Array.isArray(position) &&
+      position.length >= 2 &&
+      Number.isFinite(position[0]) &&
+      Number.isFinite(position[1]) &&
+      Math.abs(position[0]) <= 180 &&
+      Math.abs(position[1]) <= 90,
+  );
+  if (!valid) {
+    return 'Boundary positions must be [longitude, latitude] pairs';
+  }
+
+  const [first, last] = [ring[0], ring[ring.length - 1]];
+  if (first[0] !== last[0] || first[1] !== last[1]) {
+    return 'Boundary must end at its first position';
+  }
+
+  const bounds = polygonBounds(polygon as GeoJsonPolygon);
+  if (bounds.maxLongitude - bounds.minLongitude > 180) {
+    return 'Boundary cannot cross the antimeridian';
+  }
+
+  return null;
+}
+
+/**
+ * Smallest latitude/longitude box holding a polygon
+ * @param polygon GeoJSON Polygon
+ * @returns Bounding box
+ */
+export function polygonBounds(polygon: GeoJsonPolygon): BoundingBox {
+  const ring = polygon.coordinates[0];
+  const longitudes = ring.map((position) => position[0]);
+  const latitudes = ring.map((position) => position[1]);
+
+  return {
+    minLatitude: Math.min(...latitudes),
+    maxLatitude: Math.max(...latitudes),
+    minLongitude: Math.min(...longitudes),
+    maxLongitude: Math.max(...longitudes),
+  };
+}
+
+/**
+ * Postgres polygon literal for a GeoJSON Polygon. Postgres polygons take (x, y) points, so
+ * longitude comes first as in GeoJSON.
+ * @param polygon GeoJSON Polygon
+ * @returns Polygon literal, e.g. `((77.5,12.9),(77.7,12.9),...)`
+ */
+export function polygonLiteral(polygon: GeoJsonPolygon): string {
+  return `(${polygon.coordinates[0]
+    .map(([longitude, latitude]) => `(${longitude},${latitude})`)
+    .join(',')})`;
+}
+
+/**
+ * SQL for finding rows inside a hospital's service area. A radius is measured from the
+ * hospital, so without a hospital location it holds for nothing.
+ * @param latExpr SQL expression for the latitude, e.g. `er.pickup_latitude`
+ * @param lngExpr SQL expression for the longitude, e.g. `er.pickup_longitude`
+ * @param area Service area
+ * @param hospital Hospital location, if set
+ * @param firstParam Number of the first query parameter to use
+ * @returns Condition and its parameters
+ */
+export function serviceAreaQuery(
+  latExpr: string,
+  lngExpr: string,
+  area: ServiceArea,
+  hospital: Coordinates | null,
+  firstParam: number,
+): { condition: string; params: Array<number | string> } {
+  if (area.type === ServiceAreaType.RADIUS) {
+    if (!hospital) {
+      return { condition: 'false', params: [] };
+    }
+    const { condition, params } = proximityQuery(
+      latExpr,
+      lngExpr,
+      hospital,
+      area.radiusKm,
+      firstParam,
+    );
+    return { condition, params };
+  }
+
+  const bounds = polygonBounds(area.boundary);
+  const [minLat, maxLat, minLng, maxLng, shape] = Array.from(
+    { length: 5 },
+    (_, index) => `$${firstParam + index}`,
+  );
+  const point = `point(${lngExpr}::float8, ${latExpr}::float8)`;
+
+  return {
+    condition: `(${point} <@ box(point(${minLng}::float8, ${minLat}::float8), point(${maxLng}::float8, ${maxLat}::float8))
+      AND ${shape}::polygon @> ${point})`,
+    params: [
+      bounds.minLatitude,
+      bounds.maxLatitude,
+      bounds.minLongitude,
+      bounds.maxLongitude,
+      polygonLiteral(area.boundary),
+    ],
+  };
+}
+
+/**
+ * SQL for the pending requests, as `er`, that a hospital may see: those offered to it and
+ * those picked up inside its service area. The pending list, accepting a request and following
+ * it over the socket all use it, so they agree on what a hospital can reach.
+ * @param hospitalIdExpr SQL expression for the hospital ID, e.g. `$1`
+ * @param hospital Location and service area of the hospital
+ * @param defaultRadiusKm Radius served by hospitals without a service area
+ * @param firstParam Number of the first query parameter to use
+ * @returns Condition and its parameters
+ */
+export function visibleRequestQuery(
+  hospitalIdExpr: string,
+  hospital: HospitalAreaRow,
+  defaultRadiusKm: number,
+  firstParam: number,
+): { condition: string; params: Array<number | string> } {
+  const area = serviceAreaQuery(
+    'er.pickup_latitude',
+    'er.pickup_longitude',
+    toServiceArea(hospital, defaultRadiusKm),
+    hospital.latitude !== null && hospital.longitude !== null
+      ? { latitude: parseFloat(hospital.latitude), longitude: parseFloat(hospital.longitude) }
+      : null,
+    firstParam,
+  );
+
+  return {
+    condition: `(EXISTS (
+      SELECT 1 FROM emergency_offers vo
+      WHERE vo.emergency_id = er.id AND vo.hospital_id = ${hospitalIdExpr} AND vo.status = 'offered'
+    ) OR ${area.condition})`,
+    params: area.params,
+  };
+}
+
+/**
+ * Service area stored for a hospital, or the default radius when it has not set one
+ * @param row Columns of hospital_service_areas, all null without a row
+ * @param defaultRadiusKm Radius served by hospitals without a service area
+ * @returns Service area
+ */
+export function toServiceArea(
+  row: Pick<HospitalAreaRow, 'area_type' | 'radius_km' | 'boundary'>,
+  defaultRadiusKm: number,
+): ServiceArea {
+  if (row.area_type === ServiceAreaType.POLYGON && row.boundary) {
+    return { type: ServiceAreaType.POLYGON, boundary: row.boundary };
+  }
+  if (row.area_type === ServiceAreaType.RADIUS && row.radius_km !== null) {
+    return { type: ServiceAreaType.RADIUS, radiusKm: parseFloat(row.radius_km) };
+  }
+  return { type: ServiceAreaType.RADIUS, radiusKm: defaultRadiusKm };
+}
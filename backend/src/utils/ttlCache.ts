@@ -0,0 +1,73 @@
+interface CacheEntry<T> {
+  value: T;
+  expiresAt: number;
+}
+
+/**
+ * In-process key/value cache whose entries expire a fixed time after they were stored.
+ * Entries are kept in the order they were stored, so the expired ones are always the oldest:
+ * storing a value drops them, and past `maxEntries` evicts the oldest live ones too.
+ */
+export class TtlCache<T> {
+  private entries = new Map<string, CacheEntry<T>>();
+
+  /**
+   * @param ttlMs How long an entry stays valid, in milliseconds
+   * @param maxEntries Most entries kept at once
+   * @param now Clock, replaceable in tests
+   */
+  constructor(
+    private readonly ttlMs: number,
+    private readonly maxEntries: number,
+    private readonly now: () => number = Date.now,
+  ) {}
+
+  /**
+   * Get a value that has not expired yet
+   * @param key Cache key
+   * @returns The cached value, or undefined
+   */
+  get(key: string): T | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    if (entry.expiresAt <= this.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    return entry.value;
+  }
+
+  set(key: string, value: T): void {
+    if (this.ttlMs <= 0 || this.maxEntries <= 0) {
+      return;
+    }
+    const now = this.now();
+
+    // Re-inserting moves the key to the end, keeping the Map in storage order
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: now + this.ttlMs });
+
+    for (const [oldest, entry] of this.entries) {
+      if (entry.expiresAt > now && this.entries.size <= this.maxEntries) {
+        break;
+      }
+      this.entries.delete(oldest);
+    }
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
@@ -1,7 +1,14 @@
 import { Request, Response } from 'express';
 import passport from 'passport';
-import { authenticate, authorize, UserRole } from '../../../src/middleware/auth';
+import {
+  authenticate,
+  authorize,
+  JwtPayload,
+  resolveTokenUser,
+  UserRole,
+} from '../../../src/middleware/auth';
 import { ApiError } from '../../../src/middleware/errorHandler';
+import accountService from '../../../src/services/account.service';
 
 // Mock passport
 jest.mock('passport', () => {
@@ -16,6 +23,11 @@ jest.mock('passport', () => {
   };
 });
 
+jest.mock('../../../src/services/account.service', () => ({
+  __esModule: true,
+  default: { getAccount: jest.fn() },
+}));
+
 describe('Auth Middleware', () => {
   let mockRequest: Partial<Request>;
   let mockResponse: Partial<Response>;
@@ -127,4 +139,54 @@ describe('Auth Middleware', () => {
       expect(nextFunction).toHaveBeenCalledWith();
     });
   });
+
+  describe('resolveTokenUser', () => {
+    const payload: JwtPayload = { id: 'user-id', role: UserRole.HOSPITAL, iat: 1, exp: 2 };
+    const getAccountMock = accountService.getAccount as jest.Mock;
+
+    it('should attach the hospital profile of an active account', async () => {
+      getAccountMock.mockResolvedValueOnce({
+        id: 'user-id',
+        role: UserRole.HOSPITAL,
+        isActive: true,
+        hospitalId: 'hospital-id',
+      });
+
+      await expect(resolveTokenUser(payload)).resolves.toEqual({
+        ...payload,
+        hospitalId: 'hospital-id',
+        driverId: undefined,
+      });
+    });
+
+    it('should not resolve deleted accounts', async () => {
+      getAccountMock.mockResolvedValueOnce(null);
+
+      await expect(resolveTokenUser(payload)).resolves.toBeNull();
+    });
+
+    it('should not resolve tokens issued before a role change', async () => {
+      getAccountMock.mockResolvedValueOnce({
+        id: 'user-id',
+        role: UserRole.USER,
+        isActive: true,
+      });
+
+      await expect(resolveTokenUser(payload)).resolves.toBeNull();
+    });
+
+    it('should reject suspended accounts', async () => {
+      getAccountMock.mockResolvedValueOnce({
+        id: 'user-id',
+        role: UserRole.HOSPITAL,
+        isActive: false,
+        hospitalId: 'hospital-id',
+      });
+
+      await expect(resolveTokenUser(payload)).rejects.toMatchObject({
+        statusCode: 401,
+        message: 'Unauthorized - Account is suspended',
+      });
+    });
+  });
 });
@@ -1,5 +1,10 @@
 import { Request, Response } from 'express';
-import { ApiError, errorHandler, notFoundHandler } from '../../../src/middleware/errorHandler';
+import {
+  ApiError,
+  errorHandler,
+  notFoundHandler,
+  TooManyRequestsError,
+} from '../../../src/middleware/errorHandler';
 import { logger } from '../../../src/utils/logger';
 
 // Mock logger
@@ -20,6 +25,7 @@ describe('Error Handler Middleware', () => {
     mockResponse = {
       status: jest.fn().mockReturnThis(),
       json: jest.fn().mockReturnThis(),
+      set: jest.fn().mockReturnThis(),
     };
 
     nextFunction = jest.fn();
@@ -103,5 +109,22 @@ describe('Error Handler Middleware', () => {
       // Restore environment
       process.env.NODE_ENV = originalEnv;
     });
+
+    it('should tell throttled clients when to retry', () => {
+      const error = new TooManyRequestsError('Too many requests', 30);
+
+      errorHandler(error, mockRequest as Request, mockResponse as Response, nextFunction);
+
+      expect(mockResponse.set).toHaveBeenCalledWith('Retry-After', '30');
+      expect(mockResponse.status).toHaveBeenCalledWith(429);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        success: false,
+        error: {
+          message: 'Too many requests',
+          retryAfter: 30,
+          stack: expect.any(String),
+        },
+      });
+    });
   });
 });
@@ -0,0 +1,55 @@
+import crypto from 'crypto';
+import pool from '../../../src/database/connection';
+import {
+  AccountTokenPurpose,
+  AccountTokenService,
+} from '../../../src/services/accountToken.service';
+
+jest.mock('../../../src/database/connection', () => ({
+  __esModule: true,
+  default: { query: jest.fn() },
+}));
+
+describe('AccountTokenService', () => {
+  const accountTokenService = new AccountTokenService();
+  const sha256 = (value: string) => crypto.createHash('sha256').update(value).digest('hex');
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (pool.query as jest.Mock).mockResolvedValue({ rows: [] });
+  });
+
+  it('should store only a hash of the issued token and replace older tokens', async () => {
+    const token = await accountTokenService.issue('user-1', AccountTokenPurpose.PASSWORD_RESET, 60);
+
+    expect(pool.query).toHaveBeenCalledWith(expect.stringContaining('DELETE FROM account_tokens'), [
+      'user-1',
+      AccountTokenPurpose.PASSWORD_RESET,
+    ]);
+    expect(pool.query).toHaveBeenLastCalledWith(
+      expect.stringContaining('INSERT INTO account_tokens'),
+      ['user-1', AccountTokenPurpose.PASSWORD_RESET, sha256(token), 60],
+    );
+  });
+
+  it('should return the user when a valid token is consumed', async () => {
+    (pool.query as jest.Mock).mockResolvedValue({ rows: [{ user_id: 'user-1' }] });
+
+    const userId = await accountTokenService.consume(
+      'token',
+      AccountTokenPurpose.EMAIL_VERIFICATION,
+    );
+
+    expect(userId).toBe('user-1');
+    expect(pool.query).toHaveBeenCalledWith(expect.stringContaining('used_at IS NULL'), [
+      sha256('token'),
+      AccountTokenPurpose.EMAIL_VERIFICATION,
+    ]);
+  });
+
+  it('should return null for unknown, used or expired tokens', async () => {
+    const userId = await accountTokenService.consume('token', AccountTokenPurpose.PASSWORD_RESET);
+
+    expect(userId).toBeNull();
+  });
+});
@@ -0,0 +1,269 @@
+import pool from '../../../src/database/connection';
+import { UserRole } from '../../../src/middleware/auth';
+import accountService from '../../../src/services/account.service';
+import { AdminService } from '../../../src/services/admin.service';
+import dispatchService from '../../../src/services/dispatch.service';
+import lifecycleService from '../../../src/services/lifecycle.service';
+import medicalProfileService from '../../../src/services/medicalProfile.service';
+import serviceAreaService from '../../../src/services/serviceArea.service';
+import tokenService from '../../../src/services/token.service';
+import { emitEmergencyEvent, SocketEvent } from '../../../src/socket/emitter';
+
+jest.mock('../../../src/database/connection', () => ({
+  __esModule: true,
+  default: { query: jest.fn(), connect: jest.fn() },
+}));
+jest.mock('../../../src/utils/logger');
+jest.mock('../../../src/socket/emitter', () => ({
+  ...jest.requireActual('../../../src/socket/emitter'),
+  emitEmergencyEvent: jest.fn(),
+}));
+
+describe('AdminService', () => {
+  const adminService = new AdminService();
+  const client = { query: jest.fn(), release: jest.fn() };
+
+  const queriesMatching = (text: string) =>
+    client.query.mock.calls.filter(([sql]) => (sql as string).includes(text));
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    jest.clearAllMocks();
+    client.query.mockReset();
+    (pool.connect as jest.Mock).mockResolvedValue(client);
+    jest.spyOn(lifecycleService, 'transitionRequest').mockResolvedValue({
+      entity: 'request',
+      to: 'accepted',
+    } as never);
+    jest.spyOn(lifecycleService, 'runHooks').mockResolvedValue();
+    jest.spyOn(medicalProfileService, 'attachSnapshot').mockResolvedValue();
+    jest.spyOn(dispatchService, 'recordAcceptance').mockResolvedValue();
+    jest.spyOn(dispatchService, 'stopDispatch').mockImplementation(() => undefined);
+    jest.spyOn(serviceAreaService, 'hospitalsServing').mockResolvedValue(['hosp-1', 'hosp-3']);
+  });
+
+  describe('reassignEmergency', () => {
+    const mockRequest = (request: Record<string, unknown> | null, hospitalFound = true) => {
+      client.query
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({
+          rows: request ? [{ id: 'req-1', user_id: 'user-1', ...request }] : [],
+        })
+        .mockResolvedValueOnce({ rows: hospitalFound ? [{ id: 'hosp-2' }] : [] })
+        .mockResolvedValue({ rows: [] });
+    };
+
+    it('should accept a pending request on behalf of the hospital', async () => {
+      mockRequest({ status: 'pending', hospital_id: null });
+
+      const result = await adminService.reassignEmergency('req-1', 'hosp-2', 'admin-1', 'Stuck');
+
+      expect(result.data).toEqual({
+        requestId: 'req-1',
+        status: 'accepted',
+        previousHospitalId: null,
+        hospitalId: 'hosp-2',
+      });
+      expect(lifecycleService.transitionRequest).toHaveBeenCalledWith(
+        client,
+        'req-1',
+        'accepted',
+        { id: 'admin-1', role: UserRole.ADMIN },
+        { hospital_id: 'hosp-2' },
+      );
+      expect(medicalProfileService.attachSnapshot).toHaveBeenCalledWith(client, 'req-1', 'user-1');
+      expect(dispatchService.recordAcceptance).toHaveBeenCalledWith(client, 'req-1', 'hosp-2');
+      expect(queriesMatching("status = 'accepted'")).toHaveLength(0);
+      expect(client.query).toHaveBeenLastCalledWith('COMMIT');
+      expect(dispatchService.stopDispatch).toHaveBeenCalledWith('req-1');
+      expect(lifecycleService.runHooks).toHaveBeenCalledWith([
+        expect.objectContaining({ to: 'accepted' }),
+      ]);
+    });
+
+    it('should tell the hospitals serving a pending request that it was taken', async () => {
+      mockRequest({ status: 'pending', hospital_id: null });
+      const transitionRequest = lifecycleService.transitionRequest as jest.Mock;
+      const servingOrder: number[] = [];
+      (serviceAreaService.hospitalsServing as jest.Mock).mockImplementation(async () => {
+        servingOrder.push(transitionRequest.mock.calls.length);
+        return ['hosp-1', 'hosp-3'];
+      });
+
+      await adminService.reassignEmergency('req-1', 'hosp-2', 'admin-1');
+
+      expect(serviceAreaService.hospitalsServing).toHaveBeenCalledWith('req-1', client);
+      expect(servingOrder).toEqual([0]);
+      expect(emitEmergencyEvent).toHaveBeenCalledWith(
+        SocketEvent.EMERGENCY_REASSIGNED,
+        {
+          requestId: 'req-1',
+          userId: 'user-1',
+          hospitalId: 'hosp-2',
+          hospitalIds: ['hosp-1', 'hosp-3'],
+        },
+        { status: 'accepted', hospitalId: 'hosp-2', previousHospitalId: null },
+      );
+    });
+
+    it('should move an accepted request and cancel the previous acceptance', async () => {
+      mockRequest({ status: 'accepted', hospital_id: 'hosp-1' });
+
+      const result = await adminService.reassignEmergency('req-1', 'hosp-2', 'admin-1');
+
+      expect(result.data.previousHospitalId).toBe('hosp-1');
+      expect(lifecycleService.transitionRequest).not.toHaveBeenCalled();
+      expect(queriesMatching('UPDATE emergency_requests SET hospital_id = $2')).toEqual([
+        [expect.any(String), ['req-1', 'hosp-2']],
+      ]);
+      expect(queriesMatching("status = 'accepted'")).toEqual([
+        [expect.stringContaining("SET status = 'cancelled'"), ['req-1', 'hosp-1']],
+      ]);
+      expect(dispatchService.recordAcceptance).toHaveBeenCalledWith(client, 'req-1', 'hosp-2');
+      expect(serviceAreaService.hospitalsServing).not.toHaveBeenCalled();
+      expect(emitEmergencyEvent).toHaveBeenCalledWith(
+        SocketEvent.EMERGENCY_REASSIGNED,
+        { requestId: 'req-1', userId: 'user-1', hospitalId: 'hosp-2', hospitalIds: ['hosp-1'] },
+        { status: 'accepted', hospitalId: 'hosp-2', previousHospitalId: 'hosp-1' },
+      );
+    });
+
+    it('should record the reassignment in the audit trail', async () => {
+      mockRequest({ status: 'accepted', hospital_id: 'hosp-1' });
+
+      await adminService.reassignEmergency('req-1', 'hosp-2', 'admin-1', 'No driver available');
+
+      const [[, params]] = queriesMatching('INSERT INTO emergency_events');
+      expect(params.slice(0, 4)).toEqual(['req-1', 'reassigned', 'admin-1', UserRole.ADMIN]);
+      expect(JSON.parse(params[4])).toEqual({
+        fromHospitalId: 'hosp-1',
+        toHospitalId: 'hosp-2',
+        reason: 'No driver available',
+      });
+    });
+
+    it('should report unknown requests as not found', async () => {
+      mockRequest(null);
+
+      await expect(
+        adminService.reassignEmergency('req-1', 'hosp-2', 'admin-1'),
+      ).rejects.toMatchObject({ statusCode: 404 });
+      expect(client.query).toHaveBeenLastCalledWith('ROLLBACK');
+    });
+
+    it.each(['assigned', 'in_progress', 'completed', 'cancelled'])(
+      'should not reassign %s requests',
+      async (status) => {
+        mockRequest({ status, hospital_id: 'hosp-1' });
+
+        await expect(
+          adminService.reassignEmergency('req-1', 'hosp-2', 'admin-1'),
+        ).rejects.toMatchObject({ statusCode: 400 });
+        expect(dispatchService.recordAcceptance).not.toHaveBeenCalled();
+      },
+    );
+
+    it('should not reassign to the hospital already handling the request', async () => {
+      mockRequest({ status: 'accepted', hospital_id: 'hosp-2' });
+
+      await expect(
+        adminService.reassignEmergency('req-1', 'hosp-2', 'admin-1'),
+      ).rejects.toMatchObject({ statusCode: 400 });
+    });
+
+    it('should only reassign to active, approved hospitals', async () => {
+      mockRequest({ status: 'pending', hospital_id: null }, false);
+
+      await expect(
+        adminService.reassignEmergency('req-1', 'hosp-2', 'admin-1'),
+      ).rejects.toMatchObject({ statusCode: 404 });
+      expect(lifecycleService.transitionRequest).not.toHaveBeenCalled();
+      expect(client.query).toHaveBeenLastCalledWith('ROLLBACK');
+      expect(emitEmergencyEvent).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('setAccountActive', () => {
+    beforeEach(() => {
+      jest.spyOn(tokenService, 'revokeAllSessions').mockResolvedValue(2);
+      jest.spyOn(accountService, 'invalidate');
+    });
+
+    const mockAccount = (role: UserRole, activeAssignments: unknown[] = []) => {
+      client.query
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [{ id: 'account-1', role }] });
+      if (role === UserRole.DRIVER) {
+        client.query.mockResolvedValueOnce({ rows: activeAssignments });
+      }
+      client.query.mockResolvedValue({ rows: [] });
+    };
+
+    it('should sign suspended accounts out and drop their cached status', async () => {
+      mockAccount(UserRole.HOSPITAL);
+
+      const result = await adminService.setAccountActive('account-1', false, 'admin-1');
+
+      expect(result.data).toEqual({
+        userId: 'account-1',
+        role: UserRole.HOSPITAL,
+        isActive: false,
+      });
+      expect(tokenService.revokeAllSessions).toHaveBeenCalledWith('account-1', client);
+      expect(queriesMatching('UPDATE hospitals SET is_active = $2')).toEqual([
+        [expect.any(String), ['account-1', false]],
+      ]);
+      expect(client.query).toHaveBeenLastCalledWith('COMMIT');
+      expect(accountService.invalidate).toHaveBeenCalledWith('account-1');
+    });
+
+    it('should take suspended drivers off duty', async () => {
+      mockAccount(UserRole.DRIVER);
+
+      await adminService.setAccountActive('account-1', false, 'admin-1');
+
+      expect(queriesMatching('UPDATE drivers')).toEqual([
+        [expect.stringContaining('is_available = is_available AND $2'), ['account-1', false]],
+      ]);
+      expect(tokenService.revokeAllSessions).toHaveBeenCalled();
+    });
+
+    it('should keep sessions when reactivating an account', async () => {
+      mockAccount(UserRole.USER);
+
+      await adminService.setAccountActive('account-1', true, 'admin-1');
+
+      expect(tokenService.revokeAllSessions).not.toHaveBeenCalled();
+      expect(accountService.invalidate).toHaveBeenCalledWith('account-1');
+    });
+
+    it('should not suspend drivers during an assignment', async () => {
+      mockAccount(UserRole.DRIVER, [{ id: 'assignment-1' }]);
+
+      await expect(
+        adminService.setAccountActive('account-1', false, 'admin-1'),
+      ).rejects.toMatchObject({ statusCode: 400 });
+      expect(tokenService.revokeAllSessions).not.toHaveBeenCalled();
+      expect(accountService.invalidate).not.toHaveBeenCalled();
+      expect(client.query).toHaveBeenLastCalledWith('ROLLBACK');
+    });
+
+    it('should not let admins suspend their own account', async () => {
+      client.query.mockResolvedValue({ rows: [] });
+
+      await expect(
+        adminService.setAccountActive('admin-1', false, 'admin-1'),
+      ).rejects.toMatchObject({ statusCode: 400 });
+      expect(queriesMatching('UPDATE users')).toHaveLength(0);
+    });
+
+    it('should report unknown accounts as not found', async () => {
+      client.query.mockResolvedValue({ rows: [] });
+
+      await expect(
+        adminService.setAccountActive('account-1', false, 'admin-1'),
+      ).rejects.toMatchObject({ statusCode: 404 });
+      expect(accountService.invalidate).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,97 @@
+import pool from '../../../src/database/connection';
+import { JwtPayload, UserRole } from '../../../src/middleware/auth';
+import { AuditService, EmergencyEventType } from '../../../src/services/audit.service';
+
+jest.mock('../../../src/database/connection', () => ({
+  __esModule: true,
+  default: { query: jest.fn() },
+}));
+jest.mock('../../../src/utils/logger');
+
+describe('AuditService', () => {
+  const auditService = new AuditService();
+  const occurredAt = new Date('2026-01-01T10:00:00Z');
+
+  const viewer = (id: string, role: UserRole): JwtPayload => ({ id, role, iat: 0, exp: 0 });
+
+  const mockTimeline = () => {
+    (pool.query as jest.Mock)
+      .mockResolvedValueOnce({ rows: [{ user_id: 'user-1', hospital_user_id: 'hosp-user-1' }] })
+      .mockResolvedValueOnce({
+        rows: [
+          {
+            id: 'event-1',
+            event_type: EmergencyEventType.CREATED,
+            actor_id: 'user-1',
+            actor_role: 'user',
+            payload: { severity: 'high' },
+            occurred_at: occurredAt,
+            first_name: 'Ada',
+            last_name: 'Lovelace',
+          },
+          {
+            id: 'event-2',
+            event_type: EmergencyEventType.STATUS_CHANGED,
+            actor_id: null,
+            actor_role: 'system',
+            payload: { entity: 'request', from: 'pending', to: 'cancelled' },
+            occurred_at: occurredAt,
+            first_name: null,
+            last_name: null,
+          },
+        ],
+      });
+  };
+
+  beforeEach(() => {
+    (pool.query as jest.Mock).mockReset();
+  });
+
+  describe('getTimeline', () => {
+    it.each([
+      ['the requesting user', viewer('user-1', UserRole.USER)],
+      ['the hospital handling the request', viewer('hosp-user-1', UserRole.HOSPITAL)],
+      ['admins', viewer('admin-1', UserRole.ADMIN)],
+    ])('should show the timeline to %s', async (_party, user) => {
+      mockTimeline();
+
+      const result = await auditService.getTimeline('req-1', user);
+
+      expect(result.data.events).toEqual([
+        {
+          id: 'event-1',
+          type: EmergencyEventType.CREATED,
+          actor: { id: 'user-1', role: 'user', name: 'Ada Lovelace' },
+          payload: { severity: 'high' },
+          occurredAt,
+        },
+        expect.objectContaining({
+          id: 'event-2',
+          actor: { id: null, role: 'system', name: null },
+        }),
+      ]);
+    });
+
+    it.each([
+      ['other users', viewer('user-2', UserRole.USER)],
+      ['other hospitals', viewer('hosp-user-2', UserRole.HOSPITAL)],
+      ['a user id held by another role', viewer('user-1', UserRole.HOSPITAL)],
+      ['drivers', viewer('driver-user-1', UserRole.DRIVER)],
+    ])('should hide the timeline from %s', async (_party, user) => {
+      mockTimeline();
+
+      await expect(auditService.getTimeline('req-1', user)).rejects.toMatchObject({
+        statusCode: 404,
+      });
+      expect(pool.query).toHaveBeenCalledTimes(1);
+    });
+
+    it('should report unknown requests as not found', async () => {
+      (pool.query as jest.Mock).mockResolvedValueOnce({ rows: [] });
+
+      await expect(
+        auditService.getTimeline('req-1', viewer('admin-1', UserRole.ADMIN)),
+      ).rejects.toMatchObject({ statusCode: 404 });
+    });
+  });
+});
@@ -0,0 +1,186 @@
+import pool from '../../../src/database/connection';
+import { UserRole } from '../../../src/middleware/auth';
+import { ChatService } from '../../../src/services/chat.service';
+import { emitEmergencyEvent, SocketEvent } from '../../../src/socket/emitter';
+
+jest.mock('../../../src/database/connection', () => ({
+  __esModule: true,
+  default: { query: jest.fn(), connect: jest.fn() },
+}));
+jest.mock('../../../src/utils/logger');
+jest.mock('../../../src/socket/emitter', () => ({
+  ...jest.requireActual('../../../src/socket/emitter'),
+  emitEmergencyEvent: jest.fn(),
+}));
+
+describe('ChatService', () => {
+  const chatService = new ChatService();
+  const client = { query: jest.fn(), release: jest.fn() };
+  const patient = { id: 'user-1', role: UserRole.USER };
+  const driver = { id: 'driver-user-1', role: UserRole.DRIVER };
+  const readAt = new Date('2026-01-01T10:00:00Z');
+
+  const mockEmergency = (status: string) => {
+    (pool.query as jest.Mock).mockResolvedValueOnce({
+      rows: [
+        {
+          status,
+          user_id: 'user-1',
+          hospital_id: 'hosp-1',
+          hospital_user_id: 'hosp-user-1',
+          driver_id: 'driver-1',
+          driver_user_id: 'driver-user-1',
+        },
+      ],
+    });
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    client.query.mockReset();
+    (pool.query as jest.Mock).mockReset();
+    (pool.connect as jest.Mock).mockResolvedValue(client);
+  });
+
+  describe('participants', () => {
+    it('should hide the chat from anyone outside the emergency', async () => {
+      mockEmergency('assigned');
+
+      await expect(
+        chatService.getMessages('req-1', { id: 'user-2', role: UserRole.USER }, 1, 20),
+      ).rejects.toMatchObject({ statusCode: 404 });
+      expect(pool.query).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not let outsiders post or mark messages read', async () => {
+      mockEmergency('assigned');
+      mockEmergency('assigned');
+      const outsider = { id: 'hosp-user-2', role: UserRole.HOSPITAL };
+
+      await expect(chatService.sendMessage('req-1', outsider, 'Hello')).rejects.toMatchObject({
+        statusCode: 404,
+      });
+      await expect(chatService.markMessagesRead('req-1', outsider)).rejects.toMatchObject({
+        statusCode: 404,
+      });
+      expect(client.query).not.toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO chat_message_reads'),
+        expect.anything(),
+      );
+    });
+
+    it('should report unknown emergencies as not found', async () => {
+      (pool.query as jest.Mock).mockResolvedValueOnce({ rows: [] });
+
+      await expect(chatService.getMessages('req-1', patient, 1, 20)).rejects.toMatchObject({
+        statusCode: 404,
+      });
+    });
+
+    it('should let the assigned driver post to the emergency audience', async () => {
+      mockEmergency('assigned');
+      (pool.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [{ id: 'message-1' }] })
+        .mockResolvedValueOnce({
+          rows: [
+            {
+              id: 'message-1',
+              sender_id: 'driver-user-1',
+              message: 'Two minutes away',
+              sent_at: readAt,
+              is_read: false,
+              first_name: 'Dee',
+              last_name: 'Rao',
+              role: 'driver',
+              read_by: [],
+            },
+          ],
+        });
+
+      const result = await chatService.sendMessage('req-1', driver, 'Two minutes away');
+
+      expect(result.data).toMatchObject({ senderName: 'Dee Rao', message: 'Two minutes away' });
+      expect(emitEmergencyEvent).toHaveBeenCalledWith(
+        SocketEvent.CHAT_MESSAGE,
+        { requestId: 'req-1', userId: 'user-1', hospitalId: 'hosp-1', driverId: 'driver-1' },
+        result.data,
+      );
+    });
+  });
+
+  describe('closed emergencies', () => {
+    it.each(['completed', 'cancelled'])('should keep a %s chat readable', async (status) => {
+      mockEmergency(status);
+      (pool.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [{ total: '0' }] })
+        .mockResolvedValueOnce({ rows: [] });
+
+      const result = await chatService.getMessages('req-1', patient, 1, 20);
+
+      expect(result.data).toMatchObject({ total: 0, readOnly: true, messages: [] });
+    });
+
+    it('should not accept new messages once the emergency is closed', async () => {
+      mockEmergency('completed');
+
+      await expect(chatService.sendMessage('req-1', patient, 'Thanks')).rejects.toMatchObject({
+        statusCode: 400,
+      });
+      expect(pool.query).not.toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO chat_messages'),
+        expect.anything(),
+      );
+      expect(emitEmergencyEvent).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('markMessagesRead', () => {
+    it("should only mark other participants' messages as read", async () => {
+      mockEmergency('assigned');
+      client.query
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({
+          rows: [
+            { message_id: 'message-1', read_at: readAt },
+            { message_id: 'message-2', read_at: readAt },
+          ],
+        })
+        .mockResolvedValue({ rows: [] });
+
+      const result = await chatService.markMessagesRead('req-1', patient);
+
+      expect(result.data).toEqual({ messageIds: ['message-1', 'message-2'], readAt });
+      const [readQuery, readParams] = client.query.mock.calls[1];
+      expect(readQuery).toContain('cm.sender_id <> $2');
+      expect(readParams).toEqual(['req-1', 'user-1']);
+      expect(client.query).toHaveBeenCalledWith(expect.stringContaining('SET is_read = true'), [
+        ['message-1', 'message-2'],
+      ]);
+      expect(emitEmergencyEvent).toHaveBeenCalledWith(
+        SocketEvent.CHAT_READ,
+        expect.objectContaining({ requestId: 'req-1' }),
+        {
+          readerId: 'user-1',
+          readerRole: UserRole.USER,
+          messageIds: ['message-1', 'message-2'],
+          readAt,
+        },
+      );
+    });
+
+    it('should send no receipt when there was nothing new to read', async () => {
+      mockEmergency('assigned');
+      client.query.mockResolvedValue({ rows: [] });
+
+      const result = await chatService.markMessagesRead('req-1', driver);
+
+      expect(result.data).toEqual({ messageIds: [], readAt: null });
+      expect(client.query).not.toHaveBeenCalledWith(
+        expect.stringContaining('SET is_read = true'),
+        expect.anything(),
+      );
+      expect(client.query).toHaveBeenLastCalledWith('COMMIT');
+      expect(emitEmergencyEvent).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,196 @@
+import crypto from 'crypto';
+import pool from '../../../src/database/connection';
+import statusLinkService from '../../../src/services/statusLink.service';
+import {
+  buildContactMessage,
+  ContactNotificationEvent,
+  ContactNotificationService,
+  ContactNotifier,
+  WebhookContactNotifier,
+} from '../../../src/services/contactNotification.service';
+import { LifecycleTransition } from '../../../src/services/lifecycle.service';
+import { EmergencyContact } from '../../../src/services/medicalProfile.service';
+
+jest.mock('../../../src/database/connection', () => ({
+  __esModule: true,
+  default: { query: jest.fn() },
+}));
+
+const STATUS_URL = 'http://localhost:5173/status/token';
+
+const createNotifier = (
+  channel: string,
+  canReach: (contact: EmergencyContact) => boolean = () => true,
+): jest.Mocked<ContactNotifier> => ({
+  channel,
+  canReach: jest.fn(canReach),
+  notify: jest.fn().mockResolvedValue(undefined),
+});
+
+const mockRequestWithContacts = (contacts: Array<Record<string, unknown>>) => {
+  (pool.query as jest.Mock)
+    .mockResolvedValueOnce({
+      rows: [{ user_id: 'user-1', first_name: 'Ana', last_name: 'Silva', hospital_name: null }],
+    })
+    .mockResolvedValueOnce({ rows: contacts })
+    .mockResolvedValue({ rows: [] });
+};
+
+describe('ContactNotificationService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(statusLinkService, 'issue').mockResolvedValue(STATUS_URL);
+  });
+
+  it('should send each contact the milestone through every channel that can reach them', async () => {
+    const log = createNotifier('log');
+    const email = createNotifier('email', (contact) => Boolean(contact.email));
+    const service = new ContactNotificationService([log, email]);
+    mockRequestWithContacts([
+      { name: 'Ben', relationship: 'Brother', phone: '5551234567', email: 'ben@example.com' },
+      { name: 'Cy', relationship: null, phone: '5557654321', email: null },
+    ]);
+
+    await service.notifyContacts('request-1', ContactNotificationEvent.CREATED);
+
+    expect(log.notify).toHaveBeenCalledTimes(2);
+    expect(email.notify).toHaveBeenCalledTimes(1);
+    expect(email.notify).toHaveBeenCalledWith(
+      expect.objectContaining({ name: 'Ben' }),
+      expect.objectContaining({
+        requestId: 'request-1',
+        subject: 'Ana Silva has requested an ambulance',
+        statusUrl: STATUS_URL,
+      }),
+    );
+
+    const auditCall = (pool.query as jest.Mock).mock.calls[2];
+    expect(auditCall[0]).toContain('INSERT INTO emergency_events');
+    expect(JSON.parse(auditCall[1][4])).toMatchObject({ delivered: 3, failed: 0 });
+  });
+
+  it('should keep notifying other contacts when a channel fails', async () => {
+    const sms = createNotifier('sms');
+    sms.notify.mockRejectedValueOnce(new Error('Gateway down'));
+    const service = new ContactNotificationService([sms]);
+    mockRequestWithContacts([
+      { name: 'Ben', relationship: null, phone: '5551234567', email: null },
+      { name: 'Cy', relationship: null, phone: '5557654321', email: null },
+    ]);
+
+    await expect(
+      service.notifyContacts('request-1', ContactNotificationEvent.ARRIVED),
+    ).resolves.toBeUndefined();
+
+    expect(sms.notify).toHaveBeenCalledTimes(2);
+    expect(JSON.parse((pool.query as jest.Mock).mock.calls[2][1][4])).toMatchObject({
+      delivered: 1,
+      failed: 1,
+    });
+  });
+
+  it('should not issue a status link when the patient has no contacts', async () => {
+    const service = new ContactNotificationService([createNotifier('log')]);
+    mockRequestWithContacts([]);
+
+    await service.notifyContacts('request-1', ContactNotificationEvent.CREATED);
+
+    expect(statusLinkService.issue).not.toHaveBeenCalled();
+  });
+
+  it('should only notify for assignment, arrival and completion transitions', async () => {
+    const service = new ContactNotificationService([]);
+    const notifyContacts = jest.spyOn(service, 'notifyContacts').mockResolvedValue();
+    const transition: LifecycleTransition = {
+      entity: 'request',
+      id: 'request-1',
+      requestId: 'request-1',
+      from: 'pending',
+      to: 'accepted',
+      at: new Date(),
+      userId: 'user-1',
+      hospitalId: 'hospital-1',
+      driverId: null,
+    };
+
+    await service.handleTransition(transition);
+    await service.handleTransition({ ...transition, from: 'accepted', to: 'assigned' });
+    await service.handleTransition({
+      ...transition,
+      entity: 'assignment',
+      from: 'en_route',
+      to: 'arrived',
+    });
+    await service.handleTransition({ ...transition, from: 'in_progress', to: 'completed' });
+
+    expect(notifyContacts.mock.calls).toEqual([
+      ['request-1', ContactNotificationEvent.ASSIGNED],
+      ['request-1', ContactNotificationEvent.ARRIVED],
+      ['request-1', ContactNotificationEvent.COMPLETED],
+    ]);
+  });
+
+  it('should end every message with the status link', () => {
+    const message = buildContactMessage(
+      ContactNotificationEvent.ASSIGNED,
+      'Ana Silva',
+      'City Hospital',
+      STATUS_URL,
+    );
+
+    expect(message.subject).toBe('An ambulance is on its way to Ana Silva');
+    expect(message.text).toBe(
+      `City Hospital has sent an ambulance to Ana Silva. Follow the progress: ${STATUS_URL}`,
+    );
+  });
+});
+
+describe('WebhookContactNotifier', () => {
+  const originalFetch = global.fetch;
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('should sign the body with the shared secret', async () => {
+    const fetchMock = jest.fn().mockResolvedValue({ ok: true, status: 200 });
+    global.fetch = fetchMock as unknown as typeof fetch;
+    const notifier = new WebhookContactNotifier('https://hooks.example.com/contacts', 'secret');
+
+    await notifier.notify(
+      { name: 'Ben', relationship: null, phoneNumber: '5551234567', email: null },
+      {
+        requestId: 'request-1',
+        event: ContactNotificationEvent.CREATED,
+        subject: 'Subject',
+        text: 'Text',
+        statusUrl: STATUS_URL,
+      },
+    );
+
+    const [url, init] = fetchMock.mock.calls[0];
+    const expectedSignature = crypto.createHmac('sha256', 'secret').update(init.body).digest('hex');
+    expect(url).toBe('https://hooks.example.com/contacts');
+    expect(init.headers['X-Signature']).toBe(`sha256=${expectedSignature}`);
+  });
+
+  it('should fail when the webhook does not accept the notification', async () => {
+    global.fetch = jest
+      .fn()
+      .mockResolvedValue({ ok: false, status: 502 }) as unknown as typeof fetch;
+    const notifier = new WebhookContactNotifier('https://hooks.example.com/contacts', '');
+
+    await expect(
+      notifier.notify(
+        { name: 'Ben', relationship: null, phoneNumber: '5551234567', email: null },
+        {
+          requestId: 'request-1',
+          event: ContactNotificationEvent.CREATED,
+          subject: 'Subject',
+          text: 'Text',
+          statusUrl: STATUS_URL,
+        },
+      ),
+    ).rejects.toThrow('Webhook responded with 502');
+  });
+});
@@ -0,0 +1,336 @@
+import { PoolClient } from 'pg';
+import pool from '../../../src/database/connection';
+import config from '../../../src/config';
+import { ApiError } from '../../../src/middleware/errorHandler';
+import { DispatchService } from '../../../src/services/dispatch.service';
+
+jest.mock('../../../src/database/connection', () => ({
+  __esModule: true,
+  default: { query: jest.fn(), connect: jest.fn() },
+}));
+jest.mock('../../../src/utils/logger');
+
+type QueryRoutes = Array<[string, { rows?: unknown[]; rowCount?: number }]>;
+
+// Answer each query by the first route whose text it contains
+const answer = (routes: QueryRoutes) => async (sql: string) => {
+  const route = routes.find(([text]) => sql.includes(text));
+  const result = route ? route[1] : {};
+  return { rows: result.rows ?? [], rowCount: result.rowCount ?? result.rows?.length ?? 0 };
+};
+
+const pendingRequest = {
+  id: 'req-1',
+  status: 'pending',
+  pickup_latitude: '12.97',
+  pickup_longitude: '77.59',
+  emergency_type: 'cardiac',
+  severity: 'high',
+};
+
+const hospital = (id: string, distance: number, extra: Record<string, unknown> = {}) => ({
+  id,
+  name: `Hospital ${id}`,
+  specialty: null,
+  distance,
+  available_beds: null,
+  capacity_updated_at: null,
+  ...extra,
+});
+
+describe('DispatchService', () => {
+  let dispatchService: DispatchService;
+  let clientQuery: jest.Mock;
+
+  const queriesMatching = (text: string) =>
+    clientQuery.mock.calls.filter(([sql]) => (sql as string).includes(text));
+
+  const mockOfferNext = (routes: QueryRoutes) => {
+    clientQuery.mockImplementation(
+      answer([
+        ['FOR UPDATE', { rows: [pendingRequest] }],
+        ['SELECT id FROM emergency_offers', { rows: [] }],
+        ['COUNT(*) as total', { rows: [{ total: '0' }] }],
+        ...routes,
+      ]),
+    );
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers();
+    dispatchService = new DispatchService();
+    clientQuery = jest.fn().mockResolvedValue({ rows: [] });
+    (pool.connect as jest.Mock).mockResolvedValue({ query: clientQuery, release: jest.fn() });
+    (pool.query as jest.Mock).mockResolvedValue({ rows: [], rowCount: 0 });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('offerNext', () => {
+    it('should offer the closest hospital and expire the offer after the timeout', async () => {
+      const expireOffer = jest.spyOn(dispatchService, 'expireOffer').mockResolvedValue();
+      mockOfferNext([
+        ['FROM hospitals h', { rows: [hospital('far', 12), hospital('near', 3)] }],
+        ['INSERT INTO emergency_offers', { rows: [{ id: 'offer-1', expires_at: new Date() }] }],
+      ]);
+
+      await dispatchService.offerNext('req-1');
+
+      const [[, insertParams]] = queriesMatching('INSERT INTO emergency_offers');
+      expect(insertParams).toEqual([
+        'req-1',
+        'near',
+        1,
+        '3.00',
+        config.dispatch.offerTimeoutSeconds,
+      ]);
+      expect(queriesMatching('INSERT INTO emergency_events')[0][1]).toContain('offered');
+      expect(clientQuery).toHaveBeenCalledWith('COMMIT');
+
+      jest.advanceTimersByTime(config.dispatch.offerTimeoutSeconds * 1000 - 1);
+      expect(expireOffer).not.toHaveBeenCalled();
+
+      jest.advanceTimersByTime(1);
+      expect(expireOffer).toHaveBeenCalledWith('req-1', 'offer-1');
+    });
+
+    it('should keep hospitals whose department is full for last', async () => {
+      mockOfferNext([
+        [
+          'FROM hospitals h',
+          {
+            rows: [
+              hospital('full', 2, { available_beds: 0, capacity_updated_at: new Date() }),
+              hospital('free', 20),
+            ],
+          },
+        ],
+        ['INSERT INTO emergency_offers', { rows: [{ id: 'offer-1', expires_at: new Date() }] }],
+      ]);
+
+      await dispatchService.offerNext('req-1');
+
+      expect(queriesMatching('INSERT INTO emergency_offers')[0][1][1]).toBe('free');
+    });
+
+    it('should not issue a second offer while one is open', async () => {
+      clientQuery.mockImplementation(
+        answer([
+          ['FOR UPDATE', { rows: [pendingRequest] }],
+          ['SELECT id FROM emergency_offers', { rows: [{ id: 'offer-1' }] }],
+        ]),
+      );
+
+      await dispatchService.offerNext('req-1');
+
+      expect(queriesMatching('FROM hospitals h')).toHaveLength(0);
+      expect(queriesMatching('INSERT INTO emergency_offers')).toHaveLength(0);
+      expect(clientQuery).toHaveBeenCalledWith('COMMIT');
+    });
+
+    it('should leave requests that are no longer pending alone', async () => {
+      clientQuery.mockImplementation(
+        answer([['FOR UPDATE', { rows: [{ ...pendingRequest, status: 'accepted' }] }]]),
+      );
+
+      await dispatchService.offerNext('req-1');
+
+      expect(queriesMatching('emergency_offers')).toHaveLength(0);
+    });
+
+    it('should escalate once the hospital limit is reached', async () => {
+      clientQuery.mockImplementation(
+        answer([
+          ['FOR UPDATE', { rows: [pendingRequest] }],
+          ['SELECT id FROM emergency_offers', { rows: [] }],
+          ['COUNT(*) as total', { rows: [{ total: String(config.dispatch.maxHospitals) }] }],
+          ['SET escalated_at', { rowCount: 1 }],
+        ]),
+      );
+
+      await dispatchService.offerNext('req-1');
+
+      expect(queriesMatching('FROM hospitals h')).toHaveLength(0);
+      expect(queriesMatching('SET escalated_at')).toHaveLength(1);
+      expect(queriesMatching('INSERT INTO emergency_events')[0][1]).toContain('escalated');
+    });
+
+    it('should only count offers made by dispatch toward the limit', async () => {
+      mockOfferNext([
+        ['FROM hospitals h', { rows: [hospital('near', 3)] }],
+        ['INSERT INTO emergency_offers', { rows: [{ id: 'offer-1', expires_at: new Date() }] }],
+      ]);
+
+      await dispatchService.offerNext('req-1');
+
+      expect(queriesMatching('COUNT(*) as total')[0][0]).toContain('expires_at IS NOT NULL');
+    });
+
+    it('should escalate when no hospital is left to offer', async () => {
+      mockOfferNext([
+        ['FROM hospitals h', { rows: [] }],
+        ['SET escalated_at', { rowCount: 1 }],
+      ]);
+
+      await dispatchService.offerNext('req-1');
+
+      expect(queriesMatching('SET escalated_at')).toHaveLength(1);
+      expect(queriesMatching('INSERT INTO emergency_offers')).toHaveLength(0);
+    });
+
+    it('should roll back and rethrow when a query fails', async () => {
+      clientQuery.mockImplementation(async (sql: string) => {
+        if (sql.includes('FOR UPDATE')) {
+          throw new Error('connection lost');
+        }
+        return { rows: [] };
+      });
+
+      await expect(dispatchService.offerNext('req-1')).rejects.toThrow('connection lost');
+      expect(clientQuery).toHaveBeenCalledWith('ROLLBACK');
+    });
+  });
+
+  describe('expireOffer', () => {
+    it('should expire the open offer and move on to the next hospital', async () => {
+      const offerNext = jest.spyOn(dispatchService, 'offerNext').mockResolvedValue();
+      (pool.query as jest.Mock).mockImplementation(
+        answer([["SET status = 'expired'", { rows: [{ id: 'offer-1', hospital_id: 'hosp-1' }] }]]),
+      );
+
+      await dispatchService.expireOffer('req-1', 'offer-1', 'diversion');
+
+      const auditCall = (pool.query as jest.Mock).mock.calls.find(([sql]) =>
+        sql.includes('INSERT INTO emergency_events'),
+      );
+      expect(auditCall[1][1]).toBe('offer_expired');
+      expect(JSON.parse(auditCall[1][4])).toEqual({
+        offerId: 'offer-1',
+        hospitalId: 'hosp-1',
+        reason: 'diversion',
+      });
+      expect(offerNext).toHaveBeenCalledWith('req-1');
+    });
+
+    it('should do nothing when the hospital responded first', async () => {
+      const offerNext = jest.spyOn(dispatchService, 'offerNext').mockResolvedValue();
+      (pool.query as jest.Mock).mockResolvedValue({ rows: [], rowCount: 0 });
+
+      await dispatchService.expireOffer('req-1', 'offer-1');
+
+      expect(pool.query).toHaveBeenCalledTimes(1);
+      expect(offerNext).not.toHaveBeenCalled();
+    });
+
+    it('should not fire once dispatch has stopped', async () => {
+      const expireOffer = jest.spyOn(dispatchService, 'expireOffer').mockResolvedValue();
+      mockOfferNext([
+        ['FROM hospitals h', { rows: [hospital('near', 3)] }],
+        ['INSERT INTO emergency_offers', { rows: [{ id: 'offer-1', expires_at: new Date() }] }],
+      ]);
+
+      await dispatchService.offerNext('req-1');
+      dispatchService.stopDispatch('req-1');
+      jest.advanceTimersByTime(config.dispatch.offerTimeoutSeconds * 1000);
+
+      expect(expireOffer).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('recordAcceptance', () => {
+    it('should upsert the acceptance and cancel offers open with other hospitals', async () => {
+      await dispatchService.recordAcceptance(
+        { query: clientQuery } as unknown as PoolClient,
+        'req-1',
+        'hosp-1',
+      );
+
+      expect(clientQuery).toHaveBeenNthCalledWith(
+        1,
+        expect.stringContaining("DO UPDATE SET status = 'accepted'"),
+        ['req-1', 'hosp-1'],
+      );
+      expect(clientQuery).toHaveBeenNthCalledWith(
+        2,
+        expect.stringContaining("hospital_id <> $2 AND status = 'offered'"),
+        ['req-1', 'hosp-1'],
+      );
+    });
+  });
+
+  describe('recordDecline', () => {
+    const client = () => ({ query: clientQuery }) as unknown as PoolClient;
+
+    it('should report when the declining hospital held the open offer', async () => {
+      clientQuery.mockResolvedValueOnce({ rows: [{ status: 'offered' }] });
+
+      await expect(
+        dispatchService.recordDecline(client(), 'req-1', 'hosp-1', 'no_beds', null),
+      ).resolves.toBe(true);
+      expect(clientQuery).toHaveBeenLastCalledWith(
+        expect.stringContaining("DO UPDATE SET status = 'declined'"),
+        ['req-1', 'hosp-1', 'no_beds', null],
+      );
+    });
+
+    it('should record declines without an offer', async () => {
+      clientQuery.mockResolvedValueOnce({ rows: [] });
+
+      await expect(
+        dispatchService.recordDecline(client(), 'req-1', 'hosp-1', 'other', 'Closed ward'),
+      ).resolves.toBe(false);
+      expect(clientQuery).toHaveBeenCalledTimes(2);
+    });
+
+    it('should reject declining twice', async () => {
+      clientQuery.mockResolvedValueOnce({ rows: [{ status: 'declined' }] });
+
+      const declining = dispatchService.recordDecline(client(), 'req-1', 'hosp-1', 'other', null);
+
+      await expect(declining).rejects.toThrow(ApiError);
+      await expect(declining).rejects.toMatchObject({ statusCode: 400 });
+      expect(clientQuery).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('withdrawOffers', () => {
+    it('should expire each open offer for the categories', async () => {
+      const expireOffer = jest.spyOn(dispatchService, 'expireOffer').mockResolvedValue();
+      (pool.query as jest.Mock).mockResolvedValueOnce({
+        rows: [
+          { id: 'offer-1', emergency_id: 'req-1' },
+          { id: 'offer-2', emergency_id: 'req-2' },
+        ],
+      });
+
+      await dispatchService.withdrawOffers('hosp-1', ['cardiac']);
+
+      expect(pool.query).toHaveBeenCalledWith(expect.any(String), ['hosp-1', ['cardiac']]);
+      expect(expireOffer).toHaveBeenCalledWith('req-1', 'offer-1', 'diversion');
+      expect(expireOffer).toHaveBeenCalledWith('req-2', 'offer-2', 'diversion');
+    });
+  });
+
+  describe('resumeOutstandingDispatches', () => {
+    it('should re-arm open offers and dispatch requests without one', async () => {
+      const expireOffer = jest.spyOn(dispatchService, 'expireOffer').mockResolvedValue();
+      const startDispatch = jest.spyOn(dispatchService, 'startDispatch').mockResolvedValue();
+      (pool.query as jest.Mock)
+        .mockResolvedValueOnce({
+          rows: [{ id: 'offer-1', emergency_id: 'req-1', remaining_seconds: '5.5' }],
+        })
+        .mockResolvedValueOnce({ rows: [{ id: 'req-2' }] });
+
+      await dispatchService.resumeOutstandingDispatches();
+
+      expect(startDispatch).toHaveBeenCalledWith('req-2');
+      jest.advanceTimersByTime(5499);
+      expect(expireOffer).not.toHaveBeenCalled();
+      jest.advanceTimersByTime(1);
+      expect(expireOffer).toHaveBeenCalledWith('req-1', 'offer-1');
+    });
+  });
+});
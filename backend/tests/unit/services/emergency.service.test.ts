@@ -0,0 +1,166 @@
+import pool from '../../../src/database/connection';
+import dispatchService from '../../../src/services/dispatch.service';
+import { EmergencyService } from '../../../src/services/emergency.service';
+import lifecycleService from '../../../src/services/lifecycle.service';
+import serviceAreaService from '../../../src/services/serviceArea.service';
+
+jest.mock('../../../src/database/connection', () => ({
+  __esModule: true,
+  default: { query: jest.fn(), connect: jest.fn() },
+}));
+jest.mock('../../../src/utils/logger');
+
+type QueryRoutes = Array<[string, { rows?: unknown[] }]>;
+
+// Answer each query by the first route whose text it contains
+const answer = (routes: QueryRoutes) => async (sql: string) => {
+  const route = routes.find(([text]) => sql.includes(text));
+  const rows = route?.[1].rows ?? [];
+  return { rows, rowCount: rows.length };
+};
+
+describe('EmergencyService', () => {
+  const emergencyService = new EmergencyService();
+  const client = { query: jest.fn(), release: jest.fn() };
+  const cancelledAt = new Date('2026-01-01T10:00:00Z');
+
+  const queriesMatching = (text: string) =>
+    client.query.mock.calls.filter(([sql]) => (sql as string).includes(text));
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    jest.clearAllMocks();
+    (pool.connect as jest.Mock).mockResolvedValue(client);
+    jest.spyOn(serviceAreaService, 'hospitalsServing').mockResolvedValue(['hosp-1', 'hosp-2']);
+    jest.spyOn(lifecycleService, 'runHooks').mockResolvedValue();
+    jest.spyOn(dispatchService, 'stopDispatch').mockImplementation(() => undefined);
+  });
+
+  describe('cancelEmergencyRequest', () => {
+    const mockRequest = (
+      request: Record<string, unknown>,
+      assignment: Record<string, unknown> | null = null,
+    ) => {
+      client.query.mockImplementation(
+        answer([
+          [
+            'WHERE id = $1 AND user_id = $2',
+            { rows: [{ id: 'req-1', hospital_id: null, ...request }] },
+          ],
+          ['status = ANY($2)', { rows: assignment ? [assignment] : [] }],
+          [
+            'SELECT id, status, user_id FROM emergency_requests',
+            { rows: [{ ...request, user_id: 'user-1' }] },
+          ],
+          [
+            'FOR UPDATE OF ea',
+            {
+              rows: assignment
+                ? [{ ...assignment, emergency_id: 'req-1', request_status: 'cancelled' }]
+                : [],
+            },
+          ],
+          ['transitioned_at', { rows: [{ transitioned_at: cancelledAt, hospital_id: 'hosp-1' }] }],
+        ]),
+      );
+    };
+
+    it('should not cancel requests of other users', async () => {
+      client.query.mockImplementation(answer([]));
+
+      await expect(
+        emergencyService.cancelEmergencyRequest('req-1', 'user-2'),
+      ).rejects.toMatchObject({ statusCode: 404 });
+      expect(client.query).toHaveBeenLastCalledWith('ROLLBACK');
+    });
+
+    it('should reject requests that have already ended', async () => {
+      mockRequest({ status: 'completed' });
+
+      await expect(
+        emergencyService.cancelEmergencyRequest('req-1', 'user-1'),
+      ).rejects.toMatchObject({ statusCode: 400 });
+      expect(queriesMatching('UPDATE emergency_requests')).toHaveLength(0);
+    });
+
+    it('should withdraw the open offer of a pending request', async () => {
+      mockRequest({ status: 'pending' });
+
+      const result = await emergencyService.cancelEmergencyRequest('req-1', 'user-1');
+
+      expect(result.data).toEqual({
+        requestId: 'req-1',
+        status: 'cancelled',
+        cancelledAt,
+        requiresReview: false,
+      });
+      expect(queriesMatching("SET status = 'cancelled', responded_at = NOW()")).toEqual([
+        [expect.stringContaining("status = 'offered'"), ['req-1']],
+      ]);
+      expect(queriesMatching('UPDATE emergency_assignments')).toHaveLength(0);
+      expect(serviceAreaService.hospitalsServing).toHaveBeenCalledWith('req-1', client);
+      expect(dispatchService.stopDispatch).toHaveBeenCalledWith('req-1');
+      expect(client.query).toHaveBeenLastCalledWith('COMMIT');
+    });
+
+    it('should close the assignment and free the driver', async () => {
+      mockRequest(
+        { status: 'assigned' },
+        { id: 'assignment-1', driver_id: 'driver-1', status: 'en_route', pickup_at: null },
+      );
+
+      const result = await emergencyService.cancelEmergencyRequest('req-1', 'user-1');
+
+      expect(result.data.requiresReview).toBe(false);
+      expect(queriesMatching('UPDATE emergency_assignments')).toHaveLength(1);
+      expect(queriesMatching('SET is_available = true')).toEqual([
+        [expect.any(String), ['driver-1']],
+      ]);
+      expect(serviceAreaService.hospitalsServing).not.toHaveBeenCalled();
+      expect(lifecycleService.runHooks).toHaveBeenCalledWith([
+        expect.objectContaining({ entity: 'request', to: 'cancelled' }),
+        expect.objectContaining({ entity: 'assignment', id: 'assignment-1', to: 'cancelled' }),
+      ]);
+    });
+
+    it('should require a reason once the ambulance has reached the patient', async () => {
+      mockRequest(
+        { status: 'in_progress', actual_arrival_time: cancelledAt },
+        { id: 'assignment-1', driver_id: 'driver-1', status: 'arrived', pickup_at: null },
+      );
+
+      await expect(
+        emergencyService.cancelEmergencyRequest('req-1', 'user-1'),
+      ).rejects.toMatchObject({ statusCode: 400 });
+      expect(queriesMatching('SET is_available = true')).toHaveLength(0);
+      expect(client.query).toHaveBeenLastCalledWith('ROLLBACK');
+    });
+
+    it('should flag cancellations after pickup for review', async () => {
+      mockRequest(
+        { status: 'in_progress' },
+        {
+          id: 'assignment-1',
+          driver_id: 'driver-1',
+          status: 'patient_onboard',
+          pickup_at: cancelledAt,
+        },
+      );
+
+      const result = await emergencyService.cancelEmergencyRequest(
+        'req-1',
+        'user-1',
+        'Going to a clinic nearby',
+      );
+
+      expect(result.data.requiresReview).toBe(true);
+      expect(queriesMatching('UPDATE emergency_requests')[0][1]).toEqual([
+        'req-1',
+        'cancelled',
+        'Going to a clinic nearby',
+        true,
+      ]);
+      expect(queriesMatching('SET is_available = true')).toHaveLength(1);
+    });
+  });
+});
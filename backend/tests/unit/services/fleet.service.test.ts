@@ -0,0 +1,205 @@
+import pool from '../../../src/database/connection';
+import { FleetService } from '../../../src/services/fleet.service';
+
+jest.mock('../../../src/database/connection', () => ({
+  __esModule: true,
+  default: { query: jest.fn(), connect: jest.fn() },
+}));
+jest.mock('../../../src/utils/logger');
+
+describe('FleetService', () => {
+  const fleetService = new FleetService();
+  const client = { query: jest.fn(), release: jest.fn() };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    client.query.mockReset();
+    (pool.query as jest.Mock).mockReset();
+    (pool.connect as jest.Mock).mockResolvedValue(client);
+  });
+
+  describe('invitations', () => {
+    const driverRow = {
+      id: 'driver-1',
+      hospital_id: null,
+      is_approved: false,
+      email: 'dee@example.com',
+    };
+    const invitationRow = { id: 'invite-1', hospital_id: 'hosp-1', email: 'dee@example.com' };
+
+    it('should not invite drivers who are already in the fleet', async () => {
+      (pool.query as jest.Mock).mockResolvedValueOnce({ rows: [{ id: 'driver-1' }] });
+
+      await expect(
+        fleetService.createInvitation('hosp-1', 'dee@example.com'),
+      ).rejects.toMatchObject({ statusCode: 400 });
+      expect(pool.query).toHaveBeenCalledTimes(1);
+    });
+
+    it('should create an invitation code valid for the configured time', async () => {
+      (pool.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [] })
+        .mockImplementationOnce(async (_sql: string, params: unknown[]) => ({
+          rows: [{ id: 'invite-1', email: params[1], invite_code: params[2], expires_at: null }],
+        }));
+
+      const result = await fleetService.createInvitation('hosp-1', 'dee@example.com');
+
+      expect(result.data.inviteCode).toMatch(/^[0-9A-F]{10}$/);
+      expect((pool.query as jest.Mock).mock.calls[1][1]).toEqual([
+        'hosp-1',
+        'dee@example.com',
+        result.data.inviteCode,
+        expect.any(Number),
+      ]);
+    });
+
+    it('should only revoke pending invitations of the hospital', async () => {
+      (pool.query as jest.Mock).mockResolvedValueOnce({ rows: [] });
+
+      await expect(fleetService.revokeInvitation('hosp-2', 'invite-1')).rejects.toMatchObject({
+        statusCode: 404,
+      });
+      expect(pool.query).toHaveBeenCalledWith(expect.stringContaining("status = 'pending'"), [
+        'invite-1',
+        'hosp-2',
+      ]);
+    });
+
+    it('should join the inviting fleet and use up the invitation in one transaction', async () => {
+      client.query
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [driverRow] })
+        .mockResolvedValueOnce({ rows: [invitationRow] })
+        .mockResolvedValueOnce({ rows: [{ hospital_id: 'hosp-1', hospital_name: 'City' }] })
+        .mockResolvedValue({ rows: [] });
+
+      const result = await fleetService.acceptInvitation('driver-1', ' abc123 ');
+
+      expect(result.data).toEqual({ hospitalId: 'hosp-1', hospitalName: 'City' });
+      expect(client.query.mock.calls[2][0]).toContain('FOR UPDATE');
+      expect(client.query.mock.calls[2][1]).toEqual(['ABC123', 'dee@example.com']);
+      expect(client.query.mock.calls[4]).toEqual([
+        expect.stringContaining("SET status = 'accepted'"),
+        ['invite-1', 'driver-1'],
+      ]);
+      expect(client.query).toHaveBeenLastCalledWith('COMMIT');
+      expect(pool.query).not.toHaveBeenCalled();
+      expect(client.release).toHaveBeenCalled();
+    });
+
+    it('should reject invalid or expired codes', async () => {
+      client.query
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [driverRow] })
+        .mockResolvedValue({ rows: [] });
+
+      await expect(fleetService.acceptInvitation('driver-1', 'ABC123')).rejects.toMatchObject({
+        statusCode: 400,
+      });
+      expect(client.query).toHaveBeenLastCalledWith('ROLLBACK');
+    });
+
+    it('should not move approved drivers out of another fleet', async () => {
+      client.query
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({
+          rows: [{ ...driverRow, hospital_id: 'hosp-2', is_approved: true }],
+        })
+        .mockResolvedValueOnce({ rows: [invitationRow] })
+        .mockResolvedValue({ rows: [] });
+
+      await expect(fleetService.acceptInvitation('driver-1', 'ABC123')).rejects.toMatchObject({
+        statusCode: 400,
+      });
+      expect(client.query).not.toHaveBeenCalledWith(
+        expect.stringContaining('UPDATE drivers'),
+        expect.anything(),
+      );
+      expect(client.query).toHaveBeenLastCalledWith('ROLLBACK');
+    });
+
+    it('should keep the invitation when the inviting hospital is gone', async () => {
+      client.query
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [driverRow] })
+        .mockResolvedValueOnce({ rows: [invitationRow] })
+        .mockResolvedValue({ rows: [] });
+
+      await expect(fleetService.acceptInvitation('driver-1', 'ABC123')).rejects.toMatchObject({
+        statusCode: 404,
+      });
+      expect(client.query).not.toHaveBeenCalledWith(
+        expect.stringContaining('UPDATE driver_invitations'),
+        expect.anything(),
+      );
+      expect(client.query).toHaveBeenLastCalledWith('ROLLBACK');
+      expect(client.release).toHaveBeenCalled();
+    });
+  });
+
+  describe('sharing agreements', () => {
+    it('should not let a hospital share drivers with itself', async () => {
+      await expect(fleetService.createSharingAgreement('hosp-1', 'hosp-1')).rejects.toMatchObject({
+        statusCode: 400,
+      });
+      expect(pool.query).not.toHaveBeenCalled();
+    });
+
+    it('should only lend drivers to active, approved hospitals', async () => {
+      (pool.query as jest.Mock).mockResolvedValueOnce({ rows: [] });
+
+      await expect(fleetService.createSharingAgreement('hosp-1', 'hosp-2')).rejects.toMatchObject({
+        statusCode: 404,
+      });
+    });
+
+    it('should reject a second active agreement with the same hospital', async () => {
+      (pool.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [{ id: 'hosp-2' }] })
+        .mockResolvedValueOnce({ rows: [{ id: 'agreement-1' }] });
+
+      await expect(fleetService.createSharingAgreement('hosp-1', 'hosp-2')).rejects.toMatchObject({
+        statusCode: 400,
+      });
+      expect(pool.query).toHaveBeenCalledTimes(2);
+    });
+
+    it('should create an agreement lending to the borrower', async () => {
+      (pool.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [{ id: 'hosp-2' }] })
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({
+          rows: [
+            {
+              id: 'agreement-1',
+              lender_hospital_id: 'hosp-1',
+              borrower_hospital_id: 'hosp-2',
+              status: 'active',
+            },
+          ],
+        });
+
+      const result = await fleetService.createSharingAgreement('hosp-1', 'hosp-2');
+
+      expect(result.data).toEqual({
+        agreementId: 'agreement-1',
+        lenderHospitalId: 'hosp-1',
+        borrowerHospitalId: 'hosp-2',
+        status: 'active',
+      });
+    });
+
+    it('should only let the two parties end an active agreement', async () => {
+      (pool.query as jest.Mock).mockResolvedValueOnce({ rows: [] });
+
+      await expect(fleetService.endSharingAgreement('hosp-3', 'agreement-1')).rejects.toMatchObject(
+        { statusCode: 404 },
+      );
+      expect(pool.query).toHaveBeenCalledWith(
+        expect.stringContaining('lender_hospital_id = $2 OR borrower_hospital_id = $2'),
+        ['agreement-1', 'hosp-3'],
+      );
+    });
+  });
+});
@@ -0,0 +1,191 @@
+import pool from '../../../src/database/connection';
+import { ApiError } from '../../../src/middleware/errorHandler';
+import dispatchService from '../../../src/services/dispatch.service';
+import { DeclineReason, HospitalService } from '../../../src/services/hospital.service';
+import lifecycleService from '../../../src/services/lifecycle.service';
+import medicalProfileService from '../../../src/services/medicalProfile.service';
+import serviceAreaService from '../../../src/services/serviceArea.service';
+
+jest.mock('../../../src/database/connection', () => ({
+  __esModule: true,
+  default: { query: jest.fn(), connect: jest.fn() },
+}));
+jest.mock('../../../src/utils/logger');
+
+describe('HospitalService', () => {
+  const hospitalService = new HospitalService();
+  const client = { query: jest.fn(), release: jest.fn() };
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    jest.clearAllMocks();
+    (pool.connect as jest.Mock).mockResolvedValue(client);
+  });
+
+  describe('acceptEmergencyRequest', () => {
+    it('should reject requests outside the service area that were not offered', async () => {
+      client.query
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [{ status: 'pending', user_id: 'user-1' }] })
+        .mockResolvedValueOnce({
+          rows: [{ id: 'hosp-1', assignment_mode: 'manual', is_approved: true }],
+        })
+        .mockResolvedValueOnce({
+          rows: [
+            {
+              latitude: '12.97',
+              longitude: '77.59',
+              area_type: 'radius',
+              radius_km: '10',
+              boundary: null,
+            },
+          ],
+        })
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [] });
+
+      const accepting = hospitalService.acceptEmergencyRequest('req-1', 'hosp-1', 'staff-1');
+
+      await expect(accepting).rejects.toThrow(ApiError);
+      await expect(accepting).rejects.toMatchObject({ statusCode: 403 });
+
+      const [visibilityQuery, visibilityParams] = client.query.mock.calls[4];
+      expect(visibilityQuery).toContain("vo.hospital_id = $1 AND vo.status = 'offered'");
+      expect(visibilityParams.slice(0, 5)).toEqual(['hosp-1', 'req-1', 12.97, 77.59, 10]);
+
+      expect(client.query).toHaveBeenLastCalledWith('ROLLBACK');
+      expect(client.query).not.toHaveBeenCalledWith('COMMIT');
+      expect(client.release).toHaveBeenCalled();
+    });
+  });
+
+  describe('declineEmergencyRequest', () => {
+    it('should reject declines from hospitals awaiting approval', async () => {
+      client.query
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [{ status: 'pending' }] })
+        .mockResolvedValueOnce({ rows: [{ is_approved: false }] })
+        .mockResolvedValueOnce({ rows: [] });
+
+      const declining = hospitalService.declineEmergencyRequest(
+        'req-1',
+        'hosp-1',
+        'staff-1',
+        DeclineReason.AT_CAPACITY,
+      );
+
+      await expect(declining).rejects.toMatchObject({ statusCode: 403 });
+      expect(client.query).not.toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO emergency_offers'),
+        expect.anything(),
+      );
+      expect(client.query).toHaveBeenLastCalledWith('ROLLBACK');
+    });
+
+    it('should reject declines of requests outside the service area that were not offered', async () => {
+      client.query
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [{ status: 'pending' }] })
+        .mockResolvedValueOnce({ rows: [{ is_approved: true }] })
+        .mockResolvedValue({ rows: [] });
+      jest.spyOn(serviceAreaService, 'canSeeRequest').mockResolvedValue(false);
+      jest.spyOn(dispatchService, 'startDispatch').mockResolvedValue();
+
+      const declining = hospitalService.declineEmergencyRequest(
+        'req-1',
+        'hosp-2',
+        'staff-1',
+        DeclineReason.AT_CAPACITY,
+      );
+
+      await expect(declining).rejects.toMatchObject({ statusCode: 403 });
+      expect(serviceAreaService.canSeeRequest).toHaveBeenCalledWith('hosp-2', 'req-1', client);
+      expect(client.query).not.toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO emergency_offers'),
+        expect.anything(),
+      );
+      expect(client.query).toHaveBeenLastCalledWith('ROLLBACK');
+      expect(dispatchService.startDispatch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('assignDriverToEmergency', () => {
+    it('should refuse a driver booked by another assignment in the meantime', async () => {
+      client.query
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [{ status: 'accepted', user_id: 'user-1' }] })
+        .mockResolvedValueOnce({
+          rows: [{ id: 'driver-1', is_available: false, first_name: 'Dee', last_name: 'Rao' }],
+        })
+        .mockResolvedValueOnce({ rows: [] });
+
+      const assigning = hospitalService.assignDriverToEmergency(
+        'req-1',
+        'hosp-1',
+        'staff-1',
+        'driver-1',
+      );
+
+      await expect(assigning).rejects.toMatchObject({ statusCode: 409 });
+      expect(client.query.mock.calls[2][0]).toContain('FOR UPDATE OF d');
+      expect(client.query).not.toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO emergency_assignments'),
+        expect.anything(),
+      );
+      expect(client.query).toHaveBeenLastCalledWith('ROLLBACK');
+    });
+  });
+
+  describe('automatic assignment', () => {
+    it('should move on to the next suggested driver when one was taken', async () => {
+      client.query
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [{ status: 'pending', user_id: 'user-1' }] })
+        .mockResolvedValueOnce({
+          rows: [{ id: 'hosp-1', assignment_mode: 'automatic', is_approved: true }],
+        })
+        .mockResolvedValueOnce({ rows: [{ diverted: false }] })
+        .mockResolvedValue({ rows: [] });
+      jest.spyOn(serviceAreaService, 'canSeeRequest').mockResolvedValue(true);
+      jest.spyOn(serviceAreaService, 'hospitalsServing').mockResolvedValue(['hosp-1']);
+      jest.spyOn(lifecycleService, 'transitionRequest').mockResolvedValue({} as never);
+      jest.spyOn(lifecycleService, 'runHooks').mockResolvedValue();
+      jest.spyOn(dispatchService, 'recordAcceptance').mockResolvedValue();
+      jest.spyOn(medicalProfileService, 'attachSnapshot').mockResolvedValue();
+
+      const now = new Date();
+      const nearbyDriver = (id: string, latitude: string) => ({
+        id,
+        first_name: 'Driver',
+        last_name: id,
+        vehicle_type: 'basic',
+        current_latitude: latitude,
+        current_longitude: '77.59',
+        last_location_update: now,
+        recent_assignments: '0',
+      });
+      (pool.query as jest.Mock)
+        .mockResolvedValueOnce({
+          rows: [{ pickup_latitude: '12.97', pickup_longitude: '77.59', hospital_id: 'hosp-1' }],
+        })
+        .mockResolvedValueOnce({
+          rows: [nearbyDriver('driver-1', '12.971'), nearbyDriver('driver-2', '12.98')],
+        });
+
+      const assignment = {
+        requestId: 'req-1',
+        assignmentId: 'assignment-1',
+        driver: { id: 'driver-2', name: 'Driver driver-2', phoneNumber: '555' },
+      };
+      const assign = jest
+        .spyOn(hospitalService, 'assignDriverToEmergency')
+        .mockRejectedValueOnce(new ApiError(409, 'Driver is currently unavailable'))
+        .mockResolvedValueOnce({ success: true, message: 'Driver assigned', data: assignment });
+
+      const result = await hospitalService.acceptEmergencyRequest('req-1', 'hosp-1', 'staff-1');
+
+      expect(assign.mock.calls.map((call) => call[3])).toEqual(['driver-1', 'driver-2']);
+      expect(result.data.assignment).toEqual(assignment);
+    });
+  });
+});
@@ -0,0 +1,52 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import config from '../../../src/config';
+import { FileMailTransport, MailService, MailTransport } from '../../../src/services/mail.service';
+
+jest.mock('../../../src/utils/logger');
+
+describe('MailService', () => {
+  it('should send verification links to the frontend from the configured sender', async () => {
+    const transport: MailTransport = { send: jest.fn().mockResolvedValue(undefined) };
+    const mailService = new MailService(transport);
+
+    await mailService.sendEmailVerification('pat@example.com', 'Pat', 'abc_123');
+
+    expect(transport.send).toHaveBeenCalledWith(
+      expect.objectContaining({
+        from: config.mail.from,
+        to: 'pat@example.com',
+        text: expect.stringContaining(`${config.mail.appUrl}/verify-email?token=abc_123`),
+      }),
+    );
+  });
+
+  describe('FileMailTransport', () => {
+    let outboxDir: string;
+
+    beforeEach(async () => {
+      outboxDir = await fs.mkdtemp(path.join(os.tmpdir(), 'mail-outbox-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(outboxDir, { recursive: true, force: true });
+    });
+
+    it('should write each email to its own file', async () => {
+      const transport = new FileMailTransport(outboxDir);
+      const message = { from: 'a@example.com', to: 'b@example.com', subject: 'Hi', text: 'Body' };
+
+      await transport.send(message);
+      await transport.send(message);
+
+      const files = await fs.readdir(outboxDir);
+      const content = await fs.readFile(path.join(outboxDir, files[0]), 'utf-8');
+
+      expect(files).toHaveLength(2);
+      expect(content).toContain('To: b@example.com');
+      expect(content).toContain('Subject: Hi');
+      expect(content.endsWith('\nBody')).toBe(true);
+    });
+  });
+});
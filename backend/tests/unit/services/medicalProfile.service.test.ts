@@ -0,0 +1,110 @@
+import { PoolClient } from 'pg';
+import pool from '../../../src/database/connection';
+import {
+  MedicalProfileService,
+  toMedicalSnapshot,
+} from '../../../src/services/medicalProfile.service';
+
+jest.mock('../../../src/database/connection', () => ({
+  __esModule: true,
+  default: { query: jest.fn() },
+}));
+
+describe('MedicalProfileService', () => {
+  const medicalProfileService = new MedicalProfileService();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should load profiles with their contacts in order and empty defaults', async () => {
+    (pool.query as jest.Mock)
+      .mockResolvedValueOnce({
+        rows: [
+          {
+            id: 'user-1',
+            date_of_birth: '1980-02-01',
+            blood_group: 'O-',
+            allergies: ['Penicillin'],
+            chronic_conditions: ['Asthma'],
+            current_medications: [],
+            updated_at: new Date('2026-01-01T00:00:00Z'),
+          },
+          { id: 'user-2', date_of_birth: null, blood_group: null, updated_at: null },
+        ],
+      })
+      .mockResolvedValueOnce({
+        rows: [
+          { user_id: 'user-1', name: 'Ana', relationship: 'Sister', phone: '5551234567' },
+          { user_id: 'user-1', name: 'Ben', relationship: null, phone: '5557654321' },
+        ],
+      });
+
+    const profiles = await medicalProfileService.loadProfiles(['user-1', 'user-2']);
+
+    expect(profiles.get('user-1')).toMatchObject({
+      dateOfBirth: '1980-02-01',
+      bloodGroup: 'O-',
+      allergies: ['Penicillin'],
+      emergencyContacts: [
+        { name: 'Ana', relationship: 'Sister', phoneNumber: '5551234567' },
+        { name: 'Ben', relationship: null, phoneNumber: '5557654321' },
+      ],
+    });
+    expect(profiles.get('user-2')).toEqual({
+      dateOfBirth: null,
+      bloodGroup: null,
+      allergies: [],
+      chronicConditions: [],
+      currentMedications: [],
+      emergencyContacts: [],
+      updatedAt: null,
+    });
+  });
+
+  it('should not query when no users are given', async () => {
+    const profiles = await medicalProfileService.loadProfiles([]);
+
+    expect(profiles.size).toBe(0);
+    expect(pool.query).not.toHaveBeenCalled();
+  });
+
+  it('should store the current profile on the request when attaching a snapshot', async () => {
+    const client = { query: jest.fn() };
+    client.query
+      .mockResolvedValueOnce({ rows: [{ id: 'user-1', blood_group: 'A+' }] })
+      .mockResolvedValueOnce({ rows: [] })
+      .mockResolvedValueOnce({ rows: [] });
+
+    await medicalProfileService.attachSnapshot(
+      client as unknown as PoolClient,
+      'request-1',
+      'user-1',
+    );
+
+    const [sql, params] = client.query.mock.calls[2];
+    expect(sql).toContain('SET medical_snapshot = $2');
+    expect(params[0]).toBe('request-1');
+    expect(JSON.parse(params[1])).toMatchObject({ bloodGroup: 'A+', emergencyContacts: [] });
+  });
+
+  it('should read a snapshot only when the request has one', () => {
+    const capturedAt = new Date('2026-03-01T10:00:00Z');
+
+    expect(toMedicalSnapshot({ medical_snapshot: null, medical_snapshot_at: null })).toBeNull();
+    expect(
+      toMedicalSnapshot({
+        medical_snapshot: {
+          dateOfBirth: null,
+          bloodGroup: 'B+',
+          allergies: [],
+          chronicConditions: [],
+          currentMedications: [],
+          emergencyContacts: [],
+          updatedAt: null,
+        },
+        medical_snapshot_at: capturedAt,
+      }),
+    ).toMatchObject({ bloodGroup: 'B+', capturedAt });
+  });
+});
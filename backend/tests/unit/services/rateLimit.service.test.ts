@@ -0,0 +1,85 @@
+import { MemoryRateLimitStore, RateLimitService } from '../../../src/services/rateLimit.service';
+import config from '../../../src/config';
+import { TooManyRequestsError } from '../../../src/middleware/errorHandler';
+
+jest.mock('../../../src/utils/logger');
+
+describe('RateLimitService', () => {
+  let now: number;
+  const clock = () => now;
+  let rateLimitService: RateLimitService;
+
+  beforeEach(() => {
+    now = 1_000_000;
+    rateLimitService = new RateLimitService(new MemoryRateLimitStore(clock), clock);
+  });
+
+  describe('hit', () => {
+    it('should allow requests up to the limit within a window', async () => {
+      await rateLimitService.hit('api:1.2.3.4', 2, 60);
+      const second = await rateLimitService.hit('api:1.2.3.4', 2, 60);
+      const third = await rateLimitService.hit('api:1.2.3.4', 2, 60);
+
+      expect(second).toEqual({ allowed: true, limit: 2, remaining: 0, retryAfterSeconds: 60 });
+      expect(third.allowed).toBe(false);
+    });
+
+    it('should start counting again when the window ends', async () => {
+      await rateLimitService.hit('api:1.2.3.4', 1, 60);
+      now += 60_000;
+
+      const result = await rateLimitService.hit('api:1.2.3.4', 1, 60);
+
+      expect(result.allowed).toBe(true);
+    });
+
+    it('should count keys separately', async () => {
+      await rateLimitService.hit('api:1.2.3.4', 1, 60);
+
+      const result = await rateLimitService.hit('api:5.6.7.8', 1, 60);
+
+      expect(result.allowed).toBe(true);
+    });
+  });
+
+  describe('login lockout', () => {
+    const { maxFailures, baseLockoutSeconds } = config.loginLockout;
+    const email = 'Pat@Example.com';
+
+    const fail = async (times: number) => {
+      for (let i = 0; i < times; i += 1) {
+        await rateLimitService.recordLoginFailure(email);
+      }
+    };
+
+    it('should lock the address once the failure limit is reached', async () => {
+      await fail(maxFailures - 1);
+      await expect(rateLimitService.assertLoginAllowed(email)).resolves.toBeUndefined();
+
+      await fail(1);
+      await expect(rateLimitService.assertLoginAllowed('pat@example.com')).rejects.toMatchObject({
+        statusCode: 429,
+        retryAfterSeconds: baseLockoutSeconds,
+      });
+    });
+
+    it('should double the lockout for every further failure', async () => {
+      await fail(maxFailures);
+      now += baseLockoutSeconds * 1000;
+      await expect(rateLimitService.assertLoginAllowed(email)).resolves.toBeUndefined();
+
+      await fail(1);
+      const error = await rateLimitService.assertLoginAllowed(email).catch((err) => err);
+
+      expect(error).toBeInstanceOf(TooManyRequestsError);
+      expect(error.retryAfterSeconds).toBe(baseLockoutSeconds * 2);
+    });
+
+    it('should forget failures after a successful login', async () => {
+      await fail(maxFailures);
+      await rateLimitService.clearLoginFailures(email);
+
+      await expect(rateLimitService.assertLoginAllowed(email)).resolves.toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,121 @@
+import jwt from 'jsonwebtoken';
+import pool from '../../../src/database/connection';
+import config from '../../../src/config';
+import { TokenService } from '../../../src/services/token.service';
+import { ApiError } from '../../../src/middleware/errorHandler';
+import { UserRole } from '../../../src/middleware/auth';
+
+jest.mock('../../../src/database/connection', () => ({
+  __esModule: true,
+  default: { query: jest.fn(), connect: jest.fn() },
+}));
+jest.mock('../../../src/utils/logger');
+
+describe('TokenService', () => {
+  const tokenService = new TokenService();
+  const subject = { id: 'user-1', role: UserRole.USER };
+  let clientQuery: jest.Mock;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (pool.query as jest.Mock).mockResolvedValue({ rows: [] });
+    clientQuery = jest.fn().mockResolvedValue({ rows: [] });
+    (pool.connect as jest.Mock).mockResolvedValue({ query: clientQuery, release: jest.fn() });
+  });
+
+  describe('issueTokens', () => {
+    it('should sign an access token and store the refresh token', async () => {
+      const tokens = await tokenService.issueTokens(subject);
+
+      const access = jwt.verify(tokens.accessToken, config.jwt.secret) as jwt.JwtPayload;
+      const refresh = jwt.verify(tokens.refreshToken, config.jwt.refreshSecret) as jwt.JwtPayload;
+
+      expect(access).toMatchObject({ id: 'user-1', role: UserRole.USER });
+      expect(refresh.jti).toEqual(expect.any(String));
+      expect(pool.query).toHaveBeenLastCalledWith(
+        expect.stringContaining('INSERT INTO refresh_tokens'),
+        [refresh.jti, 'user-1', expect.any(String), refresh.exp],
+      );
+    });
+
+    it('should not accept a refresh token as an access token', async () => {
+      const tokens = await tokenService.issueTokens(subject);
+
+      expect(() => jwt.verify(tokens.refreshToken, config.jwt.secret)).toThrow();
+    });
+  });
+
+  describe('rotateRefreshToken', () => {
+    it('should reject tokens that were not signed with the refresh secret', async () => {
+      const forged = jwt.sign({ id: 'user-1', role: UserRole.USER }, 'wrong-secret', {
+        jwtid: 'token-1',
+      });
+
+      await expect(tokenService.rotateRefreshToken(forged)).rejects.toThrow(
+        new ApiError(401, 'Invalid or expired refresh token'),
+      );
+      expect(pool.connect).not.toHaveBeenCalled();
+    });
+
+    it('should replace the presented token with one in the same session', async () => {
+      const { refreshToken } = await tokenService.issueTokens(subject);
+      clientQuery.mockImplementation(async (sql: string) =>
+        sql.includes('FROM refresh_tokens rt')
+          ? {
+              rows: [
+                {
+                  id: 'token-1',
+                  family_id: 'family-1',
+                  revoked_at: null,
+                  replaced_by: null,
+                  role: UserRole.USER,
+                  is_active: true,
+                },
+              ],
+            }
+          : { rows: [] },
+      );
+
+      const tokens = await tokenService.rotateRefreshToken(refreshToken);
+      const replacement = jwt.decode(tokens.refreshToken) as jwt.JwtPayload;
+
+      expect(clientQuery).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO refresh_tokens'),
+        [replacement.jti, 'user-1', 'family-1', replacement.exp],
+      );
+      expect(clientQuery).toHaveBeenCalledWith(expect.stringContaining('replaced_by = $2'), [
+        'token-1',
+        replacement.jti,
+      ]);
+      expect(clientQuery).toHaveBeenCalledWith('COMMIT');
+    });
+
+    it('should revoke the whole session when a rotated token is presented again', async () => {
+      const { refreshToken } = await tokenService.issueTokens(subject);
+      clientQuery.mockImplementation(async (sql: string) =>
+        sql.includes('FROM refresh_tokens rt')
+          ? {
+              rows: [
+                {
+                  id: 'token-1',
+                  family_id: 'family-1',
+                  revoked_at: new Date(),
+                  replaced_by: 'token-2',
+                  role: UserRole.USER,
+                  is_active: true,
+                },
+              ],
+            }
+          : { rows: [] },
+      );
+
+      await expect(tokenService.rotateRefreshToken(refreshToken)).rejects.toMatchObject({
+        statusCode: 401,
+      });
+      expect(clientQuery).toHaveBeenCalledWith(expect.stringContaining('WHERE family_id = $1'), [
+        'family-1',
+      ]);
+      expect(clientQuery).toHaveBeenCalledWith('COMMIT');
+    });
+  });
+});
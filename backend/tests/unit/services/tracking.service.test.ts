@@ -0,0 +1,195 @@
+import pool from '../../../src/database/connection';
+import { Driver } from '../../../src/models/driver.model';
+import { AuditService } from '../../../src/services/audit.service';
+import { EtaService } from '../../../src/services/eta.service';
+import { TrackingService, validateLocationUpdate } from '../../../src/services/tracking.service';
+
+jest.mock('../../../src/database/connection', () => ({
+  __esModule: true,
+  default: { query: jest.fn() },
+}));
+jest.mock('../../../src/utils/logger');
+
+describe('TrackingService', () => {
+  const trackingService = new TrackingService();
+  const recordedAt = new Date('2026-01-01T10:00:00Z');
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(EtaService.prototype, 'refreshEstimate').mockResolvedValue();
+    jest.spyOn(AuditService.prototype, 'getAssignmentEventTypes').mockResolvedValue([]);
+  });
+
+  describe('validateLocationUpdate', () => {
+    it('should accept a position with optional readings', () => {
+      expect(validateLocationUpdate({ latitude: 12.9, longitude: 77.6 })).toBeNull();
+      expect(
+        validateLocationUpdate({
+          latitude: -90,
+          longitude: 180,
+          heading: 360,
+          speed: 0,
+          accuracy: 5,
+        }),
+      ).toBeNull();
+    });
+
+    it('should reject missing or out of range values', () => {
+      expect(validateLocationUpdate(undefined)).toMatch(/^Latitude/);
+      expect(validateLocationUpdate({ latitude: 91, longitude: 0 })).toMatch(/^Latitude/);
+      expect(validateLocationUpdate({ latitude: 0, longitude: -181 })).toMatch(/^Longitude/);
+      expect(validateLocationUpdate({ latitude: 0, longitude: 0, heading: 400 })).toMatch(
+        /^Heading/,
+      );
+      expect(validateLocationUpdate({ latitude: 0, longitude: 0, speed: -1 })).toMatch(/^Speed/);
+      expect(validateLocationUpdate({ latitude: 0, longitude: 0, accuracy: NaN })).toMatch(
+        /^Accuracy/,
+      );
+    });
+
+    it('should reject coordinates sent as strings', () => {
+      expect(
+        validateLocationUpdate({ latitude: '12.9', longitude: 77.6 } as unknown as {
+          latitude: number;
+          longitude: number;
+        }),
+      ).toMatch(/^Latitude/);
+    });
+  });
+
+  describe('updateDriverLocation', () => {
+    const location = { latitude: 12.9, longitude: 77.6, heading: 90 };
+
+    it('should reject unknown drivers', async () => {
+      jest.spyOn(Driver.prototype, 'updateLocation').mockResolvedValue(null);
+
+      await expect(
+        trackingService.updateDriverLocation('driver-1', 'user-1', location),
+      ).rejects.toMatchObject({ statusCode: 404 });
+      expect(pool.query).not.toHaveBeenCalled();
+    });
+
+    it('should only store the position while the driver has no open assignment', async () => {
+      jest
+        .spyOn(Driver.prototype, 'updateLocation')
+        .mockResolvedValue({ id: 'driver-1', last_location_update: recordedAt } as never);
+      (pool.query as jest.Mock).mockResolvedValueOnce({ rows: [] });
+
+      const result = await trackingService.updateDriverLocation('driver-1', 'user-1', location);
+
+      expect(result.data).toEqual({
+        latitude: 12.9,
+        longitude: 77.6,
+        updatedAt: recordedAt,
+        assignmentId: null,
+      });
+      expect(pool.query).toHaveBeenCalledTimes(1);
+      expect(EtaService.prototype.refreshEstimate).not.toHaveBeenCalled();
+    });
+
+    it('should add the position to the open assignment trail and record milestones', async () => {
+      jest
+        .spyOn(Driver.prototype, 'updateLocation')
+        .mockResolvedValue({ id: 'driver-1', last_location_update: recordedAt } as never);
+      (pool.query as jest.Mock)
+        .mockResolvedValueOnce({
+          rows: [
+            {
+              id: 'assignment-1',
+              emergency_id: 'req-1',
+              user_id: 'user-2',
+              hospital_id: 'hosp-1',
+              pickup_latitude: '12.9001',
+              pickup_longitude: '77.6001',
+            },
+          ],
+        })
+        .mockResolvedValue({ rows: [] });
+
+      const result = await trackingService.updateDriverLocation('driver-1', 'user-1', location);
+
+      expect(result.data.assignmentId).toBe('assignment-1');
+      expect(pool.query).toHaveBeenNthCalledWith(
+        2,
+        expect.stringContaining('INSERT INTO driver_location_history'),
+        ['assignment-1', 'driver-1', 12.9, 77.6, 90, null, null],
+      );
+
+      const events = (pool.query as jest.Mock).mock.calls
+        .filter(([sql]) => sql.includes('INSERT INTO emergency_events'))
+        .map(([, params]) => params[1]);
+      expect(events).toEqual(['first_location', 'approaching_pickup']);
+      expect(EtaService.prototype.refreshEstimate).toHaveBeenCalledWith('req-1');
+    });
+  });
+
+  describe('viewer access', () => {
+    it('should only show users the tracking of their own emergencies', async () => {
+      (pool.query as jest.Mock).mockResolvedValueOnce({ rows: [] });
+
+      await expect(trackingService.getTrackingForUser('req-1', 'user-2')).rejects.toMatchObject({
+        statusCode: 404,
+      });
+      expect(pool.query).toHaveBeenCalledWith(expect.stringContaining('user_id = $2'), [
+        'req-1',
+        'user-2',
+      ]);
+      expect(pool.query).toHaveBeenCalledTimes(1);
+    });
+
+    it('should only show hospitals the tracking of emergencies they handle', async () => {
+      (pool.query as jest.Mock).mockResolvedValueOnce({ rows: [] });
+
+      await expect(trackingService.getTrackingForHospital('req-1', 'hosp-2')).rejects.toMatchObject(
+        { statusCode: 404 },
+      );
+      expect(pool.query).toHaveBeenCalledWith(expect.stringContaining('hospital_id = $2'), [
+        'req-1',
+        'hosp-2',
+      ]);
+    });
+
+    it('should return no tracking before a driver is assigned', async () => {
+      (pool.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [{ id: 'req-1' }] })
+        .mockResolvedValueOnce({ rows: [] });
+
+      await expect(trackingService.getTrackingForUser('req-1', 'user-1')).resolves.toEqual({
+        success: true,
+        data: null,
+      });
+    });
+
+    it('should fall back to the last known position before the trail starts', async () => {
+      (pool.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [{ id: 'req-1' }] })
+        .mockResolvedValueOnce({
+          rows: [
+            {
+              assignment_id: 'assignment-1',
+              status: 'assigned',
+              driver_id: 'driver-1',
+              vehicle_type: 'basic',
+              vehicle_registration: 'KA01',
+              current_latitude: '12.9',
+              current_longitude: '77.6',
+              last_location_update: recordedAt,
+              first_name: 'Dee',
+              last_name: 'Rao',
+            },
+          ],
+        })
+        .mockResolvedValueOnce({ rows: [] });
+
+      const result = await trackingService.getTrackingForHospital('req-1', 'hosp-1');
+
+      expect(result.data?.driver.name).toBe('Dee Rao');
+      expect(result.data?.currentLocation).toEqual({
+        latitude: 12.9,
+        longitude: 77.6,
+        recordedAt,
+      });
+      expect(result.data?.trail).toEqual([]);
+    });
+  });
+});
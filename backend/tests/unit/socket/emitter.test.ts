@@ -0,0 +1,90 @@
+import { Server } from 'socket.io';
+import {
+  emitEmergencyEvent,
+  emitHospitalEvent,
+  emitUserEvent,
+  setSocketServer,
+  SocketEvent,
+} from '../../../src/socket/emitter';
+
+describe('Socket Emitter', () => {
+  let emitMock: jest.Mock;
+  let toMock: jest.Mock;
+
+  beforeEach(() => {
+    emitMock = jest.fn();
+    toMock = jest.fn().mockReturnValue({ emit: emitMock });
+    setSocketServer({ to: toMock } as unknown as Server);
+  });
+
+  it('should emit to the emergency room and every listed party', () => {
+    emitEmergencyEvent(
+      SocketEvent.EMERGENCY_DRIVER_ASSIGNED,
+      { requestId: 'req-1', userId: 'user-1', hospitalId: 'hosp-1', driverId: 'drv-1' },
+      { status: 'assigned' },
+    );
+
+    expect(toMock).toHaveBeenCalledWith([
+      'emergency:req-1',
+      'user:user-1',
+      'hospital:hosp-1',
+      'driver:drv-1',
+    ]);
+    expect(emitMock).toHaveBeenCalledWith(
+      'emergency:driver_assigned',
+      expect.objectContaining({ requestId: 'req-1', status: 'assigned' }),
+    );
+  });
+
+  it('should include the rooms of further hospitals', () => {
+    emitEmergencyEvent(
+      SocketEvent.EMERGENCY_CREATED,
+      { requestId: 'req-1', userId: 'user-1', hospitalIds: ['hosp-1', 'hosp-2'] },
+      {},
+    );
+
+    expect(toMock).toHaveBeenCalledWith([
+      'emergency:req-1',
+      'user:user-1',
+      'hospital:hosp-1',
+      'hospital:hosp-2',
+    ]);
+  });
+
+  it('should add a timestamp to the payload', () => {
+    emitEmergencyEvent(SocketEvent.EMERGENCY_CANCELLED, { requestId: 'req-1' }, {});
+
+    expect(emitMock).toHaveBeenCalledWith(
+      'emergency:cancelled',
+      expect.objectContaining({ timestamp: expect.any(String) }),
+    );
+  });
+
+  it('should emit user events to the user room only', () => {
+    emitUserEvent(SocketEvent.HOSPITAL_REVIEWED, 'user-1', { status: 'approved' });
+
+    expect(toMock).toHaveBeenCalledWith('user:user-1');
+    expect(emitMock).toHaveBeenCalledWith(
+      'hospital:reviewed',
+      expect.objectContaining({ status: 'approved', timestamp: expect.any(String) }),
+    );
+  });
+
+  it('should emit hospital events to every listed hospital room', () => {
+    emitHospitalEvent(SocketEvent.HOSPITAL_DIVERSION_CHANGED, ['hosp-1', 'hosp-2'], {
+      hospitalId: 'hosp-1',
+    });
+
+    expect(toMock).toHaveBeenCalledWith(['hospital:hosp-1', 'hospital:hosp-2']);
+    expect(emitMock).toHaveBeenCalledWith(
+      'hospital:diversion_changed',
+      expect.objectContaining({ hospitalId: 'hosp-1', timestamp: expect.any(String) }),
+    );
+  });
+
+  it('should skip hospital events without any hospital', () => {
+    emitHospitalEvent(SocketEvent.HOSPITAL_DIVERSION_CHANGED, [], {});
+
+    expect(toMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,105 @@
+import {
+  DriverCandidate,
+  DriverRankingOptions,
+  rankDrivers,
+} from '../../../src/utils/driverRanking';
+
+describe('Driver Ranking', () => {
+  const now = new Date('2024-01-15T12:00:00Z');
+  const pickup = { latitude: 12.0, longitude: 77.0 };
+
+  const options: DriverRankingOptions = {
+    maxDistanceKm: 30,
+    workloadPenaltyKm: 2,
+    vehiclePenaltyKm: { 'advanced life support': 0, 'patient transport': 4 },
+    defaultVehiclePenaltyKm: 1,
+    staleLocationMinutes: 15,
+    staleLocationPenaltyKm: 3,
+  };
+
+  // About 1.11 km north of the pickup per 0.01 degrees of latitude
+  const driver = (overrides: Partial<DriverCandidate>): DriverCandidate => ({
+    id: 'driver',
+    name: 'Driver',
+    vehicleType: 'Advanced Life Support',
+    latitude: 12.01,
+    longitude: 77.0,
+    lastLocationUpdate: now,
+    recentAssignments: 0,
+    ...overrides,
+  });
+
+  it('should rank the closest driver first', () => {
+    const ranked = rankDrivers(
+      [driver({ id: 'far', latitude: 12.05 }), driver({ id: 'near', latitude: 12.01 })],
+      pickup,
+      options,
+      now,
+    );
+
+    expect(ranked.map((d) => d.id)).toEqual(['near', 'far']);
+    expect(ranked[0].distanceKm).toBeCloseTo(1.11, 1);
+  });
+
+  it('should leave out drivers without a position or beyond the maximum distance', () => {
+    const ranked = rankDrivers(
+      [
+        driver({ id: 'unknown', latitude: null, longitude: null }),
+        driver({ id: 'too-far', latitude: 12.5 }),
+        driver({ id: 'ok' }),
+      ],
+      pickup,
+      options,
+      now,
+    );
+
+    expect(ranked.map((d) => d.id)).toEqual(['ok']);
+  });
+
+  it('should prefer better equipped vehicles at similar distances', () => {
+    const ranked = rankDrivers(
+      [
+        driver({ id: 'transport', vehicleType: 'Patient Transport', latitude: 12.01 }),
+        driver({ id: 'als', latitude: 12.02 }),
+      ],
+      pickup,
+      options,
+      now,
+    );
+
+    expect(ranked[0].id).toBe('als');
+  });
+
+  it('should spread work to drivers with fewer recent assignments', () => {
+    const ranked = rankDrivers(
+      [
+        driver({ id: 'busy', latitude: 12.01, recentAssignments: 3 }),
+        driver({ id: 'idle', latitude: 12.02 }),
+      ],
+      pickup,
+      options,
+      now,
+    );
+
+    expect(ranked[0].id).toBe('idle');
+  });
+
+  it('should penalise stale positions', () => {
+    const ranked = rankDrivers(
+      [
+        driver({
+          id: 'stale',
+          latitude: 12.01,
+          lastLocationUpdate: new Date('2024-01-15T10:00:00Z'),
+        }),
+        driver({ id: 'live', latitude: 12.02 }),
+      ],
+      pickup,
+      options,
+      now,
+    );
+
+    expect(ranked[0].id).toBe('live');
+    expect(ranked[1].score).toBeCloseTo(ranked[1].distanceKm + 3, 1);
+  });
+});
@@ -0,0 +1,106 @@
+import {
+  AssignmentStatus,
+  EmergencyStatus,
+  canTransitionAssignment,
+  canTransitionRequest,
+  isTerminalAssignmentStatus,
+  isTerminalRequestStatus,
+  requestStatusForAssignment,
+} from '../../../src/utils/emergencyLifecycle';
+
+describe('Emergency Lifecycle', () => {
+  describe('canTransitionRequest', () => {
+    it('should follow the request through dispatch to completion', () => {
+      expect(canTransitionRequest(EmergencyStatus.PENDING, EmergencyStatus.ACCEPTED)).toBe(true);
+      expect(canTransitionRequest(EmergencyStatus.ACCEPTED, EmergencyStatus.ASSIGNED)).toBe(true);
+      expect(canTransitionRequest(EmergencyStatus.ASSIGNED, EmergencyStatus.IN_PROGRESS)).toBe(
+        true,
+      );
+      expect(canTransitionRequest(EmergencyStatus.IN_PROGRESS, EmergencyStatus.COMPLETED)).toBe(
+        true,
+      );
+    });
+
+    it('should not skip states', () => {
+      expect(canTransitionRequest(EmergencyStatus.PENDING, EmergencyStatus.ASSIGNED)).toBe(false);
+      expect(canTransitionRequest(EmergencyStatus.ACCEPTED, EmergencyStatus.COMPLETED)).toBe(false);
+    });
+
+    it('should allow cancelling any open request but nothing after a terminal state', () => {
+      expect(canTransitionRequest(EmergencyStatus.IN_PROGRESS, EmergencyStatus.CANCELLED)).toBe(
+        true,
+      );
+      expect(canTransitionRequest(EmergencyStatus.COMPLETED, EmergencyStatus.CANCELLED)).toBe(
+        false,
+      );
+      expect(canTransitionRequest(EmergencyStatus.CANCELLED, EmergencyStatus.PENDING)).toBe(false);
+    });
+
+    it('should reject unknown states', () => {
+      expect(canTransitionRequest('unknown', EmergencyStatus.ACCEPTED)).toBe(false);
+    });
+  });
+
+  describe('canTransitionAssignment', () => {
+    it('should walk through every stage up to the hospital', () => {
+      const stages = [
+        AssignmentStatus.ASSIGNED,
+        AssignmentStatus.EN_ROUTE,
+        AssignmentStatus.ARRIVED,
+        AssignmentStatus.PATIENT_ONBOARD,
+        AssignmentStatus.AT_HOSPITAL,
+        AssignmentStatus.COMPLETED,
+      ];
+
+      stages.slice(1).forEach((stage, index) => {
+        expect(canTransitionAssignment(stages[index], stage)).toBe(true);
+      });
+    });
+
+    it('should allow completing on scene but not skipping the drive', () => {
+      expect(canTransitionAssignment(AssignmentStatus.ARRIVED, AssignmentStatus.COMPLETED)).toBe(
+        true,
+      );
+      expect(canTransitionAssignment(AssignmentStatus.ASSIGNED, AssignmentStatus.ARRIVED)).toBe(
+        false,
+      );
+    });
+
+    it('should not cancel once the patient has been handed over', () => {
+      expect(
+        canTransitionAssignment(AssignmentStatus.AT_HOSPITAL, AssignmentStatus.CANCELLED),
+      ).toBe(false);
+    });
+  });
+
+  describe('terminal states', () => {
+    it('should identify completed and cancelled as terminal', () => {
+      expect(isTerminalRequestStatus(EmergencyStatus.COMPLETED)).toBe(true);
+      expect(isTerminalRequestStatus(EmergencyStatus.PENDING)).toBe(false);
+      expect(isTerminalAssignmentStatus(AssignmentStatus.CANCELLED)).toBe(true);
+      expect(isTerminalAssignmentStatus(AssignmentStatus.AT_HOSPITAL)).toBe(false);
+    });
+  });
+
+  describe('requestStatusForAssignment', () => {
+    it('should put the request in progress once the ambulance sets off', () => {
+      expect(requestStatusForAssignment(AssignmentStatus.EN_ROUTE)).toBe(
+        EmergencyStatus.IN_PROGRESS,
+      );
+      expect(requestStatusForAssignment(AssignmentStatus.AT_HOSPITAL)).toBe(
+        EmergencyStatus.IN_PROGRESS,
+      );
+    });
+
+    it('should complete the request with the assignment', () => {
+      expect(requestStatusForAssignment(AssignmentStatus.COMPLETED)).toBe(
+        EmergencyStatus.COMPLETED,
+      );
+    });
+
+    it('should leave the request alone for new or cancelled assignments', () => {
+      expect(requestStatusForAssignment(AssignmentStatus.ASSIGNED)).toBeNull();
+      expect(requestStatusForAssignment(AssignmentStatus.CANCELLED)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,66 @@
+import {
+  EmergencyCategory,
+  TriageSeverity,
+  assessSeverity,
+  compareSeverity,
+  matchesSpecialty,
+  toEmergencyCategory,
+} from '../../../src/utils/emergencyTriage';
+
+describe('Emergency Triage', () => {
+  describe('assessSeverity', () => {
+    it('should use the category severity when no red flags are answered', () => {
+      expect(assessSeverity(EmergencyCategory.CARDIAC)).toBe(TriageSeverity.HIGH);
+      expect(assessSeverity(EmergencyCategory.TRAUMA, { severeBleeding: false })).toBe(
+        TriageSeverity.MODERATE,
+      );
+    });
+
+    it('should raise the severity to the most urgent red flag', () => {
+      expect(assessSeverity(EmergencyCategory.OTHER, { severePain: true })).toBe(
+        TriageSeverity.MODERATE,
+      );
+      expect(assessSeverity(EmergencyCategory.TRAUMA, { chestPain: true, severePain: true })).toBe(
+        TriageSeverity.HIGH,
+      );
+      expect(assessSeverity(EmergencyCategory.MATERNITY, { unresponsive: true })).toBe(
+        TriageSeverity.CRITICAL,
+      );
+    });
+
+    it('should never lower the category severity', () => {
+      expect(assessSeverity(EmergencyCategory.STROKE, { severePain: true })).toBe(
+        TriageSeverity.HIGH,
+      );
+    });
+  });
+
+  describe('compareSeverity', () => {
+    it('should order severities from low to critical', () => {
+      expect(compareSeverity(TriageSeverity.CRITICAL, TriageSeverity.HIGH)).toBeGreaterThan(0);
+      expect(compareSeverity(TriageSeverity.LOW, TriageSeverity.MODERATE)).toBeLessThan(0);
+      expect(compareSeverity(TriageSeverity.HIGH, TriageSeverity.HIGH)).toBe(0);
+    });
+  });
+
+  describe('matchesSpecialty', () => {
+    it('should match specialty keywords case-insensitively', () => {
+      expect(matchesSpecialty(EmergencyCategory.CARDIAC, 'Cardiology, Oncology')).toBe(true);
+      expect(matchesSpecialty(EmergencyCategory.STROKE, 'General, NEUROLOGY')).toBe(true);
+      expect(matchesSpecialty(EmergencyCategory.MATERNITY, 'Cardiology')).toBe(false);
+    });
+
+    it('should not match hospitals without a specialty or the other category', () => {
+      expect(matchesSpecialty(EmergencyCategory.CARDIAC, null)).toBe(false);
+      expect(matchesSpecialty(EmergencyCategory.OTHER, 'General Medicine')).toBe(false);
+    });
+  });
+
+  describe('toEmergencyCategory', () => {
+    it('should treat unknown and legacy types as other', () => {
+      expect(toEmergencyCategory('burns')).toBe(EmergencyCategory.BURNS);
+      expect(toEmergencyCategory('Medical Emergency')).toBe(EmergencyCategory.OTHER);
+      expect(toEmergencyCategory(null)).toBe(EmergencyCategory.OTHER);
+    });
+  });
+});
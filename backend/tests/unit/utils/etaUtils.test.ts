@@ -0,0 +1,66 @@
+import { estimateTravelSeconds, getExpectedSpeed, SpeedProfile } from '../../../src/utils/etaUtils';
+
+describe('ETA Utils', () => {
+  const profile: SpeedProfile = {
+    defaultSpeedKmh: 40,
+    vehicleSpeedsKmh: { ambulance: 60 },
+    timeOfDay: [
+      { startHour: 7, endHour: 10, multiplier: 0.5 },
+      { startHour: 22, endHour: 6, multiplier: 1.5 },
+    ],
+  };
+
+  const at = (hour: number) => new Date(2024, 0, 15, hour, 30);
+
+  describe('getExpectedSpeed', () => {
+    it('should use the vehicle speed regardless of case', () => {
+      expect(getExpectedSpeed(profile, 'Ambulance', at(12))).toBe(60);
+    });
+
+    it('should fall back to the default speed for unknown vehicles', () => {
+      expect(getExpectedSpeed(profile, 'Van', at(12))).toBe(40);
+      expect(getExpectedSpeed(profile, null, at(12))).toBe(40);
+    });
+
+    it('should apply the multiplier of the matching time window', () => {
+      expect(getExpectedSpeed(profile, 'ambulance', at(8))).toBe(30);
+    });
+
+    it('should handle windows that wrap past midnight', () => {
+      expect(getExpectedSpeed(profile, 'ambulance', at(23))).toBe(90);
+      expect(getExpectedSpeed(profile, 'ambulance', at(3))).toBe(90);
+      expect(getExpectedSpeed(profile, 'ambulance', at(6))).toBe(60);
+    });
+  });
+
+  describe('estimateTravelSeconds', () => {
+    // Roughly 11.1 km apart along a meridian
+    const from = { latitude: 12.0, longitude: 77.0 };
+    const to = { latitude: 12.1, longitude: 77.0 };
+
+    it('should convert road distance and speed into seconds', () => {
+      const seconds = estimateTravelSeconds(from, to, 'ambulance', at(12), profile, 1);
+
+      // 11.12 km at 60 km/h is about 11 minutes
+      expect(seconds).toBeGreaterThan(660);
+      expect(seconds).toBeLessThan(680);
+    });
+
+    it('should scale with the road factor and time of day', () => {
+      const base = estimateTravelSeconds(from, to, 'ambulance', at(12), profile, 1);
+
+      expect(estimateTravelSeconds(from, to, 'ambulance', at(12), profile, 1.5)).toBeCloseTo(
+        base * 1.5,
+        -1,
+      );
+      expect(estimateTravelSeconds(from, to, 'ambulance', at(8), profile, 1)).toBeCloseTo(
+        base * 2,
+        -1,
+      );
+    });
+
+    it('should return zero when already at the destination', () => {
+      expect(estimateTravelSeconds(from, from, 'ambulance', at(12), profile, 1.3)).toBe(0);
+    });
+  });
+});
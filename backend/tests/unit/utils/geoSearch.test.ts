@@ -0,0 +1,113 @@
+import { boundingBox, proximityQuery } from '../../../src/utils/geoSearch';
+import { calculateDistance } from '../../../src/utils/locationUtils';
+
+// Point reached by travelling a distance along a bearing from the origin
+const destination = (latitude: number, longitude: number, bearing: number, km: number) => {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+  const angle = km / 6371;
+  const φ1 = toRadians(latitude);
+  const θ = toRadians(bearing);
+
+  const φ2 = Math.asin(
+    Math.sin(φ1) * Math.cos(angle) + Math.cos(φ1) * Math.sin(angle) * Math.cos(θ),
+  );
+  const λ2 =
+    toRadians(longitude) +
+    Math.atan2(
+      Math.sin(θ) * Math.sin(angle) * Math.cos(φ1),
+      Math.cos(angle) - Math.sin(φ1) * Math.sin(φ2),
+    );
+
+  return { latitude: toDegrees(φ2), longitude: ((toDegrees(λ2) + 540) % 360) - 180 };
+};
+
+const contains = (
+  box: ReturnType<typeof boundingBox>,
+  point: { latitude: number; longitude: number },
+) =>
+  point.latitude >= box.minLatitude &&
+  point.latitude <= box.maxLatitude &&
+  (box.minLongitude <= box.maxLongitude
+    ? point.longitude >= box.minLongitude && point.longitude <= box.maxLongitude
+    : point.longitude >= box.minLongitude || point.longitude <= box.maxLongitude);
+
+describe('Geo Search', () => {
+  describe('boundingBox', () => {
+    it.each([
+      ['the equator', 0, 30],
+      ['mid latitudes', 51.5, -0.12],
+      ['high latitudes', 69.6, 18.9],
+      ['the antimeridian', -17.7, 179.9],
+    ])('should hold every point within the radius near %s', (_, latitude, longitude) => {
+      const box = boundingBox({ latitude, longitude }, 50);
+
+      for (let bearing = 0; bearing < 360; bearing += 15) {
+        const point = destination(latitude, longitude, bearing, 49.9);
+        expect(calculateDistance(latitude, longitude, point.latitude, point.longitude)).toBeCloseTo(
+          49.9,
+          1,
+        );
+        expect(contains(box, point)).toBe(true);
+      }
+    });
+
+    it('should leave out points well outside the radius', () => {
+      const box = boundingBox({ latitude: 51.5, longitude: -0.12 }, 10);
+
+      expect(contains(box, destination(51.5, -0.12, 0, 15))).toBe(false);
+      expect(contains(box, destination(51.5, -0.12, 90, 20))).toBe(false);
+    });
+
+    it('should wrap longitudes across the antimeridian', () => {
+      const box = boundingBox({ latitude: -17.7, longitude: 179.9 }, 50);
+
+      expect(box.minLongitude).toBeGreaterThan(box.maxLongitude);
+      expect(box.maxLongitude).toBeLessThan(-179);
+    });
+
+    it('should span every longitude when the radius reaches a pole', () => {
+      const box = boundingBox({ latitude: 89.9, longitude: 10 }, 50);
+
+      expect(box.maxLatitude).toBe(90);
+      expect(box.minLongitude).toBe(-180);
+      expect(box.maxLongitude).toBe(180);
+    });
+  });
+
+  describe('proximityQuery', () => {
+    it('should number its parameters from the first one given', () => {
+      const proximity = proximityQuery(
+        'h.latitude',
+        'h.longitude',
+        { latitude: 10, longitude: 20 },
+        25,
+        3,
+      );
+
+      expect(proximity.params).toHaveLength(7);
+      expect(proximity.params.slice(0, 3)).toEqual([10, 20, 25]);
+      expect(proximity.condition).toContain(
+        'point(h.longitude::float8, h.latitude::float8) <@ box(point($8::float8, $6::float8), point($9::float8, $7::float8))',
+      );
+      expect(proximity.condition).toContain('<= $5');
+      expect(proximity.distance).toContain('$3::float8');
+      expect(proximity.distance).not.toContain('$10');
+    });
+
+    it('should accept either side of the antimeridian', () => {
+      const proximity = proximityQuery(
+        'h.latitude',
+        'h.longitude',
+        { latitude: -17.7, longitude: 179.9 },
+        50,
+        1,
+      );
+
+      expect(proximity.condition).toContain('box(point($6::float8, $4::float8), point(180::float8');
+      expect(proximity.condition).toContain(
+        'box(point(-180::float8, $4::float8), point($7::float8',
+      );
+    });
+  });
+});
@@ -0,0 +1,91 @@
+import { EmergencyCategory, TriageSeverity } from '../../../src/utils/emergencyTriage';
+import {
+  departmentFor,
+  HospitalDepartment,
+  isCapacityStale,
+  resolveBedAvailability,
+} from '../../../src/utils/hospitalCapacity';
+
+describe('Hospital Capacity', () => {
+  const now = new Date('2024-01-15T12:00:00Z');
+  const minutesAgo = (minutes: number) => new Date(now.getTime() - minutes * 60000);
+
+  describe('departmentFor', () => {
+    it('should use the dedicated department for trauma, maternity and burns', () => {
+      expect(departmentFor(EmergencyCategory.TRAUMA, TriageSeverity.CRITICAL)).toBe(
+        HospitalDepartment.TRAUMA_BAY,
+      );
+      expect(departmentFor(EmergencyCategory.MATERNITY, TriageSeverity.MODERATE)).toBe(
+        HospitalDepartment.MATERNITY,
+      );
+      expect(departmentFor(EmergencyCategory.BURNS, TriageSeverity.HIGH)).toBe(
+        HospitalDepartment.BURNS,
+      );
+    });
+
+    it('should send other critical patients to intensive care', () => {
+      expect(departmentFor(EmergencyCategory.CARDIAC, TriageSeverity.CRITICAL)).toBe(
+        HospitalDepartment.ICU,
+      );
+      expect(departmentFor(EmergencyCategory.CARDIAC, TriageSeverity.HIGH)).toBe(
+        HospitalDepartment.EMERGENCY_ROOM,
+      );
+    });
+  });
+
+  describe('isCapacityStale', () => {
+    it('should only flag figures older than the threshold', () => {
+      expect(isCapacityStale(minutesAgo(59), 60, now)).toBe(false);
+      expect(isCapacityStale(minutesAgo(61), 60, now)).toBe(true);
+    });
+  });
+
+  describe('resolveBedAvailability', () => {
+    const estimate = { capacity: 10, openRequests: 4 };
+
+    it('should prefer figures published by the hospital', () => {
+      const beds = resolveBedAvailability(
+        HospitalDepartment.ICU,
+        { totalBeds: 8, availableBeds: 0, updatedAt: minutesAgo(5) },
+        estimate,
+        60,
+        now,
+      );
+
+      expect(beds).toMatchObject({ totalBeds: 8, availableBeds: 0, source: 'reported' });
+    });
+
+    it('should keep old published figures but mark them stale', () => {
+      const beds = resolveBedAvailability(
+        HospitalDepartment.ICU,
+        { totalBeds: 8, availableBeds: 3, updatedAt: minutesAgo(90) },
+        estimate,
+        60,
+        now,
+      );
+
+      expect(beds).toMatchObject({ availableBeds: 3, source: 'stale' });
+    });
+
+    it('should estimate from open requests when nothing was published', () => {
+      expect(
+        resolveBedAvailability(HospitalDepartment.EMERGENCY_ROOM, null, estimate, 60, now),
+      ).toEqual({
+        department: HospitalDepartment.EMERGENCY_ROOM,
+        totalBeds: 10,
+        availableBeds: 6,
+        updatedAt: null,
+        source: 'estimated',
+      });
+      expect(
+        resolveBedAvailability(
+          HospitalDepartment.EMERGENCY_ROOM,
+          null,
+          { capacity: 2, openRequests: 5 },
+          60,
+          now,
+        ).availableBeds,
+      ).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,167 @@
+import {
+  GeoJsonPolygon,
+  polygonError,
+  serviceAreaQuery,
+  ServiceAreaType,
+  toServiceArea,
+  visibleRequestQuery,
+} from '../../../src/utils/serviceArea';
+
+describe('Service Area Utils', () => {
+  const square: GeoJsonPolygon = {
+    type: 'Polygon',
+    coordinates: [
+      [
+        [77.5, 12.9],
+        [77.7, 12.9],
+        [77.7, 13.1],
+        [77.5, 13.1],
+        [77.5, 12.9],
+      ],
+    ],
+  };
+
+  describe('polygonError', () => {
+    it('should accept a closed ring', () => {
+      expect(polygonError(square)).toBeNull();
+    });
+
+    it('should reject values that are not GeoJSON polygons', () => {
+      expect(polygonError(null)).toBe('Boundary must be a GeoJSON Polygon');
+      expect(polygonError({ type: 'Point', coordinates: [77.5, 12.9] })).toBe(
+        'Boundary must be a GeoJSON Polygon',
+      );
+    });
+
+    it('should reject open rings, holes and positions out of range', () => {
+      const ring = square.coordinates[0];
+
+      expect(polygonError({ type: 'Polygon', coordinates: [ring.slice(0, 4)] })).toBe(
+        'Boundary must end at its first position',
+      );
+      expect(polygonError({ type: 'Polygon', coordinates: [ring, ring] })).toBe(
+        'Boundary cannot have holes',
+      );
+      expect(
+        polygonError({ type: 'Polygon', coordinates: [[[200, 12.9], ...ring.slice(1)]] }),
+      ).toBe('Boundary positions must be [longitude, latitude] pairs');
+      expect(polygonError({ type: 'Polygon', coordinates: [ring.slice(0, 3)] })).toMatch(
+        /between 4 and/,
+      );
+    });
+
+    it('should reject rings crossing the antimeridian', () => {
+      expect(
+        polygonError({
+          type: 'Polygon',
+          coordinates: [
+            [
+              [179.5, -17],
+              [-179.5, -17],
+              [-179.5, -18],
+              [179.5, -17],
+            ],
+          ],
+        }),
+      ).toBe('Boundary cannot cross the antimeridian');
+    });
+  });
+
+  describe('serviceAreaQuery', () => {
+    it('should measure a radius from the hospital', () => {
+      const query = serviceAreaQuery(
+        'er.pickup_latitude',
+        'er.pickup_longitude',
+        { type: ServiceAreaType.RADIUS, radiusKm: 30 },
+        { latitude: 12.97, longitude: 77.59 },
+        6,
+      );
+
+      expect(query.params.slice(0, 3)).toEqual([12.97, 77.59, 30]);
+      expect(query.condition).toContain('box(point($11::float8, $9::float8)');
+    });
+
+    it('should match nothing by radius without a hospital location', () => {
+      const query = serviceAreaQuery(
+        'er.pickup_latitude',
+        'er.pickup_longitude',
+        { type: ServiceAreaType.RADIUS, radiusKm: 30 },
+        null,
+        6,
+      );
+
+      expect(query).toEqual({ condition: 'false', params: [] });
+    });
+
+    it('should check polygons inside their bounding box', () => {
+      const query = serviceAreaQuery(
+        'er.pickup_latitude',
+        'er.pickup_longitude',
+        { type: ServiceAreaType.POLYGON, boundary: square },
+        null,
+        6,
+      );
+
+      expect(query.params).toEqual([
+        12.9,
+        13.1,
+        77.5,
+        77.7,
+        '((77.5,12.9),(77.7,12.9),(77.7,13.1),(77.5,13.1),(77.5,12.9))',
+      ]);
+      expect(query.condition).toContain(
+        '<@ box(point($8::float8, $6::float8), point($9::float8, $7::float8))',
+      );
+      expect(query.condition).toContain(
+        '$10::polygon @> point(er.pickup_longitude::float8, er.pickup_latitude::float8)',
+      );
+    });
+  });
+
+  describe('visibleRequestQuery', () => {
+    it('should let hospitals see requests offered to them or inside their area', () => {
+      const query = visibleRequestQuery(
+        '$1',
+        { latitude: '12.97', longitude: '77.59', area_type: null, radius_km: null, boundary: null },
+        50,
+        3,
+      );
+
+      expect(query.params.slice(0, 3)).toEqual([12.97, 77.59, 50]);
+      expect(query.condition).toContain(
+        "vo.emergency_id = er.id AND vo.hospital_id = $1 AND vo.status = 'offered'",
+      );
+      expect(query.condition).toContain(') OR (point(er.pickup_longitude::float8');
+    });
+
+    it('should only let hospitals without a location see offered requests by radius', () => {
+      const query = visibleRequestQuery(
+        '$1',
+        { latitude: null, longitude: null, area_type: 'radius', radius_km: '10', boundary: null },
+        50,
+        3,
+      );
+
+      expect(query.params).toEqual([]);
+      expect(query.condition).toMatch(/\) OR false\)$/);
+    });
+  });
+
+  describe('toServiceArea', () => {
+    it('should fall back to the default radius without a stored area', () => {
+      expect(toServiceArea({ area_type: null, radius_km: null, boundary: null }, 50)).toEqual({
+        type: ServiceAreaType.RADIUS,
+        radiusKm: 50,
+      });
+    });
+
+    it('should read stored radii and polygons', () => {
+      expect(
+        toServiceArea({ area_type: 'radius', radius_km: '12.50', boundary: null }, 50),
+      ).toEqual({ type: ServiceAreaType.RADIUS, radiusKm: 12.5 });
+      expect(
+        toServiceArea({ area_type: 'polygon', radius_km: null, boundary: square }, 50),
+      ).toEqual({ type: ServiceAreaType.POLYGON, boundary: square });
+    });
+  });
+});
@@ -0,0 +1,75 @@
+import { TtlCache } from '../../../src/utils/ttlCache';
+
+describe('TtlCache', () => {
+  let now: number;
+  const clock = () => now;
+
+  beforeEach(() => {
+    now = 1_000;
+  });
+
+  it('should return values until they expire', () => {
+    const cache = new TtlCache<string>(500, 10, clock);
+    cache.set('a', 'value');
+
+    now += 499;
+    expect(cache.get('a')).toBe('value');
+
+    now += 1;
+    expect(cache.get('a')).toBeUndefined();
+  });
+
+  it('should restart the expiry when a value is stored again', () => {
+    const cache = new TtlCache<string>(500, 10, clock);
+    cache.set('a', 'old');
+
+    now += 400;
+    cache.set('a', 'new');
+
+    now += 400;
+    expect(cache.get('a')).toBe('new');
+  });
+
+  it('should forget deleted values', () => {
+    const cache = new TtlCache<string>(500, 10, clock);
+    cache.set('a', 'value');
+    cache.delete('a');
+
+    expect(cache.get('a')).toBeUndefined();
+  });
+
+  it('should not store anything when the ttl is zero', () => {
+    const cache = new TtlCache<string>(0, 10, clock);
+    cache.set('a', 'value');
+
+    expect(cache.get('a')).toBeUndefined();
+  });
+
+  it('should drop expired values when storing new ones', () => {
+    const cache = new TtlCache<string>(500, 10, clock);
+    cache.set('a', 'value');
+    cache.set('b', 'value');
+
+    now += 300;
+    cache.set('c', 'value');
+
+    now += 300;
+    cache.set('d', 'value');
+
+    expect(cache.size).toBe(2);
+    expect(cache.get('c')).toBe('value');
+  });
+
+  it('should evict the oldest values past the size limit', () => {
+    const cache = new TtlCache<string>(500, 2, clock);
+    cache.set('a', 'value');
+    cache.set('b', 'value');
+    cache.set('a', 'stored again');
+    cache.set('c', 'value');
+
+    expect(cache.size).toBe(2);
+    expect(cache.get('b')).toBeUndefined();
+    expect(cache.get('a')).toBe('stored again');
+    expect(cache.get('c')).toBe('value');
+  });
+});
@@ -11,15 +11,28 @@ import { AuthProvider } from "@/lib/AuthContext";
 import ProtectedRoute from "@/components/ProtectedRoute";
 import Layout from "@/components/Layout";
 import RootRedirect from "@/components/RootRedirect";
+import HospitalReviewGate from "@/components/HospitalReviewGate";
 import LoginPage from "@/pages/LoginPage";
 import RegisterPage from "@/pages/RegisterPage";
 import HospitalRegisterPage from "@/pages/HospitalRegisterPage";
 import DriverRegisterPage from "@/pages/DriverRegisterPage";
+import VerifyEmailPage from "@/pages/VerifyEmailPage";
+import ForgotPasswordPage from "@/pages/ForgotPasswordPage";
+import ResetPasswordPage from "@/pages/ResetPasswordPage";
+import EmergencyStatusLinkPage from "@/pages/EmergencyStatusLinkPage";
 import DashboardPage from "@/pages/DashboardPage";
 import CasesListPage from "@/pages/CasesListPage";
 import DriversListPage from "@/pages/DriversListPage";
 import DriverApprovalPage from "@/pages/DriverApprovalPage";
+import DriverDashboardPage from "@/pages/DriverDashboardPage";
+import HospitalCapacityPage from "@/pages/HospitalCapacityPage";
+import HospitalDiversionPage from "@/pages/HospitalDiversionPage";
+import HospitalServiceAreaPage from "@/pages/HospitalServiceAreaPage";
 import UserEmergencyPage from "@/pages/UserEmergencyPage";
+import MedicalProfilePage from "@/pages/MedicalProfilePage";
+import AdminAccountsPage from "@/pages/AdminAccountsPage";
+import AdminEmergenciesPage from "@/pages/AdminEmergenciesPage";
+import AdminHospitalReviewsPage from "@/pages/AdminHospitalReviewsPage";
 
 function App() {
 	return (
@@ -32,6 +45,10 @@ function App() {
 					<Route path="/register" element={<RegisterPage />} />
 					<Route path="/register/hospital" element={<HospitalRegisterPage />} />
 					<Route path="/register/driver" element={<DriverRegisterPage />} />
+					<Route path="/verify-email" element={<VerifyEmailPage />} />
+					<Route path="/forgot-password" element={<ForgotPasswordPage />} />
+					<Route path="/reset-password" element={<ResetPasswordPage />} />
+					<Route path="/status/:token" element={<EmergencyStatusLinkPage />} />
 
 					{/* Protected routes */}
 					<Route
@@ -51,7 +68,9 @@ function App() {
 						element={
 							<ProtectedRoute allowedRoles={["hospital"]}>
 								<Layout>
-									<CasesListPage />
+									<HospitalReviewGate>
+										<CasesListPage />
+									</HospitalReviewGate>
 								</Layout>
 							</ProtectedRoute>
 						}
@@ -76,6 +95,48 @@ function App() {
 							</ProtectedRoute>
 						}
 					/>
+					<Route
+						path="/capacity"
+						element={
+							<ProtectedRoute allowedRoles={["hospital"]}>
+								<Layout>
+									<HospitalCapacityPage />
+								</Layout>
+							</ProtectedRoute>
+						}
+					/>
+					<Route
+						path="/diversion"
+						element={
+							<ProtectedRoute allowedRoles={["hospital"]}>
+								<Layout>
+									<HospitalDiversionPage />
+								</Layout>
+							</ProtectedRoute>
+						}
+					/>
+					<Route
+						path="/service-area"
+						element={
+							<ProtectedRoute allowedRoles={["hospital"]}>
+								<Layout>
+									<HospitalServiceAreaPage />
+								</Layout>
+							</ProtectedRoute>
+						}
+					/>
+
+					{/* Driver-specific routes */}
+					<Route
+						path="/driver"
+						element={
+							<ProtectedRoute allowedRoles={["driver"]}>
+								<Layout>
+									<DriverDashboardPage />
+								</Layout>
+							</ProtectedRoute>
+						}
+					/>
 
 					{/* User-specific routes */}
 					<Route
@@ -88,6 +149,48 @@ function App() {
 							</ProtectedRoute>
 						}
 					/>
+					<Route
+						path="/profile/medical"
+						element={
+							<ProtectedRoute allowedRoles={["user"]}>
+								<Layout>
+									<MedicalProfilePage />
+								</Layout>
+							</ProtectedRoute>
+						}
+					/>
+
+					{/* Admin-specific routes */}
+					<Route
+						path="/admin/emergencies"
+						element={
+							<ProtectedRoute allowedRoles={["admin"]}>
+								<Layout>
+									<AdminEmergenciesPage />
+								</Layout>
+							</ProtectedRoute>
+						}
+					/>
+					<Route
+						path="/admin/hospital-reviews"
+						element={
+							<ProtectedRoute allowedRoles={["admin"]}>
+								<Layout>
+									<AdminHospitalReviewsPage />
+								</Layout>
+							</ProtectedRoute>
+						}
+					/>
+					<Route
+						path="/admin/accounts"
+						element={
+							<ProtectedRoute allowedRoles={["admin"]}>
+								<Layout>
+									<AdminAccountsPage />
+								</Layout>
+							</ProtectedRoute>
+						}
+					/>
 
 					{/* Redirect to login for any undefined routes */}
 					<Route path="*" element={<Navigate to="/login" replace />} />
@@ -0,0 +1,197 @@
+import React, { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { emergencyAPI } from "@/lib/api";
+import { useAuth } from "@/lib/AuthContext";
+import { ChatMessage } from "@/lib/types";
+import { SocketEvents, useSocketEvents } from "@/lib/socket";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+interface EmergencyChatProps {
+	requestId: string;
+}
+
+const ROLE_LABELS: Record<string, string> = {
+	user: "Patient",
+	hospital: "Hospital",
+	driver: "Driver",
+};
+
+// Chat between the patient, the hospital and the assigned driver of an emergency
+const EmergencyChat: React.FC<EmergencyChatProps> = ({ requestId }) => {
+	const { user } = useAuth();
+	const [messages, setMessages] = useState<ChatMessage[]>([]);
+	const [readOnly, setReadOnly] = useState(false);
+	const [draft, setDraft] = useState("");
+	const [sending, setSending] = useState(false);
+	const [loading, setLoading] = useState(true);
+
+	useEffect(() => {
+		const loadMessages = async () => {
+			setLoading(true);
+			try {
+				const response = await emergencyAPI.getChatMessages(requestId);
+				if (response.data && response.data.success) {
+					// The API returns the newest messages first
+					setMessages([...response.data.data.messages].reverse());
+					setReadOnly(response.data.data.readOnly);
+				}
+				await emergencyAPI.markChatRead(requestId);
+			} catch (err) {
+				console.error("Error loading chat messages:", err);
+			} finally {
+				setLoading(false);
+			}
+		};
+
+		loadMessages();
+	}, [requestId]);
+
+	useSocketEvents([SocketEvents.CHAT_MESSAGE], (payload) => {
+		if (payload.requestId !== requestId) {
+			return;
+		}
+
+		const message = payload as unknown as ChatMessage;
+		setMessages((prev) =>
+			prev.some((existing) => existing.id === message.id)
+				? prev
+				: [...prev, message]
+		);
+
+		if (message.senderId !== user?.id) {
+			emergencyAPI
+				.markChatRead(requestId)
+				.catch((err) => console.error("Error marking chat as read:", err));
+		}
+	});
+
+	useSocketEvents([SocketEvents.CHAT_READ], (payload) => {
+		if (payload.requestId !== requestId) {
+			return;
+		}
+
+		const readerId = payload.readerId as string;
+		const readIds = payload.messageIds as string[];
+		setMessages((prev) =>
+			prev.map((message) =>
+				readIds.includes(message.id)
+					? {
+							...message,
+							isRead: true,
+							readBy: [
+								...message.readBy,
+								{ userId: readerId, readAt: payload.readAt as string },
+							],
+						}
+					: message
+			)
+		);
+	});
+
+	// The emergency was closed while the chat was open
+	useSocketEvents(
+		[SocketEvents.EMERGENCY_CANCELLED, SocketEvents.ASSIGNMENT_STATUS_CHANGED],
+		(payload) => {
+			if (
+				payload.requestId === requestId &&
+				(payload.status === "cancelled" || payload.status === "completed")
+			) {
+				setReadOnly(true);
+			}
+		}
+	);
+
+	const handleSend = async (e: React.FormEvent) => {
+		e.preventDefault();
+		const text = draft.trim();
+		if (!text) {
+			return;
+		}
+
+		setSending(true);
+		try {
+			const response = await emergencyAPI.sendChatMessage(requestId, text);
+			const sent: ChatMessage = response.data.data;
+			setMessages((prev) =>
+				prev.some((existing) => existing.id === sent.id)
+					? prev
+					: [...prev, sent]
+			);
+			setDraft("");
+		} catch (err: unknown) {
+			let errorMessage = "Failed to send message";
+			if (err && typeof err === "object" && "response" in err) {
+				const apiError = err as {
+					response?: { data?: { error?: { message?: string } } };
+				};
+				errorMessage = apiError.response?.data?.error?.message || errorMessage;
+			}
+			toast.error(errorMessage);
+		} finally {
+			setSending(false);
+		}
+	};
+
+	if (loading) {
+		return <div className="p-4 text-center">Loading chat...</div>;
+	}
+
+	return (
+		<div className="space-y-3">
+			<div className="border rounded-md p-3 h-64 overflow-y-auto space-y-2">
+				{messages.length === 0 ? (
+					<p className="text-sm text-gray-500 text-center">No messages yet</p>
+				) : (
+					messages.map((message) => {
+						const own = message.senderId === user?.id;
+						return (
+							<div
+								key={message.id}
+								className={`flex flex-col ${own ? "items-end" : "items-start"}`}
+							>
+								<div
+									className={`max-w-[80%] rounded-md px-3 py-2 text-sm ${
+										own ? "bg-blue-100" : "bg-gray-100"
+									}`}
+								>
+									{!own && (
+										<p className="text-xs font-medium">
+											{message.senderName} (
+											{ROLE_LABELS[message.senderRole] || message.senderRole})
+										</p>
+									)}
+									<p>{message.message}</p>
+								</div>
+								<p className="text-xs text-gray-500">
+									{new Date(message.sentAt).toLocaleTimeString()}
+									{own && (message.isRead ? " · Read" : " · Sent")}
+								</p>
+							</div>
+						);
+					})
+				)}
+			</div>
+
+			{readOnly ? (
+				<p className="text-sm text-gray-500">
+					This emergency is closed. The chat is read-only.
+				</p>
+			) : (
+				<form onSubmit={handleSend} className="flex gap-2">
+					<Input
+						placeholder="Type a message"
+						value={draft}
+						maxLength={1000}
+						onChange={(e) => setDraft(e.target.value)}
+					/>
+					<Button type="submit" disabled={sending || !draft.trim()}>
+						{sending ? "Sending..." : "Send"}
+					</Button>
+				</form>
+			)}
+		</div>
+	);
+};
+
+export default EmergencyChat;
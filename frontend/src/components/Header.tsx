@@ -1,5 +1,6 @@
 import React from "react";
 import { useNavigate, Link } from "react-router-dom";
+import { toast } from "sonner";
 import { useAuth } from "@/lib/AuthContext";
 import { Button } from "@/components/ui/button";
 import {
@@ -8,10 +9,21 @@ import {
 	DropdownMenuItem,
 	DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
-import { User, Home, Ambulance, UserCheck } from "lucide-react";
+import {
+	User,
+	Home,
+	Ambulance,
+	UserCheck,
+	Users,
+	ClipboardCheck,
+	HeartPulse,
+	BedDouble,
+	Signpost,
+	MapPinned,
+} from "lucide-react";
 
 const Header: React.FC = () => {
-	const { user, logout } = useAuth();
+	const { user, logout, logoutAll } = useAuth();
 	const navigate = useNavigate();
 
 	const handleLogout = () => {
@@ -19,6 +31,16 @@ const Header: React.FC = () => {
 		navigate("/login");
 	};
 
+	const handleLogoutAll = async () => {
+		try {
+			await logoutAll();
+			navigate("/login");
+		} catch (err) {
+			console.error("Error logging out of all devices:", err);
+			toast.error("Failed to log out of all devices");
+		}
+	};
+
 	const getUserDisplayName = () => {
 		if (!user) return "";
 
@@ -34,6 +56,7 @@ const Header: React.FC = () => {
 
 		if (user.role === "hospital") return "Hospital";
 		if (user.role === "driver") return "Driver";
+		if (user.role === "admin") return "Admin";
 		return "Patient";
 	};
 
@@ -68,6 +91,80 @@ const Header: React.FC = () => {
 									<UserCheck className="h-4 w-4 mr-2" />
 									Driver Approvals
 								</Link>
+								<Link
+									to="/capacity"
+									className="flex items-center text-sm font-medium text-gray-700 hover:text-primary"
+								>
+									<BedDouble className="h-4 w-4 mr-2" />
+									Bed Capacity
+								</Link>
+								<Link
+									to="/diversion"
+									className="flex items-center text-sm font-medium text-gray-700 hover:text-primary"
+								>
+									<Signpost className="h-4 w-4 mr-2" />
+									Diversion
+								</Link>
+								<Link
+									to="/service-area"
+									className="flex items-center text-sm font-medium text-gray-700 hover:text-primary"
+								>
+									<MapPinned className="h-4 w-4 mr-2" />
+									Service Area
+								</Link>
+							</nav>
+						)}
+
+						{/* Navigation Links - Only for drivers */}
+						{user.role === "driver" && (
+							<nav className="hidden md:flex space-x-6 ml-10">
+								<Link
+									to="/driver"
+									className="flex items-center text-sm font-medium text-gray-700 hover:text-primary"
+								>
+									<Ambulance className="h-4 w-4 mr-2" />
+									Driver Console
+								</Link>
+							</nav>
+						)}
+
+						{/* Navigation Links - Only for patients */}
+						{user.role === "user" && (
+							<nav className="hidden md:flex space-x-6 ml-10">
+								<Link
+									to="/profile/medical"
+									className="flex items-center text-sm font-medium text-gray-700 hover:text-primary"
+								>
+									<HeartPulse className="h-4 w-4 mr-2" />
+									Medical Profile
+								</Link>
+							</nav>
+						)}
+
+						{/* Navigation Links - Only for admins */}
+						{user.role === "admin" && (
+							<nav className="hidden md:flex space-x-6 ml-10">
+								<Link
+									to="/admin/emergencies"
+									className="flex items-center text-sm font-medium text-gray-700 hover:text-primary"
+								>
+									<Ambulance className="h-4 w-4 mr-2" />
+									Live Emergencies
+								</Link>
+								<Link
+									to="/admin/hospital-reviews"
+									className="flex items-center text-sm font-medium text-gray-700 hover:text-primary"
+								>
+									<ClipboardCheck className="h-4 w-4 mr-2" />
+									Hospital Reviews
+								</Link>
+								<Link
+									to="/admin/accounts"
+									className="flex items-center text-sm font-medium text-gray-700 hover:text-primary"
+								>
+									<Users className="h-4 w-4 mr-2" />
+									Accounts
+								</Link>
 							</nav>
 						)}
 
@@ -104,12 +201,61 @@ const Header: React.FC = () => {
 											<DropdownMenuItem onClick={() => navigate("/drivers")}>
 												Manage Drivers
 											</DropdownMenuItem>
+											<DropdownMenuItem onClick={() => navigate("/capacity")}>
+												Bed Capacity
+											</DropdownMenuItem>
+											<DropdownMenuItem onClick={() => navigate("/diversion")}>
+												Diversion
+											</DropdownMenuItem>
+											<DropdownMenuItem onClick={() => navigate("/service-area")}>
+												Service Area
+											</DropdownMenuItem>
+										</>
+									)}
+
+									{/* Mobile Navigation Menu Items for drivers */}
+									{user.role === "driver" && (
+										<DropdownMenuItem onClick={() => navigate("/driver")}>
+											Driver Console
+										</DropdownMenuItem>
+									)}
+
+									{/* Mobile Navigation Menu Items for patients */}
+									{user.role === "user" && (
+										<DropdownMenuItem
+											onClick={() => navigate("/profile/medical")}
+										>
+											Medical Profile
+										</DropdownMenuItem>
+									)}
+
+									{/* Mobile Navigation Menu Items for admins */}
+									{user.role === "admin" && (
+										<>
+											<DropdownMenuItem
+												onClick={() => navigate("/admin/emergencies")}
+											>
+												Live Emergencies
+											</DropdownMenuItem>
+											<DropdownMenuItem
+												onClick={() => navigate("/admin/hospital-reviews")}
+											>
+												Hospital Reviews
+											</DropdownMenuItem>
+											<DropdownMenuItem
+												onClick={() => navigate("/admin/accounts")}
+											>
+												Accounts
+											</DropdownMenuItem>
 										</>
 									)}
 
 									<DropdownMenuItem onClick={handleLogout}>
 										Logout
 									</DropdownMenuItem>
+									<DropdownMenuItem onClick={handleLogoutAll}>
+										Logout of all devices
+									</DropdownMenuItem>
 								</DropdownMenuContent>
 							</DropdownMenu>
 						</div>
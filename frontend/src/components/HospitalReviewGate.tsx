@@ -0,0 +1,107 @@
+import React, { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { hospitalAPI } from "@/lib/api";
+import { HospitalRegistrationReview } from "@/lib/types";
+import { SocketEvents, useSocketEvents } from "@/lib/socket";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+
+interface HospitalReviewGateProps {
+	children: React.ReactNode;
+}
+
+// Shows the hospital its registration review state until an admin approves it
+const HospitalReviewGate: React.FC<HospitalReviewGateProps> = ({ children }) => {
+	const [review, setReview] = useState<HospitalRegistrationReview | null>(null);
+	const [loading, setLoading] = useState(true);
+
+	const loadReview = async () => {
+		try {
+			const response = await hospitalAPI.getRegistrationReview();
+			if (response.data && response.data.success) {
+				setReview(response.data.data);
+			}
+		} catch (err) {
+			console.error("Error loading hospital registration review:", err);
+		} finally {
+			setLoading(false);
+		}
+	};
+
+	useEffect(() => {
+		loadReview();
+	}, []);
+
+	useSocketEvents([SocketEvents.HOSPITAL_REVIEWED], (payload) => {
+		if (payload.status === "approved") {
+			toast.success("Your hospital has been approved");
+		} else {
+			toast.error("Your hospital registration was rejected");
+		}
+		loadReview();
+	});
+
+	if (loading) {
+		return (
+			<div className="flex h-screen items-center justify-center">
+				<p>Loading...</p>
+			</div>
+		);
+	}
+
+	// Fall through when the review could not be loaded; the pages surface their own errors
+	if (!review || review.status === "approved") {
+		return <>{children}</>;
+	}
+
+	return (
+		<div className="container py-10">
+			<Card className="w-full max-w-xl mx-auto">
+				<CardHeader>
+					<CardTitle>
+						{review.status === "pending"
+							? "Registration under review"
+							: "Registration rejected"}
+					</CardTitle>
+					<CardDescription>
+						{review.status === "pending"
+							? "An administrator is checking your registration. You will start receiving emergencies once it is approved."
+							: "Your hospital cannot receive emergencies. Contact the platform administrators if you believe this is a mistake."}
+					</CardDescription>
+				</CardHeader>
+				<CardContent className="space-y-2 text-sm">
+					<p>
+						<span className="font-medium">Hospital:</span> {review.name}
+					</p>
+					<p>
+						<span className="font-medium">License number:</span>{" "}
+						{review.licenseNumber}
+					</p>
+					<p>
+						<span className="font-medium">Hospital type:</span>{" "}
+						{review.hospitalType}
+					</p>
+					<p>
+						<span className="font-medium">Submitted:</span>{" "}
+						{new Date(review.submittedAt).toLocaleString()}
+					</p>
+					{review.status === "rejected" && (
+						<div className="p-3 bg-destructive/10 border border-destructive rounded-md">
+							<p className="text-destructive">
+								<span className="font-medium">Reason:</span>{" "}
+								{review.rejectionReason}
+							</p>
+						</div>
+					)}
+				</CardContent>
+			</Card>
+		</div>
+	);
+};
+
+export default HospitalReviewGate;
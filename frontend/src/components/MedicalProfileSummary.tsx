@@ -0,0 +1,85 @@
+import React from "react";
+
+import { MedicalProfile } from "@/lib/types";
+
+interface MedicalProfileSummaryProps {
+	profile?: MedicalProfile | null;
+}
+
+const getAge = (dateOfBirth: string) => {
+	const birth = new Date(dateOfBirth);
+	const today = new Date();
+	let age = today.getFullYear() - birth.getFullYear();
+	const birthdayPassed =
+		today.getMonth() > birth.getMonth() ||
+		(today.getMonth() === birth.getMonth() &&
+			today.getDate() >= birth.getDate());
+	if (!birthdayPassed) {
+		age -= 1;
+	}
+	return age;
+};
+
+/**
+ * Compact view of a patient's medical profile for responders
+ */
+const MedicalProfileSummary: React.FC<MedicalProfileSummaryProps> = ({
+	profile,
+}) => {
+	if (!profile) {
+		return null;
+	}
+
+	const details = [
+		profile.bloodGroup && `Blood ${profile.bloodGroup}`,
+		profile.dateOfBirth && `Age ${getAge(profile.dateOfBirth)}`,
+	].filter(Boolean);
+
+	const isEmpty =
+		details.length === 0 &&
+		profile.allergies.length === 0 &&
+		profile.chronicConditions.length === 0 &&
+		profile.currentMedications.length === 0 &&
+		profile.emergencyContacts.length === 0;
+
+	if (isEmpty) {
+		return (
+			<p className="text-xs text-muted-foreground">No medical profile</p>
+		);
+	}
+
+	return (
+		<div className="space-y-1 text-xs">
+			{details.length > 0 && (
+				<p className="font-medium">{details.join(" · ")}</p>
+			)}
+			{profile.allergies.length > 0 && (
+				<p className="text-destructive">
+					Allergies: {profile.allergies.join(", ")}
+				</p>
+			)}
+			{profile.chronicConditions.length > 0 && (
+				<p>Conditions: {profile.chronicConditions.join(", ")}</p>
+			)}
+			{profile.currentMedications.length > 0 && (
+				<p>Medications: {profile.currentMedications.join(", ")}</p>
+			)}
+			{profile.emergencyContacts.map((contact) => (
+				<p key={`${contact.name}-${contact.phoneNumber}`}>
+					Contact: {contact.name}
+					{contact.relationship && ` (${contact.relationship})`} -{" "}
+					<a href={`tel:${contact.phoneNumber}`} className="underline">
+						{contact.phoneNumber}
+					</a>
+				</p>
+			))}
+			{profile.capturedAt && (
+				<p className="text-muted-foreground">
+					As of {new Date(profile.capturedAt).toLocaleString()}
+				</p>
+			)}
+		</div>
+	);
+};
+
+export default MedicalProfileSummary;
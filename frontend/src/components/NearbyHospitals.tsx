@@ -16,6 +16,7 @@ import {
 	TableRow,
 } from "@/components/ui/table";
 import { Button } from "@/components/ui/button";
+import { HospitalDepartment } from "@/lib/types";
 
 interface NearbyHospital {
 	id: string;
@@ -24,8 +25,29 @@ interface NearbyHospital {
 	distance: string;
 	currentLoad: string;
 	availability: string;
+	beds: {
+		department: HospitalDepartment;
+		departmentLabel: string;
+		availableBeds: number;
+		totalBeds: number;
+		updatedAt: string | null;
+		// reported: published by the hospital, stale: published but out of date,
+		// estimated: worked out from open requests
+		source: "reported" | "stale" | "estimated";
+	};
 }
 
+const describeBedSource = (beds: NearbyHospital["beds"]) => {
+	if (beds.source === "estimated" || !beds.updatedAt) {
+		return "Estimated from current requests";
+	}
+	const minutes = Math.round(
+		(Date.now() - new Date(beds.updatedAt).getTime()) / 60000
+	);
+	const age = minutes < 1 ? "just now" : `${minutes} min ago`;
+	return beds.source === "stale" ? `Not updated since ${age}` : `Updated ${age}`;
+};
+
 interface NearbyHospitalsProps {
 	emergencyId: string;
 	maxDistance?: number;
@@ -106,7 +128,7 @@ const NearbyHospitals: React.FC<NearbyHospitalsProps> = ({
 						<TableRow>
 							<TableHead>Hospital</TableHead>
 							<TableHead>Distance</TableHead>
-							<TableHead>Current Load</TableHead>
+							<TableHead>Beds Free</TableHead>
 							<TableHead>Status</TableHead>
 						</TableRow>
 					</TableHeader>
@@ -122,7 +144,23 @@ const NearbyHospitals: React.FC<NearbyHospitalsProps> = ({
 									</div>
 								</TableCell>
 								<TableCell>{hospital.distance}</TableCell>
-								<TableCell>{hospital.currentLoad}</TableCell>
+								<TableCell>
+									<div>
+										<div className="font-medium">
+											{hospital.beds.availableBeds}/{hospital.beds.totalBeds}{" "}
+											{hospital.beds.departmentLabel}
+										</div>
+										<div
+											className={`text-xs ${
+												hospital.beds.source === "stale"
+													? "text-amber-600"
+													: "text-muted-foreground"
+											}`}
+										>
+											{describeBedSource(hospital.beds)}
+										</div>
+									</div>
+								</TableCell>
 								<TableCell>
 									<span
 										className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
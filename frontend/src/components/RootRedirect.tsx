@@ -15,6 +15,9 @@ const RootRedirect: React.FC = () => {
 		} else if (user.role === "hospital") {
 			// Hospital user, redirect to cases
 			navigate("/cases");
+		} else if (user.role === "admin") {
+			// Admin user, redirect to the live emergency console
+			navigate("/admin/emergencies");
 		} else {
 			// Other user types (user, driver), redirect to dashboard
 			navigate("/dashboard");
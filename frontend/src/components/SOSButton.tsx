@@ -7,12 +7,31 @@ import { getCurrentLocation, getAddressFromCoordinates } from "@/lib/utils";
 
 interface SOSButtonProps {
 	onSuccess?: (emergencyId: string) => void;
+	onCancel?: (emergencyId: string) => void;
 	className?: string;
 }
 
-const SOSButton: React.FC<SOSButtonProps> = ({ onSuccess, className = "" }) => {
+// How long the user can undo an accidental SOS from the confirmation toast
+const UNDO_WINDOW_MS = 10000;
+
+const SOSButton: React.FC<SOSButtonProps> = ({
+	onSuccess,
+	onCancel,
+	className = "",
+}) => {
 	const [loading, setLoading] = useState(false);
 
+	const undoEmergencyRequest = async (requestId: string) => {
+		try {
+			await emergencyAPI.cancelEmergency(requestId);
+			toast.success("Emergency request cancelled");
+			onCancel?.(requestId);
+		} catch (error) {
+			console.error("Error cancelling emergency request:", error);
+			toast.error("Failed to cancel emergency request");
+		}
+	};
+
 	const createEmergencyRequest = async () => {
 		setLoading(true);
 
@@ -35,10 +54,20 @@ const SOSButton: React.FC<SOSButtonProps> = ({ onSuccess, className = "" }) => {
 			});
 
 			if (response.data && response.data.success) {
-				toast.success("Emergency request created successfully");
+				const requestId: string | undefined = response.data.data?.requestId;
+
+				if (requestId) {
+					toast.success("Emergency request created successfully", {
+						duration: UNDO_WINDOW_MS,
+						action: {
+							label: "Undo",
+							onClick: () => undoEmergencyRequest(requestId),
+						},
+					});
 
-				if (onSuccess && response.data.data && response.data.data.requestId) {
-					onSuccess(response.data.data.requestId);
+					onSuccess?.(requestId);
+				} else {
+					toast.success("Emergency request created successfully");
 				}
 			} else {
 				throw new Error(
@@ -0,0 +1,33 @@
+import React from "react";
+
+import { TriageSeverity } from "@/lib/types";
+
+const SEVERITY_CLASSES: Record<TriageSeverity, string> = {
+	low: "bg-green-100 text-green-800",
+	moderate: "bg-yellow-100 text-yellow-800",
+	high: "bg-orange-100 text-orange-800",
+	critical: "bg-red-100 text-red-800",
+};
+
+interface SeverityBadgeProps {
+	severity?: TriageSeverity;
+}
+
+/**
+ * Colour-coded triage severity
+ */
+const SeverityBadge: React.FC<SeverityBadgeProps> = ({ severity }) => {
+	if (!severity) {
+		return null;
+	}
+
+	return (
+		<span
+			className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${SEVERITY_CLASSES[severity]}`}
+		>
+			{severity.toUpperCase()}
+		</span>
+	);
+};
+
+export default SeverityBadge;
@@ -0,0 +1,140 @@
+import React, { useEffect, useState } from "react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import SeverityBadge from "@/components/SeverityBadge";
+import { emergencyAPI } from "@/lib/api";
+import {
+	EmergencyCatalogue,
+	EmergencyCategory,
+	TriageAnswers,
+	TriageSeverity,
+} from "@/lib/types";
+
+interface TriageCardProps {
+	requestId: string;
+	emergencyType?: EmergencyCategory;
+	severity?: TriageSeverity;
+	onUpdated: () => void;
+}
+
+/**
+ * Lets the patient add what kind of emergency it is after the one-tap SOS,
+ * so the hospital can prioritise it
+ */
+const TriageCard: React.FC<TriageCardProps> = ({
+	requestId,
+	emergencyType,
+	severity,
+	onUpdated,
+}) => {
+	const [catalogue, setCatalogue] = useState<EmergencyCatalogue | null>(null);
+	const [category, setCategory] = useState<EmergencyCategory>(
+		emergencyType || "other"
+	);
+	const [answers, setAnswers] = useState<TriageAnswers>({});
+	const [saving, setSaving] = useState(false);
+
+	useEffect(() => {
+		emergencyAPI
+			.getEmergencyTypes()
+			.then((response) => setCatalogue(response.data.data))
+			.catch((err) => console.error("Error loading emergency types:", err));
+	}, []);
+
+	useEffect(() => {
+		setCategory(emergencyType || "other");
+	}, [emergencyType]);
+
+	const handleSubmit = async (e: React.FormEvent) => {
+		e.preventDefault();
+		setSaving(true);
+
+		try {
+			await emergencyAPI.updateTriage(requestId, {
+				emergencyType: category,
+				triageAnswers: answers,
+			});
+			toast.success("Thanks, the hospital has been updated");
+			onUpdated();
+		} catch (err: unknown) {
+			let errorMessage = "Failed to update emergency details";
+			if (err && typeof err === "object" && "response" in err) {
+				const apiError = err as {
+					response?: { data?: { error?: { message?: string } } };
+				};
+				errorMessage = apiError.response?.data?.error?.message || errorMessage;
+			}
+			toast.error(errorMessage);
+		} finally {
+			setSaving(false);
+		}
+	};
+
+	if (!catalogue) {
+		return null;
+	}
+
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle className="flex items-center gap-2">
+					Tell us more <SeverityBadge severity={severity} />
+				</CardTitle>
+				<CardDescription>
+					Help is already on the way. Answering these helps the hospital
+					prepare.
+				</CardDescription>
+			</CardHeader>
+			<CardContent>
+				<form onSubmit={handleSubmit} className="space-y-4">
+					<div className="space-y-2">
+						<Label htmlFor="emergencyType">What is the emergency?</Label>
+						<select
+							id="emergencyType"
+							className="flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm"
+							value={category}
+							onChange={(e) => setCategory(e.target.value as EmergencyCategory)}
+						>
+							{catalogue.categories.map((entry) => (
+								<option key={entry.id} value={entry.id}>
+									{entry.label}
+								</option>
+							))}
+						</select>
+					</div>
+					<div className="space-y-2">
+						{catalogue.questions.map((question) => (
+							<label
+								key={question.id}
+								className="flex items-center gap-2 text-sm"
+							>
+								<input
+									type="checkbox"
+									checked={answers[question.id] === true}
+									onChange={(e) =>
+										setAnswers({ ...answers, [question.id]: e.target.checked })
+									}
+								/>
+								{question.text}
+							</label>
+						))}
+					</div>
+					<Button type="submit" disabled={saving}>
+						{saving ? "Sending..." : "Send Details"}
+					</Button>
+				</form>
+			</CardContent>
+		</Card>
+	);
+};
+
+export default TriageCard;
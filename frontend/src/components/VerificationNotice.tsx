@@ -0,0 +1,37 @@
+import React from "react";
+import { useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+
+interface VerificationNoticeProps {
+	email: string;
+}
+
+// Shown after registering while the new account still has to verify its email address
+const VerificationNotice: React.FC<VerificationNoticeProps> = ({ email }) => {
+	const navigate = useNavigate();
+
+	return (
+		<div className="space-y-4">
+			<div className="p-4 bg-green-50 border border-green-200 rounded-md text-green-800">
+				<p className="text-center">
+					Registration successful! We sent a verification link to{" "}
+					<span className="font-medium">{email}</span>. Open it to activate
+					your account, then sign in.
+				</p>
+			</div>
+			<div className="flex flex-col gap-2">
+				<Button className="w-full" onClick={() => navigate("/login")}>
+					Go to sign in
+				</Button>
+				<Button
+					variant="link"
+					onClick={() => navigate("/verify-email", { state: { email } })}
+				>
+					Didn't get the email?
+				</Button>
+			</div>
+		</div>
+	);
+};
+
+export default VerificationNotice;
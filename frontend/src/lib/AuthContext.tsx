@@ -1,6 +1,6 @@
 import React, { createContext, useContext, useState, useEffect } from "react";
 import { User, LoginCredentials } from "./types";
-import { authAPI } from "./api";
+import { authAPI, clearSession } from "./api";
 
 interface AuthContextType {
 	user: User | null;
@@ -8,6 +8,7 @@ interface AuthContextType {
 	error: string | null;
 	login: (credentials: LoginCredentials) => Promise<void>;
 	logout: () => void;
+	logoutAll: () => Promise<void>;
 	clearError: () => void;
 }
 
@@ -17,6 +18,7 @@ const AuthContext = createContext<AuthContextType>({
 	error: null,
 	login: async () => {},
 	logout: () => {},
+	logoutAll: async () => {},
 	clearError: () => {},
 });
 
@@ -42,8 +44,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
 				setUser(parsedUser);
 			} catch (err) {
 				console.error("Error parsing user from localStorage", err);
-				localStorage.removeItem("user");
-				localStorage.removeItem("token");
+				clearSession();
 			}
 		}
 		setLoading(false);
@@ -58,9 +59,11 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
 
 			// Check if we have a success response with token and user
 			if (data.success && data.data?.token && data.data?.id) {
+				const { token, refreshToken, ...profile } = data.data;
+
 				// Transform the data to match the expected User interface
 				const userData = {
-					...data.data,
+					...profile,
 					// Ensure role is set for compatibility with components expecting role
 					role: data.data.userType,
 				};
@@ -75,7 +78,8 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
 					}
 				}
 
-				localStorage.setItem("token", data.data.token);
+				localStorage.setItem("token", token);
+				localStorage.setItem("refreshToken", refreshToken);
 				localStorage.setItem("user", JSON.stringify(userData));
 				setUser(userData);
 				return;
@@ -120,6 +124,12 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
 		setUser(null);
 	};
 
+	// Revokes every session of the account, including other devices
+	const logoutAll = async () => {
+		await authAPI.logoutAll();
+		setUser(null);
+	};
+
 	const clearError = () => {
 		setError(null);
 	};
@@ -132,6 +142,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
 				error,
 				login,
 				logout,
+				logoutAll,
 				clearError,
 			}}
 		>
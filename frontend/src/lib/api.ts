@@ -1,15 +1,29 @@
-import axios from "axios";
+import axios, { AxiosError, InternalAxiosRequestConfig } from "axios";
 import {
 	UserRegistration,
 	LoginCredentials,
 	EmergencyCreation,
 	HospitalRegistration,
 	DriverRegistration,
+	DeclineReasonCode,
+	AssignmentMode,
+	DepartmentCapacityUpdate,
+	DiversionRequest,
+	ServiceAreaUpdate,
+	HospitalReviewStatus,
+	MedicalProfileUpdate,
+	EmergencyCategory,
+	TriageAnswers,
+	PendingEmergencySort,
+	TriageSeverity,
 } from "./types";
+import { disconnectSocket } from "./socket";
+
+const API_URL = "http://localhost:5001/api/v1"; // Update this to match your backend URL
 
 // Create an axios instance with default config
 const api = axios.create({
-	baseURL: "http://localhost:5001/api/v1", // Update this to match your backend URL
+	baseURL: API_URL,
 	headers: {
 		"Content-Type": "application/json",
 	},
@@ -29,6 +43,72 @@ api.interceptors.request.use(
 	}
 );
 
+// Endpoints that manage the session themselves and must never trigger a refresh
+const SESSION_ENDPOINTS = ["/auth/login", "/auth/refresh", "/auth/logout"];
+
+export const clearSession = () => {
+	localStorage.removeItem("token");
+	localStorage.removeItem("refreshToken");
+	localStorage.removeItem("user");
+	disconnectSocket();
+};
+
+let refreshRequest: Promise<string> | null = null;
+
+// Requests that fail together while the access token is expired share a single refresh,
+// because the server revokes the session if the same refresh token is used twice
+const refreshAccessToken = (): Promise<string> => {
+	if (!refreshRequest) {
+		const refreshToken = localStorage.getItem("refreshToken");
+		refreshRequest = (
+			refreshToken
+				? axios.post(`${API_URL}/auth/refresh`, { refreshToken })
+				: Promise.reject(new Error("No refresh token"))
+		)
+			.then((response) => {
+				const { token, refreshToken: nextRefreshToken } = response.data.data;
+				localStorage.setItem("token", token);
+				localStorage.setItem("refreshToken", nextRefreshToken);
+				return token as string;
+			})
+			.finally(() => {
+				refreshRequest = null;
+			});
+	}
+	return refreshRequest;
+};
+
+// Refresh the access token once when a request is rejected with 401, then retry it
+api.interceptors.response.use(
+	(response) => response,
+	async (error: AxiosError) => {
+		const request = error.config as
+			| (InternalAxiosRequestConfig & { _retried?: boolean })
+			| undefined;
+
+		if (
+			error.response?.status !== 401 ||
+			!request ||
+			request._retried ||
+			SESSION_ENDPOINTS.includes(request.url || "")
+		) {
+			return Promise.reject(error);
+		}
+
+		request._retried = true;
+		try {
+			const token = await refreshAccessToken();
+			request.headers.Authorization = `Bearer ${token}`;
+			return api(request);
+		} catch {
+			// The session is gone (expired, revoked or suspended); sign in again
+			clearSession();
+			window.location.assign("/login");
+			return Promise.reject(error);
+		}
+	}
+);
+
 // Auth API
 export const authAPI = {
 	register: async (userData: UserRegistration) => {
@@ -47,9 +127,31 @@ export const authAPI = {
 		}
 		return api.post("/auth/login", credentials);
 	},
-	logout: () => {
-		localStorage.removeItem("token");
-		localStorage.removeItem("user");
+	logout: async () => {
+		const refreshToken = localStorage.getItem("refreshToken");
+		clearSession();
+		if (refreshToken) {
+			// Signing out locally always succeeds; the server revokes the session if it can
+			await api.post("/auth/logout", { refreshToken }).catch((err) => {
+				console.error("Error revoking session:", err);
+			});
+		}
+	},
+	logoutAll: async () => {
+		await api.post("/auth/logout-all");
+		clearSession();
+	},
+	verifyEmail: async (token: string) => {
+		return api.post("/auth/verify-email", { token });
+	},
+	resendVerificationEmail: async (email: string) => {
+		return api.post("/auth/verify-email/resend", { email });
+	},
+	forgotPassword: async (email: string) => {
+		return api.post("/auth/forgot-password", { email });
+	},
+	resetPassword: async (token: string, password: string) => {
+		return api.post("/auth/reset-password", { token, password });
 	},
 };
 
@@ -58,11 +160,19 @@ export const emergencyAPI = {
 	createEmergency: async (emergencyData: EmergencyCreation) => {
 		return api.post("/user/emergency", emergencyData);
 	},
-	getEmergencies: async () => {
+	getEmergencies: async (
+		sort: PendingEmergencySort = "urgency",
+		severities: TriageSeverity[] = []
+	) => {
 		console.log(
 			"Calling getEmergencies with endpoint: /hospital/emergency/pending"
 		);
-		return api.get("/hospital/emergency/pending");
+		return api.get("/hospital/emergency/pending", {
+			params: {
+				sort,
+				severity: severities.length > 0 ? severities.join(",") : undefined,
+			},
+		});
 	},
 	getActiveEmergencies: async () => {
 		console.log(
@@ -73,13 +183,21 @@ export const emergencyAPI = {
 	assignDriver: async (emergencyId: string, driverId: string) => {
 		return api.post(`/hospital/emergency/${emergencyId}/assign`, { driverId });
 	},
-	rejectEmergency: async (emergencyId: string) => {
-		// Since we don't have a backend endpoint yet, we'll simulate rejection
-		// In a real app, this would call something like:
-		// return api.post(`/hospital/emergency/${emergencyId}/reject`);
-
-		// For demo purposes, we'll make a direct POST call
-		return api.post(`/hospital/emergency/${emergencyId}/reject`);
+	acceptEmergency: async (emergencyId: string) => {
+		return api.post(`/hospital/emergency/${emergencyId}/accept`);
+	},
+	rejectEmergency: async (
+		emergencyId: string,
+		reasonCode: DeclineReasonCode,
+		notes?: string
+	) => {
+		return api.post(`/hospital/emergency/${emergencyId}/reject`, {
+			reasonCode,
+			notes,
+		});
+	},
+	getDriverSuggestions: async (emergencyId: string) => {
+		return api.get(`/hospital/emergency/${emergencyId}/driver-suggestions`);
 	},
 	getNearbyHospitals: async (
 		emergencyId: string,
@@ -98,6 +216,100 @@ export const emergencyAPI = {
 			params: { page, limit },
 		});
 	},
+	getEmergencyTypes: async () => {
+		return api.get("/emergency-types");
+	},
+	updateTriage: async (
+		requestId: string,
+		triage: { emergencyType?: EmergencyCategory; triageAnswers?: TriageAnswers }
+	) => {
+		return api.put(`/user/emergency/${requestId}/triage`, triage);
+	},
+	createStatusLink: async (requestId: string) => {
+		return api.post(`/user/emergency/${requestId}/status-link`);
+	},
+	getPublicStatus: async (token: string) => {
+		return api.get(`/emergency-status/${encodeURIComponent(token)}`);
+	},
+	cancelEmergency: async (requestId: string, reason?: string) => {
+		return api.post(`/user/emergency/${requestId}/cancel`, { reason });
+	},
+	getEmergencyTracking: async (requestId: string) => {
+		return api.get(`/user/emergency/${requestId}/tracking`);
+	},
+	getHospitalEmergencyTracking: async (requestId: string) => {
+		return api.get(`/hospital/emergency/${requestId}/tracking`);
+	},
+	getChatMessages: async (requestId: string, page = 1, limit = 50) => {
+		return api.get(`/emergencies/${requestId}/messages`, {
+			params: { page, limit },
+		});
+	},
+	sendChatMessage: async (requestId: string, message: string) => {
+		return api.post(`/emergencies/${requestId}/messages`, { message });
+	},
+	markChatRead: async (requestId: string) => {
+		return api.post(`/emergencies/${requestId}/messages/read`);
+	},
+};
+
+// Patient profile API
+export const profileAPI = {
+	getMedicalProfile: async () => {
+		return api.get("/user/profile/medical");
+	},
+	updateMedicalProfile: async (profile: MedicalProfileUpdate) => {
+		return api.put("/user/profile/medical", profile);
+	},
+};
+
+// Hospital API
+export const hospitalAPI = {
+	getAssignmentMode: async () => {
+		return api.get("/hospital/settings/assignment-mode");
+	},
+	updateAssignmentMode: async (assignmentMode: AssignmentMode) => {
+		return api.put("/hospital/settings/assignment-mode", { assignmentMode });
+	},
+	getCapacity: async () => {
+		return api.get("/hospital/capacity");
+	},
+	updateCapacity: async (departments: DepartmentCapacityUpdate[]) => {
+		return api.put("/hospital/capacity", { departments });
+	},
+	getDiversion: async () => {
+		return api.get("/hospital/diversion");
+	},
+	startDiversion: async (diversion: DiversionRequest) => {
+		return api.put("/hospital/diversion", diversion);
+	},
+	endDiversion: async () => {
+		return api.delete("/hospital/diversion");
+	},
+	getNeighbourDiversions: async () => {
+		return api.get("/hospital/diversions/nearby");
+	},
+	getServiceArea: async () => {
+		return api.get("/hospital/service-area");
+	},
+	updateServiceArea: async (area: ServiceAreaUpdate) => {
+		return api.put("/hospital/service-area", area);
+	},
+	getDirectory: async () => {
+		return api.get("/hospitals");
+	},
+	getRegistrationReview: async () => {
+		return api.get("/hospital/registration");
+	},
+	getSharingAgreements: async () => {
+		return api.get("/hospital/sharing-agreements");
+	},
+	createSharingAgreement: async (borrowerHospitalId: string) => {
+		return api.post("/hospital/sharing-agreements", { borrowerHospitalId });
+	},
+	endSharingAgreement: async (agreementId: string) => {
+		return api.delete(`/hospital/sharing-agreements/${agreementId}`);
+	},
 };
 
 // Driver API
@@ -108,6 +320,21 @@ export const driverAPI = {
 	approveDriver: async (driverId: string) => {
 		return api.post(`/hospital/drivers/${driverId}/approve`);
 	},
+	getInvitations: async () => {
+		return api.get("/hospital/drivers/invitations");
+	},
+	inviteDriver: async (email: string) => {
+		return api.post("/hospital/drivers/invitations", { email });
+	},
+	revokeInvitation: async (invitationId: string) => {
+		return api.delete(`/hospital/drivers/invitations/${invitationId}`);
+	},
+	acceptInvitation: async (inviteCode: string) => {
+		return api.post("/driver/invitations/accept", { inviteCode });
+	},
+	getStatus: async () => {
+		return api.get("/driver/status");
+	},
 	updateAvailability: async (isAvailable: boolean) => {
 		return api.put("/driver/status", { isAvailable });
 	},
@@ -120,6 +347,61 @@ export const driverAPI = {
 	getAssignmentHistory: async (page = 1, limit = 10) => {
 		return api.get(`/driver/assignment/history?page=${page}&limit=${limit}`);
 	},
+	updateLocation: async (location: {
+		latitude: number;
+		longitude: number;
+		heading?: number;
+		speed?: number;
+		accuracy?: number;
+	}) => {
+		return api.put("/driver/location", location);
+	},
+};
+
+// Admin API
+export const adminAPI = {
+	getUsers: async (role?: string, page = 1, limit = 20) => {
+		const roleFilter = role ? `&role=${role}` : "";
+		return api.get(`/admin/users?page=${page}&limit=${limit}${roleFilter}`);
+	},
+	getHospitals: async (page = 1, limit = 20) => {
+		return api.get(`/admin/hospitals?page=${page}&limit=${limit}`);
+	},
+	getHospitalRegistrations: async (
+		status: HospitalReviewStatus = "pending",
+		page = 1,
+		limit = 20
+	) => {
+		return api.get(
+			`/admin/hospitals/registrations?status=${status}&page=${page}&limit=${limit}`
+		);
+	},
+	approveHospital: async (hospitalId: string) => {
+		return api.put(`/admin/hospitals/${hospitalId}/approve`);
+	},
+	rejectHospital: async (hospitalId: string, reason: string) => {
+		return api.put(`/admin/hospitals/${hospitalId}/reject`, { reason });
+	},
+	getDrivers: async (page = 1, limit = 20) => {
+		return api.get(`/admin/drivers?page=${page}&limit=${limit}`);
+	},
+	setUserActive: async (userId: string, isActive: boolean) => {
+		return api.put(`/admin/users/${userId}/${isActive ? "reactivate" : "suspend"}`);
+	},
+	setHospitalActive: async (hospitalId: string, isActive: boolean) => {
+		return api.put(
+			`/admin/hospitals/${hospitalId}/${isActive ? "reactivate" : "suspend"}`
+		);
+	},
+	setDriverActive: async (driverId: string, isActive: boolean) => {
+		return api.put(`/admin/drivers/${driverId}/${isActive ? "reactivate" : "suspend"}`);
+	},
+	getLiveEmergencies: async () => {
+		return api.get("/admin/emergencies/live");
+	},
+	reassignEmergency: async (requestId: string, hospitalId: string, reason?: string) => {
+		return api.post(`/admin/emergencies/${requestId}/reassign`, { hospitalId, reason });
+	},
 };
 
 export default api;
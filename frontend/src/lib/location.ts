@@ -0,0 +1,69 @@
+import { useEffect, useRef, useState } from "react";
+import { driverAPI } from "@/lib/api";
+
+// Minimum time between two location updates sent to the backend
+const LOCATION_UPDATE_INTERVAL_MS = 15000;
+
+export interface LocationSharingState {
+	lastSentAt: Date | null;
+	error: string | null;
+}
+
+// Share the driver's position with the backend while enabled
+export const useLocationSharing = (enabled: boolean): LocationSharingState => {
+	const [lastSentAt, setLastSentAt] = useState<Date | null>(null);
+	const [error, setError] = useState<string | null>(null);
+	const lastSentRef = useRef(0);
+
+	useEffect(() => {
+		if (!enabled) {
+			return;
+		}
+
+		if (!("geolocation" in navigator)) {
+			setError("Location is not supported by this browser");
+			return;
+		}
+
+		const watchId = navigator.geolocation.watchPosition(
+			(position) => {
+				const now = Date.now();
+				if (now - lastSentRef.current < LOCATION_UPDATE_INTERVAL_MS) {
+					return;
+				}
+				lastSentRef.current = now;
+
+				const { latitude, longitude, heading, speed, accuracy } =
+					position.coords;
+				driverAPI
+					.updateLocation({
+						latitude,
+						longitude,
+						heading: heading ?? undefined,
+						speed: speed ?? undefined,
+						accuracy,
+					})
+					.then(() => {
+						setLastSentAt(new Date());
+						setError(null);
+					})
+					.catch((err) => {
+						console.error("Error sending location:", err);
+						setError("Failed to send your location");
+					});
+			},
+			(positionError) => {
+				setError(
+					positionError.code === positionError.PERMISSION_DENIED
+						? "Location access was denied"
+						: "Unable to determine your location"
+				);
+			},
+			{ enableHighAccuracy: true, maximumAge: 10000 }
+		);
+
+		return () => navigator.geolocation.clearWatch(watchId);
+	}, [enabled]);
+
+	return { lastSentAt, error };
+};
@@ -0,0 +1,113 @@
+import { useEffect, useRef } from "react";
+import { io, Socket } from "socket.io-client";
+
+// Socket.IO server lives on the same origin as the REST API
+const SOCKET_URL = "http://localhost:5001"; // Update this to match your backend URL
+
+// Events pushed by the backend
+export const SocketEvents = {
+	EMERGENCY_CREATED: "emergency:created",
+	EMERGENCY_OFFERED: "emergency:offered",
+	EMERGENCY_ACCEPTED: "emergency:accepted",
+	EMERGENCY_DRIVER_ASSIGNED: "emergency:driver_assigned",
+	EMERGENCY_CANCELLED: "emergency:cancelled",
+	EMERGENCY_REASSIGNED: "emergency:reassigned",
+	EMERGENCY_TRIAGED: "emergency:triaged",
+	EMERGENCY_ETA_UPDATED: "emergency:eta_updated",
+	ASSIGNMENT_STATUS_CHANGED: "assignment:status_changed",
+	DRIVER_LOCATION_UPDATED: "driver:location_updated",
+	CHAT_MESSAGE: "chat:message",
+	CHAT_READ: "chat:read",
+	HOSPITAL_REVIEWED: "hospital:reviewed",
+	HOSPITAL_DIVERSION_CHANGED: "hospital:diversion_changed",
+} as const;
+
+export interface EmergencySocketPayload {
+	requestId: string;
+	status?: string;
+	timestamp: string;
+	[key: string]: unknown;
+}
+
+let socket: Socket | null = null;
+
+// Get the shared authenticated socket, connecting on first use
+export const getSocket = (): Socket | null => {
+	const token = localStorage.getItem("token");
+	if (!token) {
+		return null;
+	}
+
+	if (!socket) {
+		socket = io(SOCKET_URL, {
+			// Read the token on every (re)connect so refreshed access tokens are picked up
+			auth: (cb) => cb({ token: localStorage.getItem("token") }),
+			transports: ["websocket", "polling"],
+		});
+
+		socket.on("connect_error", (error) => {
+			console.error("Socket connection error:", error.message);
+		});
+	}
+
+	return socket;
+};
+
+export const disconnectSocket = () => {
+	if (socket) {
+		socket.disconnect();
+		socket = null;
+	}
+};
+
+// Subscribe to one or more socket events for the lifetime of a component
+export const useSocketEvents = (
+	events: string[],
+	handler: (payload: EmergencySocketPayload) => void
+) => {
+	const handlerRef = useRef(handler);
+
+	useEffect(() => {
+		handlerRef.current = handler;
+	}, [handler]);
+
+	const eventKey = events.join(",");
+
+	useEffect(() => {
+		const activeSocket = getSocket();
+		if (!activeSocket) {
+			return;
+		}
+
+		const listener = (payload: EmergencySocketPayload) =>
+			handlerRef.current(payload);
+		const names = eventKey.split(",");
+
+		names.forEach((name) => activeSocket.on(name, listener));
+		return () => {
+			names.forEach((name) => activeSocket.off(name, listener));
+		};
+	}, [eventKey]);
+};
+
+// Join an emergency's room so its updates reach this client
+export const useEmergencySubscription = (requestId?: string | null) => {
+	useEffect(() => {
+		const activeSocket = getSocket();
+		if (!activeSocket || !requestId) {
+			return;
+		}
+
+		const subscribe = () =>
+			activeSocket.emit("emergency:subscribe", { requestId });
+
+		subscribe();
+		// Rooms are lost on reconnect, so join again
+		activeSocket.on("connect", subscribe);
+
+		return () => {
+			activeSocket.off("connect", subscribe);
+			activeSocket.emit("emergency:unsubscribe", { requestId });
+		};
+	}, [requestId]);
+};
@@ -23,7 +23,7 @@ export interface UserRegistration {
 export interface LoginCredentials {
 	email: string;
 	password: string;
-	userType: "user" | "hospital" | "driver";
+	userType: "user" | "hospital" | "driver" | "admin";
 }
 
 // Hospital Types
@@ -47,6 +47,49 @@ export interface HospitalRegistration {
 	latitude?: number;
 	longitude?: number;
 	maxCapacity: number;
+	licenseNumber: string;
+	hospitalType: string;
+}
+
+export type HospitalReviewStatus = "pending" | "approved" | "rejected";
+
+export interface HospitalRegistrationReview {
+	hospitalId: string;
+	name: string;
+	licenseNumber: string;
+	hospitalType: string;
+	status: HospitalReviewStatus;
+	rejectionReason: string | null;
+	submittedAt: string;
+	reviewedAt: string | null;
+}
+
+export type HospitalDepartment =
+	| "emergency_room"
+	| "icu"
+	| "trauma_bay"
+	| "maternity"
+	| "burns";
+
+// Beds a hospital has published for one department; figures are null until first published
+export interface DepartmentCapacity {
+	department: HospitalDepartment;
+	label: string;
+	totalBeds: number | null;
+	availableBeds: number | null;
+	updatedAt: string | null;
+	stale: boolean;
+}
+
+export interface HospitalCapacity {
+	staleAfterMinutes: number;
+	departments: DepartmentCapacity[];
+}
+
+export interface DepartmentCapacityUpdate {
+	department: HospitalDepartment;
+	totalBeds: number;
+	availableBeds: number;
 }
 
 // Driver Types
@@ -59,9 +102,50 @@ export interface Driver {
 	licenseNumber: string;
 	isApproved: boolean;
 	isAvailable: boolean;
+	isShared?: boolean;
+	createdAt?: string;
+}
+
+export interface HospitalDirectoryEntry {
+	id: string;
+	name: string;
+	address: string;
+}
+
+export interface DriverInvitation {
+	invitationId: string;
+	email: string;
+	inviteCode: string;
+	status: "pending" | "accepted" | "revoked" | "expired";
+	expiresAt: string;
+	acceptedAt?: string | null;
 	createdAt?: string;
 }
 
+export interface DriverSharingAgreement {
+	agreementId: string;
+	direction: "lending" | "borrowing";
+	hospital: {
+		id: string;
+		name: string;
+	};
+	status: "active" | "ended";
+	createdAt: string;
+	endedAt?: string | null;
+}
+
+export type AssignmentMode = "manual" | "suggested" | "automatic";
+
+export interface DriverSuggestion {
+	id: string;
+	name: string;
+	vehicleType: string | null;
+	distanceKm: number;
+	recentAssignments: number;
+	lastLocationUpdate: string | null;
+	score: number;
+}
+
 export interface DriverRegistration {
 	firstName: string;
 	lastName: string;
@@ -69,6 +153,155 @@ export interface DriverRegistration {
 	phoneNumber: string;
 	password: string;
 	licenseNumber: string;
+	hospitalId?: string;
+	inviteCode?: string;
+}
+
+// Medical Profile Types
+export const BLOOD_GROUPS = [
+	"A+",
+	"A-",
+	"B+",
+	"B-",
+	"AB+",
+	"AB-",
+	"O+",
+	"O-",
+] as const;
+
+export type BloodGroup = (typeof BLOOD_GROUPS)[number];
+
+export interface EmergencyContact {
+	name: string;
+	relationship: string | null;
+	phoneNumber: string;
+	email: string | null;
+}
+
+export interface MedicalProfile {
+	dateOfBirth: string | null;
+	bloodGroup: BloodGroup | null;
+	allergies: string[];
+	chronicConditions: string[];
+	currentMedications: string[];
+	emergencyContacts: EmergencyContact[];
+	updatedAt: string | null;
+	// Set on the copy frozen onto a request when a hospital accepted it
+	capturedAt?: string;
+}
+
+export type MedicalProfileUpdate = Omit<MedicalProfile, "updatedAt" | "capturedAt">;
+
+// Triage Types
+export type EmergencyCategory =
+	| "cardiac"
+	| "stroke"
+	| "respiratory"
+	| "trauma"
+	| "maternity"
+	| "burns"
+	| "poisoning"
+	| "allergic_reaction"
+	| "seizure"
+	| "other";
+
+export type TriageSeverity = "low" | "moderate" | "high" | "critical";
+
+export type TriageAnswers = Record<string, boolean>;
+
+export interface EmergencyCatalogue {
+	categories: Array<{
+		id: EmergencyCategory;
+		label: string;
+		baseSeverity: TriageSeverity;
+	}>;
+	questions: Array<{
+		id: string;
+		text: string;
+	}>;
+}
+
+export type PendingEmergencySort =
+	| "urgency"
+	| "newest"
+	| "severity"
+	| "distance";
+
+// Diversion Types
+// A diversion with no categories turns away every new emergency
+export interface HospitalDiversion {
+	diversionId: string;
+	full: boolean;
+	categories: EmergencyCategory[];
+	reason: string;
+	startedAt: string;
+	expiresAt: string;
+	endedAt: string | null;
+	active: boolean;
+}
+
+export interface HospitalDiversionStatus {
+	active: HospitalDiversion | null;
+	history: HospitalDiversion[];
+}
+
+export interface DiversionRequest {
+	categories: EmergencyCategory[];
+	reason: string;
+	durationMinutes: number;
+}
+
+export interface NeighbourDiversion extends HospitalDiversion {
+	hospital: {
+		id: string;
+		name: string;
+		distance: number;
+	};
+}
+
+// Service Area Types
+export type ServiceAreaType = "radius" | "polygon";
+
+// GeoJSON Polygon with [longitude, latitude] positions
+export interface GeoJsonPolygon {
+	type: "Polygon";
+	coordinates: number[][][];
+}
+
+export interface HospitalServiceArea {
+	type: ServiceAreaType;
+	radiusKm: number | null;
+	boundary: GeoJsonPolygon | null;
+	isDefault: boolean;
+	defaultRadiusKm: number;
+	maxRadiusKm: number;
+	location: { latitude: number; longitude: number } | null;
+	updatedAt: string | null;
+}
+
+export type ServiceAreaUpdate =
+	| { type: "radius"; radiusKm: number }
+	| { type: "polygon"; boundary: GeoJsonPolygon };
+
+// Progress of an emergency as seen through a shared status link
+export interface PublicEmergencyStatus {
+	status: string;
+	patientFirstName: string;
+	createdAt: string;
+	acceptedAt: string | null;
+	completedAt: string | null;
+	cancelledAt: string | null;
+	hospital: {
+		name: string;
+		address: string;
+		phoneNumber: string;
+	} | null;
+	ambulance: {
+		status: string;
+		estimatedArrival: string | null;
+		etaMinutes: number | null;
+		arrivedAt: string | null;
+	} | null;
 }
 
 // Emergency Types
@@ -89,6 +322,9 @@ export interface EmergencyRequest {
 		phoneNumber: string;
 	};
 	medicalNotes?: string;
+	emergencyType?: EmergencyCategory;
+	severity?: TriageSeverity;
+	medicalProfile?: MedicalProfile | null;
 	hospitalId?: string;
 	driver?: {
 		id: string;
@@ -97,7 +333,136 @@ export interface EmergencyRequest {
 	} | null;
 	createdAt: string;
 	updatedAt?: string;
-	distance?: string;
+	distance?: string | null;
+	offeredToHospital?: boolean;
+	offerExpiresAt?: string | null;
+}
+
+export type DeclineReasonCode =
+	| "at_capacity"
+	| "no_suitable_specialty"
+	| "too_far"
+	| "no_driver_available"
+	| "other";
+
+export interface DispatchHistoryEntry {
+	hospitalName: string;
+	status: "offered" | "accepted" | "declined" | "expired" | "cancelled";
+	declineReason: DeclineReasonCode | null;
+	offeredAt: string;
+	respondedAt: string | null;
+}
+
+export interface TrackingPoint {
+	latitude: number;
+	longitude: number;
+	recordedAt: string;
+}
+
+export interface EmergencyTracking {
+	requestId: string;
+	assignmentId: string;
+	assignmentStatus: string;
+	driver: {
+		id: string;
+		name: string;
+		vehicleType: string | null;
+		vehicleRegistration: string | null;
+	};
+	currentLocation: TrackingPoint | null;
+	trail: TrackingPoint[];
+}
+
+// Emergency chat
+export interface ChatMessage {
+	id: string;
+	senderId: string;
+	senderName: string;
+	senderRole: string;
+	message: string;
+	sentAt: string;
+	isRead: boolean;
+	readBy: {
+		userId: string;
+		readAt: string;
+	}[];
+}
+
+// Admin console
+export interface AdminUserAccount {
+	id: string;
+	name: string;
+	email: string;
+	phoneNumber: string;
+	role: string;
+	isActive: boolean;
+	suspendedAt: string | null;
+	createdAt: string;
+}
+
+export interface AdminHospital {
+	id: string;
+	userId: string;
+	name: string;
+	email: string;
+	phoneNumber: string;
+	address: string;
+	isActive: boolean;
+	reviewStatus: HospitalReviewStatus;
+	driverCount: number;
+	openEmergencies: number;
+	createdAt: string;
+}
+
+export interface AdminHospitalRegistration {
+	id: string;
+	name: string;
+	email: string;
+	phoneNumber: string;
+	address: string;
+	licenseNumber: string;
+	hospitalType: string;
+	emergencyCapacity: number;
+	status: HospitalReviewStatus;
+	rejectionReason: string | null;
+	submittedAt: string;
+	reviewedAt: string | null;
+}
+
+export interface AdminDriver {
+	id: string;
+	userId: string;
+	name: string;
+	email: string;
+	phoneNumber: string;
+	hospital: string | null;
+	isApproved: boolean;
+	isActive: boolean;
+	isAvailable: boolean;
+	createdAt: string;
+}
+
+export interface LiveEmergency {
+	requestId: string;
+	status: string;
+	user: {
+		name: string;
+		phoneNumber: string;
+	};
+	hospital: {
+		id: string;
+		name: string;
+	} | null;
+	driver: {
+		id: string;
+		name: string;
+		assignmentStatus: string;
+	} | null;
+	pickupAddress: string;
+	createdAt: string;
+	updatedAt: string;
+	escalatedAt: string | null;
+	isStuck: boolean;
 }
 
 export interface EmergencyCreation {
@@ -105,6 +470,31 @@ export interface EmergencyCreation {
 	pickupLongitude: number;
 	pickupAddress: string;
 	medicalNotes?: string;
+	emergencyType?: EmergencyCategory;
+	triageAnswers?: TriageAnswers;
+}
+
+// Driver Types
+export interface DriverStatus {
+	isAvailable: boolean;
+	isApproved: boolean;
+	vehicleType: string;
+	vehicleRegistration: string;
+	hospital: {
+		id: string;
+		name: string;
+	} | null;
+	lastLocationUpdate: string | null;
+}
+
+export interface DriverTrip {
+	assignmentId: string;
+	requestId: string;
+	user: string;
+	pickup: string;
+	status: string;
+	assignedAt: string;
+	completedAt: string | null;
 }
 
 // Assignment Types
@@ -126,5 +516,8 @@ export interface Assignment {
 		address: string;
 	};
 	medicalNotes: string;
+	emergencyType: EmergencyCategory;
+	severity: TriageSeverity;
+	medicalProfile: MedicalProfile | null;
 	assignedAt: string;
 }
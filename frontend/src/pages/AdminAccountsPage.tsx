@@ -0,0 +1,305 @@
+import React, { useEffect, useState } from "react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from "@/components/ui/table";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import { adminAPI } from "@/lib/api";
+import { AdminDriver, AdminHospital, AdminUserAccount } from "@/lib/types";
+
+type AccountTab = "users" | "hospitals" | "drivers";
+
+const StatusBadge: React.FC<{ isActive: boolean }> = ({ isActive }) => (
+	<span
+		className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+			isActive ? "bg-green-100 text-green-800" : "bg-red-100 text-red-800"
+		}`}
+	>
+		{isActive ? "Active" : "Suspended"}
+	</span>
+);
+
+const AdminAccountsPage: React.FC = () => {
+	const [tab, setTab] = useState<AccountTab>("users");
+	const [users, setUsers] = useState<AdminUserAccount[]>([]);
+	const [hospitals, setHospitals] = useState<AdminHospital[]>([]);
+	const [drivers, setDrivers] = useState<AdminDriver[]>([]);
+	const [loading, setLoading] = useState(true);
+	const [error, setError] = useState<string | null>(null);
+	const [updating, setUpdating] = useState<string | null>(null);
+
+	useEffect(() => {
+		loadAccounts();
+	}, []);
+
+	const loadAccounts = async () => {
+		setLoading(true);
+		setError(null);
+		try {
+			const [usersResponse, hospitalsResponse, driversResponse] =
+				await Promise.all([
+					adminAPI.getUsers("user", 1, 100),
+					adminAPI.getHospitals(1, 100),
+					adminAPI.getDrivers(1, 100),
+				]);
+			setUsers(usersResponse.data.data?.users || []);
+			setHospitals(hospitalsResponse.data.data?.hospitals || []);
+			setDrivers(driversResponse.data.data?.drivers || []);
+		} catch (err) {
+			setError("Failed to load accounts. Please try again.");
+			console.error(err);
+		} finally {
+			setLoading(false);
+		}
+	};
+
+	const handleToggle = async (
+		id: string,
+		isActive: boolean,
+		update: (id: string, isActive: boolean) => Promise<unknown>
+	) => {
+		setUpdating(id);
+		try {
+			await update(id, isActive);
+			toast.success(isActive ? "Account reactivated" : "Account suspended");
+			await loadAccounts();
+		} catch (err: unknown) {
+			let errorMessage = "Failed to update account";
+			if (err && typeof err === "object" && "response" in err) {
+				const apiError = err as {
+					response?: { data?: { error?: { message?: string } } };
+				};
+				errorMessage = apiError.response?.data?.error?.message || errorMessage;
+			}
+			toast.error(errorMessage);
+		} finally {
+			setUpdating(null);
+		}
+	};
+
+	const renderToggle = (
+		id: string,
+		isActive: boolean,
+		update: (id: string, isActive: boolean) => Promise<unknown>
+	) => (
+		<Button
+			onClick={() => handleToggle(id, !isActive, update)}
+			disabled={updating === id}
+			size="sm"
+			variant={isActive ? "destructive" : "outline"}
+		>
+			{updating === id ? "Saving..." : isActive ? "Suspend" : "Reactivate"}
+		</Button>
+	);
+
+	if (loading) {
+		return (
+			<div className="flex h-screen items-center justify-center">
+				<p>Loading...</p>
+			</div>
+		);
+	}
+
+	return (
+		<div className="container py-10">
+			<Card className="w-full">
+				<CardHeader>
+					<CardTitle>Accounts</CardTitle>
+					<CardDescription>
+						Suspended accounts cannot sign in; suspending a hospital or driver
+						also takes it out of dispatch
+					</CardDescription>
+				</CardHeader>
+				<CardContent>
+					{error && (
+						<div className="mb-4 p-3 bg-destructive/10 border border-destructive rounded-md">
+							<p className="text-sm text-destructive">{error}</p>
+						</div>
+					)}
+
+					<div className="mb-4 flex gap-2">
+						<Button
+							variant={tab === "users" ? "default" : "outline"}
+							onClick={() => setTab("users")}
+						>
+							Patients ({users.length})
+						</Button>
+						<Button
+							variant={tab === "hospitals" ? "default" : "outline"}
+							onClick={() => setTab("hospitals")}
+						>
+							Hospitals ({hospitals.length})
+						</Button>
+						<Button
+							variant={tab === "drivers" ? "default" : "outline"}
+							onClick={() => setTab("drivers")}
+						>
+							Drivers ({drivers.length})
+						</Button>
+						<Button onClick={loadAccounts} variant="outline" className="ml-auto">
+							Refresh
+						</Button>
+					</div>
+
+					<div className="rounded-md border">
+						{tab === "users" && (
+							<Table>
+								<TableHeader>
+									<TableRow>
+										<TableHead>Name</TableHead>
+										<TableHead>Email</TableHead>
+										<TableHead>Phone</TableHead>
+										<TableHead>Joined</TableHead>
+										<TableHead>Status</TableHead>
+										<TableHead>Actions</TableHead>
+									</TableRow>
+								</TableHeader>
+								<TableBody>
+									{users.length === 0 ? (
+										<TableRow>
+											<TableCell colSpan={6} className="text-center">
+												No patients found
+											</TableCell>
+										</TableRow>
+									) : (
+										users.map((account) => (
+											<TableRow key={account.id}>
+												<TableCell className="font-medium">{account.name}</TableCell>
+												<TableCell>{account.email}</TableCell>
+												<TableCell>{account.phoneNumber}</TableCell>
+												<TableCell>
+													{new Date(account.createdAt).toLocaleDateString()}
+												</TableCell>
+												<TableCell>
+													<StatusBadge isActive={account.isActive} />
+												</TableCell>
+												<TableCell>
+													{renderToggle(
+														account.id,
+														account.isActive,
+														adminAPI.setUserActive
+													)}
+												</TableCell>
+											</TableRow>
+										))
+									)}
+								</TableBody>
+							</Table>
+						)}
+
+						{tab === "hospitals" && (
+							<Table>
+								<TableHeader>
+									<TableRow>
+										<TableHead>Name</TableHead>
+										<TableHead>Email</TableHead>
+										<TableHead>Address</TableHead>
+										<TableHead>Drivers</TableHead>
+										<TableHead>Open Emergencies</TableHead>
+										<TableHead>Review</TableHead>
+										<TableHead>Status</TableHead>
+										<TableHead>Actions</TableHead>
+									</TableRow>
+								</TableHeader>
+								<TableBody>
+									{hospitals.length === 0 ? (
+										<TableRow>
+											<TableCell colSpan={8} className="text-center">
+												No hospitals found
+											</TableCell>
+										</TableRow>
+									) : (
+										hospitals.map((hospital) => (
+											<TableRow key={hospital.id}>
+												<TableCell className="font-medium">
+													{hospital.name}
+												</TableCell>
+												<TableCell>{hospital.email}</TableCell>
+												<TableCell>{hospital.address}</TableCell>
+												<TableCell>{hospital.driverCount}</TableCell>
+												<TableCell>{hospital.openEmergencies}</TableCell>
+												<TableCell className="capitalize">
+													{hospital.reviewStatus}
+												</TableCell>
+												<TableCell>
+													<StatusBadge isActive={hospital.isActive} />
+												</TableCell>
+												<TableCell>
+													{renderToggle(
+														hospital.id,
+														hospital.isActive,
+														adminAPI.setHospitalActive
+													)}
+												</TableCell>
+											</TableRow>
+										))
+									)}
+								</TableBody>
+							</Table>
+						)}
+
+						{tab === "drivers" && (
+							<Table>
+								<TableHeader>
+									<TableRow>
+										<TableHead>Name</TableHead>
+										<TableHead>Email</TableHead>
+										<TableHead>Hospital</TableHead>
+										<TableHead>Approval</TableHead>
+										<TableHead>Status</TableHead>
+										<TableHead>Actions</TableHead>
+									</TableRow>
+								</TableHeader>
+								<TableBody>
+									{drivers.length === 0 ? (
+										<TableRow>
+											<TableCell colSpan={6} className="text-center">
+												No drivers found
+											</TableCell>
+										</TableRow>
+									) : (
+										drivers.map((driver) => (
+											<TableRow key={driver.id}>
+												<TableCell className="font-medium">{driver.name}</TableCell>
+												<TableCell>{driver.email}</TableCell>
+												<TableCell>{driver.hospital || "Unaffiliated"}</TableCell>
+												<TableCell>
+													{driver.isApproved ? "Approved" : "Pending Approval"}
+												</TableCell>
+												<TableCell>
+													<StatusBadge isActive={driver.isActive} />
+												</TableCell>
+												<TableCell>
+													{renderToggle(
+														driver.id,
+														driver.isActive,
+														adminAPI.setDriverActive
+													)}
+												</TableCell>
+											</TableRow>
+										))
+									)}
+								</TableBody>
+							</Table>
+						)}
+					</div>
+				</CardContent>
+			</Card>
+		</div>
+	);
+};
+
+export default AdminAccountsPage;
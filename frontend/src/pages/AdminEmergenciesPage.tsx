@@ -0,0 +1,235 @@
+import React, { useEffect, useState } from "react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from "@/components/ui/table";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import { adminAPI } from "@/lib/api";
+import { AdminHospital, LiveEmergency } from "@/lib/types";
+
+// Only requests no hospital has committed a driver to can move to another hospital
+const REASSIGNABLE_STATUSES = ["pending", "accepted"];
+
+const AdminEmergenciesPage: React.FC = () => {
+	const [emergencies, setEmergencies] = useState<LiveEmergency[]>([]);
+	const [hospitals, setHospitals] = useState<AdminHospital[]>([]);
+	const [stuckAfterMinutes, setStuckAfterMinutes] = useState<number | null>(null);
+	const [loading, setLoading] = useState(true);
+	const [error, setError] = useState<string | null>(null);
+	const [reassigning, setReassigning] = useState<string | null>(null);
+	const [targetHospitals, setTargetHospitals] = useState<Record<string, string>>(
+		{}
+	);
+
+	useEffect(() => {
+		loadData();
+	}, []);
+
+	const loadData = async (showLoading = true) => {
+		if (showLoading) {
+			setLoading(true);
+		}
+		setError(null);
+		try {
+			const [emergenciesResponse, hospitalsResponse] = await Promise.all([
+				adminAPI.getLiveEmergencies(),
+				adminAPI.getHospitals(1, 100),
+			]);
+			setEmergencies(emergenciesResponse.data.data?.requests || []);
+			setStuckAfterMinutes(emergenciesResponse.data.data?.stuckAfterMinutes ?? null);
+			setHospitals(
+				(hospitalsResponse.data.data?.hospitals || []).filter(
+					(hospital: AdminHospital) =>
+						hospital.isActive && hospital.reviewStatus === "approved"
+				)
+			);
+		} catch (err) {
+			setError("Failed to load live emergencies. Please try again.");
+			console.error(err);
+		} finally {
+			setLoading(false);
+		}
+	};
+
+	const handleReassign = async (emergency: LiveEmergency) => {
+		const hospitalId = targetHospitals[emergency.requestId];
+		if (!hospitalId) {
+			return;
+		}
+
+		setReassigning(emergency.requestId);
+		try {
+			await adminAPI.reassignEmergency(emergency.requestId, hospitalId);
+			toast.success("Emergency reassigned");
+			setTargetHospitals((prev) => {
+				const next = { ...prev };
+				delete next[emergency.requestId];
+				return next;
+			});
+			await loadData(false);
+		} catch (err: unknown) {
+			let errorMessage = "Failed to reassign emergency";
+			if (err && typeof err === "object" && "response" in err) {
+				const apiError = err as {
+					response?: { data?: { error?: { message?: string } } };
+				};
+				errorMessage = apiError.response?.data?.error?.message || errorMessage;
+			}
+			toast.error(errorMessage);
+		} finally {
+			setReassigning(null);
+		}
+	};
+
+	if (loading) {
+		return (
+			<div className="flex h-screen items-center justify-center">
+				<p>Loading...</p>
+			</div>
+		);
+	}
+
+	const stuckCount = emergencies.filter((emergency) => emergency.isStuck).length;
+
+	return (
+		<div className="container py-10">
+			<Card className="w-full">
+				<CardHeader>
+					<CardTitle>Live Emergencies</CardTitle>
+					<CardDescription>
+						{emergencies.length} open, {stuckCount} stuck
+						{stuckAfterMinutes !== null &&
+							` (escalated, or pending or accepted for over ${stuckAfterMinutes} minutes)`}
+					</CardDescription>
+				</CardHeader>
+				<CardContent>
+					{error && (
+						<div className="mb-4 p-3 bg-destructive/10 border border-destructive rounded-md">
+							<p className="text-sm text-destructive">{error}</p>
+						</div>
+					)}
+
+					<Button onClick={() => loadData()} className="mb-4" variant="outline">
+						Refresh
+					</Button>
+
+					<div className="rounded-md border">
+						<Table>
+							<TableHeader>
+								<TableRow>
+									<TableHead>Patient</TableHead>
+									<TableHead>Pickup</TableHead>
+									<TableHead>Status</TableHead>
+									<TableHead>Hospital</TableHead>
+									<TableHead>Driver</TableHead>
+									<TableHead>Last Update</TableHead>
+									<TableHead>Reassign</TableHead>
+								</TableRow>
+							</TableHeader>
+							<TableBody>
+								{emergencies.length === 0 ? (
+									<TableRow>
+										<TableCell colSpan={7} className="text-center">
+											No open emergencies
+										</TableCell>
+									</TableRow>
+								) : (
+									emergencies.map((emergency) => (
+										<TableRow
+											key={emergency.requestId}
+											className={emergency.isStuck ? "bg-red-50" : undefined}
+										>
+											<TableCell>
+												<div className="font-medium">{emergency.user.name}</div>
+												<div className="text-xs text-gray-500">
+													{emergency.user.phoneNumber}
+												</div>
+											</TableCell>
+											<TableCell>{emergency.pickupAddress}</TableCell>
+											<TableCell>
+												<span className="capitalize">
+													{emergency.status.replace("_", " ")}
+												</span>
+												{emergency.isStuck && (
+													<span className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
+														Stuck
+													</span>
+												)}
+											</TableCell>
+											<TableCell>
+												{emergency.hospital?.name || "Not yet accepted"}
+											</TableCell>
+											<TableCell>
+												{emergency.driver
+													? `${emergency.driver.name} (${emergency.driver.assignmentStatus.replace("_", " ")})`
+													: "—"}
+											</TableCell>
+											<TableCell>
+												{new Date(emergency.updatedAt).toLocaleTimeString()}
+											</TableCell>
+											<TableCell>
+												{REASSIGNABLE_STATUSES.includes(emergency.status) && (
+													<div className="flex items-center gap-2">
+														<select
+															className="p-2 border rounded text-sm"
+															value={targetHospitals[emergency.requestId] || ""}
+															onChange={(e) =>
+																setTargetHospitals((prev) => ({
+																	...prev,
+																	[emergency.requestId]: e.target.value,
+																}))
+															}
+														>
+															<option value="">Select a hospital</option>
+															{hospitals
+																.filter(
+																	(hospital) =>
+																		hospital.id !== emergency.hospital?.id
+																)
+																.map((hospital) => (
+																	<option key={hospital.id} value={hospital.id}>
+																		{hospital.name}
+																	</option>
+																))}
+														</select>
+														<Button
+															size="sm"
+															onClick={() => handleReassign(emergency)}
+															disabled={
+																!targetHospitals[emergency.requestId] ||
+																reassigning === emergency.requestId
+															}
+														>
+															{reassigning === emergency.requestId
+																? "Reassigning..."
+																: "Reassign"}
+														</Button>
+													</div>
+												)}
+											</TableCell>
+										</TableRow>
+									))
+								)}
+							</TableBody>
+						</Table>
+					</div>
+				</CardContent>
+			</Card>
+		</div>
+	);
+};
+
+export default AdminEmergenciesPage;
@@ -0,0 +1,229 @@
+import React, { useEffect, useState } from "react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from "@/components/ui/table";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import { adminAPI } from "@/lib/api";
+import { AdminHospitalRegistration, HospitalReviewStatus } from "@/lib/types";
+
+const REVIEW_TABS: { value: HospitalReviewStatus; label: string }[] = [
+	{ value: "pending", label: "Pending" },
+	{ value: "rejected", label: "Rejected" },
+	{ value: "approved", label: "Approved" },
+];
+
+const AdminHospitalReviewsPage: React.FC = () => {
+	const [status, setStatus] = useState<HospitalReviewStatus>("pending");
+	const [registrations, setRegistrations] = useState<
+		AdminHospitalRegistration[]
+	>([]);
+	const [loading, setLoading] = useState(true);
+	const [error, setError] = useState<string | null>(null);
+	const [reviewing, setReviewing] = useState<string | null>(null);
+	const [rejectionReasons, setRejectionReasons] = useState<
+		Record<string, string>
+	>({});
+
+	useEffect(() => {
+		loadRegistrations(status);
+	}, [status]);
+
+	const loadRegistrations = async (reviewStatus: HospitalReviewStatus) => {
+		setLoading(true);
+		setError(null);
+		try {
+			const response = await adminAPI.getHospitalRegistrations(
+				reviewStatus,
+				1,
+				100
+			);
+			setRegistrations(response.data.data?.registrations || []);
+		} catch (err) {
+			setError("Failed to load hospital registrations. Please try again.");
+			console.error(err);
+		} finally {
+			setLoading(false);
+		}
+	};
+
+	const handleReview = async (hospitalId: string, approve: boolean) => {
+		setReviewing(hospitalId);
+		try {
+			if (approve) {
+				await adminAPI.approveHospital(hospitalId);
+				toast.success("Hospital approved");
+			} else {
+				await adminAPI.rejectHospital(hospitalId, rejectionReasons[hospitalId]);
+				toast.success("Hospital rejected");
+			}
+			await loadRegistrations(status);
+		} catch (err: unknown) {
+			let errorMessage = "Failed to review hospital";
+			if (err && typeof err === "object" && "response" in err) {
+				const apiError = err as {
+					response?: { data?: { error?: { message?: string } } };
+				};
+				errorMessage = apiError.response?.data?.error?.message || errorMessage;
+			}
+			toast.error(errorMessage);
+		} finally {
+			setReviewing(null);
+		}
+	};
+
+	return (
+		<div className="container py-10">
+			<Card className="w-full">
+				<CardHeader>
+					<CardTitle>Hospital Reviews</CardTitle>
+					<CardDescription>
+						Check each hospital's license number and type before it starts
+						receiving emergencies
+					</CardDescription>
+				</CardHeader>
+				<CardContent>
+					{error && (
+						<div className="mb-4 p-3 bg-destructive/10 border border-destructive rounded-md">
+							<p className="text-sm text-destructive">{error}</p>
+						</div>
+					)}
+
+					<div className="mb-4 flex gap-2">
+						{REVIEW_TABS.map((tab) => (
+							<Button
+								key={tab.value}
+								variant={status === tab.value ? "default" : "outline"}
+								onClick={() => setStatus(tab.value)}
+							>
+								{tab.label}
+							</Button>
+						))}
+						<Button
+							onClick={() => loadRegistrations(status)}
+							variant="outline"
+							className="ml-auto"
+						>
+							Refresh
+						</Button>
+					</div>
+
+					{loading ? (
+						<div className="p-4 text-center">Loading...</div>
+					) : (
+						<div className="rounded-md border">
+							<Table>
+								<TableHeader>
+									<TableRow>
+										<TableHead>Hospital</TableHead>
+										<TableHead>License Number</TableHead>
+										<TableHead>Type</TableHead>
+										<TableHead>Address</TableHead>
+										<TableHead>Submitted</TableHead>
+										<TableHead>Review</TableHead>
+									</TableRow>
+								</TableHeader>
+								<TableBody>
+									{registrations.length === 0 ? (
+										<TableRow>
+											<TableCell colSpan={6} className="text-center">
+												No {status} registrations
+											</TableCell>
+										</TableRow>
+									) : (
+										registrations.map((registration) => (
+											<TableRow key={registration.id}>
+												<TableCell>
+													<div className="font-medium">{registration.name}</div>
+													<div className="text-xs text-gray-500">
+														{registration.email} · {registration.phoneNumber}
+													</div>
+												</TableCell>
+												<TableCell className="font-mono">
+													{registration.licenseNumber}
+												</TableCell>
+												<TableCell>{registration.hospitalType}</TableCell>
+												<TableCell>{registration.address}</TableCell>
+												<TableCell>
+													{new Date(registration.submittedAt).toLocaleDateString()}
+												</TableCell>
+												<TableCell>
+													{status === "rejected" && (
+														<p className="mb-2 text-sm">
+															{registration.rejectionReason}
+														</p>
+													)}
+													{status === "approved" && registration.reviewedAt && (
+														<span className="text-sm">
+															Approved{" "}
+															{new Date(registration.reviewedAt).toLocaleDateString()}
+														</span>
+													)}
+													{status !== "approved" && (
+														<div className="flex items-center gap-2">
+															<Button
+																size="sm"
+																onClick={() => handleReview(registration.id, true)}
+																disabled={reviewing === registration.id}
+															>
+																Approve
+															</Button>
+															{status === "pending" && (
+																<>
+																	<Input
+																		placeholder="Rejection reason"
+																		maxLength={500}
+																		value={rejectionReasons[registration.id] || ""}
+																		onChange={(e) =>
+																			setRejectionReasons((prev) => ({
+																				...prev,
+																				[registration.id]: e.target.value,
+																			}))
+																		}
+																	/>
+																	<Button
+																		size="sm"
+																		variant="destructive"
+																		onClick={() =>
+																			handleReview(registration.id, false)
+																		}
+																		disabled={
+																			reviewing === registration.id ||
+																			!rejectionReasons[registration.id]?.trim()
+																		}
+																	>
+																		Reject
+																	</Button>
+																</>
+															)}
+														</div>
+													)}
+												</TableCell>
+											</TableRow>
+										))
+									)}
+								</TableBody>
+							</Table>
+						</div>
+					)}
+				</CardContent>
+			</Card>
+		</div>
+	);
+};
+
+export default AdminHospitalReviewsPage;
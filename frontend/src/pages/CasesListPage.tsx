@@ -1,4 +1,4 @@
-import React, { useEffect, useState } from "react";
+import React, { useEffect, useRef, useState } from "react";
 import { toast } from "sonner";
 
 import { Button } from "@/components/ui/button";
@@ -17,8 +17,49 @@ import {
 	CardHeader,
 	CardTitle,
 } from "@/components/ui/card";
-import { emergencyAPI, driverAPI } from "@/lib/api";
-import { EmergencyRequest, Driver } from "@/lib/types";
+import { emergencyAPI, driverAPI, hospitalAPI } from "@/lib/api";
+import {
+	EmergencyRequest,
+	Driver,
+	DeclineReasonCode,
+	AssignmentMode,
+	DriverSuggestion,
+	PendingEmergencySort,
+	TriageSeverity,
+} from "@/lib/types";
+import { SocketEvents, useSocketEvents } from "@/lib/socket";
+import EmergencyChat from "@/components/EmergencyChat";
+import MedicalProfileSummary from "@/components/MedicalProfileSummary";
+import SeverityBadge from "@/components/SeverityBadge";
+
+const DECLINE_REASONS: { value: DeclineReasonCode; label: string }[] = [
+	{ value: "at_capacity", label: "At capacity" },
+	{ value: "no_suitable_specialty", label: "No suitable specialty" },
+	{ value: "too_far", label: "Too far" },
+	{ value: "no_driver_available", label: "No driver available" },
+	{ value: "other", label: "Other" },
+];
+
+const ASSIGNMENT_MODES: { value: AssignmentMode; label: string }[] = [
+	{ value: "manual", label: "Manual" },
+	{ value: "suggested", label: "Suggested" },
+	{ value: "automatic", label: "Automatic" },
+];
+
+const PENDING_SORTS: { value: PendingEmergencySort; label: string }[] = [
+	{ value: "urgency", label: "Most urgent first" },
+	{ value: "newest", label: "Newest first" },
+	{ value: "severity", label: "Most severe first" },
+	{ value: "distance", label: "Nearest first" },
+];
+
+// Each option shows requests at or above a severity
+const SEVERITY_FILTERS: { label: string; severities: TriageSeverity[] }[] = [
+	{ label: "All severities", severities: [] },
+	{ label: "Moderate and above", severities: ["moderate", "high", "critical"] },
+	{ label: "High and above", severities: ["high", "critical"] },
+	{ label: "Critical only", severities: ["critical"] },
+];
 
 const CasesListPage: React.FC = () => {
 	const [pendingEmergencies, setPendingEmergencies] = useState<
@@ -42,21 +83,59 @@ const CasesListPage: React.FC = () => {
 	const [rejectingEmergency, setRejectingEmergency] = useState<string | null>(
 		null
 	);
+	const [declineReasons, setDeclineReasons] = useState<
+		Record<string, DeclineReasonCode>
+	>({});
+	const [assignmentMode, setAssignmentMode] =
+		useState<AssignmentMode>("manual");
+	const [driverSuggestions, setDriverSuggestions] = useState<
+		Record<string, DriverSuggestion[]>
+	>({});
+	const [chatEmergency, setChatEmergency] = useState<string | null>(null);
+	// Read when loading, so socket-driven refreshes keep the chosen view
+	const pendingView = useRef<{
+		sort: PendingEmergencySort;
+		severityFilter: number;
+	}>({ sort: "urgency", severityFilter: 0 });
 
 	useEffect(() => {
 		// No need to check authentication or role, already handled by ProtectedRoute
 		loadData();
 	}, []);
 
-	const loadData = async () => {
-		setLoading(true);
+	// Keep the pending and active lists current without a manual refresh
+	useSocketEvents(
+		[
+			SocketEvents.EMERGENCY_CREATED,
+			SocketEvents.EMERGENCY_ACCEPTED,
+			SocketEvents.EMERGENCY_DRIVER_ASSIGNED,
+			SocketEvents.ASSIGNMENT_STATUS_CHANGED,
+			SocketEvents.EMERGENCY_CANCELLED,
+			SocketEvents.EMERGENCY_REASSIGNED,
+			SocketEvents.EMERGENCY_TRIAGED,
+		],
+		() => loadData(false)
+	);
+
+	useSocketEvents([SocketEvents.EMERGENCY_OFFERED], () => {
+		toast.info("An emergency request has been offered to your hospital");
+		loadData(false);
+	});
+
+	const loadData = async (showSpinner = true) => {
+		if (showSpinner) {
+			setLoading(true);
+		}
 		setError(null);
 		try {
 			console.log("Fetching data for CasesListPage...");
 
 			// Fetch pending emergencies
 			try {
-				const pendingRes = await emergencyAPI.getEmergencies();
+				const pendingRes = await emergencyAPI.getEmergencies(
+					pendingView.current.sort,
+					SEVERITY_FILTERS[pendingView.current.severityFilter].severities
+				);
 				console.log("Pending emergencies response:", pendingRes);
 
 				if (pendingRes.data && pendingRes.data.success) {
@@ -77,13 +156,14 @@ const CasesListPage: React.FC = () => {
 			}
 
 			// Fetch active emergencies
+			let activeData: EmergencyRequest[] = [];
 			try {
 				const activeRes = await emergencyAPI.getActiveEmergencies();
 				console.log("Active emergencies response:", activeRes);
 
 				if (activeRes.data && activeRes.data.success) {
 					// Check if data is in the expected format
-					const activeData = activeRes.data.data?.requests || [];
+					activeData = activeRes.data.data?.requests || [];
 					console.log("Setting active emergencies:", activeData);
 					setActiveEmergencies(activeData);
 				} else {
@@ -98,6 +178,43 @@ const CasesListPage: React.FC = () => {
 				setActiveEmergencies([]);
 			}
 
+			// Rank drivers for accepted emergencies unless the hospital assigns manually
+			try {
+				const modeRes = await hospitalAPI.getAssignmentMode();
+				const mode: AssignmentMode =
+					modeRes.data?.data?.assignmentMode || "manual";
+				setAssignmentMode(mode);
+
+				const suggestions: Record<string, DriverSuggestion[]> = {};
+				if (mode !== "manual") {
+					const acceptedIds = activeData
+						.filter((emergency) => emergency.status === "accepted")
+						.map((emergency) => emergency.requestId);
+
+					await Promise.all(
+						acceptedIds.map(async (requestId) => {
+							const res = await emergencyAPI.getDriverSuggestions(requestId);
+							suggestions[requestId] = res.data?.data?.drivers || [];
+						})
+					);
+				}
+				setDriverSuggestions(suggestions);
+
+				// Preselect the best-ranked driver
+				setSelectedDrivers((prev) => {
+					const next = { ...prev };
+					Object.entries(suggestions).forEach(([requestId, ranked]) => {
+						if (!next[requestId] && ranked.length > 0) {
+							next[requestId] = ranked[0].id;
+						}
+					});
+					return next;
+				});
+			} catch (suggestionErr) {
+				console.error("Error loading driver suggestions:", suggestionErr);
+				setDriverSuggestions({});
+			}
+
 			// Fetch drivers
 			try {
 				const driversRes = await driverAPI.getDrivers();
@@ -124,6 +241,18 @@ const CasesListPage: React.FC = () => {
 		}
 	};
 
+	const handleAssignmentModeChange = async (mode: AssignmentMode) => {
+		try {
+			await hospitalAPI.updateAssignmentMode(mode);
+			setAssignmentMode(mode);
+			toast.success(`Driver assignment mode set to ${mode}`);
+			await loadData(false);
+		} catch (err) {
+			console.error("Error updating assignment mode:", err);
+			toast.error("Failed to update assignment mode");
+		}
+	};
+
 	const handleDriverSelect = (emergencyId: string, driverId: string) => {
 		setSelectedDrivers((prev) => ({
 			...prev,
@@ -134,45 +263,47 @@ const CasesListPage: React.FC = () => {
 	const handleAcceptEmergency = async (requestId: string) => {
 		setAcceptingEmergency(requestId);
 		try {
-			const response = await fetch(
-				`http://localhost:5001/api/v1/hospital/emergency/${requestId}/accept`,
-				{
-					method: "POST",
-					headers: {
-						Authorization: `Bearer ${localStorage.getItem("token")}`,
-						"Content-Type": "application/json",
-					},
-				}
-			);
-
-			if (response.ok) {
-				await loadData(); // Refresh the data after accepting
-			} else {
-				const errorData = await response.json();
-				setError(errorData.message || "Failed to accept emergency");
+			const response = await emergencyAPI.acceptEmergency(requestId);
+			if (response.data.data?.assignment) {
+				toast.success(
+					`${response.data.data.assignment.driver.name} was assigned automatically`
+				);
 			}
-		} catch (err) {
+			await loadData(); // Refresh the data after accepting
+		} catch (err: unknown) {
 			console.error("Error accepting emergency:", err);
-			setError("Failed to accept emergency. Please try again.");
+			let errorMessage = "Failed to accept emergency. Please try again.";
+			if (err && typeof err === "object" && "response" in err) {
+				const apiError = err as {
+					response?: { data?: { error?: { message?: string } } };
+				};
+				errorMessage = apiError.response?.data?.error?.message || errorMessage;
+			}
+			setError(errorMessage);
 		} finally {
 			setAcceptingEmergency(null);
 		}
 	};
 
 	const handleRejectEmergency = async (requestId: string) => {
+		const reasonCode = declineReasons[requestId] || "at_capacity";
+		let notes: string | undefined;
+
+		if (reasonCode === "other") {
+			notes = window.prompt("Why are you declining this request?") || "";
+			if (!notes.trim()) return;
+		}
+
 		setRejectingEmergency(requestId);
 		try {
-			// In a real application, this would call the API
-			// await emergencyAPI.rejectEmergency(requestId);
+			await emergencyAPI.rejectEmergency(requestId, reasonCode, notes);
 
-			// For demo purposes, we'll just simulate a successful rejection
-			// by removing the emergency from the pending list
+			// The request will not be offered to this hospital again
 			setPendingEmergencies((prev) =>
 				prev.filter((emergency) => emergency.requestId !== requestId)
 			);
 
-			// Show success message using toast
-			toast.success("Emergency request rejected");
+			toast.success("Emergency request declined");
 		} catch (err) {
 			console.error("Error rejecting emergency:", err);
 			setError("Failed to reject emergency. Please try again.");
@@ -235,7 +366,8 @@ const CasesListPage: React.FC = () => {
 				<CardHeader>
 					<CardTitle>Pending Emergency Requests</CardTitle>
 					<CardDescription>
-						Emergency requests waiting for hospital acceptance
+						Emergency requests in your service area, and those offered to you,
+						waiting for hospital acceptance
 					</CardDescription>
 				</CardHeader>
 				<CardContent>
@@ -245,9 +377,40 @@ const CasesListPage: React.FC = () => {
 						</div>
 					)}
 
-					<Button onClick={loadData} className="mb-4" variant="outline">
-						Refresh
-					</Button>
+					<div className="flex gap-2 mb-4">
+						<Button onClick={() => loadData()} variant="outline">
+							Refresh
+						</Button>
+						<select
+							className="p-1 border rounded text-sm"
+							defaultValue={pendingView.current.sort}
+							onChange={(e) => {
+								pendingView.current.sort = e.target
+									.value as PendingEmergencySort;
+								loadData(false);
+							}}
+						>
+							{PENDING_SORTS.map((sort) => (
+								<option key={sort.value} value={sort.value}>
+									{sort.label}
+								</option>
+							))}
+						</select>
+						<select
+							className="p-1 border rounded text-sm"
+							defaultValue={pendingView.current.severityFilter}
+							onChange={(e) => {
+								pendingView.current.severityFilter = Number(e.target.value);
+								loadData(false);
+							}}
+						>
+							{SEVERITY_FILTERS.map((filter, index) => (
+								<option key={filter.label} value={index}>
+									{filter.label}
+								</option>
+							))}
+						</select>
+					</div>
 
 					<div className="rounded-md border">
 						<Table>
@@ -255,6 +418,7 @@ const CasesListPage: React.FC = () => {
 								<TableRow>
 									<TableHead>ID</TableHead>
 									<TableHead>Patient</TableHead>
+									<TableHead>Severity</TableHead>
 									<TableHead>Pickup Address</TableHead>
 									<TableHead>Medical Notes</TableHead>
 									<TableHead>Created At</TableHead>
@@ -264,7 +428,7 @@ const CasesListPage: React.FC = () => {
 							<TableBody>
 								{pendingEmergencies.length === 0 ? (
 									<TableRow>
-										<TableCell colSpan={6} className="text-center">
+										<TableCell colSpan={7} className="text-center">
 											No pending emergency requests
 										</TableCell>
 									</TableRow>
@@ -273,10 +437,30 @@ const CasesListPage: React.FC = () => {
 										<TableRow key={emergency.requestId}>
 											<TableCell className="font-medium">
 												{emergency.requestId.slice(0, 8)}...
+												{emergency.offeredToHospital && (
+													<span className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
+														Offered to you
+														{emergency.offerExpiresAt &&
+															` until ${new Date(
+																emergency.offerExpiresAt
+															).toLocaleTimeString()}`}
+													</span>
+												)}
 											</TableCell>
 											<TableCell>{emergency.user?.name || "Unknown"}</TableCell>
+											<TableCell>
+												<SeverityBadge severity={emergency.severity} />
+												<p className="text-xs">
+													{emergency.emergencyType?.replace(/_/g, " ")}
+												</p>
+											</TableCell>
 											<TableCell>{getPickupAddress(emergency)}</TableCell>
-											<TableCell>{emergency.medicalNotes || "None"}</TableCell>
+											<TableCell>
+												<p>{emergency.medicalNotes || "None"}</p>
+												<MedicalProfileSummary
+													profile={emergency.medicalProfile}
+												/>
+											</TableCell>
 											<TableCell>{formatDate(emergency.createdAt)}</TableCell>
 											<TableCell>
 												<div className="flex gap-2">
@@ -295,6 +479,29 @@ const CasesListPage: React.FC = () => {
 															? "Accepting..."
 															: "Accept"}
 													</Button>
+													<select
+														className="p-1 border rounded text-sm"
+														value={
+															declineReasons[emergency.requestId] ||
+															"at_capacity"
+														}
+														onChange={(e) =>
+															setDeclineReasons((prev) => ({
+																...prev,
+																[emergency.requestId]: e.target
+																	.value as DeclineReasonCode,
+															}))
+														}
+														disabled={
+															rejectingEmergency === emergency.requestId
+														}
+													>
+														{DECLINE_REASONS.map((reason) => (
+															<option key={reason.value} value={reason.value}>
+																{reason.label}
+															</option>
+														))}
+													</select>
 													<Button
 														onClick={() =>
 															handleRejectEmergency(emergency.requestId)
@@ -329,12 +536,33 @@ const CasesListPage: React.FC = () => {
 					</CardDescription>
 				</CardHeader>
 				<CardContent>
+					<div className="mb-4 flex items-center gap-2">
+						<label htmlFor="assignment-mode" className="text-sm font-medium">
+							Driver assignment
+						</label>
+						<select
+							id="assignment-mode"
+							className="p-2 border rounded text-sm"
+							value={assignmentMode}
+							onChange={(e) =>
+								handleAssignmentModeChange(e.target.value as AssignmentMode)
+							}
+						>
+							{ASSIGNMENT_MODES.map((mode) => (
+								<option key={mode.value} value={mode.value}>
+									{mode.label}
+								</option>
+							))}
+						</select>
+					</div>
+
 					<div className="rounded-md border">
 						<Table>
 							<TableHeader>
 								<TableRow>
 									<TableHead>ID</TableHead>
 									<TableHead>Patient</TableHead>
+									<TableHead>Severity</TableHead>
 									<TableHead>Status</TableHead>
 									<TableHead>Created At</TableHead>
 									<TableHead>Patient Support</TableHead>
@@ -344,7 +572,7 @@ const CasesListPage: React.FC = () => {
 							<TableBody>
 								{activeEmergencies.length === 0 ? (
 									<TableRow>
-										<TableCell colSpan={6} className="text-center">
+										<TableCell colSpan={7} className="text-center">
 											No active emergency cases
 										</TableCell>
 									</TableRow>
@@ -354,7 +582,18 @@ const CasesListPage: React.FC = () => {
 											<TableCell className="font-medium">
 												{emergency.requestId.slice(0, 8)}...
 											</TableCell>
-											<TableCell>{emergency.user?.name || "Unknown"}</TableCell>
+											<TableCell>
+												<p>{emergency.user?.name || "Unknown"}</p>
+												<MedicalProfileSummary
+													profile={emergency.medicalProfile}
+												/>
+											</TableCell>
+											<TableCell>
+												<SeverityBadge severity={emergency.severity} />
+												<p className="text-xs">
+													{emergency.emergencyType?.replace(/_/g, " ")}
+												</p>
+											</TableCell>
 											<TableCell>
 												<span
 													className={
@@ -362,25 +601,32 @@ const CasesListPage: React.FC = () => {
 															? "text-yellow-600"
 															: emergency.status === "assigned"
 															? "text-blue-600"
+															: emergency.status === "in_progress"
+															? "text-indigo-600"
 															: emergency.status === "completed"
 															? "text-green-600"
 															: "text-gray-600"
 													}
 												>
-													{emergency.status}
+													{emergency.status.replace(/_/g, " ")}
 												</span>
 											</TableCell>
 											<TableCell>{formatDate(emergency.createdAt)}</TableCell>
 											<TableCell>
 												<Button
 													onClick={() =>
-														window.open(
-															"https://www.chatbase.co/chatbot-iframe/SHU2betdinKO3Ht34-Q3v",
-															"_blank"
+														setChatEmergency(
+															chatEmergency === emergency.requestId
+																? null
+																: emergency.requestId
 														)
 													}
 													size="sm"
-													variant="outline"
+													variant={
+														chatEmergency === emergency.requestId
+															? "default"
+															: "outline"
+													}
 													className="flex items-center gap-1"
 												>
 													<svg
@@ -417,11 +663,43 @@ const CasesListPage: React.FC = () => {
 															}
 														>
 															<option value="">Select a driver</option>
-															{getAvailableDrivers().map((driver) => (
-																<option key={driver.id} value={driver.id}>
-																	{driver.name}
-																</option>
-															))}
+															{driverSuggestions[emergency.requestId]?.length ? (
+																<>
+																	<optgroup label="Suggested (nearest first)">
+																		{driverSuggestions[emergency.requestId].map(
+																			(driver, index) => (
+																				<option key={driver.id} value={driver.id}>
+																					{driver.name} - {driver.distanceKm} km
+																					{driver.vehicleType
+																						? `, ${driver.vehicleType}`
+																						: ""}
+																					{index === 0 ? " (recommended)" : ""}
+																				</option>
+																			)
+																		)}
+																	</optgroup>
+																	<optgroup label="Other drivers">
+																		{getAvailableDrivers()
+																			.filter(
+																				(driver) =>
+																					!driverSuggestions[
+																						emergency.requestId
+																					].some((s) => s.id === driver.id)
+																			)
+																			.map((driver) => (
+																				<option key={driver.id} value={driver.id}>
+																					{driver.name}
+																				</option>
+																			))}
+																	</optgroup>
+																</>
+															) : (
+																getAvailableDrivers().map((driver) => (
+																	<option key={driver.id} value={driver.id}>
+																		{driver.name}
+																	</option>
+																))
+															)}
 														</select>
 														<Button
 															onClick={() =>
@@ -452,6 +730,18 @@ const CasesListPage: React.FC = () => {
 							</TableBody>
 						</Table>
 					</div>
+
+					{chatEmergency &&
+						activeEmergencies.some(
+							(emergency) => emergency.requestId === chatEmergency
+						) && (
+							<div className="mt-6">
+								<h3 className="text-lg font-medium mb-2">
+									Chat for case {chatEmergency.slice(0, 8)}...
+								</h3>
+								<EmergencyChat key={chatEmergency} requestId={chatEmergency} />
+							</div>
+						)}
 				</CardContent>
 			</Card>
 		</div>
@@ -27,6 +27,12 @@ const DashboardPage: React.FC = () => {
 		) {
 			navigate("/cases");
 		}
+		if (window.location.pathname === "/dashboard" && user?.role === "admin") {
+			navigate("/admin/emergencies");
+		}
+		if (window.location.pathname === "/dashboard" && user?.role === "driver") {
+			navigate("/driver");
+		}
 	}, [user, navigate]);
 
 	const handleLogout = () => {
@@ -59,13 +65,34 @@ const DashboardPage: React.FC = () => {
 								>
 									Driver Approval Requests
 								</Button>
+								<Button
+									className="w-full"
+									onClick={() => navigate("/capacity")}
+									variant="outline"
+								>
+									Update Bed Capacity
+								</Button>
+								<Button
+									className="w-full"
+									onClick={() => navigate("/diversion")}
+									variant="outline"
+								>
+									Manage Diversion
+								</Button>
+								<Button
+									className="w-full"
+									onClick={() => navigate("/service-area")}
+									variant="outline"
+								>
+									Set Service Area
+								</Button>
 							</>
 						)}
 
 						{user?.role === "driver" && (
-							<p className="text-center text-muted-foreground">
-								Driver dashboard features coming soon.
-							</p>
+							<Button className="w-full" onClick={() => navigate("/driver")}>
+								Open Driver Console
+							</Button>
 						)}
 
 						{user?.role === "user" && (
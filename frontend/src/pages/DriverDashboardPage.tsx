@@ -0,0 +1,380 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { driverAPI } from "@/lib/api";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import EmergencyChat from "@/components/EmergencyChat";
+import MedicalProfileSummary from "@/components/MedicalProfileSummary";
+import SeverityBadge from "@/components/SeverityBadge";
+import { Assignment, DriverStatus, DriverTrip } from "@/lib/types";
+import { useLocationSharing } from "@/lib/location";
+import {
+	SocketEvents,
+	useEmergencySubscription,
+	useSocketEvents,
+} from "@/lib/socket";
+
+const HISTORY_PAGE_SIZE = 10;
+
+// Statuses the driver can move the current assignment to, in the order they usually happen
+const NEXT_STEPS: Record<string, { status: string; label: string }[]> = {
+	assigned: [{ status: "en_route", label: "On my way" }],
+	en_route: [{ status: "arrived", label: "Arrived at pickup" }],
+	arrived: [
+		{ status: "patient_onboard", label: "Patient on board" },
+		{ status: "completed", label: "Complete" },
+	],
+	patient_onboard: [{ status: "at_hospital", label: "Reached hospital" }],
+	at_hospital: [{ status: "completed", label: "Complete" }],
+};
+
+const getErrorMessage = (err: unknown, fallback: string) => {
+	if (err && typeof err === "object" && "response" in err) {
+		const apiError = err as {
+			response?: { data?: { error?: { message?: string } } };
+		};
+		return apiError.response?.data?.error?.message || fallback;
+	}
+	return fallback;
+};
+
+const formatStatus = (status: string) => status.replace(/_/g, " ");
+
+const DriverDashboardPage: React.FC = () => {
+	const [driverStatus, setDriverStatus] = useState<DriverStatus | null>(null);
+	const [assignment, setAssignment] = useState<Assignment | null>(null);
+	const [trips, setTrips] = useState<DriverTrip[]>([]);
+	const [historyPage, setHistoryPage] = useState(1);
+	const [historyTotal, setHistoryTotal] = useState(0);
+	const [loading, setLoading] = useState(true);
+	const [updating, setUpdating] = useState(false);
+
+	const loadConsole = useCallback(async () => {
+		try {
+			const [statusResponse, assignmentResponse] = await Promise.all([
+				driverAPI.getStatus(),
+				driverAPI.getCurrentAssignment(),
+			]);
+			setDriverStatus(statusResponse.data.data);
+			setAssignment(assignmentResponse.data.data || null);
+		} catch (err) {
+			console.error("Error loading driver console:", err);
+			toast.error("Failed to load your driver status");
+		} finally {
+			setLoading(false);
+		}
+	}, []);
+
+	const loadHistory = useCallback(async (page: number) => {
+		try {
+			const response = await driverAPI.getAssignmentHistory(
+				page,
+				HISTORY_PAGE_SIZE
+			);
+			setTrips(response.data.data.assignments);
+			setHistoryTotal(response.data.data.total);
+		} catch (err) {
+			console.error("Error loading trip history:", err);
+		}
+	}, []);
+
+	useEffect(() => {
+		loadConsole();
+	}, [loadConsole]);
+
+	useEffect(() => {
+		loadHistory(historyPage);
+	}, [loadHistory, historyPage]);
+
+	useSocketEvents([SocketEvents.EMERGENCY_DRIVER_ASSIGNED], () => {
+		toast.info("You have been assigned a new emergency");
+		loadConsole();
+	});
+
+	useSocketEvents([SocketEvents.EMERGENCY_CANCELLED], () => {
+		toast.warning("The current emergency was cancelled");
+		loadConsole();
+		loadHistory(historyPage);
+	});
+
+	// Reassignment can take the trip away, triage changes its severity
+	useSocketEvents(
+		[SocketEvents.EMERGENCY_REASSIGNED, SocketEvents.EMERGENCY_TRIAGED],
+		() => {
+			loadConsole();
+			loadHistory(historyPage);
+		}
+	);
+
+	useEmergencySubscription(assignment?.requestId);
+
+	// Share the ambulance's position while on shift or on a trip
+	const location = useLocationSharing(
+		Boolean(driverStatus?.isApproved && (driverStatus.isAvailable || assignment))
+	);
+
+	const handleAvailabilityToggle = async () => {
+		if (!driverStatus) return;
+
+		setUpdating(true);
+		try {
+			await driverAPI.updateAvailability(!driverStatus.isAvailable);
+			setDriverStatus({
+				...driverStatus,
+				isAvailable: !driverStatus.isAvailable,
+			});
+			toast.success(
+				driverStatus.isAvailable
+					? "You are now off duty"
+					: "You are now available for emergencies"
+			);
+		} catch (err: unknown) {
+			toast.error(getErrorMessage(err, "Failed to update availability"));
+		} finally {
+			setUpdating(false);
+		}
+	};
+
+	const handleStatusUpdate = async (status: string) => {
+		if (!assignment) return;
+
+		setUpdating(true);
+		try {
+			await driverAPI.updateAssignmentStatus(assignment.assignmentId, status);
+			toast.success(`Trip marked as ${formatStatus(status)}`);
+			await loadConsole();
+			if (status === "completed") {
+				loadHistory(historyPage);
+			}
+		} catch (err: unknown) {
+			toast.error(getErrorMessage(err, "Failed to update trip status"));
+		} finally {
+			setUpdating(false);
+		}
+	};
+
+	if (loading) {
+		return (
+			<div className="flex h-screen items-center justify-center">
+				<p>Loading...</p>
+			</div>
+		);
+	}
+
+	const historyPages = Math.max(1, Math.ceil(historyTotal / HISTORY_PAGE_SIZE));
+
+	return (
+		<div className="container max-w-3xl py-6 space-y-6">
+			<Card>
+				<CardHeader>
+					<CardTitle>Driver Console</CardTitle>
+					<CardDescription>
+						{driverStatus?.hospital
+							? `${driverStatus.hospital.name} · ${driverStatus.vehicleType} ${driverStatus.vehicleRegistration}`
+							: "You are not linked to a hospital yet"}
+					</CardDescription>
+				</CardHeader>
+				<CardContent className="space-y-3">
+					{driverStatus && !driverStatus.isApproved ? (
+						<p className="text-sm text-muted-foreground">
+							Your hospital has not approved your account yet. You can go on
+							duty once it does.
+						</p>
+					) : (
+						<div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+							<div>
+								<p className="font-medium">
+									{driverStatus?.isAvailable ? "On duty" : "Off duty"}
+								</p>
+								<p className="text-sm text-muted-foreground">
+									{location.error
+										? location.error
+										: location.lastSentAt
+											? `Location shared at ${location.lastSentAt.toLocaleTimeString()}`
+											: "Location is shared while you are on duty"}
+								</p>
+							</div>
+							<Button
+								className="w-full sm:w-auto"
+								variant={driverStatus?.isAvailable ? "outline" : "default"}
+								disabled={updating || Boolean(assignment)}
+								onClick={handleAvailabilityToggle}
+							>
+								{driverStatus?.isAvailable ? "Go off duty" : "Go on duty"}
+							</Button>
+						</div>
+					)}
+				</CardContent>
+			</Card>
+
+			<Card>
+				<CardHeader>
+					<CardTitle>Current Assignment</CardTitle>
+					{assignment && (
+						<CardDescription>
+							Assigned {new Date(assignment.assignedAt).toLocaleString()} ·{" "}
+							<span className="capitalize">
+								{formatStatus(assignment.status)}
+							</span>
+						</CardDescription>
+					)}
+				</CardHeader>
+				<CardContent>
+					{!assignment ? (
+						<p className="text-sm text-muted-foreground">
+							{driverStatus?.isAvailable
+								? "Waiting for your next emergency"
+								: "Go on duty to receive emergencies"}
+						</p>
+					) : (
+						<div className="space-y-4">
+							<div className="flex items-center gap-2">
+								<SeverityBadge severity={assignment.severity} />
+								<span className="text-sm capitalize">
+									{formatStatus(assignment.emergencyType)}
+								</span>
+							</div>
+
+							<div>
+								<p className="text-sm text-muted-foreground">Patient</p>
+								<p className="font-medium">{assignment.user.name}</p>
+								<a
+									href={`tel:${assignment.user.phoneNumber}`}
+									className="text-sm text-primary underline"
+								>
+									{assignment.user.phoneNumber}
+								</a>
+							</div>
+
+							<div>
+								<p className="text-sm text-muted-foreground">Pickup</p>
+								<p className="font-medium">{assignment.pickup.address}</p>
+								<a
+									href={`https://www.google.com/maps/dir/?api=1&destination=${assignment.pickup.latitude},${assignment.pickup.longitude}`}
+									target="_blank"
+									rel="noreferrer"
+									className="text-sm text-primary underline"
+								>
+									Open directions
+								</a>
+							</div>
+
+							<div>
+								<p className="text-sm text-muted-foreground">Hospital</p>
+								<p className="font-medium">{assignment.hospital.name}</p>
+								<p className="text-sm">{assignment.hospital.address}</p>
+							</div>
+
+							{assignment.medicalNotes && (
+								<div>
+									<p className="text-sm text-muted-foreground">Patient notes</p>
+									<p className="text-sm whitespace-pre-wrap">
+										{assignment.medicalNotes}
+									</p>
+								</div>
+							)}
+
+							<MedicalProfileSummary profile={assignment.medicalProfile} />
+
+							<div className="grid gap-2 sm:grid-cols-2">
+								{(NEXT_STEPS[assignment.status] || []).map((step) => (
+									<Button
+										key={step.status}
+										size="lg"
+										className="w-full"
+										disabled={updating}
+										onClick={() => handleStatusUpdate(step.status)}
+									>
+										{step.label}
+									</Button>
+								))}
+							</div>
+
+							<EmergencyChat requestId={assignment.requestId} />
+						</div>
+					)}
+				</CardContent>
+			</Card>
+
+			<Card>
+				<CardHeader>
+					<CardTitle>Trip History</CardTitle>
+					<CardDescription>{historyTotal} trips</CardDescription>
+				</CardHeader>
+				<CardContent className="space-y-4">
+					<div className="overflow-x-auto">
+						<Table>
+							<TableHeader>
+								<TableRow>
+									<TableHead>Assigned</TableHead>
+									<TableHead>Patient</TableHead>
+									<TableHead>Pickup</TableHead>
+									<TableHead>Status</TableHead>
+								</TableRow>
+							</TableHeader>
+							<TableBody>
+								{trips.length === 0 ? (
+									<TableRow>
+										<TableCell colSpan={4} className="text-center">
+											No trips yet
+										</TableCell>
+									</TableRow>
+								) : (
+									trips.map((trip) => (
+										<TableRow key={trip.assignmentId}>
+											<TableCell>
+												{new Date(trip.assignedAt).toLocaleString()}
+											</TableCell>
+											<TableCell>{trip.user}</TableCell>
+											<TableCell>{trip.pickup}</TableCell>
+											<TableCell className="capitalize">
+												{formatStatus(trip.status)}
+											</TableCell>
+										</TableRow>
+									))
+								)}
+							</TableBody>
+						</Table>
+					</div>
+					<div className="flex items-center justify-between">
+						<Button
+							variant="outline"
+							size="sm"
+							disabled={historyPage <= 1}
+							onClick={() => setHistoryPage(historyPage - 1)}
+						>
+							Previous
+						</Button>
+						<span className="text-sm text-muted-foreground">
+							Page {historyPage} of {historyPages}
+						</span>
+						<Button
+							variant="outline"
+							size="sm"
+							disabled={historyPage >= historyPages}
+							onClick={() => setHistoryPage(historyPage + 1)}
+						>
+							Next
+						</Button>
+					</div>
+				</CardContent>
+			</Card>
+		</div>
+	);
+};
+
+export default DriverDashboardPage;
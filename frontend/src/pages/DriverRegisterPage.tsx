@@ -16,7 +16,9 @@ import {
 	CardHeader,
 	CardTitle,
 } from "@/components/ui/card";
-import { authAPI } from "@/lib/api";
+import VerificationNotice from "@/components/VerificationNotice";
+import { authAPI, hospitalAPI } from "@/lib/api";
+import { HospitalDirectoryEntry } from "@/lib/types";
 
 const driverRegisterSchema = z
 	.object({
@@ -37,6 +39,8 @@ const driverRegisterSchema = z
 		licenseNumber: z
 			.string()
 			.min(5, { message: "License number must be at least 5 characters" }),
+		hospitalId: z.string().optional(),
+		inviteCode: z.string().optional(),
 	})
 	.refine((data) => data.password === data.confirmPassword, {
 		message: "Passwords don't match",
@@ -50,6 +54,18 @@ const DriverRegisterPage: React.FC = () => {
 	const [loading, setLoading] = useState(false);
 	const [error, setError] = useState<string | null>(null);
 	const [success, setSuccess] = useState(false);
+	const [verificationEmail, setVerificationEmail] = useState<string | null>(
+		null
+	);
+	const [hospitals, setHospitals] = useState<HospitalDirectoryEntry[]>([]);
+
+	useEffect(() => {
+		// The hospital list is optional; drivers can still register with an invite code
+		hospitalAPI
+			.getDirectory()
+			.then((response) => setHospitals(response.data.data?.hospitals || []))
+			.catch((err) => console.error(err));
+	}, []);
 
 	useEffect(() => {
 		// Display error as toast whenever it changes
@@ -78,6 +94,8 @@ const DriverRegisterPage: React.FC = () => {
 			password: "",
 			confirmPassword: "",
 			licenseNumber: "",
+			hospitalId: "",
+			inviteCode: "",
 		},
 	});
 
@@ -87,9 +105,20 @@ const DriverRegisterPage: React.FC = () => {
 
 		try {
 			// Remove confirmPassword as it's not needed for the API
-			const { confirmPassword, ...driverData } = data;
+			const { confirmPassword, hospitalId, inviteCode, ...driverData } = data;
+
+			const response = await authAPI.registerDriver({
+				...driverData,
+				hospitalId: hospitalId || undefined,
+				inviteCode: inviteCode?.trim() || undefined,
+			});
+
+			// New accounts verify their email address before they can sign in
+			if (response.data?.data?.emailVerificationRequired) {
+				setVerificationEmail(driverData.email);
+				return;
+			}
 
-			await authAPI.registerDriver(driverData);
 			setSuccess(true);
 
 			// Redirect to login after 2 seconds
@@ -124,7 +153,9 @@ const DriverRegisterPage: React.FC = () => {
 					</CardDescription>
 				</CardHeader>
 				<CardContent>
-					{success ? (
+					{verificationEmail ? (
+						<VerificationNotice email={verificationEmail} />
+					) : success ? (
 						<div className="p-4 bg-green-50 border border-green-200 rounded-md text-green-800">
 							<p className="text-center">
 								Registration successful! Redirecting to login...
@@ -200,6 +231,35 @@ const DriverRegisterPage: React.FC = () => {
 									</p>
 								)}
 							</div>
+							<div className="space-y-2">
+								<Label htmlFor="hospitalId">Hospital (optional)</Label>
+								<select
+									id="hospitalId"
+									className="w-full p-2 border rounded-md text-sm bg-background"
+									{...register("hospitalId")}
+								>
+									<option value="">Select the hospital you drive for</option>
+									{hospitals.map((hospital) => (
+										<option key={hospital.id} value={hospital.id}>
+											{hospital.name}
+										</option>
+									))}
+								</select>
+								<p className="text-xs text-muted-foreground">
+									The hospital must approve you before you can take assignments
+								</p>
+							</div>
+							<div className="space-y-2">
+								<Label htmlFor="inviteCode">Invitation Code (optional)</Label>
+								<Input
+									id="inviteCode"
+									placeholder="A1B2C3D4E5"
+									{...register("inviteCode")}
+								/>
+								<p className="text-xs text-muted-foreground">
+									Invited drivers join the inviting hospital's fleet straight away
+								</p>
+							</div>
 							<div className="space-y-2">
 								<Label htmlFor="password">Password</Label>
 								<Input
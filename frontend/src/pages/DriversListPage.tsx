@@ -1,6 +1,9 @@
 import React, { useEffect, useState } from "react";
+import { toast } from "sonner";
 
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import {
 	Table,
 	TableBody,
@@ -16,14 +19,25 @@ import {
 	CardHeader,
 	CardTitle,
 } from "@/components/ui/card";
-import { driverAPI } from "@/lib/api";
-import { Driver } from "@/lib/types";
+import { driverAPI, hospitalAPI } from "@/lib/api";
+import {
+	Driver,
+	DriverInvitation,
+	DriverSharingAgreement,
+	HospitalDirectoryEntry,
+} from "@/lib/types";
 
 const DriversListPage: React.FC = () => {
 	const [drivers, setDrivers] = useState<Driver[]>([]);
 	const [loading, setLoading] = useState(true);
 	const [error, setError] = useState<string | null>(null);
 	const [approvingDriver, setApprovingDriver] = useState<string | null>(null);
+	const [invitations, setInvitations] = useState<DriverInvitation[]>([]);
+	const [inviteEmail, setInviteEmail] = useState("");
+	const [inviting, setInviting] = useState(false);
+	const [agreements, setAgreements] = useState<DriverSharingAgreement[]>([]);
+	const [hospitals, setHospitals] = useState<HospitalDirectoryEntry[]>([]);
+	const [borrowerHospitalId, setBorrowerHospitalId] = useState("");
 
 	useEffect(() => {
 		// No need to check authentication or role, already handled by ProtectedRoute
@@ -34,8 +48,17 @@ const DriversListPage: React.FC = () => {
 		setLoading(true);
 		setError(null);
 		try {
-			const response = await driverAPI.getDrivers();
-			setDrivers(response.data.data || []);
+			const [driversResponse, invitationsResponse, agreementsResponse, directoryResponse] =
+				await Promise.all([
+					driverAPI.getDrivers(),
+					driverAPI.getInvitations(),
+					hospitalAPI.getSharingAgreements(),
+					hospitalAPI.getDirectory(),
+				]);
+			setDrivers(driversResponse.data.data?.drivers || []);
+			setInvitations(invitationsResponse.data.data?.invitations || []);
+			setAgreements(agreementsResponse.data.data?.agreements || []);
+			setHospitals(directoryResponse.data.data?.hospitals || []);
 		} catch (err) {
 			setError("Failed to load drivers. Please try again.");
 			console.error(err);
@@ -58,6 +81,59 @@ const DriversListPage: React.FC = () => {
 		}
 	};
 
+	const handleInviteDriver = async (e: React.FormEvent) => {
+		e.preventDefault();
+		setInviting(true);
+		try {
+			const response = await driverAPI.inviteDriver(inviteEmail);
+			toast.success(
+				`Invitation code ${response.data.data.inviteCode} created for ${inviteEmail}`,
+			);
+			setInviteEmail("");
+			await loadDrivers();
+		} catch (err) {
+			toast.error("Failed to invite driver");
+			console.error(err);
+		} finally {
+			setInviting(false);
+		}
+	};
+
+	const handleRevokeInvitation = async (invitationId: string) => {
+		try {
+			await driverAPI.revokeInvitation(invitationId);
+			await loadDrivers();
+		} catch (err) {
+			toast.error("Failed to revoke invitation");
+			console.error(err);
+		}
+	};
+
+	const handleShareDrivers = async () => {
+		if (!borrowerHospitalId) {
+			return;
+		}
+		try {
+			await hospitalAPI.createSharingAgreement(borrowerHospitalId);
+			toast.success("Your drivers are now shared with the selected hospital");
+			setBorrowerHospitalId("");
+			await loadDrivers();
+		} catch (err) {
+			toast.error("Failed to share drivers with this hospital");
+			console.error(err);
+		}
+	};
+
+	const handleEndAgreement = async (agreementId: string) => {
+		try {
+			await hospitalAPI.endSharingAgreement(agreementId);
+			await loadDrivers();
+		} catch (err) {
+			toast.error("Failed to end sharing agreement");
+			console.error(err);
+		}
+	};
+
 	if (loading) {
 		return (
 			<div className="flex h-screen items-center justify-center">
@@ -80,6 +156,26 @@ const DriversListPage: React.FC = () => {
 						</div>
 					)}
 
+					<form
+						onSubmit={handleInviteDriver}
+						className="mb-4 flex items-end gap-2"
+					>
+						<div className="space-y-2">
+							<Label htmlFor="invite-email">Invite a driver to your fleet</Label>
+							<Input
+								id="invite-email"
+								type="email"
+								placeholder="driver@example.com"
+								value={inviteEmail}
+								onChange={(e) => setInviteEmail(e.target.value)}
+								required
+							/>
+						</div>
+						<Button type="submit" disabled={inviting}>
+							{inviting ? "Inviting..." : "Send Invite"}
+						</Button>
+					</form>
+
 					<Button onClick={loadDrivers} className="mb-4" variant="outline">
 						Refresh
 					</Button>
@@ -109,6 +205,11 @@ const DriversListPage: React.FC = () => {
 										<TableRow key={driver.id}>
 											<TableCell className="font-medium">
 												{driver.name}
+												{driver.isShared && (
+													<span className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+														Shared
+													</span>
+												)}
 											</TableCell>
 											<TableCell>{driver.email}</TableCell>
 											<TableCell>{driver.phoneNumber}</TableCell>
@@ -136,7 +237,7 @@ const DriversListPage: React.FC = () => {
 												</span>
 											</TableCell>
 											<TableCell>
-												{!driver.isApproved && (
+												{!driver.isApproved && !driver.isShared && (
 													<Button
 														onClick={() => handleApproveDriver(driver.id)}
 														disabled={approvingDriver === driver.id}
@@ -157,6 +258,149 @@ const DriversListPage: React.FC = () => {
 					</div>
 				</CardContent>
 			</Card>
+
+			<Card className="w-full mt-6">
+				<CardHeader>
+					<CardTitle>Driver Invitations</CardTitle>
+					<CardDescription>
+						Invited drivers join your fleet as soon as they use their code
+					</CardDescription>
+				</CardHeader>
+				<CardContent>
+					<div className="rounded-md border">
+						<Table>
+							<TableHeader>
+								<TableRow>
+									<TableHead>Email</TableHead>
+									<TableHead>Code</TableHead>
+									<TableHead>Status</TableHead>
+									<TableHead>Expires</TableHead>
+									<TableHead>Actions</TableHead>
+								</TableRow>
+							</TableHeader>
+							<TableBody>
+								{invitations.length === 0 ? (
+									<TableRow>
+										<TableCell colSpan={5} className="text-center">
+											No invitations sent
+										</TableCell>
+									</TableRow>
+								) : (
+									invitations.map((invitation) => (
+										<TableRow key={invitation.invitationId}>
+											<TableCell>{invitation.email}</TableCell>
+											<TableCell className="font-mono">
+												{invitation.inviteCode}
+											</TableCell>
+											<TableCell className="capitalize">
+												{invitation.status}
+											</TableCell>
+											<TableCell>
+												{new Date(invitation.expiresAt).toLocaleString()}
+											</TableCell>
+											<TableCell>
+												{invitation.status === "pending" && (
+													<Button
+														onClick={() =>
+															handleRevokeInvitation(invitation.invitationId)
+														}
+														size="sm"
+														variant="outline"
+													>
+														Revoke
+													</Button>
+												)}
+											</TableCell>
+										</TableRow>
+									))
+								)}
+							</TableBody>
+						</Table>
+					</div>
+				</CardContent>
+			</Card>
+
+			<Card className="w-full mt-6">
+				<CardHeader>
+					<CardTitle>Driver Sharing</CardTitle>
+					<CardDescription>
+						Lend your drivers to another hospital; shared drivers appear in its
+						driver list and can be assigned to its emergencies
+					</CardDescription>
+				</CardHeader>
+				<CardContent>
+					<div className="mb-4 flex items-center gap-2">
+						<select
+							className="p-2 border rounded text-sm"
+							value={borrowerHospitalId}
+							onChange={(e) => setBorrowerHospitalId(e.target.value)}
+						>
+							<option value="">Select a hospital</option>
+							{hospitals.map((hospital) => (
+								<option key={hospital.id} value={hospital.id}>
+									{hospital.name}
+								</option>
+							))}
+						</select>
+						<Button onClick={handleShareDrivers} disabled={!borrowerHospitalId}>
+							Share Drivers
+						</Button>
+					</div>
+
+					<div className="rounded-md border">
+						<Table>
+							<TableHeader>
+								<TableRow>
+									<TableHead>Hospital</TableHead>
+									<TableHead>Direction</TableHead>
+									<TableHead>Status</TableHead>
+									<TableHead>Since</TableHead>
+									<TableHead>Actions</TableHead>
+								</TableRow>
+							</TableHeader>
+							<TableBody>
+								{agreements.length === 0 ? (
+									<TableRow>
+										<TableCell colSpan={5} className="text-center">
+											No sharing agreements
+										</TableCell>
+									</TableRow>
+								) : (
+									agreements.map((agreement) => (
+										<TableRow key={agreement.agreementId}>
+											<TableCell>{agreement.hospital.name}</TableCell>
+											<TableCell>
+												{agreement.direction === "lending"
+													? "Lending our drivers"
+													: "Borrowing their drivers"}
+											</TableCell>
+											<TableCell className="capitalize">
+												{agreement.status}
+											</TableCell>
+											<TableCell>
+												{new Date(agreement.createdAt).toLocaleDateString()}
+											</TableCell>
+											<TableCell>
+												{agreement.status === "active" && (
+													<Button
+														onClick={() =>
+															handleEndAgreement(agreement.agreementId)
+														}
+														size="sm"
+														variant="outline"
+													>
+														End
+													</Button>
+												)}
+											</TableCell>
+										</TableRow>
+									))
+								)}
+							</TableBody>
+						</Table>
+					</div>
+				</CardContent>
+			</Card>
 		</div>
 	);
 };
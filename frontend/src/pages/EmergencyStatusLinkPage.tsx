@@ -0,0 +1,157 @@
+import React, { useEffect, useState } from "react";
+import { useParams } from "react-router-dom";
+
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import { emergencyAPI } from "@/lib/api";
+import { PublicEmergencyStatus } from "@/lib/types";
+
+// Status links are opened without an account, so there is no socket to push updates
+const REFRESH_INTERVAL_MS = 30000;
+
+const STATUS_LABELS: Record<string, string> = {
+	pending: "Looking for a hospital",
+	accepted: "Accepted by a hospital",
+	assigned: "Ambulance assigned",
+	in_progress: "Ambulance on the way",
+	completed: "Completed",
+	cancelled: "Cancelled",
+};
+
+const AMBULANCE_LABELS: Record<string, string> = {
+	assigned: "Preparing to leave",
+	en_route: "On the way",
+	arrived: "Arrived",
+	patient_onboard: "Taking the patient to hospital",
+	at_hospital: "At the hospital",
+	completed: "Finished",
+	cancelled: "Cancelled",
+};
+
+const EmergencyStatusLinkPage: React.FC = () => {
+	const { token } = useParams<{ token: string }>();
+	const [emergency, setEmergency] = useState<PublicEmergencyStatus | null>(
+		null
+	);
+	const [error, setError] = useState<string | null>(null);
+
+	useEffect(() => {
+		if (!token) {
+			return;
+		}
+
+		const loadStatus = () => {
+			emergencyAPI
+				.getPublicStatus(token)
+				.then((response) => {
+					setEmergency(response.data.data);
+					setError(null);
+				})
+				.catch((err: unknown) => {
+					let errorMessage = "Failed to load the emergency status";
+					if (err && typeof err === "object" && "response" in err) {
+						const apiError = err as {
+							response?: { data?: { error?: { message?: string } } };
+						};
+						errorMessage =
+							apiError.response?.data?.error?.message || errorMessage;
+					}
+					setError(errorMessage);
+				});
+		};
+
+		loadStatus();
+		const interval = setInterval(loadStatus, REFRESH_INTERVAL_MS);
+		return () => clearInterval(interval);
+	}, [token]);
+
+	const formatDate = (dateString: string) => {
+		return new Date(dateString).toLocaleString();
+	};
+
+	return (
+		<div className="flex min-h-screen items-center justify-center p-4">
+			<Card className="w-full max-w-md">
+				<CardHeader>
+					<CardTitle>Emergency Status</CardTitle>
+					<CardDescription>
+						{emergency
+							? `${emergency.patientFirstName}'s emergency request`
+							: "Shared through Instant Ambulance"}
+					</CardDescription>
+				</CardHeader>
+				<CardContent className="space-y-4">
+					{error && <p className="text-sm text-destructive">{error}</p>}
+					{!emergency && !error && <p>Loading...</p>}
+					{emergency && (
+						<>
+							<div>
+								<p className="text-sm font-medium">Status</p>
+								<p className="text-lg">
+									{STATUS_LABELS[emergency.status] || emergency.status}
+								</p>
+								<p className="text-xs text-muted-foreground">
+									Requested {formatDate(emergency.createdAt)}
+								</p>
+							</div>
+
+							{emergency.hospital && (
+								<div>
+									<p className="text-sm font-medium">Hospital</p>
+									<div className="bg-blue-50 p-3 rounded-md text-sm">
+										<p className="font-medium">{emergency.hospital.name}</p>
+										<p>{emergency.hospital.address}</p>
+										<p>
+											Phone:{" "}
+											<a
+												href={`tel:${emergency.hospital.phoneNumber}`}
+												className="underline"
+											>
+												{emergency.hospital.phoneNumber}
+											</a>
+										</p>
+									</div>
+								</div>
+							)}
+
+							{emergency.ambulance && (
+								<div>
+									<p className="text-sm font-medium">Ambulance</p>
+									<p className="text-sm">
+										{AMBULANCE_LABELS[emergency.ambulance.status] ||
+											emergency.ambulance.status}
+										{emergency.ambulance.etaMinutes !== null &&
+											` · about ${emergency.ambulance.etaMinutes} min away`}
+									</p>
+									{emergency.ambulance.arrivedAt && (
+										<p className="text-xs text-muted-foreground">
+											Arrived {formatDate(emergency.ambulance.arrivedAt)}
+										</p>
+									)}
+								</div>
+							)}
+
+							{emergency.completedAt && (
+								<p className="text-sm">
+									Completed {formatDate(emergency.completedAt)}
+								</p>
+							)}
+							{emergency.cancelledAt && (
+								<p className="text-sm">
+									Cancelled {formatDate(emergency.cancelledAt)}
+								</p>
+							)}
+						</>
+					)}
+				</CardContent>
+			</Card>
+		</div>
+	);
+};
+
+export default EmergencyStatusLinkPage;
@@ -0,0 +1,111 @@
+import React, { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import * as z from "zod";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardFooter,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import { authAPI } from "@/lib/api";
+
+const forgotPasswordSchema = z.object({
+	email: z.string().email({ message: "Please enter a valid email address" }),
+});
+
+type ForgotPasswordFormData = z.infer<typeof forgotPasswordSchema>;
+
+const ForgotPasswordPage: React.FC = () => {
+	const navigate = useNavigate();
+	const [loading, setLoading] = useState(false);
+	const [sentMessage, setSentMessage] = useState<string | null>(null);
+
+	const {
+		register,
+		handleSubmit,
+		formState: { errors },
+	} = useForm<ForgotPasswordFormData>({
+		resolver: zodResolver(forgotPasswordSchema),
+		defaultValues: {
+			email: "",
+		},
+	});
+
+	const onSubmit = async (data: ForgotPasswordFormData) => {
+		setLoading(true);
+
+		try {
+			const response = await authAPI.forgotPassword(data.email);
+			setSentMessage(response.data.message);
+		} catch (err: unknown) {
+			let errorMessage = "Failed to request a password reset";
+			if (err && typeof err === "object" && "response" in err) {
+				const apiError = err as {
+					response?: { data?: { error?: { message?: string } } };
+				};
+				errorMessage = apiError.response?.data?.error?.message || errorMessage;
+			}
+			toast.error(errorMessage);
+		} finally {
+			setLoading(false);
+		}
+	};
+
+	return (
+		<div className="min-h-screen flex items-center justify-center bg-background">
+			<Card className="w-full max-w-md">
+				<CardHeader>
+					<CardTitle className="text-2xl font-bold text-center">
+						Forgot your password?
+					</CardTitle>
+					<CardDescription className="text-center">
+						We will email you a link to choose a new one
+					</CardDescription>
+				</CardHeader>
+				<CardContent>
+					{sentMessage ? (
+						<div className="p-4 bg-green-50 border border-green-200 rounded-md text-green-800">
+							<p className="text-center">{sentMessage}</p>
+						</div>
+					) : (
+						<form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+							<div className="space-y-2">
+								<Label htmlFor="email">Email</Label>
+								<Input
+									id="email"
+									type="email"
+									placeholder="name@example.com"
+									{...register("email")}
+								/>
+								{errors.email && (
+									<p className="text-sm text-destructive">
+										{errors.email.message}
+									</p>
+								)}
+							</div>
+							<Button type="submit" className="w-full" disabled={loading}>
+								{loading ? "Sending..." : "Send reset link"}
+							</Button>
+						</form>
+					)}
+				</CardContent>
+				<CardFooter className="flex justify-center">
+					<Button variant="link" onClick={() => navigate("/login")}>
+						Back to sign in
+					</Button>
+				</CardFooter>
+			</Card>
+		</div>
+	);
+};
+
+export default ForgotPasswordPage;
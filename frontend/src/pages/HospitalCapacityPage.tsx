@@ -0,0 +1,229 @@
+import React, { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { hospitalAPI } from "@/lib/api";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+	DepartmentCapacity,
+	DepartmentCapacityUpdate,
+	HospitalCapacity,
+	HospitalDepartment,
+} from "@/lib/types";
+
+type BedInputs = Record<string, { totalBeds: string; availableBeds: string }>;
+
+const toInputs = (departments: DepartmentCapacity[]): BedInputs =>
+	Object.fromEntries(
+		departments.map((entry) => [
+			entry.department,
+			{
+				totalBeds: entry.totalBeds === null ? "" : String(entry.totalBeds),
+				availableBeds:
+					entry.availableBeds === null ? "" : String(entry.availableBeds),
+			},
+		])
+	);
+
+const HospitalCapacityPage: React.FC = () => {
+	const [capacity, setCapacity] = useState<HospitalCapacity | null>(null);
+	const [inputs, setInputs] = useState<BedInputs>({});
+	const [loading, setLoading] = useState(true);
+	const [saving, setSaving] = useState(false);
+
+	useEffect(() => {
+		const loadCapacity = async () => {
+			try {
+				const response = await hospitalAPI.getCapacity();
+				const data: HospitalCapacity = response.data.data;
+				setCapacity(data);
+				setInputs(toInputs(data.departments));
+			} catch (err) {
+				toast.error("Failed to load bed capacity");
+				console.error(err);
+			} finally {
+				setLoading(false);
+			}
+		};
+
+		loadCapacity();
+	}, []);
+
+	const handleChange = (
+		department: HospitalDepartment,
+		field: "totalBeds" | "availableBeds",
+		value: string
+	) => {
+		setInputs((prev) => ({
+			...prev,
+			[department]: { ...prev[department], [field]: value },
+		}));
+	};
+
+	const handleSave = async () => {
+		if (!capacity) return;
+
+		// Departments left blank are not published
+		const departments: DepartmentCapacityUpdate[] = capacity.departments
+			.filter(
+				(entry) =>
+					inputs[entry.department].totalBeds !== "" &&
+					inputs[entry.department].availableBeds !== ""
+			)
+			.map((entry) => ({
+				department: entry.department,
+				totalBeds: Number(inputs[entry.department].totalBeds),
+				availableBeds: Number(inputs[entry.department].availableBeds),
+			}));
+
+		if (departments.length === 0) {
+			toast.error("Enter total and available beds for at least one department");
+			return;
+		}
+
+		const invalid = departments.find(
+			(entry) => entry.availableBeds > entry.totalBeds
+		);
+		if (invalid) {
+			toast.error("Available beds cannot exceed total beds");
+			return;
+		}
+
+		setSaving(true);
+		try {
+			const response = await hospitalAPI.updateCapacity(departments);
+			const data: HospitalCapacity = response.data.data;
+			setCapacity(data);
+			setInputs(toInputs(data.departments));
+			toast.success("Bed capacity published");
+		} catch (err: unknown) {
+			let errorMessage = "Failed to publish bed capacity";
+			if (err && typeof err === "object" && "response" in err) {
+				const apiError = err as {
+					response?: { data?: { error?: { message?: string } } };
+				};
+				errorMessage = apiError.response?.data?.error?.message || errorMessage;
+			}
+			toast.error(errorMessage);
+		} finally {
+			setSaving(false);
+		}
+	};
+
+	if (loading) {
+		return (
+			<div className="flex h-screen items-center justify-center">
+				<p>Loading...</p>
+			</div>
+		);
+	}
+
+	const staleDepartments =
+		capacity?.departments.filter((entry) => entry.stale) || [];
+
+	return (
+		<div className="container py-10">
+			<Card className="w-full max-w-3xl mx-auto">
+				<CardHeader>
+					<CardTitle>Bed Capacity</CardTitle>
+					<CardDescription>
+						Free beds steer which emergencies are offered to you and are shown
+						to patients choosing a hospital. Figures older than{" "}
+						{capacity?.staleAfterMinutes} minutes are treated as out of date.
+					</CardDescription>
+				</CardHeader>
+				<CardContent className="space-y-4">
+					{staleDepartments.length > 0 && (
+						<div className="rounded-md border border-amber-300 bg-amber-50 p-3 text-sm text-amber-800">
+							Out of date:{" "}
+							{staleDepartments.map((entry) => entry.label).join(", ")}. Update
+							these figures so dispatch can rely on them.
+						</div>
+					)}
+
+					<Table>
+						<TableHeader>
+							<TableRow>
+								<TableHead>Department</TableHead>
+								<TableHead>Total Beds</TableHead>
+								<TableHead>Available Beds</TableHead>
+								<TableHead>Last Updated</TableHead>
+							</TableRow>
+						</TableHeader>
+						<TableBody>
+							{capacity?.departments.map((entry) => (
+								<TableRow key={entry.department}>
+									<TableCell className="font-medium">{entry.label}</TableCell>
+									<TableCell>
+										<Input
+											type="number"
+											min={0}
+											className="w-24"
+											value={inputs[entry.department]?.totalBeds ?? ""}
+											onChange={(e) =>
+												handleChange(
+													entry.department,
+													"totalBeds",
+													e.target.value
+												)
+											}
+										/>
+									</TableCell>
+									<TableCell>
+										<Input
+											type="number"
+											min={0}
+											className="w-24"
+											value={inputs[entry.department]?.availableBeds ?? ""}
+											onChange={(e) =>
+												handleChange(
+													entry.department,
+													"availableBeds",
+													e.target.value
+												)
+											}
+										/>
+									</TableCell>
+									<TableCell>
+										{entry.updatedAt ? (
+											<span
+												className={
+													entry.stale ? "text-amber-600" : "text-muted-foreground"
+												}
+											>
+												{new Date(entry.updatedAt).toLocaleString()}
+												{entry.stale && " (stale)"}
+											</span>
+										) : (
+											<span className="text-muted-foreground">Never</span>
+										)}
+									</TableCell>
+								</TableRow>
+							))}
+						</TableBody>
+					</Table>
+
+					<Button className="w-full" disabled={saving} onClick={handleSave}>
+						{saving ? "Publishing..." : "Publish Capacity"}
+					</Button>
+				</CardContent>
+			</Card>
+		</div>
+	);
+};
+
+export default HospitalCapacityPage;
@@ -0,0 +1,371 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { emergencyAPI, hospitalAPI } from "@/lib/api";
+import { SocketEvents, useSocketEvents } from "@/lib/socket";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+	EmergencyCatalogue,
+	EmergencyCategory,
+	HospitalDiversion,
+	HospitalDiversionStatus,
+	NeighbourDiversion,
+} from "@/lib/types";
+
+const DURATIONS = [
+	{ minutes: 30, label: "30 minutes" },
+	{ minutes: 60, label: "1 hour" },
+	{ minutes: 120, label: "2 hours" },
+	{ minutes: 240, label: "4 hours" },
+	{ minutes: 480, label: "8 hours" },
+	{ minutes: 720, label: "12 hours" },
+];
+
+const getErrorMessage = (err: unknown, fallback: string) => {
+	if (err && typeof err === "object" && "response" in err) {
+		const apiError = err as {
+			response?: { data?: { error?: { message?: string } } };
+		};
+		return apiError.response?.data?.error?.message || fallback;
+	}
+	return fallback;
+};
+
+const HospitalDiversionPage: React.FC = () => {
+	const [status, setStatus] = useState<HospitalDiversionStatus | null>(null);
+	const [neighbours, setNeighbours] = useState<NeighbourDiversion[]>([]);
+	const [radiusKm, setRadiusKm] = useState<number | null>(null);
+	const [categoryLabels, setCategoryLabels] = useState<
+		Record<string, string>
+	>({});
+	const [full, setFull] = useState(true);
+	const [categories, setCategories] = useState<EmergencyCategory[]>([]);
+	const [reason, setReason] = useState("");
+	const [durationMinutes, setDurationMinutes] = useState(60);
+	const [loading, setLoading] = useState(true);
+	const [saving, setSaving] = useState(false);
+
+	const loadDiversion = useCallback(async () => {
+		try {
+			const response = await hospitalAPI.getDiversion();
+			setStatus(response.data.data);
+		} catch (err) {
+			toast.error("Failed to load diversion status");
+			console.error(err);
+		}
+	}, []);
+
+	const loadNeighbours = useCallback(async () => {
+		try {
+			const response = await hospitalAPI.getNeighbourDiversions();
+			setNeighbours(response.data.data.diversions);
+			setRadiusKm(response.data.data.radiusKm);
+		} catch (err) {
+			console.error(err);
+		}
+	}, []);
+
+	useEffect(() => {
+		const loadPage = async () => {
+			try {
+				const response = await emergencyAPI.getEmergencyTypes();
+				const catalogue: EmergencyCatalogue = response.data.data;
+				setCategoryLabels(
+					Object.fromEntries(
+						catalogue.categories.map((category) => [
+							category.id,
+							category.label,
+						])
+					)
+				);
+			} catch (err) {
+				console.error(err);
+			}
+			await Promise.all([loadDiversion(), loadNeighbours()]);
+			setLoading(false);
+		};
+
+		loadPage();
+	}, [loadDiversion, loadNeighbours]);
+
+	// Sent when this hospital or one nearby starts or lifts a diversion
+	useSocketEvents([SocketEvents.HOSPITAL_DIVERSION_CHANGED], () => {
+		loadDiversion();
+		loadNeighbours();
+	});
+
+	const describeScope = (diversion: HospitalDiversion) =>
+		diversion.full
+			? "All emergencies"
+			: diversion.categories
+					.map((category) => categoryLabels[category] || category)
+					.join(", ");
+
+	const toggleCategory = (category: EmergencyCategory) => {
+		setCategories((prev) =>
+			prev.includes(category)
+				? prev.filter((entry) => entry !== category)
+				: [...prev, category]
+		);
+	};
+
+	const handleStart = async () => {
+		if (!full && categories.length === 0) {
+			toast.error("Choose at least one kind of emergency to divert");
+			return;
+		}
+		if (reason.trim().length < 3) {
+			toast.error("Give a reason for the diversion");
+			return;
+		}
+
+		setSaving(true);
+		try {
+			const response = await hospitalAPI.startDiversion({
+				categories: full ? [] : categories,
+				reason: reason.trim(),
+				durationMinutes,
+			});
+			setStatus(response.data.data);
+			setReason("");
+			toast.success("Diversion started");
+		} catch (err: unknown) {
+			toast.error(getErrorMessage(err, "Failed to start diversion"));
+		} finally {
+			setSaving(false);
+		}
+	};
+
+	const handleEnd = async () => {
+		setSaving(true);
+		try {
+			const response = await hospitalAPI.endDiversion();
+			setStatus(response.data.data);
+			toast.success("Diversion lifted");
+		} catch (err: unknown) {
+			toast.error(getErrorMessage(err, "Failed to lift diversion"));
+		} finally {
+			setSaving(false);
+		}
+	};
+
+	if (loading) {
+		return (
+			<div className="flex h-screen items-center justify-center">
+				<p>Loading...</p>
+			</div>
+		);
+	}
+
+	const active = status?.active;
+
+	return (
+		<div className="container py-10 space-y-6">
+			<Card className="w-full max-w-3xl mx-auto">
+				<CardHeader>
+					<CardTitle>Diversion</CardTitle>
+					<CardDescription>
+						While on diversion your hospital is not offered new emergencies of
+						the diverted kinds and is hidden from patients choosing a hospital.
+						Diversions end by themselves when they expire.
+					</CardDescription>
+				</CardHeader>
+				<CardContent className="space-y-4">
+					{active ? (
+						<div className="rounded-md border border-amber-300 bg-amber-50 p-3 text-sm text-amber-800 space-y-1">
+							<p className="font-medium">
+								On diversion: {describeScope(active)}
+							</p>
+							<p>Reason: {active.reason}</p>
+							<p>Until {new Date(active.expiresAt).toLocaleString()}</p>
+							<Button
+								variant="outline"
+								size="sm"
+								className="mt-2"
+								disabled={saving}
+								onClick={handleEnd}
+							>
+								Lift Diversion
+							</Button>
+						</div>
+					) : (
+						<p className="text-sm text-muted-foreground">
+							Your hospital is accepting all emergencies.
+						</p>
+					)}
+
+					<div className="space-y-2">
+						<Label>Divert</Label>
+						<div className="flex gap-4 text-sm">
+							<label className="flex items-center gap-2">
+								<input
+									type="radio"
+									checked={full}
+									onChange={() => setFull(true)}
+								/>
+								All emergencies
+							</label>
+							<label className="flex items-center gap-2">
+								<input
+									type="radio"
+									checked={!full}
+									onChange={() => setFull(false)}
+								/>
+								Only some kinds
+							</label>
+						</div>
+						{!full && (
+							<div className="grid grid-cols-2 gap-2 text-sm">
+								{Object.entries(categoryLabels).map(([category, label]) => (
+									<label key={category} className="flex items-center gap-2">
+										<input
+											type="checkbox"
+											checked={categories.includes(
+												category as EmergencyCategory
+											)}
+											onChange={() =>
+												toggleCategory(category as EmergencyCategory)
+											}
+										/>
+										{label}
+									</label>
+								))}
+							</div>
+						)}
+					</div>
+					<div className="space-y-2">
+						<Label htmlFor="reason">Reason</Label>
+						<Input
+							id="reason"
+							placeholder="CT scanner out of service"
+							maxLength={500}
+							value={reason}
+							onChange={(e) => setReason(e.target.value)}
+						/>
+					</div>
+					<div className="space-y-2">
+						<Label htmlFor="duration">Duration</Label>
+						<select
+							id="duration"
+							className="flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm"
+							value={durationMinutes}
+							onChange={(e) => setDurationMinutes(Number(e.target.value))}
+						>
+							{DURATIONS.map((duration) => (
+								<option key={duration.minutes} value={duration.minutes}>
+									{duration.label}
+								</option>
+							))}
+						</select>
+					</div>
+					<Button className="w-full" disabled={saving} onClick={handleStart}>
+						{active ? "Replace Diversion" : "Start Diversion"}
+					</Button>
+				</CardContent>
+			</Card>
+
+			<Card className="w-full max-w-3xl mx-auto">
+				<CardHeader>
+					<CardTitle>Nearby Hospitals on Diversion</CardTitle>
+					<CardDescription>
+						Hospitals within {radiusKm} km that are turning emergencies away.
+					</CardDescription>
+				</CardHeader>
+				<CardContent>
+					{neighbours.length === 0 ? (
+						<p className="text-sm text-muted-foreground">
+							No nearby hospitals are on diversion.
+						</p>
+					) : (
+						<Table>
+							<TableHeader>
+								<TableRow>
+									<TableHead>Hospital</TableHead>
+									<TableHead>Distance</TableHead>
+									<TableHead>Diverting</TableHead>
+									<TableHead>Reason</TableHead>
+									<TableHead>Until</TableHead>
+								</TableRow>
+							</TableHeader>
+							<TableBody>
+								{neighbours.map((diversion) => (
+									<TableRow key={diversion.diversionId}>
+										<TableCell className="font-medium">
+											{diversion.hospital.name}
+										</TableCell>
+										<TableCell>{diversion.hospital.distance} km</TableCell>
+										<TableCell>{describeScope(diversion)}</TableCell>
+										<TableCell>{diversion.reason}</TableCell>
+										<TableCell>
+											{new Date(diversion.expiresAt).toLocaleString()}
+										</TableCell>
+									</TableRow>
+								))}
+							</TableBody>
+						</Table>
+					)}
+				</CardContent>
+			</Card>
+
+			<Card className="w-full max-w-3xl mx-auto">
+				<CardHeader>
+					<CardTitle>Diversion History</CardTitle>
+				</CardHeader>
+				<CardContent>
+					{!status || status.history.length === 0 ? (
+						<p className="text-sm text-muted-foreground">
+							Your hospital has not been on diversion.
+						</p>
+					) : (
+						<Table>
+							<TableHeader>
+								<TableRow>
+									<TableHead>Diverting</TableHead>
+									<TableHead>Reason</TableHead>
+									<TableHead>Started</TableHead>
+									<TableHead>Ended</TableHead>
+								</TableRow>
+							</TableHeader>
+							<TableBody>
+								{status.history.map((diversion) => (
+									<TableRow key={diversion.diversionId}>
+										<TableCell>{describeScope(diversion)}</TableCell>
+										<TableCell>{diversion.reason}</TableCell>
+										<TableCell>
+											{new Date(diversion.startedAt).toLocaleString()}
+										</TableCell>
+										<TableCell>
+											{diversion.active
+												? "Active"
+												: new Date(
+														diversion.endedAt || diversion.expiresAt
+													).toLocaleString()}
+										</TableCell>
+									</TableRow>
+								))}
+							</TableBody>
+						</Table>
+					)}
+				</CardContent>
+			</Card>
+		</div>
+	);
+};
+
+export default HospitalDiversionPage;
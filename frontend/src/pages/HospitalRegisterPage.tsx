@@ -16,6 +16,7 @@ import {
 	CardHeader,
 	CardTitle,
 } from "@/components/ui/card";
+import VerificationNotice from "@/components/VerificationNotice";
 import { authAPI } from "@/lib/api";
 
 const hospitalRegisterSchema = z
@@ -39,6 +40,12 @@ const hospitalRegisterSchema = z
 		maxCapacity: z
 			.string()
 			.min(1, { message: "Please enter a maximum capacity" }),
+		licenseNumber: z
+			.string()
+			.min(1, { message: "Please enter the hospital license number" }),
+		hospitalType: z
+			.string()
+			.min(1, { message: "Please enter the hospital type" }),
 	})
 	.refine((data) => data.password === data.confirmPassword, {
 		message: "Passwords don't match",
@@ -52,6 +59,9 @@ const HospitalRegisterPage: React.FC = () => {
 	const [loading, setLoading] = useState(false);
 	const [error, setError] = useState<string | null>(null);
 	const [success, setSuccess] = useState(false);
+	const [verificationEmail, setVerificationEmail] = useState<string | null>(
+		null
+	);
 
 	useEffect(() => {
 		// Display error as toast whenever it changes
@@ -63,7 +73,7 @@ const HospitalRegisterPage: React.FC = () => {
 		// Show success toast when registration is successful
 		if (success) {
 			toast.success(
-				"Hospital registration successful! Redirecting to login..."
+				"Hospital registered! An administrator will review it before you receive emergencies. Redirecting to login..."
 			);
 		}
 	}, [error, success]);
@@ -84,6 +94,8 @@ const HospitalRegisterPage: React.FC = () => {
 			latitude: "",
 			longitude: "",
 			maxCapacity: "",
+			licenseNumber: "",
+			hospitalType: "",
 		},
 	});
 
@@ -103,7 +115,14 @@ const HospitalRegisterPage: React.FC = () => {
 				maxCapacity: parseInt(maxCapacity),
 			};
 
-			await authAPI.registerHospital(hospitalData);
+			const response = await authAPI.registerHospital(hospitalData);
+
+			// New accounts verify their email address before they can sign in
+			if (response.data?.data?.emailVerificationRequired) {
+				setVerificationEmail(hospitalData.email);
+				return;
+			}
+
 			setSuccess(true);
 
 			// Redirect to login after 2 seconds
@@ -138,7 +157,9 @@ const HospitalRegisterPage: React.FC = () => {
 					</CardDescription>
 				</CardHeader>
 				<CardContent>
-					{success ? (
+					{verificationEmail ? (
+						<VerificationNotice email={verificationEmail} />
+					) : success ? (
 						<div className="p-4 bg-green-50 border border-green-200 rounded-md text-green-800">
 							<p className="text-center">
 								Registration successful! Redirecting to login...
@@ -241,6 +262,34 @@ const HospitalRegisterPage: React.FC = () => {
 									</p>
 								)}
 							</div>
+							<div className="grid grid-cols-2 gap-4">
+								<div className="space-y-2">
+									<Label htmlFor="licenseNumber">License Number</Label>
+									<Input
+										id="licenseNumber"
+										placeholder="HL-123456"
+										{...register("licenseNumber")}
+									/>
+									{errors.licenseNumber && (
+										<p className="text-sm text-destructive">
+											{errors.licenseNumber.message}
+										</p>
+									)}
+								</div>
+								<div className="space-y-2">
+									<Label htmlFor="hospitalType">Hospital Type</Label>
+									<Input
+										id="hospitalType"
+										placeholder="General"
+										{...register("hospitalType")}
+									/>
+									{errors.hospitalType && (
+										<p className="text-sm text-destructive">
+											{errors.hospitalType.message}
+										</p>
+									)}
+								</div>
+							</div>
 							<div className="space-y-2">
 								<Label htmlFor="password">Password</Label>
 								<Input
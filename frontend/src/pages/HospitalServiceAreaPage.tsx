@@ -0,0 +1,185 @@
+import React, { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { hospitalAPI } from "@/lib/api";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+	HospitalServiceArea,
+	ServiceAreaType,
+	ServiceAreaUpdate,
+} from "@/lib/types";
+
+const BOUNDARY_EXAMPLE = `{
+  "type": "Polygon",
+  "coordinates": [[[77.5, 12.9], [77.7, 12.9], [77.7, 13.1], [77.5, 13.1], [77.5, 12.9]]]
+}`;
+
+const HospitalServiceAreaPage: React.FC = () => {
+	const [area, setArea] = useState<HospitalServiceArea | null>(null);
+	const [type, setType] = useState<ServiceAreaType>("radius");
+	const [radiusKm, setRadiusKm] = useState("");
+	const [boundary, setBoundary] = useState("");
+	const [loading, setLoading] = useState(true);
+	const [saving, setSaving] = useState(false);
+
+	const showArea = (data: HospitalServiceArea) => {
+		setArea(data);
+		setType(data.type);
+		setRadiusKm(data.radiusKm === null ? "" : String(data.radiusKm));
+		setBoundary(data.boundary ? JSON.stringify(data.boundary, null, 2) : "");
+	};
+
+	useEffect(() => {
+		const loadServiceArea = async () => {
+			try {
+				const response = await hospitalAPI.getServiceArea();
+				showArea(response.data.data);
+			} catch (err) {
+				toast.error("Failed to load service area");
+				console.error(err);
+			} finally {
+				setLoading(false);
+			}
+		};
+
+		loadServiceArea();
+	}, []);
+
+	const handleSave = async () => {
+		let update: ServiceAreaUpdate;
+
+		if (type === "radius") {
+			update = { type, radiusKm: Number(radiusKm) };
+		} else {
+			try {
+				update = { type, boundary: JSON.parse(boundary) };
+			} catch {
+				toast.error("The boundary is not valid JSON");
+				return;
+			}
+		}
+
+		setSaving(true);
+		try {
+			const response = await hospitalAPI.updateServiceArea(update);
+			showArea(response.data.data);
+			toast.success("Service area updated");
+		} catch (err: unknown) {
+			let errorMessage = "Failed to update service area";
+			if (err && typeof err === "object" && "response" in err) {
+				const apiError = err as {
+					response?: { data?: { error?: { message?: string } } };
+				};
+				errorMessage = apiError.response?.data?.error?.message || errorMessage;
+			}
+			toast.error(errorMessage);
+		} finally {
+			setSaving(false);
+		}
+	};
+
+	if (loading) {
+		return (
+			<div className="flex h-screen items-center justify-center">
+				<p>Loading...</p>
+			</div>
+		);
+	}
+
+	return (
+		<div className="container py-10">
+			<Card className="w-full max-w-3xl mx-auto">
+				<CardHeader>
+					<CardTitle>Service Area</CardTitle>
+					<CardDescription>
+						Your pending queue lists emergencies picked up inside this area, as
+						well as any offered to you directly.
+					</CardDescription>
+				</CardHeader>
+				<CardContent className="space-y-4">
+					<p className="text-sm text-muted-foreground">
+						{area?.isDefault
+							? `You have not set a service area, so you serve the default ${area.defaultRadiusKm} km around your hospital.`
+							: area?.type === "radius"
+								? `You serve ${area.radiusKm} km around your hospital.`
+								: "You serve the area inside your boundary."}
+					</p>
+
+					<div className="space-y-2">
+						<Label>Area</Label>
+						<div className="flex gap-4 text-sm">
+							<label className="flex items-center gap-2">
+								<input
+									type="radio"
+									checked={type === "radius"}
+									onChange={() => setType("radius")}
+								/>
+								Radius around the hospital
+							</label>
+							<label className="flex items-center gap-2">
+								<input
+									type="radio"
+									checked={type === "polygon"}
+									onChange={() => setType("polygon")}
+								/>
+								Boundary
+							</label>
+						</div>
+					</div>
+
+					{type === "radius" ? (
+						<div className="space-y-2">
+							<Label htmlFor="radiusKm">Radius (km)</Label>
+							<Input
+								id="radiusKm"
+								type="number"
+								min={1}
+								max={area?.maxRadiusKm}
+								placeholder={String(area?.defaultRadiusKm ?? "")}
+								value={radiusKm}
+								onChange={(e) => setRadiusKm(e.target.value)}
+							/>
+							{!area?.location && (
+								<p className="text-sm text-amber-600">
+									Your hospital has no location on record, so a radius
+									matches no emergencies. Draw a boundary instead.
+								</p>
+							)}
+						</div>
+					) : (
+						<div className="space-y-2">
+							<Label htmlFor="boundary">Boundary (GeoJSON Polygon)</Label>
+							<textarea
+								id="boundary"
+								rows={8}
+								className="flex w-full rounded-md border border-input bg-transparent px-3 py-2 font-mono text-xs shadow-sm"
+								placeholder={BOUNDARY_EXAMPLE}
+								value={boundary}
+								onChange={(e) => setBoundary(e.target.value)}
+							/>
+							<p className="text-sm text-muted-foreground">
+								Positions are [longitude, latitude] and the ring must end where
+								it starts. Export a polygon from any mapping tool that produces
+								GeoJSON.
+							</p>
+						</div>
+					)}
+
+					<Button className="w-full" disabled={saving} onClick={handleSave}>
+						{saving ? "Saving..." : "Save Service Area"}
+					</Button>
+				</CardContent>
+			</Card>
+		</div>
+	);
+};
+
+export default HospitalServiceAreaPage;
@@ -23,7 +23,7 @@ const loginSchema = z.object({
 	password: z
 		.string()
 		.min(8, { message: "Password must be at least 8 characters" }),
-	userType: z.enum(["user", "hospital", "driver"], {
+	userType: z.enum(["user", "hospital", "driver", "admin"], {
 		required_error: "Please select a user type",
 	}),
 });
@@ -114,6 +114,14 @@ const LoginPage: React.FC = () => {
 									{errors.password.message}
 								</p>
 							)}
+							<Button
+								type="button"
+								variant="link"
+								className="p-0 h-auto text-sm"
+								onClick={() => navigate("/forgot-password")}
+							>
+								Forgot password?
+							</Button>
 						</div>
 						<div className="space-y-2">
 							<Label htmlFor="userType">I am a</Label>
@@ -125,6 +133,7 @@ const LoginPage: React.FC = () => {
 								<option value="user">Patient</option>
 								<option value="hospital">Hospital</option>
 								<option value="driver">Driver</option>
+								<option value="admin">Administrator</option>
 							</select>
 							{errors.userType && (
 								<p className="text-sm text-destructive">
@@ -138,6 +147,16 @@ const LoginPage: React.FC = () => {
 					</form>
 				</CardContent>
 				<CardFooter className="flex flex-col justify-center gap-2">
+					<p className="text-sm text-center text-muted-foreground">
+						Didn't get the verification email?{" "}
+						<Button
+							variant="link"
+							className="p-0"
+							onClick={() => navigate("/verify-email")}
+						>
+							Resend it
+						</Button>
+					</p>
 					<p className="text-sm text-center text-muted-foreground">
 						Don't have an account?{" "}
 						<Button
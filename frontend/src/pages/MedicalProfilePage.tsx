@@ -0,0 +1,312 @@
+import React, { useEffect, useState } from "react";
+import { useFieldArray, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import * as z from "zod";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import { profileAPI } from "@/lib/api";
+import { BLOOD_GROUPS, BloodGroup, MedicalProfile } from "@/lib/types";
+
+const MAX_EMERGENCY_CONTACTS = 5;
+
+const medicalProfileSchema = z.object({
+	dateOfBirth: z
+		.string()
+		.refine((value) => !value || new Date(value).getTime() <= Date.now(), {
+			message: "Date of birth cannot be in the future",
+		}),
+	bloodGroup: z.string(),
+	allergies: z.string(),
+	chronicConditions: z.string(),
+	currentMedications: z.string(),
+	emergencyContacts: z
+		.array(
+			z.object({
+				name: z.string().min(1, { message: "Name is required" }),
+				relationship: z.string(),
+				phoneNumber: z.string().regex(/^\+?[0-9]{10,15}$/, {
+					message: "Invalid phone number format",
+				}),
+				email: z
+					.string()
+					.email({ message: "Invalid email address" })
+					.or(z.literal("")),
+			})
+		)
+		.max(MAX_EMERGENCY_CONTACTS),
+});
+
+type MedicalProfileFormData = z.infer<typeof medicalProfileSchema>;
+
+// Lists are edited as comma-separated text
+const toList = (value: string) =>
+	value
+		.split(",")
+		.map((entry) => entry.trim())
+		.filter(Boolean);
+
+const toFormData = (profile: MedicalProfile): MedicalProfileFormData => ({
+	dateOfBirth: profile.dateOfBirth || "",
+	bloodGroup: profile.bloodGroup || "",
+	allergies: profile.allergies.join(", "),
+	chronicConditions: profile.chronicConditions.join(", "),
+	currentMedications: profile.currentMedications.join(", "),
+	emergencyContacts: profile.emergencyContacts.map((contact) => ({
+		name: contact.name,
+		relationship: contact.relationship || "",
+		phoneNumber: contact.phoneNumber,
+		email: contact.email || "",
+	})),
+});
+
+const MedicalProfilePage: React.FC = () => {
+	const [loading, setLoading] = useState(true);
+	const [saving, setSaving] = useState(false);
+	const [updatedAt, setUpdatedAt] = useState<string | null>(null);
+
+	const {
+		register,
+		control,
+		handleSubmit,
+		reset,
+		formState: { errors },
+	} = useForm<MedicalProfileFormData>({
+		resolver: zodResolver(medicalProfileSchema),
+		defaultValues: {
+			dateOfBirth: "",
+			bloodGroup: "",
+			allergies: "",
+			chronicConditions: "",
+			currentMedications: "",
+			emergencyContacts: [],
+		},
+	});
+
+	const { fields, append, remove } = useFieldArray({
+		control,
+		name: "emergencyContacts",
+	});
+
+	useEffect(() => {
+		const loadProfile = async () => {
+			try {
+				const response = await profileAPI.getMedicalProfile();
+				const profile: MedicalProfile = response.data.data;
+				reset(toFormData(profile));
+				setUpdatedAt(profile.updatedAt);
+			} catch (err) {
+				toast.error("Failed to load your medical profile");
+				console.error(err);
+			} finally {
+				setLoading(false);
+			}
+		};
+
+		loadProfile();
+	}, [reset]);
+
+	const onSubmit = async (data: MedicalProfileFormData) => {
+		setSaving(true);
+
+		try {
+			const response = await profileAPI.updateMedicalProfile({
+				dateOfBirth: data.dateOfBirth || null,
+				bloodGroup: (data.bloodGroup as BloodGroup) || null,
+				allergies: toList(data.allergies),
+				chronicConditions: toList(data.chronicConditions),
+				currentMedications: toList(data.currentMedications),
+				emergencyContacts: data.emergencyContacts.map((contact) => ({
+					name: contact.name,
+					relationship: contact.relationship || null,
+					phoneNumber: contact.phoneNumber,
+					email: contact.email || null,
+				})),
+			});
+			const profile: MedicalProfile = response.data.data;
+			reset(toFormData(profile));
+			setUpdatedAt(profile.updatedAt);
+			toast.success("Medical profile saved");
+		} catch (err: unknown) {
+			let errorMessage = "Failed to save medical profile";
+			if (err && typeof err === "object" && "response" in err) {
+				const apiError = err as {
+					response?: { data?: { error?: { message?: string } } };
+				};
+				errorMessage = apiError.response?.data?.error?.message || errorMessage;
+			}
+			toast.error(errorMessage);
+		} finally {
+			setSaving(false);
+		}
+	};
+
+	if (loading) {
+		return (
+			<div className="flex h-screen items-center justify-center">
+				<p>Loading...</p>
+			</div>
+		);
+	}
+
+	return (
+		<div className="container py-10">
+			<Card className="w-full max-w-2xl mx-auto">
+				<CardHeader>
+					<CardTitle>Medical Profile</CardTitle>
+					<CardDescription>
+						Shared with the hospital and ambulance crew responding to your
+						emergency requests
+						{updatedAt &&
+							` · Last updated ${new Date(updatedAt).toLocaleString()}`}
+					</CardDescription>
+				</CardHeader>
+				<CardContent>
+					<form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+						<div className="grid grid-cols-2 gap-4">
+							<div className="space-y-2">
+								<Label htmlFor="dateOfBirth">Date of Birth</Label>
+								<Input
+									id="dateOfBirth"
+									type="date"
+									{...register("dateOfBirth")}
+								/>
+								{errors.dateOfBirth && (
+									<p className="text-sm text-destructive">
+										{errors.dateOfBirth.message}
+									</p>
+								)}
+							</div>
+							<div className="space-y-2">
+								<Label htmlFor="bloodGroup">Blood Group</Label>
+								<select
+									id="bloodGroup"
+									className="flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm"
+									{...register("bloodGroup")}
+								>
+									<option value="">Unknown</option>
+									{BLOOD_GROUPS.map((group) => (
+										<option key={group} value={group}>
+											{group}
+										</option>
+									))}
+								</select>
+							</div>
+						</div>
+						<div className="space-y-2">
+							<Label htmlFor="allergies">Allergies</Label>
+							<Input
+								id="allergies"
+								placeholder="Penicillin, peanuts"
+								{...register("allergies")}
+							/>
+						</div>
+						<div className="space-y-2">
+							<Label htmlFor="chronicConditions">Chronic Conditions</Label>
+							<Input
+								id="chronicConditions"
+								placeholder="Asthma, diabetes"
+								{...register("chronicConditions")}
+							/>
+						</div>
+						<div className="space-y-2">
+							<Label htmlFor="currentMedications">Current Medications</Label>
+							<Input
+								id="currentMedications"
+								placeholder="Insulin, salbutamol"
+								{...register("currentMedications")}
+							/>
+						</div>
+
+						<div className="space-y-2">
+							<div className="flex items-center justify-between">
+								<div>
+									<Label>Emergency Contacts</Label>
+									<p className="text-xs text-muted-foreground">
+										Notified when you request an ambulance and as help arrives
+									</p>
+								</div>
+								<Button
+									type="button"
+									variant="outline"
+									size="sm"
+									disabled={fields.length >= MAX_EMERGENCY_CONTACTS}
+									onClick={() =>
+										append({
+											name: "",
+											relationship: "",
+											phoneNumber: "",
+											email: "",
+										})
+									}
+								>
+									Add contact
+								</Button>
+							</div>
+							{fields.length === 0 && (
+								<p className="text-sm text-muted-foreground">
+									No emergency contacts yet
+								</p>
+							)}
+							{fields.map((field, index) => (
+								<div
+									key={field.id}
+									className="grid grid-cols-2 gap-2 p-3 border rounded-md"
+								>
+									<Input
+										placeholder="Name"
+										{...register(`emergencyContacts.${index}.name`)}
+									/>
+									<Input
+										placeholder="Relationship"
+										{...register(`emergencyContacts.${index}.relationship`)}
+									/>
+									<Input
+										placeholder="Phone number"
+										{...register(`emergencyContacts.${index}.phoneNumber`)}
+									/>
+									<Input
+										placeholder="Email (optional)"
+										type="email"
+										{...register(`emergencyContacts.${index}.email`)}
+									/>
+									{errors.emergencyContacts?.[index] && (
+										<p className="col-span-2 text-sm text-destructive">
+											{errors.emergencyContacts[index]?.name?.message ||
+												errors.emergencyContacts[index]?.phoneNumber
+													?.message ||
+												errors.emergencyContacts[index]?.email?.message}
+										</p>
+									)}
+									<Button
+										type="button"
+										variant="link"
+										className="col-span-2 justify-self-start p-0 h-auto text-sm text-destructive"
+										onClick={() => remove(index)}
+									>
+										Remove
+									</Button>
+								</div>
+							))}
+						</div>
+
+						<Button type="submit" className="w-full" disabled={saving}>
+							{saving ? "Saving..." : "Save Profile"}
+						</Button>
+					</form>
+				</CardContent>
+			</Card>
+		</div>
+	);
+};
+
+export default MedicalProfilePage;
@@ -16,6 +16,7 @@ import {
 	CardHeader,
 	CardTitle,
 } from "@/components/ui/card";
+import VerificationNotice from "@/components/VerificationNotice";
 import { authAPI } from "@/lib/api";
 
 const registerSchema = z
@@ -47,6 +48,9 @@ const RegisterPage: React.FC = () => {
 	const [loading, setLoading] = useState(false);
 	const [error, setError] = useState<string | null>(null);
 	const [success, setSuccess] = useState(false);
+	const [verificationEmail, setVerificationEmail] = useState<string | null>(
+		null
+	);
 
 	useEffect(() => {
 		// Display error as toast whenever it changes
@@ -86,7 +90,14 @@ const RegisterPage: React.FC = () => {
 			// eslint-disable-next-line @typescript-eslint/no-unused-vars
 			const { confirmPassword, ...userData } = data;
 
-			await authAPI.register(userData);
+			const response = await authAPI.register(userData);
+
+			// New accounts verify their email address before they can sign in
+			if (response.data?.data?.emailVerificationRequired) {
+				setVerificationEmail(userData.email);
+				return;
+			}
+
 			setSuccess(true);
 
 			// Redirect to login after 2 seconds
@@ -121,7 +132,9 @@ const RegisterPage: React.FC = () => {
 					</CardDescription>
 				</CardHeader>
 				<CardContent>
-					{success ? (
+					{verificationEmail ? (
+						<VerificationNotice email={verificationEmail} />
+					) : success ? (
 						<div className="p-4 bg-green-50 border border-green-200 rounded-md text-green-800">
 							<p className="text-center">
 								Registration successful! Redirecting to login...
@@ -0,0 +1,154 @@
+import React, { useState } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import * as z from "zod";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardFooter,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import { authAPI } from "@/lib/api";
+
+const resetPasswordSchema = z
+	.object({
+		password: z
+			.string()
+			.min(8, { message: "Password must be at least 8 characters" }),
+		confirmPassword: z.string(),
+	})
+	.refine((data) => data.password === data.confirmPassword, {
+		message: "Passwords don't match",
+		path: ["confirmPassword"],
+	});
+
+type ResetPasswordFormData = z.infer<typeof resetPasswordSchema>;
+
+const ResetPasswordPage: React.FC = () => {
+	const navigate = useNavigate();
+	const [searchParams] = useSearchParams();
+	const token = searchParams.get("token");
+	const [loading, setLoading] = useState(false);
+	const [success, setSuccess] = useState(false);
+
+	const {
+		register,
+		handleSubmit,
+		formState: { errors },
+	} = useForm<ResetPasswordFormData>({
+		resolver: zodResolver(resetPasswordSchema),
+		defaultValues: {
+			password: "",
+			confirmPassword: "",
+		},
+	});
+
+	const onSubmit = async (data: ResetPasswordFormData) => {
+		if (!token) {
+			return;
+		}
+		setLoading(true);
+
+		try {
+			await authAPI.resetPassword(token, data.password);
+			setSuccess(true);
+			toast.success("Password reset. Redirecting to login...");
+
+			// Redirect to login after 2 seconds
+			setTimeout(() => {
+				navigate("/login");
+			}, 2000);
+		} catch (err: unknown) {
+			let errorMessage = "Failed to reset password";
+			if (err && typeof err === "object" && "response" in err) {
+				const apiError = err as {
+					response?: { data?: { error?: { message?: string } } };
+				};
+				errorMessage = apiError.response?.data?.error?.message || errorMessage;
+			}
+			toast.error(errorMessage);
+		} finally {
+			setLoading(false);
+		}
+	};
+
+	return (
+		<div className="min-h-screen flex items-center justify-center bg-background">
+			<Card className="w-full max-w-md">
+				<CardHeader>
+					<CardTitle className="text-2xl font-bold text-center">
+						Choose a new password
+					</CardTitle>
+					<CardDescription className="text-center">
+						You will be signed out on every device
+					</CardDescription>
+				</CardHeader>
+				<CardContent>
+					{!token ? (
+						<p className="text-sm text-center text-destructive">
+							This reset link is incomplete. Request a new one below.
+						</p>
+					) : success ? (
+						<div className="p-4 bg-green-50 border border-green-200 rounded-md text-green-800">
+							<p className="text-center">
+								Password reset successfully! Redirecting to login...
+							</p>
+						</div>
+					) : (
+						<form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+							<div className="space-y-2">
+								<Label htmlFor="password">New Password</Label>
+								<Input
+									id="password"
+									type="password"
+									placeholder="••••••••"
+									{...register("password")}
+								/>
+								{errors.password && (
+									<p className="text-sm text-destructive">
+										{errors.password.message}
+									</p>
+								)}
+							</div>
+							<div className="space-y-2">
+								<Label htmlFor="confirmPassword">Confirm Password</Label>
+								<Input
+									id="confirmPassword"
+									type="password"
+									placeholder="••••••••"
+									{...register("confirmPassword")}
+								/>
+								{errors.confirmPassword && (
+									<p className="text-sm text-destructive">
+										{errors.confirmPassword.message}
+									</p>
+								)}
+							</div>
+							<Button type="submit" className="w-full" disabled={loading}>
+								{loading ? "Saving..." : "Reset Password"}
+							</Button>
+						</form>
+					)}
+				</CardContent>
+				<CardFooter className="flex flex-col justify-center gap-2">
+					<Button variant="link" onClick={() => navigate("/forgot-password")}>
+						Request a new link
+					</Button>
+					<Button variant="link" onClick={() => navigate("/login")}>
+						Back to sign in
+					</Button>
+				</CardFooter>
+			</Card>
+		</div>
+	);
+};
+
+export default ResetPasswordPage;
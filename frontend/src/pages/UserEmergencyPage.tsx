@@ -16,12 +16,30 @@ import {
 	TableRow,
 } from "@/components/ui/table";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { toast } from "sonner";
 import NearbyHospitals from "@/components/NearbyHospitals";
 import SOSButton from "@/components/SOSButton";
+import EmergencyChat from "@/components/EmergencyChat";
+import SeverityBadge from "@/components/SeverityBadge";
+import TriageCard from "@/components/TriageCard";
+import {
+	DispatchHistoryEntry,
+	EmergencyCategory,
+	EmergencyTracking,
+	TriageSeverity,
+} from "@/lib/types";
+import {
+	SocketEvents,
+	useEmergencySubscription,
+	useSocketEvents,
+} from "@/lib/socket";
 
 interface EmergencyStatus {
 	requestId: string;
 	status: string;
+	emergencyType: EmergencyCategory;
+	severity: TriageSeverity;
 	createdAt: string;
 	hospital?: {
 		id: string;
@@ -34,8 +52,11 @@ interface EmergencyStatus {
 		name: string;
 		phoneNumber: string;
 		status: string;
-		estimatedArrival: string;
+		estimatedArrival: string | null;
+		etaMinutes: number | null;
 	};
+	dispatchHistory?: DispatchHistoryEntry[];
+	actualArrivalTime: string | null;
 }
 
 interface EmergencyHistoryItem {
@@ -44,6 +65,8 @@ interface EmergencyHistoryItem {
 	hospital: string | null;
 	createdAt: string;
 	completedAt: string | null;
+	estimatedArrivalTime: string | null;
+	actualArrivalTime: string | null;
 }
 
 const UserEmergencyPage: React.FC = () => {
@@ -52,16 +75,99 @@ const UserEmergencyPage: React.FC = () => {
 	const [emergencyHistory, setEmergencyHistory] = useState<
 		EmergencyHistoryItem[]
 	>([]);
+	const [tracking, setTracking] = useState<EmergencyTracking | null>(null);
 	const [loading, setLoading] = useState(true);
 	const [error, setError] = useState<string | null>(null);
+	const [cancelReason, setCancelReason] = useState("");
+	const [cancelling, setCancelling] = useState(false);
+	const [statusLink, setStatusLink] = useState<string | null>(null);
+	const [sharing, setSharing] = useState(false);
 
 	useEffect(() => {
 		loadActiveEmergency();
 		loadEmergencyHistory();
 	}, []);
 
-	const loadActiveEmergency = async () => {
-		setLoading(true);
+	// Refresh whenever the hospital or driver moves the emergency forward
+	useSocketEvents(
+		[
+			SocketEvents.EMERGENCY_ACCEPTED,
+			SocketEvents.EMERGENCY_DRIVER_ASSIGNED,
+			SocketEvents.ASSIGNMENT_STATUS_CHANGED,
+			SocketEvents.EMERGENCY_CANCELLED,
+			SocketEvents.EMERGENCY_REASSIGNED,
+			SocketEvents.EMERGENCY_TRIAGED,
+		],
+		() => {
+			loadActiveEmergency(false);
+			loadEmergencyHistory();
+		}
+	);
+
+	useEmergencySubscription(activeEmergency?.requestId);
+
+	const activeRequestId = activeEmergency?.requestId;
+	const hasDriver = Boolean(activeEmergency?.driver);
+
+	useEffect(() => {
+		if (!activeRequestId || !hasDriver) {
+			setTracking(null);
+			return;
+		}
+
+		emergencyAPI
+			.getEmergencyTracking(activeRequestId)
+			.then((response) => {
+				if (response.data && response.data.success) {
+					setTracking(response.data.data || null);
+				}
+			})
+			.catch((err) => console.error("Error loading ambulance location:", err));
+	}, [activeRequestId, hasDriver]);
+
+	useSocketEvents([SocketEvents.EMERGENCY_ETA_UPDATED], (payload) => {
+		if (payload.requestId !== activeRequestId) {
+			return;
+		}
+
+		setActiveEmergency((prev) =>
+			prev && prev.driver
+				? {
+						...prev,
+						actualArrivalTime: payload.actualArrivalTime as string | null,
+						driver: {
+							...prev.driver,
+							estimatedArrival: payload.estimatedArrivalTime as string | null,
+							etaMinutes: payload.etaMinutes as number | null,
+						},
+					}
+				: prev
+		);
+	});
+
+	// Append live positions to the ambulance trail
+	useSocketEvents([SocketEvents.DRIVER_LOCATION_UPDATED], (payload) => {
+		if (payload.requestId !== activeRequestId) {
+			return;
+		}
+
+		const point = {
+			latitude: payload.latitude as number,
+			longitude: payload.longitude as number,
+			recordedAt: payload.timestamp,
+		};
+
+		setTracking((prev) =>
+			prev
+				? { ...prev, currentLocation: point, trail: [...prev.trail, point] }
+				: prev
+		);
+	});
+
+	const loadActiveEmergency = async (showSpinner = true) => {
+		if (showSpinner) {
+			setLoading(true);
+		}
 		setError(null);
 
 		try {
@@ -72,9 +178,9 @@ const UserEmergencyPage: React.FC = () => {
 			if (historyResponse.data && historyResponse.data.success) {
 				const requests = historyResponse.data.data?.requests || [];
 
-				// Find the first active emergency (status is pending, accepted, or assigned)
+				// Find the first active emergency (not yet completed or cancelled)
 				const active = requests.find((req: EmergencyHistoryItem) =>
-					["pending", "accepted", "assigned"].includes(req.status)
+					["pending", "accepted", "assigned", "in_progress"].includes(req.status)
 				);
 
 				if (active) {
@@ -86,6 +192,8 @@ const UserEmergencyPage: React.FC = () => {
 					if (statusResponse.data && statusResponse.data.success) {
 						setActiveEmergency(statusResponse.data.data || null);
 					}
+				} else {
+					setActiveEmergency(null);
 				}
 			}
 		} catch (err) {
@@ -121,6 +229,8 @@ const UserEmergencyPage: React.FC = () => {
 				return "bg-blue-100 text-blue-800";
 			case "assigned":
 				return "bg-purple-100 text-purple-800";
+			case "in_progress":
+				return "bg-indigo-100 text-indigo-800";
 			case "completed":
 				return "bg-green-100 text-green-800";
 			case "cancelled":
@@ -136,6 +246,65 @@ const UserEmergencyPage: React.FC = () => {
 		await loadEmergencyHistory();
 	};
 
+	const handleCancelEmergency = async () => {
+		if (!activeEmergency) {
+			return;
+		}
+
+		setCancelling(true);
+		try {
+			const response = await emergencyAPI.cancelEmergency(
+				activeEmergency.requestId,
+				cancelReason.trim() || undefined
+			);
+			toast.success(response.data.message || "Emergency request cancelled");
+			setCancelReason("");
+			await loadActiveEmergency(false);
+			await loadEmergencyHistory();
+		} catch (err: unknown) {
+			let errorMessage = "Failed to cancel emergency request";
+			if (err && typeof err === "object" && "response" in err) {
+				const apiError = err as {
+					response?: { data?: { error?: { message?: string } } };
+				};
+				errorMessage = apiError.response?.data?.error?.message || errorMessage;
+			}
+			toast.error(errorMessage);
+		} finally {
+			setCancelling(false);
+		}
+	};
+
+	const handleShareStatusLink = async () => {
+		if (!activeEmergency) {
+			return;
+		}
+
+		setSharing(true);
+		try {
+			const response = await emergencyAPI.createStatusLink(
+				activeEmergency.requestId
+			);
+			const url: string = response.data.data.url;
+			setStatusLink(url);
+			await navigator.clipboard
+				.writeText(url)
+				.then(() => toast.success("Status link copied"))
+				.catch(() => toast.success("Status link created"));
+		} catch (err: unknown) {
+			let errorMessage = "Failed to create status link";
+			if (err && typeof err === "object" && "response" in err) {
+				const apiError = err as {
+					response?: { data?: { error?: { message?: string } } };
+				};
+				errorMessage = apiError.response?.data?.error?.message || errorMessage;
+			}
+			toast.error(errorMessage);
+		} finally {
+			setSharing(false);
+		}
+	};
+
 	if (loading) {
 		return (
 			<div className="container py-8">Loading emergency information...</div>
@@ -146,7 +315,7 @@ const UserEmergencyPage: React.FC = () => {
 		return (
 			<div className="container py-8">
 				<div className="text-red-500 mb-4">{error}</div>
-				<Button onClick={loadActiveEmergency}>Retry</Button>
+				<Button onClick={() => loadActiveEmergency()}>Retry</Button>
 			</div>
 		);
 	}
@@ -156,7 +325,11 @@ const UserEmergencyPage: React.FC = () => {
 			<div className="flex justify-between items-center">
 				<h1 className="text-3xl font-bold">Emergency Services</h1>
 				{!activeEmergency && (
-					<SOSButton onSuccess={handleEmergencyCreated} className="mr-4" />
+					<SOSButton
+						onSuccess={handleEmergencyCreated}
+						onCancel={handleEmergencyCreated}
+						className="mr-4"
+					/>
 				)}
 			</div>
 
@@ -184,12 +357,20 @@ const UserEmergencyPage: React.FC = () => {
 													activeEmergency.status
 												)}`}
 											>
-												{activeEmergency.status.toUpperCase()}
+												{activeEmergency.status.replace(/_/g, " ").toUpperCase()}
 											</span>
 										</p>
 									</div>
 								</div>
 
+								<div>
+									<p className="text-sm font-medium">Severity</p>
+									<p className="text-sm">
+										<SeverityBadge severity={activeEmergency.severity} />{" "}
+										{activeEmergency.emergencyType.replace(/_/g, " ")}
+									</p>
+								</div>
+
 								<div>
 									<p className="text-sm font-medium">Created At</p>
 									<p className="text-sm">
@@ -214,6 +395,22 @@ const UserEmergencyPage: React.FC = () => {
 									</div>
 								)}
 
+								{activeEmergency.dispatchHistory &&
+									activeEmergency.dispatchHistory.length > 0 && (
+										<div>
+											<p className="text-sm font-medium">Dispatch History</p>
+											<ul className="text-sm space-y-1">
+												{activeEmergency.dispatchHistory.map((entry, index) => (
+													<li key={index}>
+														{entry.hospitalName}: {entry.status}
+														{entry.declineReason &&
+															` (${entry.declineReason.replace(/_/g, " ")})`}
+													</li>
+												))}
+											</ul>
+										</div>
+									)}
+
 								{activeEmergency.driver && (
 									<div>
 										<p className="text-sm font-medium">Driver Information</p>
@@ -225,19 +422,108 @@ const UserEmergencyPage: React.FC = () => {
 												Phone: {activeEmergency.driver.phoneNumber}
 											</p>
 											<p className="text-sm">
-												Status: {activeEmergency.driver.status}
+												Status: {activeEmergency.driver.status.replace(/_/g, " ")}
 											</p>
 											<p className="text-sm">
-												Estimated Arrival:{" "}
-												{activeEmergency.driver.estimatedArrival}
+												{activeEmergency.actualArrivalTime
+													? `Arrived: ${formatDate(activeEmergency.actualArrivalTime)}`
+													: activeEmergency.driver.estimatedArrival
+														? `Estimated Arrival: ${activeEmergency.driver.etaMinutes} min (${formatDate(
+																activeEmergency.driver.estimatedArrival
+															)})`
+														: "Estimated Arrival: waiting for driver location"}
 											</p>
+											{tracking?.currentLocation && (
+												<p className="text-sm">
+													Ambulance location:{" "}
+													<a
+														href={`https://www.google.com/maps?q=${tracking.currentLocation.latitude},${tracking.currentLocation.longitude}`}
+														target="_blank"
+														rel="noopener noreferrer"
+														className="text-blue-600 underline"
+													>
+														{tracking.currentLocation.latitude.toFixed(5)},{" "}
+														{tracking.currentLocation.longitude.toFixed(5)}
+													</a>{" "}
+													<span className="text-xs text-gray-500">
+														(updated{" "}
+														{formatDate(tracking.currentLocation.recordedAt)},{" "}
+														{tracking.trail.length} positions recorded)
+													</span>
+												</p>
+											)}
 										</div>
 									</div>
 								)}
+
+								<div className="border-t pt-4 space-y-2">
+									<p className="text-sm text-muted-foreground">
+										Your emergency contacts are sent a status link
+										automatically. Share one with anyone else who should
+										follow along.
+									</p>
+									<Button
+										variant="outline"
+										onClick={handleShareStatusLink}
+										disabled={sharing}
+									>
+										{sharing ? "Creating link..." : "Share Status Link"}
+									</Button>
+									{statusLink && (
+										<Input
+											readOnly
+											value={statusLink}
+											onFocus={(e) => e.target.select()}
+										/>
+									)}
+								</div>
+
+								<div className="border-t pt-4 space-y-2">
+									{activeEmergency.actualArrivalTime && (
+										<Input
+											placeholder="Reason for cancelling (required once the ambulance has arrived)"
+											value={cancelReason}
+											onChange={(e) => setCancelReason(e.target.value)}
+										/>
+									)}
+									<Button
+										variant="outline"
+										onClick={handleCancelEmergency}
+										disabled={
+											cancelling ||
+											Boolean(
+												activeEmergency.actualArrivalTime && !cancelReason.trim()
+											)
+										}
+									>
+										{cancelling ? "Cancelling..." : "Cancel Request"}
+									</Button>
+								</div>
 							</div>
 						</CardContent>
 					</Card>
 
+					<TriageCard
+						requestId={activeEmergency.requestId}
+						emergencyType={activeEmergency.emergencyType}
+						severity={activeEmergency.severity}
+						onUpdated={() => loadActiveEmergency(false)}
+					/>
+
+					{activeEmergency.hospital && (
+						<Card>
+							<CardHeader>
+								<CardTitle>Chat</CardTitle>
+								<CardDescription>
+									Message the hospital and your ambulance driver
+								</CardDescription>
+							</CardHeader>
+							<CardContent>
+								<EmergencyChat requestId={activeEmergency.requestId} />
+							</CardContent>
+						</Card>
+					)}
+
 					{/* Nearby Hospitals Component */}
 					<NearbyHospitals
 						emergencyId={activeEmergency.requestId}
@@ -283,6 +569,8 @@ const UserEmergencyPage: React.FC = () => {
 									<TableHead>Status</TableHead>
 									<TableHead>Hospital</TableHead>
 									<TableHead>Created At</TableHead>
+									<TableHead>Predicted Arrival</TableHead>
+									<TableHead>Actual Arrival</TableHead>
 								</TableRow>
 							</TableHeader>
 							<TableBody>
@@ -300,6 +588,16 @@ const UserEmergencyPage: React.FC = () => {
 										</TableCell>
 										<TableCell>{emergency.hospital || "N/A"}</TableCell>
 										<TableCell>{formatDate(emergency.createdAt)}</TableCell>
+										<TableCell>
+											{emergency.estimatedArrivalTime
+												? formatDate(emergency.estimatedArrivalTime)
+												: "N/A"}
+										</TableCell>
+										<TableCell>
+											{emergency.actualArrivalTime
+												? formatDate(emergency.actualArrivalTime)
+												: "N/A"}
+										</TableCell>
 									</TableRow>
 								))}
 							</TableBody>
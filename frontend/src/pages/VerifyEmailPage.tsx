@@ -0,0 +1,181 @@
+import React, { useEffect, useRef, useState } from "react";
+import { useLocation, useNavigate, useSearchParams } from "react-router-dom";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import * as z from "zod";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardFooter,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import { authAPI } from "@/lib/api";
+
+const resendSchema = z.object({
+	email: z.string().email({ message: "Please enter a valid email address" }),
+});
+
+type ResendFormData = z.infer<typeof resendSchema>;
+
+type VerificationStatus = "idle" | "verifying" | "verified" | "failed";
+
+const VerifyEmailPage: React.FC = () => {
+	const navigate = useNavigate();
+	const location = useLocation();
+	const [searchParams] = useSearchParams();
+	const token = searchParams.get("token");
+	const [status, setStatus] = useState<VerificationStatus>(
+		token ? "verifying" : "idle"
+	);
+	const [failureMessage, setFailureMessage] = useState<string | null>(null);
+	const [sending, setSending] = useState(false);
+	const [sentMessage, setSentMessage] = useState<string | null>(null);
+	// Verification links are single use, so the request must not be repeated on re-render
+	const verificationRequested = useRef(false);
+
+	const {
+		register,
+		handleSubmit,
+		formState: { errors },
+	} = useForm<ResendFormData>({
+		resolver: zodResolver(resendSchema),
+		defaultValues: {
+			email: (location.state as { email?: string } | null)?.email || "",
+		},
+	});
+
+	useEffect(() => {
+		if (!token || verificationRequested.current) {
+			return;
+		}
+		verificationRequested.current = true;
+
+		authAPI
+			.verifyEmail(token)
+			.then(() => {
+				setStatus("verified");
+				toast.success("Email verified. You can now sign in.");
+			})
+			.catch((err: unknown) => {
+				let errorMessage = "Failed to verify email";
+				if (err && typeof err === "object" && "response" in err) {
+					const apiError = err as {
+						response?: { data?: { error?: { message?: string } } };
+					};
+					errorMessage = apiError.response?.data?.error?.message || errorMessage;
+				}
+				setFailureMessage(errorMessage);
+				setStatus("failed");
+			});
+	}, [token]);
+
+	const onResend = async (data: ResendFormData) => {
+		setSending(true);
+
+		try {
+			const response = await authAPI.resendVerificationEmail(data.email);
+			setSentMessage(response.data.message);
+		} catch (err: unknown) {
+			let errorMessage = "Failed to send verification email";
+			if (err && typeof err === "object" && "response" in err) {
+				const apiError = err as {
+					response?: { data?: { error?: { message?: string } } };
+				};
+				errorMessage = apiError.response?.data?.error?.message || errorMessage;
+			}
+			toast.error(errorMessage);
+		} finally {
+			setSending(false);
+		}
+	};
+
+	const renderResendForm = () =>
+		sentMessage ? (
+			<div className="p-4 bg-green-50 border border-green-200 rounded-md text-green-800">
+				<p className="text-center">{sentMessage}</p>
+			</div>
+		) : (
+			<form onSubmit={handleSubmit(onResend)} className="space-y-4">
+				<div className="space-y-2">
+					<Label htmlFor="email">Email</Label>
+					<Input
+						id="email"
+						type="email"
+						placeholder="name@example.com"
+						{...register("email")}
+					/>
+					{errors.email && (
+						<p className="text-sm text-destructive">{errors.email.message}</p>
+					)}
+				</div>
+				<Button type="submit" className="w-full" disabled={sending}>
+					{sending ? "Sending..." : "Send a new link"}
+				</Button>
+			</form>
+		);
+
+	return (
+		<div className="min-h-screen flex items-center justify-center bg-background">
+			<Card className="w-full max-w-md">
+				<CardHeader>
+					<CardTitle className="text-2xl font-bold text-center">
+						Verify your email
+					</CardTitle>
+					<CardDescription className="text-center">
+						Confirm your email address to activate your account
+					</CardDescription>
+				</CardHeader>
+				<CardContent className="space-y-4">
+					{status === "verifying" && (
+						<p className="text-center text-muted-foreground">
+							Verifying your email address...
+						</p>
+					)}
+					{status === "verified" && (
+						<div className="space-y-4">
+							<div className="p-4 bg-green-50 border border-green-200 rounded-md text-green-800">
+								<p className="text-center">
+									Your email address is verified. You can now sign in.
+								</p>
+							</div>
+							<Button className="w-full" onClick={() => navigate("/login")}>
+								Go to sign in
+							</Button>
+						</div>
+					)}
+					{status === "failed" && (
+						<>
+							<p className="text-sm text-center text-destructive">
+								{failureMessage}. Enter your email address to get a new link.
+							</p>
+							{renderResendForm()}
+						</>
+					)}
+					{status === "idle" && (
+						<>
+							<p className="text-sm text-center text-muted-foreground">
+								Didn't get the verification email? Enter your email address
+								and we will send a new link.
+							</p>
+							{renderResendForm()}
+						</>
+					)}
+				</CardContent>
+				<CardFooter className="flex justify-center">
+					<Button variant="link" onClick={() => navigate("/login")}>
+						Back to sign in
+					</Button>
+				</CardFooter>
+			</Card>
+		</div>
+	);
+};
+
+export default VerifyEmailPage;
@@ -3,6 +3,10 @@ declare module "sonner" {
 		duration?: number;
 		className?: string;
 		style?: React.CSSProperties;
+		action?: {
+			label: string;
+			onClick: () => void;
+		};
 	}
 
 	interface ToasterProps {